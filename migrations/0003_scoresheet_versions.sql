@@ -0,0 +1,26 @@
+-- Migration number: 0003 	 2026-10-19
+-- Scoresheet template versions
+
+-- Every saved edit of a template is kept as an immutable version.
+-- scoresheets.structure keeps a copy of the latest version.
+CREATE TABLE scoresheet_versions (
+  scoresheet_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  structure JSON NOT NULL,
+  created_by TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (scoresheet_id) REFERENCES scoresheets(id),
+  FOREIGN KEY (created_by) REFERENCES users(id),
+  PRIMARY KEY (scoresheet_id, version)
+);
+
+ALTER TABLE scoresheets ADD COLUMN current_version INTEGER NOT NULL DEFAULT 1;
+
+-- Sessions are pinned to the template version they were created with
+ALTER TABLE game_sessions ADD COLUMN scoresheet_version INTEGER;
+
+-- Existing templates become their first version
+INSERT INTO scoresheet_versions (scoresheet_id, version, structure, created_by, created_at)
+SELECT id, 1, structure, created_by, created_at FROM scoresheets;
+
+UPDATE game_sessions SET scoresheet_version = 1 WHERE scoresheet_id IS NOT NULL;
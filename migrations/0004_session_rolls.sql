@@ -0,0 +1,20 @@
+-- Migration number: 0004 	 2026-10-19
+-- Roll log of dice fields
+
+-- Every roll of a dice field in a session. Rolls are reproducible from
+-- their notation and seed; the dice are stored for display.
+CREATE TABLE session_rolls (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  player_name TEXT NOT NULL,
+  field_id TEXT NOT NULL,
+  notation TEXT NOT NULL,
+  dice JSON NOT NULL,
+  modifier INTEGER NOT NULL DEFAULT 0,
+  total INTEGER NOT NULL,
+  seed INTEGER NOT NULL,
+  rolled_at TIMESTAMP NOT NULL,
+  FOREIGN KEY (session_id) REFERENCES game_sessions(id)
+);
+
+CREATE INDEX idx_session_rolls_session_id ON session_rolls(session_id, rolled_at);
@@ -0,0 +1,18 @@
+-- Migration number: 0005 	 2026-10-19
+-- Change log of tracker fields
+
+-- Append-only: every change of a tracker field in a session, with the
+-- value before and after and an optional note
+CREATE TABLE session_tracker_log (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  player_name TEXT NOT NULL,
+  field_id TEXT NOT NULL,
+  previous_value FLOAT NOT NULL,
+  new_value FLOAT NOT NULL,
+  note TEXT,
+  changed_at TIMESTAMP NOT NULL,
+  FOREIGN KEY (session_id) REFERENCES game_sessions(id)
+);
+
+CREATE INDEX idx_session_tracker_log_session_id ON session_tracker_log(session_id, changed_at);
@@ -0,0 +1,22 @@
+-- Migration number: 0006 	 2026-10-19
+-- Edit history of session values
+
+-- Append-only: every change of an entered value in a session. Values are
+-- stored as JSON. Undo and redo are changes of their own, with target_id
+-- pointing at the change they revert or repeat.
+CREATE TABLE session_value_changes (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  player_name TEXT NOT NULL,
+  field_id TEXT NOT NULL,
+  round INTEGER,
+  previous_value TEXT,
+  new_value TEXT,
+  action TEXT NOT NULL DEFAULT 'edit',
+  target_id TEXT,
+  editor TEXT NOT NULL,
+  changed_at TIMESTAMP NOT NULL,
+  FOREIGN KEY (session_id) REFERENCES game_sessions(id)
+);
+
+CREATE INDEX idx_session_value_changes_session_id ON session_value_changes(session_id, changed_at);
@@ -0,0 +1,111 @@
+-- Migration number: 0007 	 2026-10-19
+-- Official scoresheet template library
+
+-- Generated with npm run --silent seed:templates; the same statements keep
+-- the library up to date later on. Templates are marked is_official and
+-- start at version 1.
+
+INSERT INTO games (id, name, min_players, max_players, category, is_official)
+SELECT 'yahtzee', 'Yahtzee', 1, 10, 'Dice', TRUE
+WHERE NOT EXISTS (SELECT 1 FROM games WHERE id = 'yahtzee' OR name = 'Yahtzee');
+
+INSERT INTO scoresheets (id, game_id, name, structure, is_official, current_version)
+SELECT 'official-yahtzee', (SELECT id FROM games WHERE id = 'yahtzee' OR name = 'Yahtzee' ORDER BY id = 'yahtzee' DESC LIMIT 1), 'Yahtzee', '{}', TRUE, 0
+WHERE NOT EXISTS (SELECT 1 FROM scoresheets WHERE id = 'official-yahtzee');
+
+INSERT INTO scoresheet_versions (scoresheet_id, version, structure)
+SELECT id, current_version + 1, '{"subcategories":[{"id":"upper","name":"Upper Section","fields":[{"id":"ones","name":"Ones","type":"number","defaultValue":0,"min":0,"max":5},{"id":"twos","name":"Twos","type":"number","defaultValue":0,"min":0,"max":10,"validation":[{"type":"check","formula":"twos % 2 == 0","message":"Twos scores a multiple of 2"}]},{"id":"threes","name":"Threes","type":"number","defaultValue":0,"min":0,"max":15,"validation":[{"type":"check","formula":"threes % 3 == 0","message":"Threes scores a multiple of 3"}]},{"id":"fours","name":"Fours","type":"number","defaultValue":0,"min":0,"max":20,"validation":[{"type":"check","formula":"fours % 4 == 0","message":"Fours scores a multiple of 4"}]},{"id":"fives","name":"Fives","type":"number","defaultValue":0,"min":0,"max":25,"validation":[{"type":"check","formula":"fives % 5 == 0","message":"Fives scores a multiple of 5"}]},{"id":"sixes","name":"Sixes","type":"number","defaultValue":0,"min":0,"max":30,"validation":[{"type":"check","formula":"sixes % 6 == 0","message":"Sixes scores a multiple of 6"}]},{"id":"upper_subtotal","name":"Upper Subtotal","type":"calculation","formula":"ones + twos + threes + fours + fives + sixes"},{"id":"upper_bonus","name":"Upper Bonus","type":"calculation","formula":"if(upper_subtotal >= 63, 35, 0)"}]},{"id":"lower","name":"Lower Section","fields":[{"id":"three_of_a_kind","name":"Three of a Kind","type":"number","defaultValue":0,"min":0,"max":30},{"id":"four_of_a_kind","name":"Four of a Kind","type":"number","defaultValue":0,"min":0,"max":30},{"id":"full_house","name":"Full House","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"full_house == 0 || full_house == 25","message":"Full House scores 0 or 25"}]},{"id":"small_straight","name":"Small Straight","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"small_straight == 0 || small_straight == 30","message":"Small Straight scores 0 or 30"}]},{"id":"large_straight","name":"Large Straight","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"large_straight == 0 || large_straight == 40","message":"Large Straight scores 0 or 40"}]},{"id":"yahtzee","name":"Yahtzee","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"yahtzee == 0 || yahtzee == 50","message":"Yahtzee scores 0 or 50"}]},{"id":"chance","name":"Chance","type":"number","defaultValue":0,"min":0,"max":30},{"id":"yahtzee_bonus_count","name":"Extra Yahtzees","type":"number","defaultValue":0,"min":0,"max":12,"visibleWhen":"yahtzee == 50"},{"id":"yahtzee_bonus","name":"Yahtzee Bonus","type":"calculation","formula":"if(yahtzee == 50, yahtzee_bonus_count * 100, 0)"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Grand Total","type":"calculation","formula":"upper_subtotal + upper_bonus + three_of_a_kind + four_of_a_kind + full_house + small_straight + large_straight + yahtzee + chance + yahtzee_bonus"}]}]}' FROM scoresheets
+WHERE id = 'official-yahtzee' AND structure <> '{"subcategories":[{"id":"upper","name":"Upper Section","fields":[{"id":"ones","name":"Ones","type":"number","defaultValue":0,"min":0,"max":5},{"id":"twos","name":"Twos","type":"number","defaultValue":0,"min":0,"max":10,"validation":[{"type":"check","formula":"twos % 2 == 0","message":"Twos scores a multiple of 2"}]},{"id":"threes","name":"Threes","type":"number","defaultValue":0,"min":0,"max":15,"validation":[{"type":"check","formula":"threes % 3 == 0","message":"Threes scores a multiple of 3"}]},{"id":"fours","name":"Fours","type":"number","defaultValue":0,"min":0,"max":20,"validation":[{"type":"check","formula":"fours % 4 == 0","message":"Fours scores a multiple of 4"}]},{"id":"fives","name":"Fives","type":"number","defaultValue":0,"min":0,"max":25,"validation":[{"type":"check","formula":"fives % 5 == 0","message":"Fives scores a multiple of 5"}]},{"id":"sixes","name":"Sixes","type":"number","defaultValue":0,"min":0,"max":30,"validation":[{"type":"check","formula":"sixes % 6 == 0","message":"Sixes scores a multiple of 6"}]},{"id":"upper_subtotal","name":"Upper Subtotal","type":"calculation","formula":"ones + twos + threes + fours + fives + sixes"},{"id":"upper_bonus","name":"Upper Bonus","type":"calculation","formula":"if(upper_subtotal >= 63, 35, 0)"}]},{"id":"lower","name":"Lower Section","fields":[{"id":"three_of_a_kind","name":"Three of a Kind","type":"number","defaultValue":0,"min":0,"max":30},{"id":"four_of_a_kind","name":"Four of a Kind","type":"number","defaultValue":0,"min":0,"max":30},{"id":"full_house","name":"Full House","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"full_house == 0 || full_house == 25","message":"Full House scores 0 or 25"}]},{"id":"small_straight","name":"Small Straight","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"small_straight == 0 || small_straight == 30","message":"Small Straight scores 0 or 30"}]},{"id":"large_straight","name":"Large Straight","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"large_straight == 0 || large_straight == 40","message":"Large Straight scores 0 or 40"}]},{"id":"yahtzee","name":"Yahtzee","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"yahtzee == 0 || yahtzee == 50","message":"Yahtzee scores 0 or 50"}]},{"id":"chance","name":"Chance","type":"number","defaultValue":0,"min":0,"max":30},{"id":"yahtzee_bonus_count","name":"Extra Yahtzees","type":"number","defaultValue":0,"min":0,"max":12,"visibleWhen":"yahtzee == 50"},{"id":"yahtzee_bonus","name":"Yahtzee Bonus","type":"calculation","formula":"if(yahtzee == 50, yahtzee_bonus_count * 100, 0)"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Grand Total","type":"calculation","formula":"upper_subtotal + upper_bonus + three_of_a_kind + four_of_a_kind + full_house + small_straight + large_straight + yahtzee + chance + yahtzee_bonus"}]}]}';
+
+UPDATE scoresheets SET structure = '{"subcategories":[{"id":"upper","name":"Upper Section","fields":[{"id":"ones","name":"Ones","type":"number","defaultValue":0,"min":0,"max":5},{"id":"twos","name":"Twos","type":"number","defaultValue":0,"min":0,"max":10,"validation":[{"type":"check","formula":"twos % 2 == 0","message":"Twos scores a multiple of 2"}]},{"id":"threes","name":"Threes","type":"number","defaultValue":0,"min":0,"max":15,"validation":[{"type":"check","formula":"threes % 3 == 0","message":"Threes scores a multiple of 3"}]},{"id":"fours","name":"Fours","type":"number","defaultValue":0,"min":0,"max":20,"validation":[{"type":"check","formula":"fours % 4 == 0","message":"Fours scores a multiple of 4"}]},{"id":"fives","name":"Fives","type":"number","defaultValue":0,"min":0,"max":25,"validation":[{"type":"check","formula":"fives % 5 == 0","message":"Fives scores a multiple of 5"}]},{"id":"sixes","name":"Sixes","type":"number","defaultValue":0,"min":0,"max":30,"validation":[{"type":"check","formula":"sixes % 6 == 0","message":"Sixes scores a multiple of 6"}]},{"id":"upper_subtotal","name":"Upper Subtotal","type":"calculation","formula":"ones + twos + threes + fours + fives + sixes"},{"id":"upper_bonus","name":"Upper Bonus","type":"calculation","formula":"if(upper_subtotal >= 63, 35, 0)"}]},{"id":"lower","name":"Lower Section","fields":[{"id":"three_of_a_kind","name":"Three of a Kind","type":"number","defaultValue":0,"min":0,"max":30},{"id":"four_of_a_kind","name":"Four of a Kind","type":"number","defaultValue":0,"min":0,"max":30},{"id":"full_house","name":"Full House","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"full_house == 0 || full_house == 25","message":"Full House scores 0 or 25"}]},{"id":"small_straight","name":"Small Straight","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"small_straight == 0 || small_straight == 30","message":"Small Straight scores 0 or 30"}]},{"id":"large_straight","name":"Large Straight","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"large_straight == 0 || large_straight == 40","message":"Large Straight scores 0 or 40"}]},{"id":"yahtzee","name":"Yahtzee","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"yahtzee == 0 || yahtzee == 50","message":"Yahtzee scores 0 or 50"}]},{"id":"chance","name":"Chance","type":"number","defaultValue":0,"min":0,"max":30},{"id":"yahtzee_bonus_count","name":"Extra Yahtzees","type":"number","defaultValue":0,"min":0,"max":12,"visibleWhen":"yahtzee == 50"},{"id":"yahtzee_bonus","name":"Yahtzee Bonus","type":"calculation","formula":"if(yahtzee == 50, yahtzee_bonus_count * 100, 0)"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Grand Total","type":"calculation","formula":"upper_subtotal + upper_bonus + three_of_a_kind + four_of_a_kind + full_house + small_straight + large_straight + yahtzee + chance + yahtzee_bonus"}]}]}', current_version = current_version + 1, name = 'Yahtzee', is_official = TRUE
+WHERE id = 'official-yahtzee' AND structure <> '{"subcategories":[{"id":"upper","name":"Upper Section","fields":[{"id":"ones","name":"Ones","type":"number","defaultValue":0,"min":0,"max":5},{"id":"twos","name":"Twos","type":"number","defaultValue":0,"min":0,"max":10,"validation":[{"type":"check","formula":"twos % 2 == 0","message":"Twos scores a multiple of 2"}]},{"id":"threes","name":"Threes","type":"number","defaultValue":0,"min":0,"max":15,"validation":[{"type":"check","formula":"threes % 3 == 0","message":"Threes scores a multiple of 3"}]},{"id":"fours","name":"Fours","type":"number","defaultValue":0,"min":0,"max":20,"validation":[{"type":"check","formula":"fours % 4 == 0","message":"Fours scores a multiple of 4"}]},{"id":"fives","name":"Fives","type":"number","defaultValue":0,"min":0,"max":25,"validation":[{"type":"check","formula":"fives % 5 == 0","message":"Fives scores a multiple of 5"}]},{"id":"sixes","name":"Sixes","type":"number","defaultValue":0,"min":0,"max":30,"validation":[{"type":"check","formula":"sixes % 6 == 0","message":"Sixes scores a multiple of 6"}]},{"id":"upper_subtotal","name":"Upper Subtotal","type":"calculation","formula":"ones + twos + threes + fours + fives + sixes"},{"id":"upper_bonus","name":"Upper Bonus","type":"calculation","formula":"if(upper_subtotal >= 63, 35, 0)"}]},{"id":"lower","name":"Lower Section","fields":[{"id":"three_of_a_kind","name":"Three of a Kind","type":"number","defaultValue":0,"min":0,"max":30},{"id":"four_of_a_kind","name":"Four of a Kind","type":"number","defaultValue":0,"min":0,"max":30},{"id":"full_house","name":"Full House","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"full_house == 0 || full_house == 25","message":"Full House scores 0 or 25"}]},{"id":"small_straight","name":"Small Straight","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"small_straight == 0 || small_straight == 30","message":"Small Straight scores 0 or 30"}]},{"id":"large_straight","name":"Large Straight","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"large_straight == 0 || large_straight == 40","message":"Large Straight scores 0 or 40"}]},{"id":"yahtzee","name":"Yahtzee","type":"number","defaultValue":0,"validation":[{"type":"check","formula":"yahtzee == 0 || yahtzee == 50","message":"Yahtzee scores 0 or 50"}]},{"id":"chance","name":"Chance","type":"number","defaultValue":0,"min":0,"max":30},{"id":"yahtzee_bonus_count","name":"Extra Yahtzees","type":"number","defaultValue":0,"min":0,"max":12,"visibleWhen":"yahtzee == 50"},{"id":"yahtzee_bonus","name":"Yahtzee Bonus","type":"calculation","formula":"if(yahtzee == 50, yahtzee_bonus_count * 100, 0)"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Grand Total","type":"calculation","formula":"upper_subtotal + upper_bonus + three_of_a_kind + four_of_a_kind + full_house + small_straight + large_straight + yahtzee + chance + yahtzee_bonus"}]}]}';
+
+INSERT INTO games (id, name, min_players, max_players, category, is_official)
+SELECT 'catan', 'Catan', 3, 4, 'Strategy', TRUE
+WHERE NOT EXISTS (SELECT 1 FROM games WHERE id = 'catan' OR name = 'Catan');
+
+INSERT INTO scoresheets (id, game_id, name, structure, is_official, current_version)
+SELECT 'official-catan', (SELECT id FROM games WHERE id = 'catan' OR name = 'Catan' ORDER BY id = 'catan' DESC LIMIT 1), 'Catan', '{}', TRUE, 0
+WHERE NOT EXISTS (SELECT 1 FROM scoresheets WHERE id = 'official-catan');
+
+INSERT INTO scoresheet_versions (scoresheet_id, version, structure)
+SELECT id, current_version + 1, '{"subcategories":[{"id":"buildings","name":"Buildings","fields":[{"id":"settlements","name":"Settlements","type":"number","defaultValue":2,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]},{"id":"cities","name":"Cities","type":"number","defaultValue":0,"min":0,"max":4,"validation":[{"type":"range","min":0,"max":4}]}]},{"id":"special","name":"Special Cards","fields":[{"id":"longest_road","name":"Longest Road","type":"checkbox","defaultValue":false},{"id":"largest_army","name":"Largest Army","type":"checkbox","defaultValue":false},{"id":"victory_point_cards","name":"Victory Point Cards","type":"number","defaultValue":0,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Victory Points","type":"calculation","formula":"settlements + cities * 2 + if(longest_road, 2, 0) + if(largest_army, 2, 0) + victory_point_cards"}]}]}' FROM scoresheets
+WHERE id = 'official-catan' AND structure <> '{"subcategories":[{"id":"buildings","name":"Buildings","fields":[{"id":"settlements","name":"Settlements","type":"number","defaultValue":2,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]},{"id":"cities","name":"Cities","type":"number","defaultValue":0,"min":0,"max":4,"validation":[{"type":"range","min":0,"max":4}]}]},{"id":"special","name":"Special Cards","fields":[{"id":"longest_road","name":"Longest Road","type":"checkbox","defaultValue":false},{"id":"largest_army","name":"Largest Army","type":"checkbox","defaultValue":false},{"id":"victory_point_cards","name":"Victory Point Cards","type":"number","defaultValue":0,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Victory Points","type":"calculation","formula":"settlements + cities * 2 + if(longest_road, 2, 0) + if(largest_army, 2, 0) + victory_point_cards"}]}]}';
+
+UPDATE scoresheets SET structure = '{"subcategories":[{"id":"buildings","name":"Buildings","fields":[{"id":"settlements","name":"Settlements","type":"number","defaultValue":2,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]},{"id":"cities","name":"Cities","type":"number","defaultValue":0,"min":0,"max":4,"validation":[{"type":"range","min":0,"max":4}]}]},{"id":"special","name":"Special Cards","fields":[{"id":"longest_road","name":"Longest Road","type":"checkbox","defaultValue":false},{"id":"largest_army","name":"Largest Army","type":"checkbox","defaultValue":false},{"id":"victory_point_cards","name":"Victory Point Cards","type":"number","defaultValue":0,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Victory Points","type":"calculation","formula":"settlements + cities * 2 + if(longest_road, 2, 0) + if(largest_army, 2, 0) + victory_point_cards"}]}]}', current_version = current_version + 1, name = 'Catan', is_official = TRUE
+WHERE id = 'official-catan' AND structure <> '{"subcategories":[{"id":"buildings","name":"Buildings","fields":[{"id":"settlements","name":"Settlements","type":"number","defaultValue":2,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]},{"id":"cities","name":"Cities","type":"number","defaultValue":0,"min":0,"max":4,"validation":[{"type":"range","min":0,"max":4}]}]},{"id":"special","name":"Special Cards","fields":[{"id":"longest_road","name":"Longest Road","type":"checkbox","defaultValue":false},{"id":"largest_army","name":"Largest Army","type":"checkbox","defaultValue":false},{"id":"victory_point_cards","name":"Victory Point Cards","type":"number","defaultValue":0,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Victory Points","type":"calculation","formula":"settlements + cities * 2 + if(longest_road, 2, 0) + if(largest_army, 2, 0) + victory_point_cards"}]}]}';
+
+INSERT INTO games (id, name, min_players, max_players, category, is_official)
+SELECT '7-wonders', '7 Wonders', 3, 7, 'Card Drafting', TRUE
+WHERE NOT EXISTS (SELECT 1 FROM games WHERE id = '7-wonders' OR name = '7 Wonders');
+
+INSERT INTO scoresheets (id, game_id, name, structure, is_official, current_version)
+SELECT 'official-7-wonders', (SELECT id FROM games WHERE id = '7-wonders' OR name = '7 Wonders' ORDER BY id = '7-wonders' DESC LIMIT 1), '7 Wonders', '{}', TRUE, 0
+WHERE NOT EXISTS (SELECT 1 FROM scoresheets WHERE id = 'official-7-wonders');
+
+INSERT INTO scoresheet_versions (scoresheet_id, version, structure)
+SELECT id, current_version + 1, '{"subcategories":[{"id":"military","name":"Military","fields":[{"id":"military","name":"Military Conflicts","type":"number","defaultValue":0,"min":-6,"max":18}]},{"id":"treasury","name":"Treasury","fields":[{"id":"coins","name":"Coins","type":"number","defaultValue":0,"min":0},{"id":"treasury","name":"Treasury Points","type":"calculation","formula":"floor(coins / 3)"}]},{"id":"buildings","name":"Wonder and Buildings","fields":[{"id":"wonder","name":"Wonder Stages","type":"number","defaultValue":0,"min":0},{"id":"civilian","name":"Civilian Structures","type":"number","defaultValue":0,"min":0},{"id":"commercial","name":"Commercial Structures","type":"number","defaultValue":0,"min":0},{"id":"guilds","name":"Guilds","type":"number","defaultValue":0,"min":0}]},{"id":"science","name":"Scientific Structures","fields":[{"id":"compasses","name":"Compasses","type":"number","defaultValue":0,"min":0},{"id":"gears","name":"Gears","type":"number","defaultValue":0,"min":0},{"id":"tablets","name":"Tablets","type":"number","defaultValue":0,"min":0},{"id":"science","name":"Science Points","type":"calculation","formula":"compasses * compasses + gears * gears + tablets * tablets + 7 * min(compasses, gears, tablets)"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"military + treasury + wonder + civilian + commercial + guilds + science"}]}]}' FROM scoresheets
+WHERE id = 'official-7-wonders' AND structure <> '{"subcategories":[{"id":"military","name":"Military","fields":[{"id":"military","name":"Military Conflicts","type":"number","defaultValue":0,"min":-6,"max":18}]},{"id":"treasury","name":"Treasury","fields":[{"id":"coins","name":"Coins","type":"number","defaultValue":0,"min":0},{"id":"treasury","name":"Treasury Points","type":"calculation","formula":"floor(coins / 3)"}]},{"id":"buildings","name":"Wonder and Buildings","fields":[{"id":"wonder","name":"Wonder Stages","type":"number","defaultValue":0,"min":0},{"id":"civilian","name":"Civilian Structures","type":"number","defaultValue":0,"min":0},{"id":"commercial","name":"Commercial Structures","type":"number","defaultValue":0,"min":0},{"id":"guilds","name":"Guilds","type":"number","defaultValue":0,"min":0}]},{"id":"science","name":"Scientific Structures","fields":[{"id":"compasses","name":"Compasses","type":"number","defaultValue":0,"min":0},{"id":"gears","name":"Gears","type":"number","defaultValue":0,"min":0},{"id":"tablets","name":"Tablets","type":"number","defaultValue":0,"min":0},{"id":"science","name":"Science Points","type":"calculation","formula":"compasses * compasses + gears * gears + tablets * tablets + 7 * min(compasses, gears, tablets)"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"military + treasury + wonder + civilian + commercial + guilds + science"}]}]}';
+
+UPDATE scoresheets SET structure = '{"subcategories":[{"id":"military","name":"Military","fields":[{"id":"military","name":"Military Conflicts","type":"number","defaultValue":0,"min":-6,"max":18}]},{"id":"treasury","name":"Treasury","fields":[{"id":"coins","name":"Coins","type":"number","defaultValue":0,"min":0},{"id":"treasury","name":"Treasury Points","type":"calculation","formula":"floor(coins / 3)"}]},{"id":"buildings","name":"Wonder and Buildings","fields":[{"id":"wonder","name":"Wonder Stages","type":"number","defaultValue":0,"min":0},{"id":"civilian","name":"Civilian Structures","type":"number","defaultValue":0,"min":0},{"id":"commercial","name":"Commercial Structures","type":"number","defaultValue":0,"min":0},{"id":"guilds","name":"Guilds","type":"number","defaultValue":0,"min":0}]},{"id":"science","name":"Scientific Structures","fields":[{"id":"compasses","name":"Compasses","type":"number","defaultValue":0,"min":0},{"id":"gears","name":"Gears","type":"number","defaultValue":0,"min":0},{"id":"tablets","name":"Tablets","type":"number","defaultValue":0,"min":0},{"id":"science","name":"Science Points","type":"calculation","formula":"compasses * compasses + gears * gears + tablets * tablets + 7 * min(compasses, gears, tablets)"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"military + treasury + wonder + civilian + commercial + guilds + science"}]}]}', current_version = current_version + 1, name = '7 Wonders', is_official = TRUE
+WHERE id = 'official-7-wonders' AND structure <> '{"subcategories":[{"id":"military","name":"Military","fields":[{"id":"military","name":"Military Conflicts","type":"number","defaultValue":0,"min":-6,"max":18}]},{"id":"treasury","name":"Treasury","fields":[{"id":"coins","name":"Coins","type":"number","defaultValue":0,"min":0},{"id":"treasury","name":"Treasury Points","type":"calculation","formula":"floor(coins / 3)"}]},{"id":"buildings","name":"Wonder and Buildings","fields":[{"id":"wonder","name":"Wonder Stages","type":"number","defaultValue":0,"min":0},{"id":"civilian","name":"Civilian Structures","type":"number","defaultValue":0,"min":0},{"id":"commercial","name":"Commercial Structures","type":"number","defaultValue":0,"min":0},{"id":"guilds","name":"Guilds","type":"number","defaultValue":0,"min":0}]},{"id":"science","name":"Scientific Structures","fields":[{"id":"compasses","name":"Compasses","type":"number","defaultValue":0,"min":0},{"id":"gears","name":"Gears","type":"number","defaultValue":0,"min":0},{"id":"tablets","name":"Tablets","type":"number","defaultValue":0,"min":0},{"id":"science","name":"Science Points","type":"calculation","formula":"compasses * compasses + gears * gears + tablets * tablets + 7 * min(compasses, gears, tablets)"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"military + treasury + wonder + civilian + commercial + guilds + science"}]}]}';
+
+INSERT INTO games (id, name, min_players, max_players, category, is_official)
+SELECT 'ticket-to-ride', 'Ticket to Ride', 2, 5, 'Route Building', TRUE
+WHERE NOT EXISTS (SELECT 1 FROM games WHERE id = 'ticket-to-ride' OR name = 'Ticket to Ride');
+
+INSERT INTO scoresheets (id, game_id, name, structure, is_official, current_version)
+SELECT 'official-ticket-to-ride', (SELECT id FROM games WHERE id = 'ticket-to-ride' OR name = 'Ticket to Ride' ORDER BY id = 'ticket-to-ride' DESC LIMIT 1), 'Ticket to Ride', '{}', TRUE, 0
+WHERE NOT EXISTS (SELECT 1 FROM scoresheets WHERE id = 'official-ticket-to-ride');
+
+INSERT INTO scoresheet_versions (scoresheet_id, version, structure)
+SELECT id, current_version + 1, '{"subcategories":[{"id":"routes","name":"Claimed Routes","fields":[{"id":"routes_1","name":"Length 1 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_2","name":"Length 2 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_3","name":"Length 3 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_4","name":"Length 4 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_5","name":"Length 5 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_6","name":"Length 6 Routes","type":"number","defaultValue":0,"min":0},{"id":"route_points","name":"Route Points","type":"calculation","formula":"routes_1 * 1 + routes_2 * 2 + routes_3 * 4 + routes_4 * 7 + routes_5 * 10 + routes_6 * 15"},{"id":"trains_used","name":"Trains Used","type":"calculation","formula":"routes_1 * 1 + routes_2 * 2 + routes_3 * 3 + routes_4 * 4 + routes_5 * 5 + routes_6 * 6"}]},{"id":"tickets","name":"Destination Tickets","fields":[{"id":"tickets_completed","name":"Completed Tickets","type":"number","defaultValue":0,"min":0},{"id":"tickets_failed","name":"Unfinished Tickets","type":"number","defaultValue":0,"min":0},{"id":"longest_path","name":"Longest Continuous Path","type":"checkbox","defaultValue":false}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"route_points + tickets_completed - tickets_failed + if(longest_path, 10, 0)","validation":[{"type":"check","formula":"trains_used <= 45","message":"Each player only has 45 trains"}]}]}]}' FROM scoresheets
+WHERE id = 'official-ticket-to-ride' AND structure <> '{"subcategories":[{"id":"routes","name":"Claimed Routes","fields":[{"id":"routes_1","name":"Length 1 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_2","name":"Length 2 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_3","name":"Length 3 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_4","name":"Length 4 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_5","name":"Length 5 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_6","name":"Length 6 Routes","type":"number","defaultValue":0,"min":0},{"id":"route_points","name":"Route Points","type":"calculation","formula":"routes_1 * 1 + routes_2 * 2 + routes_3 * 4 + routes_4 * 7 + routes_5 * 10 + routes_6 * 15"},{"id":"trains_used","name":"Trains Used","type":"calculation","formula":"routes_1 * 1 + routes_2 * 2 + routes_3 * 3 + routes_4 * 4 + routes_5 * 5 + routes_6 * 6"}]},{"id":"tickets","name":"Destination Tickets","fields":[{"id":"tickets_completed","name":"Completed Tickets","type":"number","defaultValue":0,"min":0},{"id":"tickets_failed","name":"Unfinished Tickets","type":"number","defaultValue":0,"min":0},{"id":"longest_path","name":"Longest Continuous Path","type":"checkbox","defaultValue":false}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"route_points + tickets_completed - tickets_failed + if(longest_path, 10, 0)","validation":[{"type":"check","formula":"trains_used <= 45","message":"Each player only has 45 trains"}]}]}]}';
+
+UPDATE scoresheets SET structure = '{"subcategories":[{"id":"routes","name":"Claimed Routes","fields":[{"id":"routes_1","name":"Length 1 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_2","name":"Length 2 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_3","name":"Length 3 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_4","name":"Length 4 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_5","name":"Length 5 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_6","name":"Length 6 Routes","type":"number","defaultValue":0,"min":0},{"id":"route_points","name":"Route Points","type":"calculation","formula":"routes_1 * 1 + routes_2 * 2 + routes_3 * 4 + routes_4 * 7 + routes_5 * 10 + routes_6 * 15"},{"id":"trains_used","name":"Trains Used","type":"calculation","formula":"routes_1 * 1 + routes_2 * 2 + routes_3 * 3 + routes_4 * 4 + routes_5 * 5 + routes_6 * 6"}]},{"id":"tickets","name":"Destination Tickets","fields":[{"id":"tickets_completed","name":"Completed Tickets","type":"number","defaultValue":0,"min":0},{"id":"tickets_failed","name":"Unfinished Tickets","type":"number","defaultValue":0,"min":0},{"id":"longest_path","name":"Longest Continuous Path","type":"checkbox","defaultValue":false}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"route_points + tickets_completed - tickets_failed + if(longest_path, 10, 0)","validation":[{"type":"check","formula":"trains_used <= 45","message":"Each player only has 45 trains"}]}]}]}', current_version = current_version + 1, name = 'Ticket to Ride', is_official = TRUE
+WHERE id = 'official-ticket-to-ride' AND structure <> '{"subcategories":[{"id":"routes","name":"Claimed Routes","fields":[{"id":"routes_1","name":"Length 1 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_2","name":"Length 2 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_3","name":"Length 3 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_4","name":"Length 4 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_5","name":"Length 5 Routes","type":"number","defaultValue":0,"min":0},{"id":"routes_6","name":"Length 6 Routes","type":"number","defaultValue":0,"min":0},{"id":"route_points","name":"Route Points","type":"calculation","formula":"routes_1 * 1 + routes_2 * 2 + routes_3 * 4 + routes_4 * 7 + routes_5 * 10 + routes_6 * 15"},{"id":"trains_used","name":"Trains Used","type":"calculation","formula":"routes_1 * 1 + routes_2 * 2 + routes_3 * 3 + routes_4 * 4 + routes_5 * 5 + routes_6 * 6"}]},{"id":"tickets","name":"Destination Tickets","fields":[{"id":"tickets_completed","name":"Completed Tickets","type":"number","defaultValue":0,"min":0},{"id":"tickets_failed","name":"Unfinished Tickets","type":"number","defaultValue":0,"min":0},{"id":"longest_path","name":"Longest Continuous Path","type":"checkbox","defaultValue":false}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"route_points + tickets_completed - tickets_failed + if(longest_path, 10, 0)","validation":[{"type":"check","formula":"trains_used <= 45","message":"Each player only has 45 trains"}]}]}]}';
+
+INSERT INTO games (id, name, min_players, max_players, category, is_official)
+SELECT 'scrabble', 'Scrabble', 2, 4, 'Word', TRUE
+WHERE NOT EXISTS (SELECT 1 FROM games WHERE id = 'scrabble' OR name = 'Scrabble');
+
+INSERT INTO scoresheets (id, game_id, name, structure, is_official, current_version)
+SELECT 'official-scrabble', (SELECT id FROM games WHERE id = 'scrabble' OR name = 'Scrabble' ORDER BY id = 'scrabble' DESC LIMIT 1), 'Scrabble', '{}', TRUE, 0
+WHERE NOT EXISTS (SELECT 1 FROM scoresheets WHERE id = 'official-scrabble');
+
+INSERT INTO scoresheet_versions (scoresheet_id, version, structure)
+SELECT id, current_version + 1, '{"subcategories":[{"id":"turns","name":"Turns","rounds":{"count":10,"openEnded":true,"totalFieldId":"turn_total"},"fields":[{"id":"word_score","name":"Score","type":"number","defaultValue":0,"min":0},{"id":"bingo","name":"Bingo (all 7 tiles)","type":"checkbox","defaultValue":false},{"id":"turn_total","name":"Turn Total","type":"calculation","formula":"word_score + if(bingo, 50, 0)"}]},{"id":"end","name":"End of Game","fields":[{"id":"tiles_left","name":"Value of Tiles Left","type":"number","defaultValue":0,"min":0},{"id":"went_out","name":"Used All Tiles","type":"checkbox","defaultValue":false},{"id":"opponent_tiles","name":"Value of Opponents'' Tiles","type":"number","defaultValue":0,"min":0,"visibleWhen":"went_out"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Final Score","type":"calculation","formula":"sum(turn_total) - tiles_left + if(went_out, opponent_tiles, 0)"}]}]}' FROM scoresheets
+WHERE id = 'official-scrabble' AND structure <> '{"subcategories":[{"id":"turns","name":"Turns","rounds":{"count":10,"openEnded":true,"totalFieldId":"turn_total"},"fields":[{"id":"word_score","name":"Score","type":"number","defaultValue":0,"min":0},{"id":"bingo","name":"Bingo (all 7 tiles)","type":"checkbox","defaultValue":false},{"id":"turn_total","name":"Turn Total","type":"calculation","formula":"word_score + if(bingo, 50, 0)"}]},{"id":"end","name":"End of Game","fields":[{"id":"tiles_left","name":"Value of Tiles Left","type":"number","defaultValue":0,"min":0},{"id":"went_out","name":"Used All Tiles","type":"checkbox","defaultValue":false},{"id":"opponent_tiles","name":"Value of Opponents'' Tiles","type":"number","defaultValue":0,"min":0,"visibleWhen":"went_out"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Final Score","type":"calculation","formula":"sum(turn_total) - tiles_left + if(went_out, opponent_tiles, 0)"}]}]}';
+
+UPDATE scoresheets SET structure = '{"subcategories":[{"id":"turns","name":"Turns","rounds":{"count":10,"openEnded":true,"totalFieldId":"turn_total"},"fields":[{"id":"word_score","name":"Score","type":"number","defaultValue":0,"min":0},{"id":"bingo","name":"Bingo (all 7 tiles)","type":"checkbox","defaultValue":false},{"id":"turn_total","name":"Turn Total","type":"calculation","formula":"word_score + if(bingo, 50, 0)"}]},{"id":"end","name":"End of Game","fields":[{"id":"tiles_left","name":"Value of Tiles Left","type":"number","defaultValue":0,"min":0},{"id":"went_out","name":"Used All Tiles","type":"checkbox","defaultValue":false},{"id":"opponent_tiles","name":"Value of Opponents'' Tiles","type":"number","defaultValue":0,"min":0,"visibleWhen":"went_out"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Final Score","type":"calculation","formula":"sum(turn_total) - tiles_left + if(went_out, opponent_tiles, 0)"}]}]}', current_version = current_version + 1, name = 'Scrabble', is_official = TRUE
+WHERE id = 'official-scrabble' AND structure <> '{"subcategories":[{"id":"turns","name":"Turns","rounds":{"count":10,"openEnded":true,"totalFieldId":"turn_total"},"fields":[{"id":"word_score","name":"Score","type":"number","defaultValue":0,"min":0},{"id":"bingo","name":"Bingo (all 7 tiles)","type":"checkbox","defaultValue":false},{"id":"turn_total","name":"Turn Total","type":"calculation","formula":"word_score + if(bingo, 50, 0)"}]},{"id":"end","name":"End of Game","fields":[{"id":"tiles_left","name":"Value of Tiles Left","type":"number","defaultValue":0,"min":0},{"id":"went_out","name":"Used All Tiles","type":"checkbox","defaultValue":false},{"id":"opponent_tiles","name":"Value of Opponents'' Tiles","type":"number","defaultValue":0,"min":0,"visibleWhen":"went_out"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Final Score","type":"calculation","formula":"sum(turn_total) - tiles_left + if(went_out, opponent_tiles, 0)"}]}]}';
+
+INSERT INTO games (id, name, min_players, max_players, category, is_official)
+SELECT 'carcassonne', 'Carcassonne', 2, 5, 'Tile Placement', TRUE
+WHERE NOT EXISTS (SELECT 1 FROM games WHERE id = 'carcassonne' OR name = 'Carcassonne');
+
+INSERT INTO scoresheets (id, game_id, name, structure, is_official, current_version)
+SELECT 'official-carcassonne', (SELECT id FROM games WHERE id = 'carcassonne' OR name = 'Carcassonne' ORDER BY id = 'carcassonne' DESC LIMIT 1), 'Carcassonne', '{}', TRUE, 0
+WHERE NOT EXISTS (SELECT 1 FROM scoresheets WHERE id = 'official-carcassonne');
+
+INSERT INTO scoresheet_versions (scoresheet_id, version, structure)
+SELECT id, current_version + 1, '{"subcategories":[{"id":"during_game","name":"During the Game","fields":[{"id":"completed_cities","name":"Completed Cities","type":"number","defaultValue":0,"min":0},{"id":"completed_roads","name":"Completed Roads","type":"number","defaultValue":0,"min":0},{"id":"completed_monasteries","name":"Completed Monasteries","type":"number","defaultValue":0,"min":0}]},{"id":"end_of_game","name":"End of Game","fields":[{"id":"incomplete_cities","name":"Incomplete Cities","type":"number","defaultValue":0,"min":0},{"id":"incomplete_roads","name":"Incomplete Roads","type":"number","defaultValue":0,"min":0},{"id":"incomplete_monasteries","name":"Incomplete Monasteries","type":"number","defaultValue":0,"min":0},{"id":"farms","name":"Farms","type":"number","defaultValue":0,"min":0}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"completed_cities + completed_roads + completed_monasteries + incomplete_cities + incomplete_roads + incomplete_monasteries + farms"}]}]}' FROM scoresheets
+WHERE id = 'official-carcassonne' AND structure <> '{"subcategories":[{"id":"during_game","name":"During the Game","fields":[{"id":"completed_cities","name":"Completed Cities","type":"number","defaultValue":0,"min":0},{"id":"completed_roads","name":"Completed Roads","type":"number","defaultValue":0,"min":0},{"id":"completed_monasteries","name":"Completed Monasteries","type":"number","defaultValue":0,"min":0}]},{"id":"end_of_game","name":"End of Game","fields":[{"id":"incomplete_cities","name":"Incomplete Cities","type":"number","defaultValue":0,"min":0},{"id":"incomplete_roads","name":"Incomplete Roads","type":"number","defaultValue":0,"min":0},{"id":"incomplete_monasteries","name":"Incomplete Monasteries","type":"number","defaultValue":0,"min":0},{"id":"farms","name":"Farms","type":"number","defaultValue":0,"min":0}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"completed_cities + completed_roads + completed_monasteries + incomplete_cities + incomplete_roads + incomplete_monasteries + farms"}]}]}';
+
+UPDATE scoresheets SET structure = '{"subcategories":[{"id":"during_game","name":"During the Game","fields":[{"id":"completed_cities","name":"Completed Cities","type":"number","defaultValue":0,"min":0},{"id":"completed_roads","name":"Completed Roads","type":"number","defaultValue":0,"min":0},{"id":"completed_monasteries","name":"Completed Monasteries","type":"number","defaultValue":0,"min":0}]},{"id":"end_of_game","name":"End of Game","fields":[{"id":"incomplete_cities","name":"Incomplete Cities","type":"number","defaultValue":0,"min":0},{"id":"incomplete_roads","name":"Incomplete Roads","type":"number","defaultValue":0,"min":0},{"id":"incomplete_monasteries","name":"Incomplete Monasteries","type":"number","defaultValue":0,"min":0},{"id":"farms","name":"Farms","type":"number","defaultValue":0,"min":0}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"completed_cities + completed_roads + completed_monasteries + incomplete_cities + incomplete_roads + incomplete_monasteries + farms"}]}]}', current_version = current_version + 1, name = 'Carcassonne', is_official = TRUE
+WHERE id = 'official-carcassonne' AND structure <> '{"subcategories":[{"id":"during_game","name":"During the Game","fields":[{"id":"completed_cities","name":"Completed Cities","type":"number","defaultValue":0,"min":0},{"id":"completed_roads","name":"Completed Roads","type":"number","defaultValue":0,"min":0},{"id":"completed_monasteries","name":"Completed Monasteries","type":"number","defaultValue":0,"min":0}]},{"id":"end_of_game","name":"End of Game","fields":[{"id":"incomplete_cities","name":"Incomplete Cities","type":"number","defaultValue":0,"min":0},{"id":"incomplete_roads","name":"Incomplete Roads","type":"number","defaultValue":0,"min":0},{"id":"incomplete_monasteries","name":"Incomplete Monasteries","type":"number","defaultValue":0,"min":0},{"id":"farms","name":"Farms","type":"number","defaultValue":0,"min":0}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"completed_cities + completed_roads + completed_monasteries + incomplete_cities + incomplete_roads + incomplete_monasteries + farms"}]}]}';
+
+INSERT INTO games (id, name, min_players, max_players, category, is_official)
+SELECT 'wingspan', 'Wingspan', 1, 5, 'Engine Building', TRUE
+WHERE NOT EXISTS (SELECT 1 FROM games WHERE id = 'wingspan' OR name = 'Wingspan');
+
+INSERT INTO scoresheets (id, game_id, name, structure, is_official, current_version)
+SELECT 'official-wingspan', (SELECT id FROM games WHERE id = 'wingspan' OR name = 'Wingspan' ORDER BY id = 'wingspan' DESC LIMIT 1), 'Wingspan', '{}', TRUE, 0
+WHERE NOT EXISTS (SELECT 1 FROM scoresheets WHERE id = 'official-wingspan');
+
+INSERT INTO scoresheet_versions (scoresheet_id, version, structure)
+SELECT id, current_version + 1, '{"subcategories":[{"id":"score_pad","name":"Score Pad","fields":[{"id":"birds","name":"Birds","type":"number","defaultValue":0,"min":0},{"id":"bonus_cards","name":"Bonus Cards","type":"number","defaultValue":0,"min":0},{"id":"round_goals","name":"End-of-Round Goals","type":"number","defaultValue":0,"min":0},{"id":"eggs","name":"Eggs","type":"number","defaultValue":0,"min":0},{"id":"cached_food","name":"Food on Cards","type":"number","defaultValue":0,"min":0},{"id":"tucked_cards","name":"Tucked Cards","type":"number","defaultValue":0,"min":0}]},{"id":"expansions","name":"Expansions","fields":[{"id":"oceania","name":"Oceania Expansion","type":"checkbox","defaultValue":false},{"id":"nectar","name":"Nectar","type":"number","defaultValue":0,"min":0,"visibleWhen":"oceania"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"birds + bonus_cards + round_goals + eggs + cached_food + tucked_cards + if(oceania, nectar, 0)"}]}]}' FROM scoresheets
+WHERE id = 'official-wingspan' AND structure <> '{"subcategories":[{"id":"score_pad","name":"Score Pad","fields":[{"id":"birds","name":"Birds","type":"number","defaultValue":0,"min":0},{"id":"bonus_cards","name":"Bonus Cards","type":"number","defaultValue":0,"min":0},{"id":"round_goals","name":"End-of-Round Goals","type":"number","defaultValue":0,"min":0},{"id":"eggs","name":"Eggs","type":"number","defaultValue":0,"min":0},{"id":"cached_food","name":"Food on Cards","type":"number","defaultValue":0,"min":0},{"id":"tucked_cards","name":"Tucked Cards","type":"number","defaultValue":0,"min":0}]},{"id":"expansions","name":"Expansions","fields":[{"id":"oceania","name":"Oceania Expansion","type":"checkbox","defaultValue":false},{"id":"nectar","name":"Nectar","type":"number","defaultValue":0,"min":0,"visibleWhen":"oceania"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"birds + bonus_cards + round_goals + eggs + cached_food + tucked_cards + if(oceania, nectar, 0)"}]}]}';
+
+UPDATE scoresheets SET structure = '{"subcategories":[{"id":"score_pad","name":"Score Pad","fields":[{"id":"birds","name":"Birds","type":"number","defaultValue":0,"min":0},{"id":"bonus_cards","name":"Bonus Cards","type":"number","defaultValue":0,"min":0},{"id":"round_goals","name":"End-of-Round Goals","type":"number","defaultValue":0,"min":0},{"id":"eggs","name":"Eggs","type":"number","defaultValue":0,"min":0},{"id":"cached_food","name":"Food on Cards","type":"number","defaultValue":0,"min":0},{"id":"tucked_cards","name":"Tucked Cards","type":"number","defaultValue":0,"min":0}]},{"id":"expansions","name":"Expansions","fields":[{"id":"oceania","name":"Oceania Expansion","type":"checkbox","defaultValue":false},{"id":"nectar","name":"Nectar","type":"number","defaultValue":0,"min":0,"visibleWhen":"oceania"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"birds + bonus_cards + round_goals + eggs + cached_food + tucked_cards + if(oceania, nectar, 0)"}]}]}', current_version = current_version + 1, name = 'Wingspan', is_official = TRUE
+WHERE id = 'official-wingspan' AND structure <> '{"subcategories":[{"id":"score_pad","name":"Score Pad","fields":[{"id":"birds","name":"Birds","type":"number","defaultValue":0,"min":0},{"id":"bonus_cards","name":"Bonus Cards","type":"number","defaultValue":0,"min":0},{"id":"round_goals","name":"End-of-Round Goals","type":"number","defaultValue":0,"min":0},{"id":"eggs","name":"Eggs","type":"number","defaultValue":0,"min":0},{"id":"cached_food","name":"Food on Cards","type":"number","defaultValue":0,"min":0},{"id":"tucked_cards","name":"Tucked Cards","type":"number","defaultValue":0,"min":0}]},{"id":"expansions","name":"Expansions","fields":[{"id":"oceania","name":"Oceania Expansion","type":"checkbox","defaultValue":false},{"id":"nectar","name":"Nectar","type":"number","defaultValue":0,"min":0,"visibleWhen":"oceania"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"birds + bonus_cards + round_goals + eggs + cached_food + tucked_cards + if(oceania, nectar, 0)"}]}]}';
@@ -0,0 +1,21 @@
+-- Migration number: 0008 	 2026-10-19
+-- Official D&D 5e character sheet
+
+-- Generated with npm run --silent seed:templates. The sheet derives its
+-- stats with the D&D 5e formula functions; character sheets created
+-- earlier keep their own fields.
+
+INSERT INTO games (id, name, min_players, max_players, category, is_official)
+SELECT 'dnd-5e', 'Dungeons & Dragons 5th Edition', 1, 8, 'Role-Playing', TRUE
+WHERE NOT EXISTS (SELECT 1 FROM games WHERE id = 'dnd-5e' OR name = 'Dungeons & Dragons 5th Edition');
+
+INSERT INTO scoresheets (id, game_id, name, structure, is_official, current_version)
+SELECT 'official-dnd-5e', (SELECT id FROM games WHERE id = 'dnd-5e' OR name = 'Dungeons & Dragons 5th Edition' ORDER BY id = 'dnd-5e' DESC LIMIT 1), 'D&D 5e Character Sheet', '{}', TRUE, 0
+WHERE NOT EXISTS (SELECT 1 FROM scoresheets WHERE id = 'official-dnd-5e');
+
+INSERT INTO scoresheet_versions (scoresheet_id, version, structure)
+SELECT id, current_version + 1, '{"subcategories":[{"id":"character","name":"Character Information","fields":[{"id":"character_name","name":"Character Name","type":"text","defaultValue":""},{"id":"class","name":"Class","type":"dropdown","options":["Barbarian","Bard","Cleric","Druid","Fighter","Monk","Paladin","Ranger","Rogue","Sorcerer","Warlock","Wizard"]},{"id":"race","name":"Race","type":"text","defaultValue":""},{"id":"background","name":"Background","type":"text","defaultValue":""},{"id":"alignment","name":"Alignment","type":"dropdown","options":["Lawful Good","Neutral Good","Chaotic Good","Lawful Neutral","True Neutral","Chaotic Neutral","Lawful Evil","Neutral Evil","Chaotic Evil"]},{"id":"experience","name":"Experience Points","type":"number","defaultValue":0,"min":0},{"id":"level","name":"Level","type":"number","defaultValue":1,"min":1,"max":20},{"id":"proficiency_bonus","name":"Proficiency Bonus","type":"calculation","formula":"proficiency_bonus(level)"}]},{"id":"abilities","name":"Ability Scores","fields":[{"id":"strength","name":"Strength","type":"number","defaultValue":10,"min":1,"max":30},{"id":"dexterity","name":"Dexterity","type":"number","defaultValue":10,"min":1,"max":30},{"id":"constitution","name":"Constitution","type":"number","defaultValue":10,"min":1,"max":30},{"id":"intelligence","name":"Intelligence","type":"number","defaultValue":10,"min":1,"max":30},{"id":"wisdom","name":"Wisdom","type":"number","defaultValue":10,"min":1,"max":30},{"id":"charisma","name":"Charisma","type":"number","defaultValue":10,"min":1,"max":30},{"id":"str_mod","name":"Strength Modifier","type":"calculation","formula":"ability_modifier(strength)"},{"id":"dex_mod","name":"Dexterity Modifier","type":"calculation","formula":"ability_modifier(dexterity)"},{"id":"con_mod","name":"Constitution Modifier","type":"calculation","formula":"ability_modifier(constitution)"},{"id":"int_mod","name":"Intelligence Modifier","type":"calculation","formula":"ability_modifier(intelligence)"},{"id":"wis_mod","name":"Wisdom Modifier","type":"calculation","formula":"ability_modifier(wisdom)"},{"id":"cha_mod","name":"Charisma Modifier","type":"calculation","formula":"ability_modifier(charisma)"}]},{"id":"saving_throws","name":"Saving Throws","fields":[{"id":"str_save_prof","name":"Strength Save Proficiency","type":"checkbox","defaultValue":false},{"id":"str_save","name":"Strength Saving Throw","type":"calculation","formula":"saving_throw(strength, level, str_save_prof || save_proficiency(class, \"Strength\"))"},{"id":"dex_save_prof","name":"Dexterity Save Proficiency","type":"checkbox","defaultValue":false},{"id":"dex_save","name":"Dexterity Saving Throw","type":"calculation","formula":"saving_throw(dexterity, level, dex_save_prof || save_proficiency(class, \"Dexterity\"))"},{"id":"con_save_prof","name":"Constitution Save Proficiency","type":"checkbox","defaultValue":false},{"id":"con_save","name":"Constitution Saving Throw","type":"calculation","formula":"saving_throw(constitution, level, con_save_prof || save_proficiency(class, \"Constitution\"))"},{"id":"int_save_prof","name":"Intelligence Save Proficiency","type":"checkbox","defaultValue":false},{"id":"int_save","name":"Intelligence Saving Throw","type":"calculation","formula":"saving_throw(intelligence, level, int_save_prof || save_proficiency(class, \"Intelligence\"))"},{"id":"wis_save_prof","name":"Wisdom Save Proficiency","type":"checkbox","defaultValue":false},{"id":"wis_save","name":"Wisdom Saving Throw","type":"calculation","formula":"saving_throw(wisdom, level, wis_save_prof || save_proficiency(class, \"Wisdom\"))"},{"id":"cha_save_prof","name":"Charisma Save Proficiency","type":"checkbox","defaultValue":false},{"id":"cha_save","name":"Charisma Saving Throw","type":"calculation","formula":"saving_throw(charisma, level, cha_save_prof || save_proficiency(class, \"Charisma\"))"}]},{"id":"skills","name":"Skills","fields":[{"id":"acrobatics_prof","name":"Acrobatics Proficiency","type":"checkbox","defaultValue":false},{"id":"acrobatics","name":"Acrobatics (Dex)","type":"calculation","formula":"skill_modifier(dexterity, level, acrobatics_prof)"},{"id":"animal_handling_prof","name":"Animal Handling Proficiency","type":"checkbox","defaultValue":false},{"id":"animal_handling","name":"Animal Handling (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, animal_handling_prof)"},{"id":"arcana_prof","name":"Arcana Proficiency","type":"checkbox","defaultValue":false},{"id":"arcana","name":"Arcana (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, arcana_prof)"},{"id":"athletics_prof","name":"Athletics Proficiency","type":"checkbox","defaultValue":false},{"id":"athletics","name":"Athletics (Str)","type":"calculation","formula":"skill_modifier(strength, level, athletics_prof)"},{"id":"deception_prof","name":"Deception Proficiency","type":"checkbox","defaultValue":false},{"id":"deception","name":"Deception (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, deception_prof)"},{"id":"history_prof","name":"History Proficiency","type":"checkbox","defaultValue":false},{"id":"history","name":"History (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, history_prof)"},{"id":"insight_prof","name":"Insight Proficiency","type":"checkbox","defaultValue":false},{"id":"insight","name":"Insight (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, insight_prof)"},{"id":"intimidation_prof","name":"Intimidation Proficiency","type":"checkbox","defaultValue":false},{"id":"intimidation","name":"Intimidation (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, intimidation_prof)"},{"id":"investigation_prof","name":"Investigation Proficiency","type":"checkbox","defaultValue":false},{"id":"investigation","name":"Investigation (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, investigation_prof)"},{"id":"medicine_prof","name":"Medicine Proficiency","type":"checkbox","defaultValue":false},{"id":"medicine","name":"Medicine (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, medicine_prof)"},{"id":"nature_prof","name":"Nature Proficiency","type":"checkbox","defaultValue":false},{"id":"nature","name":"Nature (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, nature_prof)"},{"id":"perception_prof","name":"Perception Proficiency","type":"checkbox","defaultValue":false},{"id":"perception","name":"Perception (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, perception_prof)"},{"id":"performance_prof","name":"Performance Proficiency","type":"checkbox","defaultValue":false},{"id":"performance","name":"Performance (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, performance_prof)"},{"id":"persuasion_prof","name":"Persuasion Proficiency","type":"checkbox","defaultValue":false},{"id":"persuasion","name":"Persuasion (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, persuasion_prof)"},{"id":"religion_prof","name":"Religion Proficiency","type":"checkbox","defaultValue":false},{"id":"religion","name":"Religion (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, religion_prof)"},{"id":"sleight_of_hand_prof","name":"Sleight of Hand Proficiency","type":"checkbox","defaultValue":false},{"id":"sleight_of_hand","name":"Sleight of Hand (Dex)","type":"calculation","formula":"skill_modifier(dexterity, level, sleight_of_hand_prof)"},{"id":"stealth_prof","name":"Stealth Proficiency","type":"checkbox","defaultValue":false},{"id":"stealth","name":"Stealth (Dex)","type":"calculation","formula":"skill_modifier(dexterity, level, stealth_prof)"},{"id":"survival_prof","name":"Survival Proficiency","type":"checkbox","defaultValue":false},{"id":"survival","name":"Survival (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, survival_prof)"},{"id":"passive_perception","name":"Passive Perception","type":"calculation","formula":"passive_score(wisdom, level, perception_prof)"}]},{"id":"combat","name":"Combat Stats","fields":[{"id":"armor_class","name":"Armor Class","type":"number","defaultValue":10},{"id":"initiative","name":"Initiative","type":"calculation","formula":"dex_mod"},{"id":"speed","name":"Speed","type":"number","defaultValue":30},{"id":"hp_adjustment","name":"Hit Point Adjustment","type":"number","defaultValue":0},{"id":"hit_point_max","name":"Hit Point Maximum","type":"calculation","formula":"hit_point_maximum(class, level, constitution) + hp_adjustment"},{"id":"current_hit_points","name":"Current Hit Points","type":"tracker","defaultValue":10,"min":0,"maxFormula":"hit_point_max"},{"id":"temporary_hit_points","name":"Temporary Hit Points","type":"number","defaultValue":0,"min":0},{"id":"hit_dice","name":"Hit Die Size","type":"calculation","formula":"hit_die(class)"}]},{"id":"spellcasting","name":"Spellcasting","fields":[{"id":"spellcasting_ability","name":"Spellcasting Ability","type":"calculation","formula":"spellcasting_ability(class)","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"spell_save_dc","name":"Spell Save DC","type":"calculation","formula":"spell_save_dc(class, level, intelligence, wisdom, charisma)","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"spell_attack_bonus","name":"Spell Attack Bonus","type":"calculation","formula":"spell_attack_bonus(class, level, intelligence, wisdom, charisma)","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"cantrips","name":"Cantrips","type":"text","defaultValue":"","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"level1_slots","name":"Level 1 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 1)","visibleWhen":"spell_slots(class, level, 1) > 0"},{"id":"level2_slots","name":"Level 2 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 2)","visibleWhen":"spell_slots(class, level, 2) > 0"},{"id":"level3_slots","name":"Level 3 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 3)","visibleWhen":"spell_slots(class, level, 3) > 0"},{"id":"level4_slots","name":"Level 4 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 4)","visibleWhen":"spell_slots(class, level, 4) > 0"},{"id":"level5_slots","name":"Level 5 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 5)","visibleWhen":"spell_slots(class, level, 5) > 0"},{"id":"level6_slots","name":"Level 6 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 6)","visibleWhen":"spell_slots(class, level, 6) > 0"},{"id":"level7_slots","name":"Level 7 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 7)","visibleWhen":"spell_slots(class, level, 7) > 0"},{"id":"level8_slots","name":"Level 8 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 8)","visibleWhen":"spell_slots(class, level, 8) > 0"},{"id":"level9_slots","name":"Level 9 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 9)","visibleWhen":"spell_slots(class, level, 9) > 0"}]},{"id":"equipment","name":"Equipment","fields":[{"id":"copper","name":"Copper (CP)","type":"number","defaultValue":0},{"id":"silver","name":"Silver (SP)","type":"number","defaultValue":0},{"id":"electrum","name":"Electrum (EP)","type":"number","defaultValue":0},{"id":"gold","name":"Gold (GP)","type":"number","defaultValue":0},{"id":"platinum","name":"Platinum (PP)","type":"number","defaultValue":0},{"id":"equipment_list","name":"Equipment List","type":"text","defaultValue":""}]},{"id":"features","name":"Features & Traits","fields":[{"id":"features","name":"Features & Traits","type":"text","defaultValue":""},{"id":"proficiencies","name":"Proficiencies","type":"text","defaultValue":""},{"id":"languages","name":"Languages","type":"text","defaultValue":""}]}]}' FROM scoresheets
+WHERE id = 'official-dnd-5e' AND structure <> '{"subcategories":[{"id":"character","name":"Character Information","fields":[{"id":"character_name","name":"Character Name","type":"text","defaultValue":""},{"id":"class","name":"Class","type":"dropdown","options":["Barbarian","Bard","Cleric","Druid","Fighter","Monk","Paladin","Ranger","Rogue","Sorcerer","Warlock","Wizard"]},{"id":"race","name":"Race","type":"text","defaultValue":""},{"id":"background","name":"Background","type":"text","defaultValue":""},{"id":"alignment","name":"Alignment","type":"dropdown","options":["Lawful Good","Neutral Good","Chaotic Good","Lawful Neutral","True Neutral","Chaotic Neutral","Lawful Evil","Neutral Evil","Chaotic Evil"]},{"id":"experience","name":"Experience Points","type":"number","defaultValue":0,"min":0},{"id":"level","name":"Level","type":"number","defaultValue":1,"min":1,"max":20},{"id":"proficiency_bonus","name":"Proficiency Bonus","type":"calculation","formula":"proficiency_bonus(level)"}]},{"id":"abilities","name":"Ability Scores","fields":[{"id":"strength","name":"Strength","type":"number","defaultValue":10,"min":1,"max":30},{"id":"dexterity","name":"Dexterity","type":"number","defaultValue":10,"min":1,"max":30},{"id":"constitution","name":"Constitution","type":"number","defaultValue":10,"min":1,"max":30},{"id":"intelligence","name":"Intelligence","type":"number","defaultValue":10,"min":1,"max":30},{"id":"wisdom","name":"Wisdom","type":"number","defaultValue":10,"min":1,"max":30},{"id":"charisma","name":"Charisma","type":"number","defaultValue":10,"min":1,"max":30},{"id":"str_mod","name":"Strength Modifier","type":"calculation","formula":"ability_modifier(strength)"},{"id":"dex_mod","name":"Dexterity Modifier","type":"calculation","formula":"ability_modifier(dexterity)"},{"id":"con_mod","name":"Constitution Modifier","type":"calculation","formula":"ability_modifier(constitution)"},{"id":"int_mod","name":"Intelligence Modifier","type":"calculation","formula":"ability_modifier(intelligence)"},{"id":"wis_mod","name":"Wisdom Modifier","type":"calculation","formula":"ability_modifier(wisdom)"},{"id":"cha_mod","name":"Charisma Modifier","type":"calculation","formula":"ability_modifier(charisma)"}]},{"id":"saving_throws","name":"Saving Throws","fields":[{"id":"str_save_prof","name":"Strength Save Proficiency","type":"checkbox","defaultValue":false},{"id":"str_save","name":"Strength Saving Throw","type":"calculation","formula":"saving_throw(strength, level, str_save_prof || save_proficiency(class, \"Strength\"))"},{"id":"dex_save_prof","name":"Dexterity Save Proficiency","type":"checkbox","defaultValue":false},{"id":"dex_save","name":"Dexterity Saving Throw","type":"calculation","formula":"saving_throw(dexterity, level, dex_save_prof || save_proficiency(class, \"Dexterity\"))"},{"id":"con_save_prof","name":"Constitution Save Proficiency","type":"checkbox","defaultValue":false},{"id":"con_save","name":"Constitution Saving Throw","type":"calculation","formula":"saving_throw(constitution, level, con_save_prof || save_proficiency(class, \"Constitution\"))"},{"id":"int_save_prof","name":"Intelligence Save Proficiency","type":"checkbox","defaultValue":false},{"id":"int_save","name":"Intelligence Saving Throw","type":"calculation","formula":"saving_throw(intelligence, level, int_save_prof || save_proficiency(class, \"Intelligence\"))"},{"id":"wis_save_prof","name":"Wisdom Save Proficiency","type":"checkbox","defaultValue":false},{"id":"wis_save","name":"Wisdom Saving Throw","type":"calculation","formula":"saving_throw(wisdom, level, wis_save_prof || save_proficiency(class, \"Wisdom\"))"},{"id":"cha_save_prof","name":"Charisma Save Proficiency","type":"checkbox","defaultValue":false},{"id":"cha_save","name":"Charisma Saving Throw","type":"calculation","formula":"saving_throw(charisma, level, cha_save_prof || save_proficiency(class, \"Charisma\"))"}]},{"id":"skills","name":"Skills","fields":[{"id":"acrobatics_prof","name":"Acrobatics Proficiency","type":"checkbox","defaultValue":false},{"id":"acrobatics","name":"Acrobatics (Dex)","type":"calculation","formula":"skill_modifier(dexterity, level, acrobatics_prof)"},{"id":"animal_handling_prof","name":"Animal Handling Proficiency","type":"checkbox","defaultValue":false},{"id":"animal_handling","name":"Animal Handling (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, animal_handling_prof)"},{"id":"arcana_prof","name":"Arcana Proficiency","type":"checkbox","defaultValue":false},{"id":"arcana","name":"Arcana (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, arcana_prof)"},{"id":"athletics_prof","name":"Athletics Proficiency","type":"checkbox","defaultValue":false},{"id":"athletics","name":"Athletics (Str)","type":"calculation","formula":"skill_modifier(strength, level, athletics_prof)"},{"id":"deception_prof","name":"Deception Proficiency","type":"checkbox","defaultValue":false},{"id":"deception","name":"Deception (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, deception_prof)"},{"id":"history_prof","name":"History Proficiency","type":"checkbox","defaultValue":false},{"id":"history","name":"History (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, history_prof)"},{"id":"insight_prof","name":"Insight Proficiency","type":"checkbox","defaultValue":false},{"id":"insight","name":"Insight (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, insight_prof)"},{"id":"intimidation_prof","name":"Intimidation Proficiency","type":"checkbox","defaultValue":false},{"id":"intimidation","name":"Intimidation (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, intimidation_prof)"},{"id":"investigation_prof","name":"Investigation Proficiency","type":"checkbox","defaultValue":false},{"id":"investigation","name":"Investigation (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, investigation_prof)"},{"id":"medicine_prof","name":"Medicine Proficiency","type":"checkbox","defaultValue":false},{"id":"medicine","name":"Medicine (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, medicine_prof)"},{"id":"nature_prof","name":"Nature Proficiency","type":"checkbox","defaultValue":false},{"id":"nature","name":"Nature (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, nature_prof)"},{"id":"perception_prof","name":"Perception Proficiency","type":"checkbox","defaultValue":false},{"id":"perception","name":"Perception (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, perception_prof)"},{"id":"performance_prof","name":"Performance Proficiency","type":"checkbox","defaultValue":false},{"id":"performance","name":"Performance (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, performance_prof)"},{"id":"persuasion_prof","name":"Persuasion Proficiency","type":"checkbox","defaultValue":false},{"id":"persuasion","name":"Persuasion (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, persuasion_prof)"},{"id":"religion_prof","name":"Religion Proficiency","type":"checkbox","defaultValue":false},{"id":"religion","name":"Religion (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, religion_prof)"},{"id":"sleight_of_hand_prof","name":"Sleight of Hand Proficiency","type":"checkbox","defaultValue":false},{"id":"sleight_of_hand","name":"Sleight of Hand (Dex)","type":"calculation","formula":"skill_modifier(dexterity, level, sleight_of_hand_prof)"},{"id":"stealth_prof","name":"Stealth Proficiency","type":"checkbox","defaultValue":false},{"id":"stealth","name":"Stealth (Dex)","type":"calculation","formula":"skill_modifier(dexterity, level, stealth_prof)"},{"id":"survival_prof","name":"Survival Proficiency","type":"checkbox","defaultValue":false},{"id":"survival","name":"Survival (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, survival_prof)"},{"id":"passive_perception","name":"Passive Perception","type":"calculation","formula":"passive_score(wisdom, level, perception_prof)"}]},{"id":"combat","name":"Combat Stats","fields":[{"id":"armor_class","name":"Armor Class","type":"number","defaultValue":10},{"id":"initiative","name":"Initiative","type":"calculation","formula":"dex_mod"},{"id":"speed","name":"Speed","type":"number","defaultValue":30},{"id":"hp_adjustment","name":"Hit Point Adjustment","type":"number","defaultValue":0},{"id":"hit_point_max","name":"Hit Point Maximum","type":"calculation","formula":"hit_point_maximum(class, level, constitution) + hp_adjustment"},{"id":"current_hit_points","name":"Current Hit Points","type":"tracker","defaultValue":10,"min":0,"maxFormula":"hit_point_max"},{"id":"temporary_hit_points","name":"Temporary Hit Points","type":"number","defaultValue":0,"min":0},{"id":"hit_dice","name":"Hit Die Size","type":"calculation","formula":"hit_die(class)"}]},{"id":"spellcasting","name":"Spellcasting","fields":[{"id":"spellcasting_ability","name":"Spellcasting Ability","type":"calculation","formula":"spellcasting_ability(class)","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"spell_save_dc","name":"Spell Save DC","type":"calculation","formula":"spell_save_dc(class, level, intelligence, wisdom, charisma)","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"spell_attack_bonus","name":"Spell Attack Bonus","type":"calculation","formula":"spell_attack_bonus(class, level, intelligence, wisdom, charisma)","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"cantrips","name":"Cantrips","type":"text","defaultValue":"","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"level1_slots","name":"Level 1 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 1)","visibleWhen":"spell_slots(class, level, 1) > 0"},{"id":"level2_slots","name":"Level 2 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 2)","visibleWhen":"spell_slots(class, level, 2) > 0"},{"id":"level3_slots","name":"Level 3 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 3)","visibleWhen":"spell_slots(class, level, 3) > 0"},{"id":"level4_slots","name":"Level 4 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 4)","visibleWhen":"spell_slots(class, level, 4) > 0"},{"id":"level5_slots","name":"Level 5 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 5)","visibleWhen":"spell_slots(class, level, 5) > 0"},{"id":"level6_slots","name":"Level 6 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 6)","visibleWhen":"spell_slots(class, level, 6) > 0"},{"id":"level7_slots","name":"Level 7 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 7)","visibleWhen":"spell_slots(class, level, 7) > 0"},{"id":"level8_slots","name":"Level 8 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 8)","visibleWhen":"spell_slots(class, level, 8) > 0"},{"id":"level9_slots","name":"Level 9 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 9)","visibleWhen":"spell_slots(class, level, 9) > 0"}]},{"id":"equipment","name":"Equipment","fields":[{"id":"copper","name":"Copper (CP)","type":"number","defaultValue":0},{"id":"silver","name":"Silver (SP)","type":"number","defaultValue":0},{"id":"electrum","name":"Electrum (EP)","type":"number","defaultValue":0},{"id":"gold","name":"Gold (GP)","type":"number","defaultValue":0},{"id":"platinum","name":"Platinum (PP)","type":"number","defaultValue":0},{"id":"equipment_list","name":"Equipment List","type":"text","defaultValue":""}]},{"id":"features","name":"Features & Traits","fields":[{"id":"features","name":"Features & Traits","type":"text","defaultValue":""},{"id":"proficiencies","name":"Proficiencies","type":"text","defaultValue":""},{"id":"languages","name":"Languages","type":"text","defaultValue":""}]}]}';
+
+UPDATE scoresheets SET structure = '{"subcategories":[{"id":"character","name":"Character Information","fields":[{"id":"character_name","name":"Character Name","type":"text","defaultValue":""},{"id":"class","name":"Class","type":"dropdown","options":["Barbarian","Bard","Cleric","Druid","Fighter","Monk","Paladin","Ranger","Rogue","Sorcerer","Warlock","Wizard"]},{"id":"race","name":"Race","type":"text","defaultValue":""},{"id":"background","name":"Background","type":"text","defaultValue":""},{"id":"alignment","name":"Alignment","type":"dropdown","options":["Lawful Good","Neutral Good","Chaotic Good","Lawful Neutral","True Neutral","Chaotic Neutral","Lawful Evil","Neutral Evil","Chaotic Evil"]},{"id":"experience","name":"Experience Points","type":"number","defaultValue":0,"min":0},{"id":"level","name":"Level","type":"number","defaultValue":1,"min":1,"max":20},{"id":"proficiency_bonus","name":"Proficiency Bonus","type":"calculation","formula":"proficiency_bonus(level)"}]},{"id":"abilities","name":"Ability Scores","fields":[{"id":"strength","name":"Strength","type":"number","defaultValue":10,"min":1,"max":30},{"id":"dexterity","name":"Dexterity","type":"number","defaultValue":10,"min":1,"max":30},{"id":"constitution","name":"Constitution","type":"number","defaultValue":10,"min":1,"max":30},{"id":"intelligence","name":"Intelligence","type":"number","defaultValue":10,"min":1,"max":30},{"id":"wisdom","name":"Wisdom","type":"number","defaultValue":10,"min":1,"max":30},{"id":"charisma","name":"Charisma","type":"number","defaultValue":10,"min":1,"max":30},{"id":"str_mod","name":"Strength Modifier","type":"calculation","formula":"ability_modifier(strength)"},{"id":"dex_mod","name":"Dexterity Modifier","type":"calculation","formula":"ability_modifier(dexterity)"},{"id":"con_mod","name":"Constitution Modifier","type":"calculation","formula":"ability_modifier(constitution)"},{"id":"int_mod","name":"Intelligence Modifier","type":"calculation","formula":"ability_modifier(intelligence)"},{"id":"wis_mod","name":"Wisdom Modifier","type":"calculation","formula":"ability_modifier(wisdom)"},{"id":"cha_mod","name":"Charisma Modifier","type":"calculation","formula":"ability_modifier(charisma)"}]},{"id":"saving_throws","name":"Saving Throws","fields":[{"id":"str_save_prof","name":"Strength Save Proficiency","type":"checkbox","defaultValue":false},{"id":"str_save","name":"Strength Saving Throw","type":"calculation","formula":"saving_throw(strength, level, str_save_prof || save_proficiency(class, \"Strength\"))"},{"id":"dex_save_prof","name":"Dexterity Save Proficiency","type":"checkbox","defaultValue":false},{"id":"dex_save","name":"Dexterity Saving Throw","type":"calculation","formula":"saving_throw(dexterity, level, dex_save_prof || save_proficiency(class, \"Dexterity\"))"},{"id":"con_save_prof","name":"Constitution Save Proficiency","type":"checkbox","defaultValue":false},{"id":"con_save","name":"Constitution Saving Throw","type":"calculation","formula":"saving_throw(constitution, level, con_save_prof || save_proficiency(class, \"Constitution\"))"},{"id":"int_save_prof","name":"Intelligence Save Proficiency","type":"checkbox","defaultValue":false},{"id":"int_save","name":"Intelligence Saving Throw","type":"calculation","formula":"saving_throw(intelligence, level, int_save_prof || save_proficiency(class, \"Intelligence\"))"},{"id":"wis_save_prof","name":"Wisdom Save Proficiency","type":"checkbox","defaultValue":false},{"id":"wis_save","name":"Wisdom Saving Throw","type":"calculation","formula":"saving_throw(wisdom, level, wis_save_prof || save_proficiency(class, \"Wisdom\"))"},{"id":"cha_save_prof","name":"Charisma Save Proficiency","type":"checkbox","defaultValue":false},{"id":"cha_save","name":"Charisma Saving Throw","type":"calculation","formula":"saving_throw(charisma, level, cha_save_prof || save_proficiency(class, \"Charisma\"))"}]},{"id":"skills","name":"Skills","fields":[{"id":"acrobatics_prof","name":"Acrobatics Proficiency","type":"checkbox","defaultValue":false},{"id":"acrobatics","name":"Acrobatics (Dex)","type":"calculation","formula":"skill_modifier(dexterity, level, acrobatics_prof)"},{"id":"animal_handling_prof","name":"Animal Handling Proficiency","type":"checkbox","defaultValue":false},{"id":"animal_handling","name":"Animal Handling (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, animal_handling_prof)"},{"id":"arcana_prof","name":"Arcana Proficiency","type":"checkbox","defaultValue":false},{"id":"arcana","name":"Arcana (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, arcana_prof)"},{"id":"athletics_prof","name":"Athletics Proficiency","type":"checkbox","defaultValue":false},{"id":"athletics","name":"Athletics (Str)","type":"calculation","formula":"skill_modifier(strength, level, athletics_prof)"},{"id":"deception_prof","name":"Deception Proficiency","type":"checkbox","defaultValue":false},{"id":"deception","name":"Deception (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, deception_prof)"},{"id":"history_prof","name":"History Proficiency","type":"checkbox","defaultValue":false},{"id":"history","name":"History (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, history_prof)"},{"id":"insight_prof","name":"Insight Proficiency","type":"checkbox","defaultValue":false},{"id":"insight","name":"Insight (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, insight_prof)"},{"id":"intimidation_prof","name":"Intimidation Proficiency","type":"checkbox","defaultValue":false},{"id":"intimidation","name":"Intimidation (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, intimidation_prof)"},{"id":"investigation_prof","name":"Investigation Proficiency","type":"checkbox","defaultValue":false},{"id":"investigation","name":"Investigation (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, investigation_prof)"},{"id":"medicine_prof","name":"Medicine Proficiency","type":"checkbox","defaultValue":false},{"id":"medicine","name":"Medicine (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, medicine_prof)"},{"id":"nature_prof","name":"Nature Proficiency","type":"checkbox","defaultValue":false},{"id":"nature","name":"Nature (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, nature_prof)"},{"id":"perception_prof","name":"Perception Proficiency","type":"checkbox","defaultValue":false},{"id":"perception","name":"Perception (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, perception_prof)"},{"id":"performance_prof","name":"Performance Proficiency","type":"checkbox","defaultValue":false},{"id":"performance","name":"Performance (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, performance_prof)"},{"id":"persuasion_prof","name":"Persuasion Proficiency","type":"checkbox","defaultValue":false},{"id":"persuasion","name":"Persuasion (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, persuasion_prof)"},{"id":"religion_prof","name":"Religion Proficiency","type":"checkbox","defaultValue":false},{"id":"religion","name":"Religion (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, religion_prof)"},{"id":"sleight_of_hand_prof","name":"Sleight of Hand Proficiency","type":"checkbox","defaultValue":false},{"id":"sleight_of_hand","name":"Sleight of Hand (Dex)","type":"calculation","formula":"skill_modifier(dexterity, level, sleight_of_hand_prof)"},{"id":"stealth_prof","name":"Stealth Proficiency","type":"checkbox","defaultValue":false},{"id":"stealth","name":"Stealth (Dex)","type":"calculation","formula":"skill_modifier(dexterity, level, stealth_prof)"},{"id":"survival_prof","name":"Survival Proficiency","type":"checkbox","defaultValue":false},{"id":"survival","name":"Survival (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, survival_prof)"},{"id":"passive_perception","name":"Passive Perception","type":"calculation","formula":"passive_score(wisdom, level, perception_prof)"}]},{"id":"combat","name":"Combat Stats","fields":[{"id":"armor_class","name":"Armor Class","type":"number","defaultValue":10},{"id":"initiative","name":"Initiative","type":"calculation","formula":"dex_mod"},{"id":"speed","name":"Speed","type":"number","defaultValue":30},{"id":"hp_adjustment","name":"Hit Point Adjustment","type":"number","defaultValue":0},{"id":"hit_point_max","name":"Hit Point Maximum","type":"calculation","formula":"hit_point_maximum(class, level, constitution) + hp_adjustment"},{"id":"current_hit_points","name":"Current Hit Points","type":"tracker","defaultValue":10,"min":0,"maxFormula":"hit_point_max"},{"id":"temporary_hit_points","name":"Temporary Hit Points","type":"number","defaultValue":0,"min":0},{"id":"hit_dice","name":"Hit Die Size","type":"calculation","formula":"hit_die(class)"}]},{"id":"spellcasting","name":"Spellcasting","fields":[{"id":"spellcasting_ability","name":"Spellcasting Ability","type":"calculation","formula":"spellcasting_ability(class)","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"spell_save_dc","name":"Spell Save DC","type":"calculation","formula":"spell_save_dc(class, level, intelligence, wisdom, charisma)","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"spell_attack_bonus","name":"Spell Attack Bonus","type":"calculation","formula":"spell_attack_bonus(class, level, intelligence, wisdom, charisma)","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"cantrips","name":"Cantrips","type":"text","defaultValue":"","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"level1_slots","name":"Level 1 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 1)","visibleWhen":"spell_slots(class, level, 1) > 0"},{"id":"level2_slots","name":"Level 2 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 2)","visibleWhen":"spell_slots(class, level, 2) > 0"},{"id":"level3_slots","name":"Level 3 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 3)","visibleWhen":"spell_slots(class, level, 3) > 0"},{"id":"level4_slots","name":"Level 4 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 4)","visibleWhen":"spell_slots(class, level, 4) > 0"},{"id":"level5_slots","name":"Level 5 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 5)","visibleWhen":"spell_slots(class, level, 5) > 0"},{"id":"level6_slots","name":"Level 6 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 6)","visibleWhen":"spell_slots(class, level, 6) > 0"},{"id":"level7_slots","name":"Level 7 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 7)","visibleWhen":"spell_slots(class, level, 7) > 0"},{"id":"level8_slots","name":"Level 8 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 8)","visibleWhen":"spell_slots(class, level, 8) > 0"},{"id":"level9_slots","name":"Level 9 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 9)","visibleWhen":"spell_slots(class, level, 9) > 0"}]},{"id":"equipment","name":"Equipment","fields":[{"id":"copper","name":"Copper (CP)","type":"number","defaultValue":0},{"id":"silver","name":"Silver (SP)","type":"number","defaultValue":0},{"id":"electrum","name":"Electrum (EP)","type":"number","defaultValue":0},{"id":"gold","name":"Gold (GP)","type":"number","defaultValue":0},{"id":"platinum","name":"Platinum (PP)","type":"number","defaultValue":0},{"id":"equipment_list","name":"Equipment List","type":"text","defaultValue":""}]},{"id":"features","name":"Features & Traits","fields":[{"id":"features","name":"Features & Traits","type":"text","defaultValue":""},{"id":"proficiencies","name":"Proficiencies","type":"text","defaultValue":""},{"id":"languages","name":"Languages","type":"text","defaultValue":""}]}]}', current_version = current_version + 1, name = 'D&D 5e Character Sheet', is_official = TRUE
+WHERE id = 'official-dnd-5e' AND structure <> '{"subcategories":[{"id":"character","name":"Character Information","fields":[{"id":"character_name","name":"Character Name","type":"text","defaultValue":""},{"id":"class","name":"Class","type":"dropdown","options":["Barbarian","Bard","Cleric","Druid","Fighter","Monk","Paladin","Ranger","Rogue","Sorcerer","Warlock","Wizard"]},{"id":"race","name":"Race","type":"text","defaultValue":""},{"id":"background","name":"Background","type":"text","defaultValue":""},{"id":"alignment","name":"Alignment","type":"dropdown","options":["Lawful Good","Neutral Good","Chaotic Good","Lawful Neutral","True Neutral","Chaotic Neutral","Lawful Evil","Neutral Evil","Chaotic Evil"]},{"id":"experience","name":"Experience Points","type":"number","defaultValue":0,"min":0},{"id":"level","name":"Level","type":"number","defaultValue":1,"min":1,"max":20},{"id":"proficiency_bonus","name":"Proficiency Bonus","type":"calculation","formula":"proficiency_bonus(level)"}]},{"id":"abilities","name":"Ability Scores","fields":[{"id":"strength","name":"Strength","type":"number","defaultValue":10,"min":1,"max":30},{"id":"dexterity","name":"Dexterity","type":"number","defaultValue":10,"min":1,"max":30},{"id":"constitution","name":"Constitution","type":"number","defaultValue":10,"min":1,"max":30},{"id":"intelligence","name":"Intelligence","type":"number","defaultValue":10,"min":1,"max":30},{"id":"wisdom","name":"Wisdom","type":"number","defaultValue":10,"min":1,"max":30},{"id":"charisma","name":"Charisma","type":"number","defaultValue":10,"min":1,"max":30},{"id":"str_mod","name":"Strength Modifier","type":"calculation","formula":"ability_modifier(strength)"},{"id":"dex_mod","name":"Dexterity Modifier","type":"calculation","formula":"ability_modifier(dexterity)"},{"id":"con_mod","name":"Constitution Modifier","type":"calculation","formula":"ability_modifier(constitution)"},{"id":"int_mod","name":"Intelligence Modifier","type":"calculation","formula":"ability_modifier(intelligence)"},{"id":"wis_mod","name":"Wisdom Modifier","type":"calculation","formula":"ability_modifier(wisdom)"},{"id":"cha_mod","name":"Charisma Modifier","type":"calculation","formula":"ability_modifier(charisma)"}]},{"id":"saving_throws","name":"Saving Throws","fields":[{"id":"str_save_prof","name":"Strength Save Proficiency","type":"checkbox","defaultValue":false},{"id":"str_save","name":"Strength Saving Throw","type":"calculation","formula":"saving_throw(strength, level, str_save_prof || save_proficiency(class, \"Strength\"))"},{"id":"dex_save_prof","name":"Dexterity Save Proficiency","type":"checkbox","defaultValue":false},{"id":"dex_save","name":"Dexterity Saving Throw","type":"calculation","formula":"saving_throw(dexterity, level, dex_save_prof || save_proficiency(class, \"Dexterity\"))"},{"id":"con_save_prof","name":"Constitution Save Proficiency","type":"checkbox","defaultValue":false},{"id":"con_save","name":"Constitution Saving Throw","type":"calculation","formula":"saving_throw(constitution, level, con_save_prof || save_proficiency(class, \"Constitution\"))"},{"id":"int_save_prof","name":"Intelligence Save Proficiency","type":"checkbox","defaultValue":false},{"id":"int_save","name":"Intelligence Saving Throw","type":"calculation","formula":"saving_throw(intelligence, level, int_save_prof || save_proficiency(class, \"Intelligence\"))"},{"id":"wis_save_prof","name":"Wisdom Save Proficiency","type":"checkbox","defaultValue":false},{"id":"wis_save","name":"Wisdom Saving Throw","type":"calculation","formula":"saving_throw(wisdom, level, wis_save_prof || save_proficiency(class, \"Wisdom\"))"},{"id":"cha_save_prof","name":"Charisma Save Proficiency","type":"checkbox","defaultValue":false},{"id":"cha_save","name":"Charisma Saving Throw","type":"calculation","formula":"saving_throw(charisma, level, cha_save_prof || save_proficiency(class, \"Charisma\"))"}]},{"id":"skills","name":"Skills","fields":[{"id":"acrobatics_prof","name":"Acrobatics Proficiency","type":"checkbox","defaultValue":false},{"id":"acrobatics","name":"Acrobatics (Dex)","type":"calculation","formula":"skill_modifier(dexterity, level, acrobatics_prof)"},{"id":"animal_handling_prof","name":"Animal Handling Proficiency","type":"checkbox","defaultValue":false},{"id":"animal_handling","name":"Animal Handling (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, animal_handling_prof)"},{"id":"arcana_prof","name":"Arcana Proficiency","type":"checkbox","defaultValue":false},{"id":"arcana","name":"Arcana (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, arcana_prof)"},{"id":"athletics_prof","name":"Athletics Proficiency","type":"checkbox","defaultValue":false},{"id":"athletics","name":"Athletics (Str)","type":"calculation","formula":"skill_modifier(strength, level, athletics_prof)"},{"id":"deception_prof","name":"Deception Proficiency","type":"checkbox","defaultValue":false},{"id":"deception","name":"Deception (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, deception_prof)"},{"id":"history_prof","name":"History Proficiency","type":"checkbox","defaultValue":false},{"id":"history","name":"History (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, history_prof)"},{"id":"insight_prof","name":"Insight Proficiency","type":"checkbox","defaultValue":false},{"id":"insight","name":"Insight (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, insight_prof)"},{"id":"intimidation_prof","name":"Intimidation Proficiency","type":"checkbox","defaultValue":false},{"id":"intimidation","name":"Intimidation (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, intimidation_prof)"},{"id":"investigation_prof","name":"Investigation Proficiency","type":"checkbox","defaultValue":false},{"id":"investigation","name":"Investigation (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, investigation_prof)"},{"id":"medicine_prof","name":"Medicine Proficiency","type":"checkbox","defaultValue":false},{"id":"medicine","name":"Medicine (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, medicine_prof)"},{"id":"nature_prof","name":"Nature Proficiency","type":"checkbox","defaultValue":false},{"id":"nature","name":"Nature (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, nature_prof)"},{"id":"perception_prof","name":"Perception Proficiency","type":"checkbox","defaultValue":false},{"id":"perception","name":"Perception (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, perception_prof)"},{"id":"performance_prof","name":"Performance Proficiency","type":"checkbox","defaultValue":false},{"id":"performance","name":"Performance (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, performance_prof)"},{"id":"persuasion_prof","name":"Persuasion Proficiency","type":"checkbox","defaultValue":false},{"id":"persuasion","name":"Persuasion (Cha)","type":"calculation","formula":"skill_modifier(charisma, level, persuasion_prof)"},{"id":"religion_prof","name":"Religion Proficiency","type":"checkbox","defaultValue":false},{"id":"religion","name":"Religion (Int)","type":"calculation","formula":"skill_modifier(intelligence, level, religion_prof)"},{"id":"sleight_of_hand_prof","name":"Sleight of Hand Proficiency","type":"checkbox","defaultValue":false},{"id":"sleight_of_hand","name":"Sleight of Hand (Dex)","type":"calculation","formula":"skill_modifier(dexterity, level, sleight_of_hand_prof)"},{"id":"stealth_prof","name":"Stealth Proficiency","type":"checkbox","defaultValue":false},{"id":"stealth","name":"Stealth (Dex)","type":"calculation","formula":"skill_modifier(dexterity, level, stealth_prof)"},{"id":"survival_prof","name":"Survival Proficiency","type":"checkbox","defaultValue":false},{"id":"survival","name":"Survival (Wis)","type":"calculation","formula":"skill_modifier(wisdom, level, survival_prof)"},{"id":"passive_perception","name":"Passive Perception","type":"calculation","formula":"passive_score(wisdom, level, perception_prof)"}]},{"id":"combat","name":"Combat Stats","fields":[{"id":"armor_class","name":"Armor Class","type":"number","defaultValue":10},{"id":"initiative","name":"Initiative","type":"calculation","formula":"dex_mod"},{"id":"speed","name":"Speed","type":"number","defaultValue":30},{"id":"hp_adjustment","name":"Hit Point Adjustment","type":"number","defaultValue":0},{"id":"hit_point_max","name":"Hit Point Maximum","type":"calculation","formula":"hit_point_maximum(class, level, constitution) + hp_adjustment"},{"id":"current_hit_points","name":"Current Hit Points","type":"tracker","defaultValue":10,"min":0,"maxFormula":"hit_point_max"},{"id":"temporary_hit_points","name":"Temporary Hit Points","type":"number","defaultValue":0,"min":0},{"id":"hit_dice","name":"Hit Die Size","type":"calculation","formula":"hit_die(class)"}]},{"id":"spellcasting","name":"Spellcasting","fields":[{"id":"spellcasting_ability","name":"Spellcasting Ability","type":"calculation","formula":"spellcasting_ability(class)","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"spell_save_dc","name":"Spell Save DC","type":"calculation","formula":"spell_save_dc(class, level, intelligence, wisdom, charisma)","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"spell_attack_bonus","name":"Spell Attack Bonus","type":"calculation","formula":"spell_attack_bonus(class, level, intelligence, wisdom, charisma)","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"cantrips","name":"Cantrips","type":"text","defaultValue":"","visibleWhen":"spellcasting_ability(class) != \"\""},{"id":"level1_slots","name":"Level 1 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 1)","visibleWhen":"spell_slots(class, level, 1) > 0"},{"id":"level2_slots","name":"Level 2 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 2)","visibleWhen":"spell_slots(class, level, 2) > 0"},{"id":"level3_slots","name":"Level 3 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 3)","visibleWhen":"spell_slots(class, level, 3) > 0"},{"id":"level4_slots","name":"Level 4 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 4)","visibleWhen":"spell_slots(class, level, 4) > 0"},{"id":"level5_slots","name":"Level 5 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 5)","visibleWhen":"spell_slots(class, level, 5) > 0"},{"id":"level6_slots","name":"Level 6 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 6)","visibleWhen":"spell_slots(class, level, 6) > 0"},{"id":"level7_slots","name":"Level 7 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 7)","visibleWhen":"spell_slots(class, level, 7) > 0"},{"id":"level8_slots","name":"Level 8 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 8)","visibleWhen":"spell_slots(class, level, 8) > 0"},{"id":"level9_slots","name":"Level 9 Slots","type":"tracker","defaultValue":4,"min":0,"maxFormula":"spell_slots(class, level, 9)","visibleWhen":"spell_slots(class, level, 9) > 0"}]},{"id":"equipment","name":"Equipment","fields":[{"id":"copper","name":"Copper (CP)","type":"number","defaultValue":0},{"id":"silver","name":"Silver (SP)","type":"number","defaultValue":0},{"id":"electrum","name":"Electrum (EP)","type":"number","defaultValue":0},{"id":"gold","name":"Gold (GP)","type":"number","defaultValue":0},{"id":"platinum","name":"Platinum (PP)","type":"number","defaultValue":0},{"id":"equipment_list","name":"Equipment List","type":"text","defaultValue":""}]},{"id":"features","name":"Features & Traits","fields":[{"id":"features","name":"Features & Traits","type":"text","defaultValue":""},{"id":"proficiencies","name":"Proficiencies","type":"text","defaultValue":""},{"id":"languages","name":"Languages","type":"text","defaultValue":""}]}]}';
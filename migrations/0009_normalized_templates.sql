@@ -0,0 +1,61 @@
+-- Migration number: 0009 	 2026-10-19
+-- Normalized template tables
+
+-- The tables from 0002 were never written to, and their global IDs cannot
+-- hold templates sharing subcategory or field IDs, so they are recreated
+-- with keys scoped to their template. They hold the latest version of
+-- every template; older versions stay in scoresheet_versions.
+-- scoresheets.structure is no longer kept up to date.
+DROP INDEX IF EXISTS idx_scoresheet_fields_subcategory_id;
+DROP INDEX IF EXISTS idx_scoresheet_subcategories_scoresheet_id;
+DROP TABLE scoresheet_fields;
+DROP TABLE scoresheet_subcategories;
+
+CREATE TABLE scoresheet_subcategories (
+  scoresheet_id TEXT NOT NULL,
+  id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  display_order INTEGER NOT NULL,
+  settings TEXT, -- JSON object of the other properties, such as round settings
+  PRIMARY KEY (scoresheet_id, id),
+  FOREIGN KEY (scoresheet_id) REFERENCES scoresheets(id)
+);
+
+CREATE TABLE scoresheet_fields (
+  scoresheet_id TEXT NOT NULL,
+  id TEXT NOT NULL,
+  subcategory_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  default_value TEXT, -- JSON value
+  options TEXT, -- JSON array for dropdown options
+  formula TEXT, -- For calculation fields
+  min_value FLOAT,
+  max_value FLOAT,
+  display_order INTEGER NOT NULL,
+  settings TEXT, -- JSON object of the other properties, such as dice notation and rules
+  PRIMARY KEY (scoresheet_id, id),
+  FOREIGN KEY (scoresheet_id, subcategory_id) REFERENCES scoresheet_subcategories(scoresheet_id, id)
+);
+
+CREATE INDEX idx_scoresheet_fields_subcategory_id ON scoresheet_fields(scoresheet_id, subcategory_id);
+CREATE INDEX idx_scoresheet_fields_type ON scoresheet_fields(type);
+
+-- Backfill from the latest version of every template
+INSERT INTO scoresheet_subcategories (scoresheet_id, id, name, display_order, settings)
+SELECT l.scoresheet_id, json_extract(sub.value, '$.id'), json_extract(sub.value, '$.name'), sub.key,
+  NULLIF(json_remove(sub.value, '$.id', '$.name', '$.fields'), '{}')
+FROM (SELECT s.id AS scoresheet_id,
+  CASE WHEN json_type(v.structure) = 'array' THEN v.structure ELSE json_extract(v.structure, '$.subcategories') END AS subcategories
+  FROM scoresheets s JOIN scoresheet_versions v ON v.scoresheet_id = s.id AND v.version = s.current_version
+  WHERE TRUE) l, json_each(l.subcategories) sub;
+
+INSERT INTO scoresheet_fields (scoresheet_id, id, subcategory_id, name, type, default_value, options, formula, min_value, max_value, display_order, settings)
+SELECT l.scoresheet_id, json_extract(f.value, '$.id'), json_extract(sub.value, '$.id'), json_extract(f.value, '$.name'),
+  json_extract(f.value, '$.type'), f.value -> '$.defaultValue', f.value -> '$.options', json_extract(f.value, '$.formula'),
+  json_extract(f.value, '$.min'), json_extract(f.value, '$.max'), f.key,
+  NULLIF(json_remove(f.value, '$.id', '$.name', '$.type', '$.defaultValue', '$.options', '$.formula', '$.min', '$.max'), '{}')
+FROM (SELECT s.id AS scoresheet_id,
+  CASE WHEN json_type(v.structure) = 'array' THEN v.structure ELSE json_extract(v.structure, '$.subcategories') END AS subcategories
+  FROM scoresheets s JOIN scoresheet_versions v ON v.scoresheet_id = s.id AND v.version = s.current_version
+  WHERE TRUE) l, json_each(l.subcategories) sub, json_each(sub.value, '$.fields') f;
@@ -0,0 +1,14 @@
+-- Migration number: 0010 	 2026-10-19
+-- Nested subcategories
+
+-- Subcategories can be nested in another subcategory of the same template.
+-- Their display_order keeps every subcategory after its parent.
+ALTER TABLE scoresheet_subcategories ADD COLUMN parent_id TEXT;
+
+CREATE INDEX idx_scoresheet_subcategories_parent_id ON scoresheet_subcategories(scoresheet_id, parent_id);
+
+-- Move parents kept in the settings of existing rows to the new column
+UPDATE scoresheet_subcategories
+SET parent_id = json_extract(settings, '$.parentId'),
+  settings = NULLIF(json_remove(settings, '$.parentId'), '{}')
+WHERE json_extract(settings, '$.parentId') IS NOT NULL;
@@ -0,0 +1,97 @@
+-- Migration number: 0011 	 2026-10-19
+-- Win conditions and session placements
+
+-- Win condition of the latest version of every template, kept up to date
+-- together with the normalized template rows
+ALTER TABLE scoresheets ADD COLUMN win_condition TEXT;
+
+-- Placement of every player of a completed session, 1 for the winner
+ALTER TABLE session_players ADD COLUMN placement INTEGER;
+
+-- Generated with npm run --silent seed:templates. Catan and 7 Wonders now
+-- declare their tiebreaks, which makes a new version of both templates.
+INSERT INTO games (id, name, min_players, max_players, category, is_official)
+SELECT 'catan', 'Catan', 3, 4, 'Strategy', TRUE
+WHERE NOT EXISTS (SELECT 1 FROM games WHERE id = 'catan' OR name = 'Catan');
+
+INSERT INTO scoresheets (id, game_id, name, structure, is_official, current_version)
+SELECT 'official-catan', (SELECT id FROM games WHERE id = 'catan' OR name = 'Catan' ORDER BY id = 'catan' DESC LIMIT 1), 'Catan', '{}', TRUE, 0
+WHERE NOT EXISTS (SELECT 1 FROM scoresheets WHERE id = 'official-catan');
+
+INSERT INTO scoresheet_versions (scoresheet_id, version, structure)
+SELECT id, current_version + 1, '{"subcategories":[{"id":"buildings","name":"Buildings","fields":[{"id":"settlements","name":"Settlements","type":"number","defaultValue":2,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]},{"id":"cities","name":"Cities","type":"number","defaultValue":0,"min":0,"max":4,"validation":[{"type":"range","min":0,"max":4}]}]},{"id":"special","name":"Special Cards","fields":[{"id":"longest_road","name":"Longest Road","type":"checkbox","defaultValue":false},{"id":"largest_army","name":"Largest Army","type":"checkbox","defaultValue":false},{"id":"victory_point_cards","name":"Victory Point Cards","type":"number","defaultValue":0,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Victory Points","type":"calculation","formula":"settlements + cities * 2 + if(longest_road, 2, 0) + if(largest_army, 2, 0) + victory_point_cards"}]}],"winCondition":{"totalFieldId":"total","tiebreaks":[{"fieldId":"longest_road"}]}}' FROM scoresheets
+WHERE id = 'official-catan' AND NOT EXISTS (SELECT 1 FROM scoresheet_versions v
+  WHERE v.scoresheet_id = scoresheets.id AND v.version = scoresheets.current_version AND v.structure = '{"subcategories":[{"id":"buildings","name":"Buildings","fields":[{"id":"settlements","name":"Settlements","type":"number","defaultValue":2,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]},{"id":"cities","name":"Cities","type":"number","defaultValue":0,"min":0,"max":4,"validation":[{"type":"range","min":0,"max":4}]}]},{"id":"special","name":"Special Cards","fields":[{"id":"longest_road","name":"Longest Road","type":"checkbox","defaultValue":false},{"id":"largest_army","name":"Largest Army","type":"checkbox","defaultValue":false},{"id":"victory_point_cards","name":"Victory Point Cards","type":"number","defaultValue":0,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Victory Points","type":"calculation","formula":"settlements + cities * 2 + if(longest_road, 2, 0) + if(largest_army, 2, 0) + victory_point_cards"}]}],"winCondition":{"totalFieldId":"total","tiebreaks":[{"fieldId":"longest_road"}]}}');
+
+UPDATE scoresheets SET current_version = current_version + 1, name = 'Catan', is_official = TRUE
+WHERE id = 'official-catan' AND NOT EXISTS (SELECT 1 FROM scoresheet_versions v
+  WHERE v.scoresheet_id = scoresheets.id AND v.version = scoresheets.current_version AND v.structure = '{"subcategories":[{"id":"buildings","name":"Buildings","fields":[{"id":"settlements","name":"Settlements","type":"number","defaultValue":2,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]},{"id":"cities","name":"Cities","type":"number","defaultValue":0,"min":0,"max":4,"validation":[{"type":"range","min":0,"max":4}]}]},{"id":"special","name":"Special Cards","fields":[{"id":"longest_road","name":"Longest Road","type":"checkbox","defaultValue":false},{"id":"largest_army","name":"Largest Army","type":"checkbox","defaultValue":false},{"id":"victory_point_cards","name":"Victory Point Cards","type":"number","defaultValue":0,"min":0,"max":5,"validation":[{"type":"range","min":0,"max":5}]}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Victory Points","type":"calculation","formula":"settlements + cities * 2 + if(longest_road, 2, 0) + if(largest_army, 2, 0) + victory_point_cards"}]}],"winCondition":{"totalFieldId":"total","tiebreaks":[{"fieldId":"longest_road"}]}}');
+
+DELETE FROM scoresheet_fields WHERE scoresheet_id IN (SELECT s.id FROM scoresheets s WHERE s.id = 'official-catan');
+
+DELETE FROM scoresheet_subcategories WHERE scoresheet_id IN (SELECT s.id FROM scoresheets s WHERE s.id = 'official-catan');
+
+INSERT INTO scoresheet_subcategories (scoresheet_id, id, parent_id, name, display_order, settings)
+SELECT l.scoresheet_id, json_extract(sub.value, '$.id'), json_extract(sub.value, '$.parentId'), json_extract(sub.value, '$.name'), sub.key,
+  NULLIF(json_remove(sub.value, '$.id', '$.parentId', '$.name', '$.fields'), '{}')
+FROM (SELECT s.id AS scoresheet_id,
+  CASE WHEN json_type(v.structure) = 'array' THEN v.structure ELSE json_extract(v.structure, '$.subcategories') END AS subcategories
+  FROM scoresheets s JOIN scoresheet_versions v ON v.scoresheet_id = s.id AND v.version = s.current_version
+  WHERE s.id = 'official-catan') l, json_each(l.subcategories) sub;
+
+INSERT INTO scoresheet_fields (scoresheet_id, id, subcategory_id, name, type, default_value, options, formula, min_value, max_value, display_order, settings)
+SELECT l.scoresheet_id, json_extract(f.value, '$.id'), json_extract(sub.value, '$.id'), json_extract(f.value, '$.name'),
+  json_extract(f.value, '$.type'), f.value -> '$.defaultValue', f.value -> '$.options', json_extract(f.value, '$.formula'),
+  json_extract(f.value, '$.min'), json_extract(f.value, '$.max'), f.key,
+  NULLIF(json_remove(f.value, '$.id', '$.name', '$.type', '$.defaultValue', '$.options', '$.formula', '$.min', '$.max'), '{}')
+FROM (SELECT s.id AS scoresheet_id,
+  CASE WHEN json_type(v.structure) = 'array' THEN v.structure ELSE json_extract(v.structure, '$.subcategories') END AS subcategories
+  FROM scoresheets s JOIN scoresheet_versions v ON v.scoresheet_id = s.id AND v.version = s.current_version
+  WHERE s.id = 'official-catan') l, json_each(l.subcategories) sub, json_each(sub.value, '$.fields') f;
+
+UPDATE scoresheets AS s SET win_condition = (SELECT v.structure -> '$.winCondition' FROM scoresheet_versions v
+  WHERE v.scoresheet_id = s.id AND v.version = s.current_version AND json_type(v.structure) = 'object')
+WHERE s.id = 'official-catan';
+
+INSERT INTO games (id, name, min_players, max_players, category, is_official)
+SELECT '7-wonders', '7 Wonders', 3, 7, 'Card Drafting', TRUE
+WHERE NOT EXISTS (SELECT 1 FROM games WHERE id = '7-wonders' OR name = '7 Wonders');
+
+INSERT INTO scoresheets (id, game_id, name, structure, is_official, current_version)
+SELECT 'official-7-wonders', (SELECT id FROM games WHERE id = '7-wonders' OR name = '7 Wonders' ORDER BY id = '7-wonders' DESC LIMIT 1), '7 Wonders', '{}', TRUE, 0
+WHERE NOT EXISTS (SELECT 1 FROM scoresheets WHERE id = 'official-7-wonders');
+
+INSERT INTO scoresheet_versions (scoresheet_id, version, structure)
+SELECT id, current_version + 1, '{"subcategories":[{"id":"military","name":"Military","fields":[{"id":"military","name":"Military Conflicts","type":"number","defaultValue":0,"min":-6,"max":18}]},{"id":"treasury","name":"Treasury","fields":[{"id":"coins","name":"Coins","type":"number","defaultValue":0,"min":0},{"id":"treasury","name":"Treasury Points","type":"calculation","formula":"floor(coins / 3)"}]},{"id":"buildings","name":"Wonder and Buildings","fields":[{"id":"wonder","name":"Wonder Stages","type":"number","defaultValue":0,"min":0},{"id":"civilian","name":"Civilian Structures","type":"number","defaultValue":0,"min":0},{"id":"commercial","name":"Commercial Structures","type":"number","defaultValue":0,"min":0},{"id":"guilds","name":"Guilds","type":"number","defaultValue":0,"min":0}]},{"id":"science","name":"Scientific Structures","fields":[{"id":"compasses","name":"Compasses","type":"number","defaultValue":0,"min":0},{"id":"gears","name":"Gears","type":"number","defaultValue":0,"min":0},{"id":"tablets","name":"Tablets","type":"number","defaultValue":0,"min":0},{"id":"science","name":"Science Points","type":"calculation","formula":"compasses * compasses + gears * gears + tablets * tablets + 7 * min(compasses, gears, tablets)"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"military + treasury + wonder + civilian + commercial + guilds + science"}]}],"winCondition":{"totalFieldId":"total","tiebreaks":[{"fieldId":"coins"}]}}' FROM scoresheets
+WHERE id = 'official-7-wonders' AND NOT EXISTS (SELECT 1 FROM scoresheet_versions v
+  WHERE v.scoresheet_id = scoresheets.id AND v.version = scoresheets.current_version AND v.structure = '{"subcategories":[{"id":"military","name":"Military","fields":[{"id":"military","name":"Military Conflicts","type":"number","defaultValue":0,"min":-6,"max":18}]},{"id":"treasury","name":"Treasury","fields":[{"id":"coins","name":"Coins","type":"number","defaultValue":0,"min":0},{"id":"treasury","name":"Treasury Points","type":"calculation","formula":"floor(coins / 3)"}]},{"id":"buildings","name":"Wonder and Buildings","fields":[{"id":"wonder","name":"Wonder Stages","type":"number","defaultValue":0,"min":0},{"id":"civilian","name":"Civilian Structures","type":"number","defaultValue":0,"min":0},{"id":"commercial","name":"Commercial Structures","type":"number","defaultValue":0,"min":0},{"id":"guilds","name":"Guilds","type":"number","defaultValue":0,"min":0}]},{"id":"science","name":"Scientific Structures","fields":[{"id":"compasses","name":"Compasses","type":"number","defaultValue":0,"min":0},{"id":"gears","name":"Gears","type":"number","defaultValue":0,"min":0},{"id":"tablets","name":"Tablets","type":"number","defaultValue":0,"min":0},{"id":"science","name":"Science Points","type":"calculation","formula":"compasses * compasses + gears * gears + tablets * tablets + 7 * min(compasses, gears, tablets)"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"military + treasury + wonder + civilian + commercial + guilds + science"}]}],"winCondition":{"totalFieldId":"total","tiebreaks":[{"fieldId":"coins"}]}}');
+
+UPDATE scoresheets SET current_version = current_version + 1, name = '7 Wonders', is_official = TRUE
+WHERE id = 'official-7-wonders' AND NOT EXISTS (SELECT 1 FROM scoresheet_versions v
+  WHERE v.scoresheet_id = scoresheets.id AND v.version = scoresheets.current_version AND v.structure = '{"subcategories":[{"id":"military","name":"Military","fields":[{"id":"military","name":"Military Conflicts","type":"number","defaultValue":0,"min":-6,"max":18}]},{"id":"treasury","name":"Treasury","fields":[{"id":"coins","name":"Coins","type":"number","defaultValue":0,"min":0},{"id":"treasury","name":"Treasury Points","type":"calculation","formula":"floor(coins / 3)"}]},{"id":"buildings","name":"Wonder and Buildings","fields":[{"id":"wonder","name":"Wonder Stages","type":"number","defaultValue":0,"min":0},{"id":"civilian","name":"Civilian Structures","type":"number","defaultValue":0,"min":0},{"id":"commercial","name":"Commercial Structures","type":"number","defaultValue":0,"min":0},{"id":"guilds","name":"Guilds","type":"number","defaultValue":0,"min":0}]},{"id":"science","name":"Scientific Structures","fields":[{"id":"compasses","name":"Compasses","type":"number","defaultValue":0,"min":0},{"id":"gears","name":"Gears","type":"number","defaultValue":0,"min":0},{"id":"tablets","name":"Tablets","type":"number","defaultValue":0,"min":0},{"id":"science","name":"Science Points","type":"calculation","formula":"compasses * compasses + gears * gears + tablets * tablets + 7 * min(compasses, gears, tablets)"}]},{"id":"totals","name":"Totals","fields":[{"id":"total","name":"Total","type":"calculation","formula":"military + treasury + wonder + civilian + commercial + guilds + science"}]}],"winCondition":{"totalFieldId":"total","tiebreaks":[{"fieldId":"coins"}]}}');
+
+DELETE FROM scoresheet_fields WHERE scoresheet_id IN (SELECT s.id FROM scoresheets s WHERE s.id = 'official-7-wonders');
+
+DELETE FROM scoresheet_subcategories WHERE scoresheet_id IN (SELECT s.id FROM scoresheets s WHERE s.id = 'official-7-wonders');
+
+INSERT INTO scoresheet_subcategories (scoresheet_id, id, parent_id, name, display_order, settings)
+SELECT l.scoresheet_id, json_extract(sub.value, '$.id'), json_extract(sub.value, '$.parentId'), json_extract(sub.value, '$.name'), sub.key,
+  NULLIF(json_remove(sub.value, '$.id', '$.parentId', '$.name', '$.fields'), '{}')
+FROM (SELECT s.id AS scoresheet_id,
+  CASE WHEN json_type(v.structure) = 'array' THEN v.structure ELSE json_extract(v.structure, '$.subcategories') END AS subcategories
+  FROM scoresheets s JOIN scoresheet_versions v ON v.scoresheet_id = s.id AND v.version = s.current_version
+  WHERE s.id = 'official-7-wonders') l, json_each(l.subcategories) sub;
+
+INSERT INTO scoresheet_fields (scoresheet_id, id, subcategory_id, name, type, default_value, options, formula, min_value, max_value, display_order, settings)
+SELECT l.scoresheet_id, json_extract(f.value, '$.id'), json_extract(sub.value, '$.id'), json_extract(f.value, '$.name'),
+  json_extract(f.value, '$.type'), f.value -> '$.defaultValue', f.value -> '$.options', json_extract(f.value, '$.formula'),
+  json_extract(f.value, '$.min'), json_extract(f.value, '$.max'), f.key,
+  NULLIF(json_remove(f.value, '$.id', '$.name', '$.type', '$.defaultValue', '$.options', '$.formula', '$.min', '$.max'), '{}')
+FROM (SELECT s.id AS scoresheet_id,
+  CASE WHEN json_type(v.structure) = 'array' THEN v.structure ELSE json_extract(v.structure, '$.subcategories') END AS subcategories
+  FROM scoresheets s JOIN scoresheet_versions v ON v.scoresheet_id = s.id AND v.version = s.current_version
+  WHERE s.id = 'official-7-wonders') l, json_each(l.subcategories) sub, json_each(sub.value, '$.fields') f;
+
+UPDATE scoresheets AS s SET win_condition = (SELECT v.structure -> '$.winCondition' FROM scoresheet_versions v
+  WHERE v.scoresheet_id = s.id AND v.version = s.current_version AND json_type(v.structure) = 'object')
+WHERE s.id = 'official-7-wonders';
@@ -0,0 +1,17 @@
+-- Migration number: 0012 	 2026-10-19
+-- Read-only share links of sessions
+
+-- Links open a session without logging in. The token handed out is the
+-- share ID signed with the server's secret; the row decides whether the
+-- link still works, so links can expire and be revoked.
+CREATE TABLE session_shares (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  created_by TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  FOREIGN KEY (session_id) REFERENCES game_sessions(id)
+);
+
+CREATE INDEX idx_session_shares_session_id ON session_shares(session_id);
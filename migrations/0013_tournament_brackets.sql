@@ -0,0 +1,28 @@
+-- Migration number: 0013 	 2026-10-19
+-- Tournament brackets
+
+-- Participants get an ID to appear in matches by, their position in the
+-- seeding and an optional rating used for seeding
+ALTER TABLE tournament_participants ADD COLUMN id TEXT;
+ALTER TABLE tournament_participants ADD COLUMN seed INTEGER;
+ALTER TABLE tournament_participants ADD COLUMN rating REAL;
+
+UPDATE tournament_participants SET id = lower(hex(randomblob(16))) WHERE id IS NULL;
+
+CREATE UNIQUE INDEX idx_tournament_participants_id ON tournament_participants(id);
+
+ALTER TABLE tournaments ADD COLUMN description TEXT;
+ALTER TABLE tournaments ADD COLUMN seeding TEXT;
+
+-- match_number is the position of a match within its round. Winners move
+-- on to next_match_id, as its player 1 or 2 (next_slot).
+ALTER TABLE tournament_matches ADD COLUMN player1_id TEXT;
+ALTER TABLE tournament_matches ADD COLUMN player2_id TEXT;
+ALTER TABLE tournament_matches ADD COLUMN winner_id TEXT;
+ALTER TABLE tournament_matches ADD COLUMN score1 REAL;
+ALTER TABLE tournament_matches ADD COLUMN score2 REAL;
+ALTER TABLE tournament_matches ADD COLUMN next_match_id TEXT;
+ALTER TABLE tournament_matches ADD COLUMN next_slot INTEGER;
+ALTER TABLE tournament_matches ADD COLUMN is_bye BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX idx_tournament_matches_tournament_id ON tournament_matches(tournament_id, round, match_number);
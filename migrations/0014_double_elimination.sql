@@ -0,0 +1,9 @@
+-- Migration number: 0014 	 2026-10-19
+-- Double-elimination brackets
+
+-- Matches of double elimination belong to the winners or losers bracket or
+-- to the grand final; their losers drop to loser_match_id, as its player 1
+-- or 2 (loser_slot). Matches without a bracket are single elimination.
+ALTER TABLE tournament_matches ADD COLUMN bracket TEXT;
+ALTER TABLE tournament_matches ADD COLUMN loser_match_id TEXT;
+ALTER TABLE tournament_matches ADD COLUMN loser_slot INTEGER;
@@ -0,0 +1,7 @@
+-- Migration number: 0015 	 2026-10-19
+-- Round-robin tournaments
+
+-- Settings chosen when a tournament is created, as JSON: the bracket reset
+-- of double elimination, double round robin and the points and tiebreakers
+-- of standings
+ALTER TABLE tournaments ADD COLUMN settings TEXT;
@@ -0,0 +1,6 @@
+-- Migration number: 0016 	 2026-10-19
+-- Multi-player pod matches
+
+-- Players at a table of a pod tournament, as a JSON list of their player
+-- IDs, scores and placements. Two-player matches leave it empty.
+ALTER TABLE tournament_matches ADD COLUMN participants TEXT;
@@ -0,0 +1,7 @@
+-- Migration number: 0017 	 2026-10-19
+-- Session value revisions
+
+-- Counts the saves of the values of a session. Devices send the revision
+-- their values are based on, so a save made from stale values is rejected
+-- instead of overwriting values saved by another device in the meantime.
+ALTER TABLE game_sessions ADD COLUMN values_revision INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,7 @@
+import { getSeedStatements } from '../src/server/officialTemplates';
+
+// Print the SQL installing or updating the official template library, for
+// example: npm run --silent seed:templates > seed.sql && wrangler d1 execute <database> --file seed.sql
+// Running it again only changes templates edited since the last run.
+
+console.log(getSeedStatements().join('\n\n'));
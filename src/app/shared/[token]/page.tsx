@@ -0,0 +1,89 @@
+import React from 'react';
+import type { Metadata } from 'next';
+import ScoresheetRenderer from '../../../components/ScoresheetRenderer';
+import { SharedSession } from '../../../lib/scoresheet/types';
+
+// Read-only view of a shared session, opened without logging in. The game,
+// players and totals are rendered on the server so link previews show them;
+// the full sheet is rendered in the browser from the same share token.
+
+const API_URL = 'https://scoresheet-api.kammyswag.workers.dev';
+
+type Params = Promise<{ token: string }>;
+
+// Load the shared session, or the reason the link does not open it
+const loadSharedSession = async (token: string): Promise<{ shared?: SharedSession; error?: string }> => {
+  try {
+    const response = await fetch(`${API_URL}/api/shared/${encodeURIComponent(token)}`, { cache: 'no-store' });
+    const data = await response.json();
+    return data.success ? { shared: data.data } : { error: data.error || 'This share link does not work' };
+  } catch (err) {
+    return { error: 'The shared session could not be loaded' };
+  }
+};
+
+const describePlayers = (shared: SharedSession) => {
+  return shared.summary.players
+    .map(player => player.total === null ? player.name : `${player.name} ${player.total}`)
+    .join(', ');
+};
+
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const { token } = await params;
+  const { shared } = await loadSharedSession(token);
+  
+  if (!shared) {
+    return { title: 'Shared scoresheet', robots: { index: false } };
+  }
+  
+  const title = `${shared.summary.gameName} scoresheet`;
+  const description = describePlayers(shared);
+  
+  return {
+    title,
+    description,
+    robots: { index: false },
+    openGraph: { title, description, type: 'article' },
+    twitter: { card: 'summary', title, description }
+  };
+}
+
+export default async function SharedSessionPage({ params }: { params: Params }) {
+  const { token } = await params;
+  const { shared, error } = await loadSharedSession(token);
+  
+  if (!shared) {
+    return (
+      <main className="max-w-3xl mx-auto p-8 text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Shared scoresheet</h1>
+        <p className="text-gray-600">{error}</p>
+      </main>
+    );
+  }
+  
+  const completed = shared.session.status === 'completed';
+  
+  return (
+    <main className="max-w-5xl mx-auto p-8">
+      <h1 className="text-2xl font-bold text-gray-900">{shared.summary.gameName}</h1>
+      <p className="text-sm text-gray-500 mb-4">
+        {completed ? 'Final scores' : 'Scores so far'}
+        {shared.expiresAt && ` · Link expires ${new Date(shared.expiresAt).toLocaleDateString()}`}
+      </p>
+      
+      <ol className="mb-8 space-y-1">
+        {shared.summary.players.map(player => (
+          <li key={player.name} className="flex justify-between max-w-md text-sm">
+            <span>
+              {player.placement !== undefined && <span className="font-bold mr-2">#{player.placement}</span>}
+              {player.name}
+            </span>
+            {player.total !== null && <span className="font-medium">{player.total}</span>}
+          </li>
+        ))}
+      </ol>
+      
+      <ScoresheetRenderer shareToken={token} />
+    </main>
+  );
+}
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { describeRoll, getDiceNotationError, isDiceRoll, rollDice } from '../lib/scoresheet/dice';
+import { DiceRoll, ScoresheetField } from '../lib/scoresheet/types';
+
+// This component implements the input of dice fields: the notation to roll,
+// a roll button and the latest roll with its individual dice
+
+interface DiceRollInputProps {
+  field: ScoresheetField;
+  value: any;
+  onRoll: (roll: DiceRoll) => void;
+  disabled?: boolean;
+}
+
+const DiceRollInput: React.FC<DiceRollInputProps> = ({ field, value, onRoll, disabled = false }) => {
+  const lastRoll = isDiceRoll(value) ? value : null;
+  const [notation, setNotation] = useState(lastRoll?.notation || field.notation || '1d20');
+  const notationError = getDiceNotationError(notation);
+
+  const roll = () => {
+    if (disabled || notationError) return;
+    onRoll(rollDice(notation));
+  };
+
+  return (
+    <div>
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={notation}
+          onChange={(e) => setNotation(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && roll()}
+          disabled={disabled}
+          aria-label={`${field.name} dice`}
+          className={`block w-full rounded-md ${
+            disabled ? 'bg-gray-100' : 'border-gray-300'
+          } shadow-sm focus:border-indigo-500 focus:ring-indigo-500`}
+        />
+        <button
+          onClick={roll}
+          disabled={disabled || !!notationError}
+          className="inline-flex items-center px-3 py-1 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          Roll
+        </button>
+      </div>
+
+      {notationError && !disabled && (
+        <p className="mt-1 text-xs text-red-600">{notationError}</p>
+      )}
+
+      {lastRoll && (
+        <p className="mt-1 text-sm text-gray-700" title={`${lastRoll.notation}, seed ${lastRoll.seed}`}>
+          <span className="font-bold mr-2">{lastRoll.total}</span>
+          <span className="text-xs text-gray-500">{describeRoll(lastRoll)}</span>
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DiceRollInput;
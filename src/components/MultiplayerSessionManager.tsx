@@ -10,6 +10,9 @@ interface Player {
   isHost?: boolean;
   isConnected?: boolean;
   score?: number;
+  // Placement stored when the session is completed, decided by the win
+  // condition of the scoresheet template. Tied players share a placement.
+  placement?: number;
 }
 
 interface MultiplayerSession {
@@ -28,6 +31,20 @@ interface Game {
   category: string;
 }
 
+// Results in placement order. Sessions completed before placements were
+// stored fall back to the highest score.
+const getResults = (players: Player[]): { player: Player; placement: number }[] => {
+  if (players.every(player => player.placement !== undefined)) {
+    return [...players]
+      .sort((a, b) => a.placement - b.placement)
+      .map(player => ({ player, placement: player.placement }));
+  }
+  
+  return [...players]
+    .sort((a, b) => (b.score || 0) - (a.score || 0))
+    .map((player, index) => ({ player, placement: index + 1 }));
+};
+
 const MultiplayerSessionManager = ({ sessionId }: { sessionId: string }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -357,12 +374,11 @@ const MultiplayerSessionManager = ({ sessionId }: { sessionId: string }) => {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200 bg-white">
-                  {[...session.players]
-                    .sort((a, b) => (b.score || 0) - (a.score || 0))
-                    .map((player, index) => (
+                  {getResults(session.players)
+                    .map(({ player, placement }) => (
                       <tr key={player.id}>
                         <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-gray-900 sm:pl-6">
-                          {index + 1}
+                          {placement}
                         </td>
                         <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
                           {player.name} {player.isHost && <span className="text-xs text-gray-500">(Host)</span>}
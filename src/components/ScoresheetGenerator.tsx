@@ -1,34 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
+import { calculateFields, getDependencyGraph } from '../lib/scoresheet/calculations';
+import { renderBlankSheetHtml, renderBlankSheetPdf } from '../lib/scoresheet/printable';
+import { serializeTemplateFile } from '../lib/scoresheet/templateFile';
+import { addRound, getRoundCount, getRunningTotals, setFieldValue } from '../lib/scoresheet/rounds';
+import { getHiddenFields, getIssueKey, groupIssues, validateValues } from '../lib/scoresheet/rules';
+import { getDefaultValues } from '../lib/scoresheet/template';
+import { getTrackerBounds } from '../lib/scoresheet/tracker';
+import { ScoresheetField, ScoresheetSubcategory, ScoresheetTemplate } from '../lib/scoresheet/types';
+import DiceRollInput from './DiceRollInput';
+import TrackerInput from './TrackerInput';
 
 // Advanced scoresheet generator component with subcategories support
 // This implements the user requirement for subcategories in scoresheets for complex games
 
-interface ScoresheetField {
-  id: string;
-  name: string;
-  type: 'number' | 'text' | 'checkbox' | 'dropdown' | 'calculation';
-  defaultValue?: any;
-  options?: string[];
-  formula?: string;
-  min?: number;
-  max?: number;
-  value?: any;
-}
-
-interface ScoresheetSubcategory {
-  id: string;
-  name: string;
-  fields: ScoresheetField[];
-}
-
-interface ScoresheetTemplate {
-  id: string;
-  name: string;
-  gameId: string;
-  subcategories: ScoresheetSubcategory[];
-}
-
 const ScoresheetGenerator = ({ gameId, gameName }: { gameId: string, gameName: string }) => {
   const router = useRouter();
   const [loading, setLoading] = useState(true);
@@ -36,6 +21,9 @@ const ScoresheetGenerator = ({ gameId, gameName }: { gameId: string, gameName: s
   const [templates, setTemplates] = useState<ScoresheetTemplate[]>([]);
   const [selectedTemplate, setSelectedTemplate] = useState<ScoresheetTemplate | null>(null);
   const [scoresheetData, setScoresheetData] = useState<Record<string, any>>({});
+  const [printPlayerCount, setPrintPlayerCount] = useState(4);
+  // Validation messages are shown once saving has been tried
+  const [showIssues, setShowIssues] = useState(false);
   
   // Fetch available scoresheet templates for this game
   useEffect(() => {
@@ -48,10 +36,11 @@ const ScoresheetGenerator = ({ gameId, gameName }: { gameId: string, gameName: s
         
         if (data.success) {
           setTemplates(data.data);
-          // If templates exist, select the first one by default
+          // If templates exist, select an official one by default
           if (data.data.length > 0) {
-            setSelectedTemplate(data.data[0]);
-            initializeScoresheet(data.data[0]);
+            const template = data.data.find((t: ScoresheetTemplate) => t.isOfficial) || data.data[0];
+            setSelectedTemplate(template);
+            initializeScoresheet(template);
           }
         } else {
           setError(data.error || 'Failed to load scoresheet templates');
@@ -71,52 +60,38 @@ const ScoresheetGenerator = ({ gameId, gameName }: { gameId: string, gameName: s
   
   // Initialize scoresheet with default values
   const initializeScoresheet = (template: ScoresheetTemplate) => {
-    const initialData: Record<string, any> = {};
-    
-    template.subcategories.forEach(subcategory => {
-      subcategory.fields.forEach(field => {
-        initialData[field.id] = field.defaultValue !== undefined ? field.defaultValue : 
-          field.type === 'number' ? 0 : 
-          field.type === 'checkbox' ? false : 
-          field.type === 'dropdown' && field.options?.length ? field.options[0] : '';
-      });
-    });
-    
-    setScoresheetData(initialData);
+    setScoresheetData(calculateFields(template.subcategories, getDefaultValues(template.subcategories)));
+    setShowIssues(false);
   };
   
-  // Handle field value changes
-  const handleFieldChange = (fieldId: string, value: any) => {
+  // Handle field value changes, for one round of fields scored in rounds
+  const handleFieldChange = (fieldId: string, value: any, round?: number) => {
     setScoresheetData(prev => {
-      const newData = { ...prev, [fieldId]: value };
+      const newData = setFieldValue(prev, fieldId, value, round);
       
       // Recalculate any fields with formulas that depend on this field
-      if (selectedTemplate) {
-        selectedTemplate.subcategories.forEach(subcategory => {
-          subcategory.fields.forEach(field => {
-            if (field.type === 'calculation' && field.formula) {
-              try {
-                // Simple formula evaluation (in a real app, this would be more sophisticated)
-                // Replace field IDs with their values and evaluate
-                let formula = field.formula;
-                Object.keys(newData).forEach(key => {
-                  formula = formula.replace(new RegExp(`\\b${key}\\b`, 'g'), newData[key]);
-                });
-                newData[field.id] = eval(formula);
-              } catch (err) {
-                console.error('Error evaluating formula', err);
-              }
-            }
-          });
-        });
-      }
+      return selectedTemplate ? calculateFields(selectedTemplate.subcategories, newData, [fieldId]) : newData;
+    });
+  };
+  
+  // Add a round to an open-ended subcategory
+  const handleAddRound = (subcategory: ScoresheetSubcategory) => {
+    setScoresheetData(prev => {
+      const newData = addRound(subcategory, prev);
       
-      return newData;
+      return selectedTemplate
+        ? calculateFields(selectedTemplate.subcategories, newData, subcategory.fields.map(field => field.id))
+        : newData;
     });
   };
   
   // Save scoresheet
   const saveScoresheet = async () => {
+    if (selectedTemplate && validateValues(selectedTemplate.subcategories, scoresheetData).length > 0) {
+      setShowIssues(true);
+      return;
+    }
+    
     try {
       setLoading(true);
       
@@ -129,6 +104,7 @@ const ScoresheetGenerator = ({ gameId, gameName }: { gameId: string, gameName: s
         body: JSON.stringify({
           gameId,
           scoresheetId: selectedTemplate?.id,
+          scoresheetVersion: selectedTemplate?.version,
           scoresheetData
         }),
       });
@@ -149,83 +125,136 @@ const ScoresheetGenerator = ({ gameId, gameName }: { gameId: string, gameName: s
     }
   };
   
-  // Render field based on its type
-  const renderField = (field: ScoresheetField) => {
-    const value = scoresheetData[field.id];
+  // Download an empty copy of the selected template to fill in by hand
+  const downloadBlankPdf = () => {
+    if (!selectedTemplate) return;
+    
+    const pdf = renderBlankSheetPdf(selectedTemplate, { playerCount: printPlayerCount });
+    const url = window.URL.createObjectURL(new Blob([pdf], { type: 'application/pdf' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${selectedTemplate.name}-blank.pdf`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+  
+  // Open a print-optimized copy of the selected template in a new window
+  const printBlankSheet = () => {
+    if (!selectedTemplate) return;
+    
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setError('Allow pop-ups to print blank scoresheets');
+      return;
+    }
+    
+    printWindow.document.write(renderBlankSheetHtml(selectedTemplate, { playerCount: printPlayerCount }));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+  
+  // Download the selected template as a portable template file
+  const exportTemplate = () => {
+    if (!selectedTemplate) return;
+    
+    const blob = new Blob([serializeTemplateFile(selectedTemplate)], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${selectedTemplate.name}.scoresheet.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+  
+  // Render the input for a field based on its type
+  const renderInput = (field: ScoresheetField, round?: number) => {
+    const value = round === undefined ? scoresheetData[field.id] : scoresheetData[field.id]?.[round];
     
     switch (field.type) {
       case 'number':
         return (
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700">{field.name}</label>
-            <input
-              type="number"
-              min={field.min}
-              max={field.max}
-              value={value}
-              onChange={(e) => handleFieldChange(field.id, parseFloat(e.target.value) || 0)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-            />
-          </div>
+          <input
+            type="number"
+            min={field.min}
+            max={field.max}
+            value={value}
+            onChange={(e) => handleFieldChange(field.id, parseFloat(e.target.value) || 0, round)}
+            aria-label={field.name}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          />
         );
         
       case 'text':
         return (
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700">{field.name}</label>
-            <input
-              type="text"
-              value={value}
-              onChange={(e) => handleFieldChange(field.id, e.target.value)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-            />
-          </div>
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => handleFieldChange(field.id, e.target.value, round)}
+            aria-label={field.name}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          />
         );
         
       case 'checkbox':
         return (
-          <div className="mb-4">
-            <div className="flex items-center">
-              <input
-                type="checkbox"
-                checked={value}
-                onChange={(e) => handleFieldChange(field.id, e.target.checked)}
-                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
-              />
-              <label className="ml-2 block text-sm text-gray-700">{field.name}</label>
-            </div>
-          </div>
+          <input
+            type="checkbox"
+            checked={value}
+            onChange={(e) => handleFieldChange(field.id, e.target.checked, round)}
+            aria-label={field.name}
+            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
         );
         
       case 'dropdown':
         return (
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700">{field.name}</label>
-            <select
-              value={value}
-              onChange={(e) => handleFieldChange(field.id, e.target.value)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-            >
-              {field.options?.map((option) => (
-                <option key={option} value={option}>
-                  {option}
-                </option>
-              ))}
-            </select>
-          </div>
+          <select
+            value={value}
+            onChange={(e) => handleFieldChange(field.id, e.target.value, round)}
+            aria-label={field.name}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          >
+            {field.options?.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
         );
         
       case 'calculation':
         return (
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700">{field.name}</label>
-            <input
-              type="text"
-              value={value}
-              readOnly
-              className="mt-1 block w-full rounded-md border-gray-300 bg-gray-100 shadow-sm"
-            />
-          </div>
+          <input
+            type="text"
+            value={value}
+            readOnly
+            aria-label={field.name}
+            className="block w-full rounded-md border-gray-300 bg-gray-100 shadow-sm"
+          />
+        );
+        
+      case 'tracker':
+        return (
+          <TrackerInput
+            field={field}
+            value={Number(value) || 0}
+            bounds={getTrackerBounds(field, scoresheetData, getDependencyGraph(selectedTemplate.subcategories))}
+            onChange={(newValue) => handleFieldChange(field.id, newValue, round)}
+          />
+        );
+        
+      case 'dice':
+        return (
+          <DiceRollInput
+            field={field}
+            value={value}
+            onRoll={(roll) => handleFieldChange(field.id, roll, round)}
+          />
         );
         
       default:
@@ -233,6 +262,86 @@ const ScoresheetGenerator = ({ gameId, gameName }: { gameId: string, gameName: s
     }
   };
   
+  // Render the validation messages of a field, or of one of its rounds
+  const renderIssues = (issues: Record<string, string[]>, fieldId: string, round?: number) => {
+    const messages = showIssues ? issues[getIssueKey(fieldId, round)] : null;
+    if (!messages) return null;
+    
+    return messages.map(message => (
+      <p key={message} className="mt-1 text-xs text-red-600">{message}</p>
+    ));
+  };
+  
+  // Render a field with its label
+  const renderField = (field: ScoresheetField, issues: Record<string, string[]>) => {
+    if (field.type === 'checkbox') {
+      return (
+        <div className="mb-4">
+          <div className="flex items-center">
+            {renderInput(field)}
+            <label className="ml-2 block text-sm text-gray-700">{field.name}</label>
+          </div>
+          {renderIssues(issues, field.id)}
+        </div>
+      );
+    }
+    
+    return (
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700">{field.name}</label>
+        <div className="mt-1">{renderInput(field)}</div>
+        {renderIssues(issues, field.id)}
+      </div>
+    );
+  };
+  
+  // Render a subcategory scored in rounds, one row per round with a running total
+  const renderRoundTable = (subcategory: ScoresheetSubcategory, hidden: Set<string>, issues: Record<string, string[]>) => {
+    const runningTotals = getRunningTotals(subcategory, scoresheetData);
+    const fields = subcategory.fields.filter(field => !hidden.has(field.id));
+    
+    return (
+      <>
+        <table className="min-w-full">
+          <thead>
+            <tr>
+              <th className="py-2 pr-4 text-left text-sm font-medium text-gray-500">Round</th>
+              {fields.map(field => (
+                <th key={field.id} className="px-2 py-2 text-left text-sm font-medium text-gray-500">
+                  {field.name}
+                </th>
+              ))}
+              <th className="px-2 py-2 text-left text-sm font-medium text-gray-500">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Array.from({ length: getRoundCount(subcategory, scoresheetData) }, (_, round) => (
+              <tr key={round}>
+                <td className="py-2 pr-4 text-sm font-medium text-gray-700">{round + 1}</td>
+                {fields.map(field => (
+                  <td key={field.id} className="px-2 py-2">
+                    {renderInput(field, round)}
+                    {renderIssues(issues, field.id, round)}
+                  </td>
+                ))}
+                <td className="px-2 py-2 text-sm font-medium text-gray-900">{runningTotals[round]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        
+        {subcategory.rounds.openEnded && (
+          <button
+            onClick={() => handleAddRound(subcategory)}
+            className="mt-2 inline-flex items-center px-3 py-1 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Add Round
+          </button>
+        )}
+      </>
+    );
+  };
+  
   if (loading) {
     return <div className="text-center py-8">Loading scoresheet...</div>;
   }
@@ -255,6 +364,10 @@ const ScoresheetGenerator = ({ gameId, gameName }: { gameId: string, gameName: s
     );
   }
   
+  const hidden = getHiddenFields(selectedTemplate.subcategories, scoresheetData);
+  const issues = validateValues(selectedTemplate.subcategories, scoresheetData);
+  const groupedIssues = groupIssues(issues);
+  
   return (
     <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6">
       <div className="mb-6">
@@ -274,14 +387,71 @@ const ScoresheetGenerator = ({ gameId, gameName }: { gameId: string, gameName: s
               }}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
             >
-              {templates.map((template) => (
-                <option key={template.id} value={template.id}>
-                  {template.name}
-                </option>
-              ))}
+              {[true, false].map(official => {
+                const group = templates.filter(t => !!t.isOfficial === official);
+                return group.length > 0 && (
+                  <optgroup key={String(official)} label={official ? 'Official' : 'Community'}>
+                    {group.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                );
+              })}
             </select>
           </div>
         )}
+        
+        <p className="mt-2">
+          {selectedTemplate.isOfficial ? (
+            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+              Official template
+            </span>
+          ) : (
+            <span
+              title="Made by the community, not checked against the official rules"
+              className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800"
+            >
+              Community template
+            </span>
+          )}
+        </p>
+        
+        <div className="mt-4 flex flex-wrap items-end gap-2 p-4 bg-gray-50 rounded-md">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Print blank sheet for</label>
+            <div className="mt-1 flex items-center">
+              <input
+                type="number"
+                min={1}
+                max={12}
+                value={printPlayerCount}
+                onChange={(e) => setPrintPlayerCount(Math.min(12, Math.max(1, parseInt(e.target.value) || 1)))}
+                className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+              <span className="ml-2 text-sm text-gray-700">players</span>
+            </div>
+          </div>
+          <button
+            onClick={downloadBlankPdf}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Download PDF
+          </button>
+          <button
+            onClick={printBlankSheet}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Print
+          </button>
+          <button
+            onClick={exportTemplate}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Export Template
+          </button>
+        </div>
       </div>
       
       {selectedTemplate.subcategories.map((subcategory) => (
@@ -289,17 +459,24 @@ const ScoresheetGenerator = ({ gameId, gameName }: { gameId: string, gameName: s
           <h3 className="text-lg font-medium text-gray-900 mb-4 pb-2 border-b">
             {subcategory.name}
           </h3>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {subcategory.fields.map((field) => (
-              <div key={field.id}>
-                {renderField(field)}
-              </div>
-            ))}
-          </div>
+          {subcategory.rounds ? renderRoundTable(subcategory, hidden, groupedIssues) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {subcategory.fields.filter(field => !hidden.has(field.id)).map((field) => (
+                <div key={field.id}>
+                  {renderField(field, groupedIssues)}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       ))}
       
-      <div className="mt-8 flex justify-end">
+      <div className="mt-8 flex justify-end items-center">
+        {showIssues && issues.length > 0 && (
+          <p className="mr-4 text-sm text-red-600">
+            Fix {issues.length === 1 ? '1 problem' : `${issues.length} problems`} before saving
+          </p>
+        )}
         <button
           onClick={saveScoresheet}
           disabled={loading}
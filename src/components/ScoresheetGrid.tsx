@@ -0,0 +1,299 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { isDiceRoll } from '../lib/scoresheet/dice';
+import {
+  GridCell,
+  GridChange,
+  GridRange,
+  isGridEditable,
+  isTsvBlock,
+  moveGridCell,
+  parseCellText,
+  parseTsv,
+  planPaste
+} from '../lib/scoresheet/grid';
+import { PlayerValues, ScoresheetField, ScoresheetPlayer } from '../lib/scoresheet/types';
+
+// This component implements grid entry: all fields outside of rounds in one
+// table with a column per player, filled like a spreadsheet. Arrow keys,
+// Enter and Tab move between cells, calculations show their results inline
+// and blocks copied from a spreadsheet can be pasted at the focused cell.
+
+export interface GridSection {
+  id: string;
+  name: string;
+  depth: number;
+  fields: ScoresheetField[];
+}
+
+interface ScoresheetGridProps {
+  sections: GridSection[];
+  players: ScoresheetPlayer[];
+  values: PlayerValues;
+  // Fields hidden for each player, by player ID
+  hidden: Record<string, Set<string>>;
+  // Validation messages of each player by field ID, when they are shown
+  issues?: Record<string, Record<string, string[]>>;
+  getRange: (field: ScoresheetField, playerId: string) => GridRange;
+  onChange: (playerId: string, field: ScoresheetField, value: any) => void;
+  onPaste: (changes: GridChange[]) => void;
+}
+
+const cellClass = 'block w-full min-w-[6rem] rounded-none border-gray-200 px-2 py-1 text-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+const getCellKey = ({ row, column }: GridCell) => `${row}:${column}`;
+
+// Numbers, trackers and text are typed as text and only applied once they
+// fit the field, when the cell loses focus
+const GridTextCell: React.FC<{
+  field: ScoresheetField;
+  value: any;
+  range: GridRange;
+  invalid: boolean;
+  title?: string;
+  inputRef: (element: HTMLInputElement | null) => void;
+  onChange: (value: any) => void;
+  onFocus: () => void;
+  onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => void;
+}> = ({ field, value, range, invalid, title, inputRef, onChange, onFocus, onKeyDown }) => {
+  const [draft, setDraft] = useState(value === undefined || value === null ? '' : String(value));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(value === undefined || value === null ? '' : String(value));
+    setError(null);
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseCellText(field, draft, range);
+    if (parsed.error) {
+      setError(parsed.error);
+      return;
+    }
+
+    setError(null);
+    if (parsed.value !== value) onChange(parsed.value);
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      type="text"
+      inputMode={field.type === 'text' ? 'text' : 'decimal'}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onFocus={onFocus}
+      onKeyDown={onKeyDown}
+      title={error || title}
+      aria-label={field.name}
+      aria-invalid={!!error || invalid}
+      className={`${cellClass} ${field.type === 'text' ? '' : 'text-right'} ${error || invalid ? 'bg-red-50 text-red-700' : ''}`}
+    />
+  );
+};
+
+const ScoresheetGrid: React.FC<ScoresheetGridProps> = ({
+  sections,
+  players,
+  values,
+  hidden,
+  issues,
+  getRange,
+  onChange,
+  onPaste
+}) => {
+  const [active, setActive] = useState<GridCell | null>(null);
+  const [pasteProblems, setPasteProblems] = useState<string[]>([]);
+  const cells = useRef<Record<string, HTMLInputElement | HTMLSelectElement | null>>({});
+
+  const fields = sections.flatMap(section => section.fields);
+
+  const focusCell = (cell: GridCell) => {
+    const element = cells.current[getCellKey(cell)];
+    element?.focus();
+    if (element instanceof HTMLInputElement && element.type === 'text') element.select();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>, cell: GridCell) => {
+    const target = e.target as HTMLInputElement;
+
+    // Left and right only leave a text cell from the edge of its text
+    if ((e.key === 'ArrowLeft' || e.key === 'ArrowRight') && target.tagName === 'INPUT' && target.type === 'text') {
+      const atEdge = e.key === 'ArrowLeft'
+        ? target.selectionStart === 0 && target.selectionEnd === 0
+        : target.selectionStart === target.value.length;
+      if (!atEdge) return;
+    }
+
+    const next = moveGridCell(cell, e.key, e.shiftKey, fields.length, players.length);
+    if (!next) return;
+
+    e.preventDefault();
+    focusCell(next);
+  };
+
+  // Single values paste into the focused cell as usual, blocks of cells
+  // fill the grid from it
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const text = e.clipboardData.getData('text/plain');
+    if (!active || !isTsvBlock(text)) return;
+
+    e.preventDefault();
+    const plan = planPaste(parseTsv(text), fields, players, active, { hidden, getRange });
+    setPasteProblems(plan.problems);
+    if (plan.changes.length > 0) onPaste(plan.changes);
+  };
+
+  const renderCell = (field: ScoresheetField, player: ScoresheetPlayer, cell: GridCell) => {
+    const value = values[player.id]?.[field.id];
+    const messages = issues?.[player.id]?.[field.id];
+    const register = (element: HTMLInputElement | HTMLSelectElement | null) => {
+      cells.current[getCellKey(cell)] = element;
+    };
+    const common = {
+      onFocus: () => setActive(cell),
+      onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => handleKeyDown(e, cell),
+      'aria-label': `${field.name}, ${player.name}`
+    };
+
+    if (hidden[player.id]?.has(field.id) || !isGridEditable(field)) {
+      const shown = hidden[player.id]?.has(field.id) ? '—' : isDiceRoll(value) ? value.total : value ?? '';
+      return (
+        <input
+          ref={register}
+          type="text"
+          value={shown}
+          readOnly
+          title={field.type === 'calculation' ? field.formula : field.type === 'dice' ? 'Roll dice in the sheet view' : undefined}
+          {...common}
+          className={`${cellClass} bg-gray-50 text-right text-gray-500`}
+        />
+      );
+    }
+
+    switch (field.type) {
+      case 'checkbox':
+        return (
+          <div className="flex justify-center px-2 py-1">
+            <input
+              ref={register}
+              type="checkbox"
+              checked={!!value}
+              onChange={(e) => onChange(player.id, field, e.target.checked)}
+              {...common}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+          </div>
+        );
+
+      case 'dropdown':
+        return (
+          <select
+            ref={register}
+            value={value ?? ''}
+            onChange={(e) => onChange(player.id, field, e.target.value)}
+            {...common}
+            className={`${cellClass} ${messages ? 'bg-red-50 text-red-700' : ''}`}
+          >
+            {field.options?.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+
+      default:
+        return (
+          <GridTextCell
+            field={field}
+            value={value}
+            range={getRange(field, player.id)}
+            invalid={!!messages}
+            title={messages?.join('\n')}
+            inputRef={register}
+            onChange={(newValue) => onChange(player.id, field, newValue)}
+            onFocus={common.onFocus}
+            onKeyDown={common.onKeyDown}
+          />
+        );
+    }
+  };
+
+  let row = 0;
+
+  return (
+    <div className="mb-8 overflow-x-auto">
+      <p className="mb-2 text-xs text-gray-500">
+        Move with the arrow keys, Enter and Tab. Paste cells copied from a spreadsheet at the selected cell.
+      </p>
+      {pasteProblems.length > 0 && (
+        <div className="mb-4 rounded-md bg-red-50 p-4 text-sm text-red-700">
+          <div className="flex justify-between">
+            <p className="font-medium">Nothing was pasted:</p>
+            <button onClick={() => setPasteProblems([])} className="text-red-600 hover:text-red-800">
+              Dismiss
+            </button>
+          </div>
+          <ul className="mt-1 list-disc list-inside">
+            {pasteProblems.map(problem => (
+              <li key={problem}>{problem}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <table className="min-w-full border-collapse" onPaste={handlePaste}>
+        <thead>
+          <tr>
+            <th className="py-2 pr-4 text-left text-sm font-medium text-gray-500">Field</th>
+            {players.map(player => (
+              <th key={player.id} className="px-2 py-2 text-left text-sm font-medium text-gray-900">
+                {player.name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sections.map(section => (
+            <React.Fragment key={section.id}>
+              <tr>
+                <th
+                  colSpan={players.length + 1}
+                  className="pt-4 pb-1 text-left text-sm font-semibold text-gray-900 border-b"
+                  style={{ paddingLeft: `${section.depth * 1.5}rem` }}
+                >
+                  {section.name}
+                </th>
+              </tr>
+              {section.fields.map(field => {
+                const fieldRow = row++;
+                return (
+                  <tr key={field.id}>
+                    <td
+                      className="py-1 pr-4 text-sm text-gray-700 whitespace-nowrap"
+                      style={{ paddingLeft: `${section.depth * 1.5}rem` }}
+                    >
+                      {field.name}
+                    </td>
+                    {players.map((player, column) => (
+                      <td
+                        key={player.id}
+                        className={`border border-gray-200 p-0 ${
+                          active?.row === fieldRow && active?.column === column ? 'ring-2 ring-inset ring-indigo-500' : ''
+                        }`}
+                      >
+                        {renderCell(field, player, { row: fieldRow, column })}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ScoresheetGrid;
@@ -1,59 +1,258 @@
-import React, { useState, useEffect } from 'react';
+"use client";
 
-// This component implements the scoresheet rendering and filling functionality
-// with support for subcategories as required for complex games like D&D
+import React, { useState, useEffect, useRef } from 'react';
+import { getLocalStore } from '../lib/offline/storage';
+import { calculateFields, getDependencyGraph } from '../lib/scoresheet/calculations';
+import { describeRoll } from '../lib/scoresheet/dice';
+import { canLevelUp, levelUp } from '../lib/scoresheet/dnd5e';
+import { GridChange, GridRange } from '../lib/scoresheet/grid';
+import {
+  createChange,
+  describeValue,
+  getFieldHistory,
+  getUndoState,
+  recordChange,
+  repeatChange,
+  revertChange
+} from '../lib/scoresheet/history';
+import {
+  hasUnsyncedChanges,
+  LocalSession,
+  loadLocalSession,
+  loadLocalTemplate,
+  queueSync,
+  rebaseValues,
+  saveLocalSession,
+  saveLocalTemplate,
+  startBackgroundSync,
+  SyncConflict,
+  SyncError,
+  SYNC_RETRY_DELAY_MS,
+  SyncResult,
+  syncSession
+} from '../lib/scoresheet/offline';
+import { buildPlayerValues, getSessionPlayers } from '../lib/scoresheet/players';
+import { addRound, getRoundCount, getRunningTotals, setFieldValue } from '../lib/scoresheet/rounds';
+import { getHiddenFields, getIssueKey, groupIssues, validateValues } from '../lib/scoresheet/rules';
+import { getSubcategoryDepths } from '../lib/scoresheet/subcategories';
+import { getTemplateFields } from '../lib/scoresheet/template';
+import { getTrackerBounds } from '../lib/scoresheet/tracker';
+import {
+  DiceLogEntry,
+  DiceRoll,
+  PlayerValues,
+  ScoresheetField,
+  ScoresheetPlayer,
+  ScoresheetSession,
+  ScoresheetSubcategory,
+  ScoresheetTemplate,
+  SessionShare,
+  SharedSession,
+  TrackerLogEntry,
+  ValueChangeEvent
+} from '../lib/scoresheet/types';
+import { DroppedField } from '../lib/scoresheet/versions';
+import { getWinCondition, isDecidedByTiebreak, rankPlayers } from '../lib/scoresheet/winner';
+import DiceRollInput from './DiceRollInput';
+import ScoresheetGrid, { GridSection } from './ScoresheetGrid';
+import TrackerInput from './TrackerInput';
 
-interface ScoresheetValue {
-  fieldId: string;
-  value: any;
-}
+// This component implements the scoresheet rendering and filling functionality
+// with support for subcategories as required for complex games like D&D.
+// Every player gets their own column of values. Sessions are rendered with
+// the template version they were created with until they are upgraded.
+// Fields hidden by their visibility condition are left out per player.
+// Every change of an entered value is recorded in the session's history,
+// which backs undo/redo and the history panel of each field. Sessions are
+// autosaved on the device and synced with the server whenever it can be
+// reached, so a lost connection does not lose any scores. D&D 5e character
+// sheets get a level up flow for each player. Sessions can be shared with
+// read-only links, which open the sheet from a share token without logging in.
+// Grid entry fills the fields outside of rounds like a spreadsheet.
 
-interface ScoresheetField {
-  id: string;
-  name: string;
-  type: 'number' | 'text' | 'checkbox' | 'dropdown' | 'calculation';
-  defaultValue?: any;
-  options?: string[];
-  formula?: string;
-  min?: number;
-  max?: number;
-}
+// Time without edits before the sheet is autosaved
+const AUTOSAVE_DELAY_MS = 1000;
 
-interface ScoresheetSubcategory {
-  id: string;
-  name: string;
-  fields: ScoresheetField[];
-}
+// Expiry choices for new share links, in days; null never expires
+const SHARE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never expires', days: null },
+  { label: 'Expires in 1 day', days: 1 },
+  { label: 'Expires in 7 days', days: 7 },
+  { label: 'Expires in 30 days', days: 30 }
+];
 
-interface ScoresheetSession {
-  id: string;
-  gameId: string;
-  scoresheetId: string;
-  createdAt: string;
-  players: { id: string; name: string }[];
-  values: ScoresheetValue[];
+// Hidden fields and validation messages of every player, by player ID
+interface PlayerRules {
+  hidden: Record<string, Set<string>>;
+  issues: Record<string, Record<string, string[]>>;
 }
 
 const ScoresheetRenderer = ({ 
   sessionId, 
-  readOnly = false 
+  shareToken,
+  readOnly: readOnlyProp = false,
+  userId = 'guest'
 }: { 
-  sessionId: string; 
+  sessionId?: string; 
+  // Opens the session of a share link instead, always read-only
+  shareToken?: string;
   readOnly?: boolean;
+  userId?: string;
 }) => {
+  const readOnly = readOnlyProp || !!shareToken;
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [session, setSession] = useState<ScoresheetSession | null>(null);
-  const [scoresheet, setScoresheet] = useState<{ subcategories: ScoresheetSubcategory[] } | null>(null);
-  const [values, setValues] = useState<Record<string, any>>({});
+  const [scoresheet, setScoresheet] = useState<ScoresheetTemplate | null>(null);
+  const [values, setValues] = useState<PlayerValues>({});
   const [game, setGame] = useState<{ name: string } | null>(null);
   const [saving, setSaving] = useState(false);
+  const [upgrading, setUpgrading] = useState(false);
+  const [completing, setCompleting] = useState(false);
+  const [droppedFields, setDroppedFields] = useState<DroppedField[] | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [rolls, setRolls] = useState<DiceLogEntry[]>([]);
+  const [trackerLog, setTrackerLog] = useState<TrackerLogEntry[]>([]);
+  // Validation messages are shown once saving has been tried
+  const [showIssues, setShowIssues] = useState(false);
+  // Saved history of the session, and the changes made since the last save
+  const [history, setHistory] = useState<ValueChangeEvent[]>([]);
+  const [pendingChanges, setPendingChanges] = useState<ValueChangeEvent[]>([]);
+  const [historyFieldId, setHistoryFieldId] = useState<string | null>(null);
+  // Values last synced with the server, which local edits are merged onto
+  const [base, setBase] = useState<PlayerValues>({});
+  const [syncStatus, setSyncStatus] = useState<'synced' | 'pending' | 'offline' | 'error'>('synced');
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  // Outcome of the latest level up of each player, on D&D 5e sheets
+  const [levelUps, setLevelUps] = useState<Record<string, string>>({});
+  // Share links of the session, loaded when the share panel is opened
+  const [shares, setShares] = useState<SessionShare[] | null>(null);
+  const [shareExpiryDays, setShareExpiryDays] = useState<number | null>(null);
+  // Spreadsheet-style entry of the fields outside of rounds
+  const [gridMode, setGridMode] = useState(false);
+  const syncing = useRef(false);
+  // Next sync of a session other devices kept saving while it synced
+  const syncRetry = useRef<ReturnType<typeof setTimeout>>();
+  const store = getLocalStore();
+  
+  // Show a local copy of the session, used when the server cannot be reached
+  const applyLocalSession = (record: LocalSession, template: ScoresheetTemplate) => {
+    setSession(record.session);
+    setRolls(record.session.rolls || []);
+    setTrackerLog(record.session.trackerLog || []);
+    setScoresheet(template);
+    setGame({ name: record.gameName });
+    setValues(record.values);
+    setBase(record.base);
+    setHistory(record.history);
+    setPendingChanges(record.pendingChanges);
+  };
+  
+  // Take over a sync result, keeping edits made while it ran
+  const applySyncResult = (result: SyncResult) => {
+    if (result.record.session.id !== sessionId) return;
+    
+    const savedIds = new Set(result.record.history.map(change => change.id));
+    setSession(result.record.session);
+    setScoresheet(result.template);
+    setBase(result.record.base);
+    setHistory(result.record.history);
+    setPendingChanges(prev => prev.filter(change => !savedIds.has(change.id)));
+    setValues(prev => rebaseValues(result.template.subcategories, result.snapshot, result.record.values, prev));
+    if (result.conflicts.length > 0) {
+      setConflicts(result.conflicts);
+    }
+    setSyncStatus('synced');
+    setSyncError(null);
+  };
+  
+  // Sync the local copy of the session. Resolves to whether it is in sync.
+  const runSync = async (): Promise<boolean> => {
+    if (syncing.current) return false;
+    clearTimeout(syncRetry.current);
+    
+    try {
+      syncing.current = true;
+      setSyncStatus('pending');
+      
+      const result = await syncSession(store, sessionId);
+      if (result) applySyncResult(result);
+      
+      setSyncStatus('synced');
+      setSyncError(null);
+      return true;
+    } catch (err) {
+      if (err instanceof SyncError && err.offline) {
+        setSyncStatus('offline');
+      } else {
+        setSyncStatus('error');
+        setSyncError(err.message);
+        console.error(err);
+      }
+      if (err instanceof SyncError && err.status === 409) {
+        syncRetry.current = setTimeout(runSync, SYNC_RETRY_DELAY_MS);
+      }
+      return false;
+    } finally {
+      syncing.current = false;
+    }
+  };
+  
+  // Save the sheet on this device, queueing a sync when it has changed
+  const saveLocally = async (): Promise<boolean> => {
+    const record: LocalSession = {
+      session,
+      gameName: game.name,
+      values,
+      base,
+      history,
+      pendingChanges,
+      savedAt: new Date().toISOString()
+    };
+    await saveLocalSession(store, record);
+    
+    if (!hasUnsyncedChanges(record)) return false;
+    await queueSync(store, sessionId);
+    return true;
+  };
+  
+  // Show the session of a share link. Nothing is kept on the device, since
+  // shared sheets cannot be edited.
+  const fetchSharedSession = async () => {
+    try {
+      setLoading(true);
+      
+      const response = await fetch(`/api/shared/${encodeURIComponent(shareToken)}`);
+      const data = await response.json();
+      
+      if (!data.success) {
+        setError(data.error || 'Failed to load shared session');
+        return;
+      }
+      
+      const shared: SharedSession = data.data;
+      setSession(shared.session);
+      setRolls(shared.session.rolls || []);
+      setTrackerLog(shared.session.trackerLog || []);
+      setHistory([]);
+      setScoresheet(shared.scoresheet);
+      setGame(shared.game);
+      setValues(buildPlayerValues(shared.scoresheet.subcategories, getSessionPlayers(shared.session), shared.session.values));
+    } catch (err) {
+      setError('Error loading shared session');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
   
   // Fetch session, scoresheet, and game data
   useEffect(() => {
     const fetchData = async () => {
       try {
         setLoading(true);
+        setConflicts([]);
         
         // In a real implementation, these would be API calls
         const sessionResponse = await fetch(`/api/sessions/${sessionId}`);
@@ -65,9 +264,15 @@ const ScoresheetRenderer = ({
         }
         
         setSession(sessionData.data);
+        setRolls(sessionData.data.rolls || []);
+        setTrackerLog(sessionData.data.trackerLog || []);
+        setHistory(sessionData.data.history || []);
+        setPendingChanges([]);
         
-        // Fetch scoresheet template
-        const scoresheetResponse = await fetch(`/api/scoresheets/${sessionData.data.scoresheetId}`);
+        // Fetch the template version the session is pinned to
+        const scoresheetResponse = await fetch(
+          `/api/scoresheets/${sessionData.data.scoresheetId}?version=${sessionData.data.scoresheetVersion || 1}`
+        );
         const scoresheetData = await scoresheetResponse.json();
         
         if (!scoresheetData.success) {
@@ -88,128 +293,449 @@ const ScoresheetRenderer = ({
         
         setGame(gameData.data);
         
-        // Initialize values from session or defaults
-        const initialValues: Record<string, any> = {};
-        
-        // First set default values from scoresheet template
-        scoresheetData.data.subcategories.forEach((subcategory: ScoresheetSubcategory) => {
-          subcategory.fields.forEach((field: ScoresheetField) => {
-            initialValues[field.id] = field.defaultValue !== undefined ? field.defaultValue : 
-              field.type === 'number' ? 0 : 
-              field.type === 'checkbox' ? false : 
-              field.type === 'dropdown' && field.options?.length ? field.options[0] : '';
-          });
-        });
-        
-        // Then override with saved values from session
-        sessionData.data.values.forEach((value: ScoresheetValue) => {
-          initialValues[value.fieldId] = value.value;
-        });
-        
+        // Initialize each player's values from session or defaults and calculate formula fields
+        const initialValues = buildPlayerValues(
+          scoresheetData.data.subcategories,
+          getSessionPlayers(sessionData.data),
+          sessionData.data.values
+        );
         setValues(initialValues);
+        setBase(initialValues);
+        setSyncStatus('synced');
         
-        // Calculate formula fields
-        if (scoresheetData.data.subcategories) {
-          const calculatedValues = { ...initialValues };
-          
-          scoresheetData.data.subcategories.forEach((subcategory: ScoresheetSubcategory) => {
-            subcategory.fields.forEach((field: ScoresheetField) => {
-              if (field.type === 'calculation' && field.formula) {
-                try {
-                  let formula = field.formula;
-                  Object.keys(calculatedValues).forEach(key => {
-                    formula = formula.replace(new RegExp(`\\b${key}\\b`, 'g'), calculatedValues[key]);
-                  });
-                  calculatedValues[field.id] = eval(formula);
-                } catch (err) {
-                  console.error('Error evaluating formula', err);
-                }
-              }
-            });
+        // Keep copies on the device. Edits made there without a connection
+        // are synced instead of being replaced by the server's values.
+        await saveLocalTemplate(store, scoresheetData.data);
+        const record = await loadLocalSession(store, sessionId);
+        
+        if (record && hasUnsyncedChanges(record)) {
+          const template = await loadLocalTemplate(store, record.session.scoresheetId, record.session.scoresheetVersion || 1);
+          if (template) applyLocalSession(record, template);
+          await queueSync(store, sessionId);
+          await runSync();
+        } else {
+          await saveLocalSession(store, {
+            session: sessionData.data,
+            gameName: gameData.data.name,
+            values: initialValues,
+            base: initialValues,
+            history: sessionData.data.history || [],
+            pendingChanges: [],
+            savedAt: new Date().toISOString(),
+            syncedAt: new Date().toISOString()
           });
-          
-          setValues(calculatedValues);
         }
       } catch (err) {
-        setError('Error loading data');
-        console.error(err);
+        // Without a connection the sheet is opened from the device
+        const record = await loadLocalSession(store, sessionId).catch(() => null);
+        const template = record && await loadLocalTemplate(store, record.session.scoresheetId, record.session.scoresheetVersion || 1);
+        
+        if (record && template) {
+          applyLocalSession(record, template);
+          setSyncStatus('offline');
+        } else {
+          setError('Error loading data');
+          console.error(err);
+        }
       } finally {
         setLoading(false);
       }
     };
     
-    if (sessionId) {
+    if (shareToken) {
+      fetchSharedSession();
+    } else if (sessionId) {
       fetchData();
     }
-  }, [sessionId]);
+  }, [sessionId, shareToken, reloadCount]);
+  
+  // Autosave on the device shortly after the last edit, then sync
+  useEffect(() => {
+    if (loading || readOnly || !session || !scoresheet || !game) return;
+    
+    const timer = setTimeout(async () => {
+      try {
+        const changed = await saveLocally();
+        if (changed && navigator.onLine) {
+          runSync();
+        } else if (changed) {
+          setSyncStatus('offline');
+        }
+      } catch (err) {
+        console.error('Error saving on this device', err);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    
+    return () => clearTimeout(timer);
+  }, [values, pendingChanges]);
   
-  // Handle field value changes
-  const handleFieldChange = (fieldId: string, value: any) => {
+  // Sync queued sessions whenever the connection comes back
+  useEffect(() => {
     if (readOnly) return;
     
+    const stop = startBackgroundSync(store, applySyncResult);
+    const handleOffline = () => setSyncStatus('offline');
+    window.addEventListener('offline', handleOffline);
+    
+    return () => {
+      stop();
+      clearTimeout(syncRetry.current);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sessionId]);
+  
+  // Set a value for one player, and one round of fields scored in rounds
+  const applyValue = (playerId: string, fieldId: string, value: any, round?: number) => {
     setValues(prev => {
-      const newValues = { ...prev, [fieldId]: value };
+      const newValues = setFieldValue(prev[playerId] || {}, fieldId, value, round);
       
       // Recalculate any fields with formulas
-      if (scoresheet) {
-        scoresheet.subcategories.forEach(subcategory => {
-          subcategory.fields.forEach(field => {
-            if (field.type === 'calculation' && field.formula) {
-              try {
-                let formula = field.formula;
-                Object.keys(newValues).forEach(key => {
-                  formula = formula.replace(new RegExp(`\\b${key}\\b`, 'g'), newValues[key]);
-                });
-                newValues[field.id] = eval(formula);
-              } catch (err) {
-                console.error('Error evaluating formula', err);
-              }
-            }
-          });
-        });
-      }
-      
-      return newValues;
+      return {
+        ...prev,
+        [playerId]: scoresheet ? calculateFields(scoresheet.subcategories, newValues, [fieldId]) : newValues
+      };
     });
   };
   
-  // Save scoresheet values
-  const saveScoresheet = async () => {
+  // Handle field value changes, recording each one in the history
+  const handleFieldChange = (playerId: string, fieldId: string, value: any, round?: number) => {
     if (readOnly) return;
     
-    try {
-      setSaving(true);
-      
-      // Convert values object to array of { fieldId, value } objects
-      const valuesArray = Object.entries(values).map(([fieldId, value]) => ({
-        fieldId,
-        value
-      }));
+    const previous = round === undefined ? values[playerId]?.[fieldId] : values[playerId]?.[fieldId]?.[round];
+    setPendingChanges(prev => recordChange(prev, createChange(playerId, fieldId, previous, value, userId, round)));
+    applyValue(playerId, fieldId, value, round);
+  };
+  
+  // Undo the latest change that has not been undone yet
+  const undo = () => {
+    const target = getUndoState([...history, ...pendingChanges]).undo.pop();
+    if (readOnly || !target) return;
+    
+    applyValue(target.playerId, target.fieldId, target.previous, target.round);
+    setPendingChanges(prev => [...prev, revertChange(target, userId)]);
+  };
+  
+  // Redo the latest undone change
+  const redo = () => {
+    const target = getUndoState([...history, ...pendingChanges]).redo.pop();
+    if (readOnly || !target) return;
+    
+    applyValue(target.playerId, target.fieldId, target.value, target.round);
+    setPendingChanges(prev => [...prev, repeatChange(target, userId)]);
+  };
+  
+  // Ctrl+Z and Ctrl+Shift+Z (or Ctrl+Y) undo and redo outside of text inputs,
+  // which keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
       
-      // In a real implementation, this would be an API call
-      const response = await fetch(`/api/sessions/${sessionId}/values`, {
-        method: 'PUT',
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+  
+  // Use a roll as the value of a dice field and add it to the session's roll log
+  const handleRoll = async (playerId: string, field: ScoresheetField, roll: DiceRoll, round?: number) => {
+    if (readOnly) return;
+    
+    handleFieldChange(playerId, field.id, roll, round);
+    
+    const entry: DiceLogEntry = { id: crypto.randomUUID(), playerId, fieldId: field.id, roll };
+    setRolls(prev => [...prev, entry]);
+    
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/rolls`, {
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          values: valuesArray
+          id: entry.id,
+          playerId,
+          fieldId: field.id,
+          notation: roll.notation,
+          seed: roll.seed,
+          rolledAt: roll.rolledAt
         }),
       });
       
       const data = await response.json();
       
       if (!data.success) {
-        setError(data.error || 'Failed to save values');
+        setError(data.error || 'Failed to log roll');
       }
     } catch (err) {
-      setError('Error saving values');
+      // The roll still counts on this device
+      setSyncStatus('offline');
+      console.error('Error logging roll', err);
+    }
+  };
+  
+  // Change a tracker and append the change to its log
+  const handleTrackerChange = async (
+    playerId: string,
+    field: ScoresheetField,
+    value: number,
+    note?: string,
+    round?: number
+  ) => {
+    if (readOnly) return;
+    
+    const current = round === undefined ? values[playerId]?.[field.id] : values[playerId]?.[field.id]?.[round];
+    handleFieldChange(playerId, field.id, value, round);
+    
+    const entry: TrackerLogEntry = {
+      id: crypto.randomUUID(),
+      playerId,
+      fieldId: field.id,
+      previous: Number(current) || 0,
+      value,
+      ...(note ? { note } : {}),
+      changedAt: new Date().toISOString()
+    };
+    setTrackerLog(prev => [...prev, entry]);
+    
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/tracker-log`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(entry),
+      });
+      
+      const data = await response.json();
+      
+      if (!data.success) {
+        setError(data.error || 'Failed to log change');
+      }
+    } catch (err) {
+      // The change still counts on this device
+      setSyncStatus('offline');
+      console.error('Error logging change', err);
+    }
+  };
+  
+  // Values entered in grid mode: trackers keep logging their changes
+  const handleGridChange = (playerId: string, field: ScoresheetField, value: any) => {
+    if (field.type === 'tracker') {
+      handleTrackerChange(playerId, field, value);
+    } else {
+      handleFieldChange(playerId, field.id, value);
+    }
+  };
+  
+  // Apply a block pasted into the grid. Every cell is its own change in the
+  // history, so a paste can be undone cell by cell.
+  const handleGridPaste = (changes: GridChange[]) => {
+    const fields = new Map(getTemplateFields(scoresheet.subcategories).map(field => [field.id, field]));
+    changes.forEach(change => handleGridChange(change.playerId, fields.get(change.fieldId), change.value));
+  };
+  
+  // Trackers stay within their current bounds, other fields within min and max
+  const getGridRange = (field: ScoresheetField, playerId: string): GridRange => {
+    if (field.type === 'tracker') {
+      return getTrackerBounds(field, values[playerId] || {}, getDependencyGraph(scoresheet.subcategories));
+    }
+    return { min: field.min ?? null, max: field.max ?? null };
+  };
+  
+  // Take a D&D 5e character to the next level. Every changed field is
+  // recorded in the history like any other edit.
+  const handleLevelUp = (playerId: string, method: 'fixed' | 'roll') => {
+    if (readOnly) return;
+    
+    try {
+      const result = levelUp(values[playerId] || {}, method);
+      Object.entries(result.changes).forEach(([fieldId, value]) => handleFieldChange(playerId, fieldId, value));
+      
+      const rolled = result.roll ? ` (rolled ${result.roll.total} on ${result.roll.notation})` : '';
+      setLevelUps(prev => ({ ...prev, [playerId]: `Reached level ${result.level}: +${result.hitPointGain} hit points${rolled}` }));
+    } catch (err) {
+      setLevelUps(prev => ({ ...prev, [playerId]: err.message }));
+    }
+  };
+  
+  // Add a round for every player to an open-ended subcategory
+  const handleAddRound = (subcategory: ScoresheetSubcategory) => {
+    if (readOnly || !scoresheet) return;
+    
+    setValues(prev => {
+      const newValues: PlayerValues = {};
+      
+      Object.entries(prev).forEach(([playerId, playerValues]) => {
+        newValues[playerId] = calculateFields(
+          scoresheet.subcategories,
+          addRound(subcategory, playerValues),
+          subcategory.fields.map(field => field.id)
+        );
+      });
+      
+      return newValues;
+    });
+  };
+  
+  // Save scoresheet values on the device and sync them with the server.
+  // Resolves to whether the server has the values.
+  const saveScoresheet = async (): Promise<boolean> => {
+    if (readOnly || !scoresheet) return false;
+    
+    const invalid = Object.values(values).some(playerValues => validateValues(scoresheet.subcategories, playerValues).length > 0);
+    if (invalid) {
+      setShowIssues(true);
+      return false;
+    }
+    
+    try {
+      setSaving(true);
+      await saveLocally();
+      return await runSync();
+    } catch (err) {
+      setSyncStatus('error');
+      setSyncError('Error saving values');
       console.error(err);
+      return false;
     } finally {
       setSaving(false);
     }
   };
   
+  // Move the session onto the latest template version. Values are saved
+  // first, since the server maps the stored values by field ID.
+  const upgradeSession = async () => {
+    if (readOnly) return;
+    
+    try {
+      setUpgrading(true);
+      if (!(await saveScoresheet())) return;
+      
+      const response = await fetch(`/api/sessions/${sessionId}/upgrade`, {
+        method: 'POST',
+      });
+      
+      const data = await response.json();
+      
+      if (data.success) {
+        setDroppedFields(data.data.droppedFields);
+        setReloadCount(count => count + 1);
+      } else {
+        setError(data.error || 'Failed to upgrade session');
+      }
+    } catch (err) {
+      setError('Error upgrading session');
+      console.error(err);
+    } finally {
+      setUpgrading(false);
+    }
+  };
+  
+  // End the session, storing every player's placement. Values are saved
+  // first, since the server ranks players by the stored values.
+  const completeSession = async () => {
+    if (readOnly) return;
+    
+    try {
+      setCompleting(true);
+      if (!(await saveScoresheet())) return;
+      
+      const response = await fetch(`/api/sessions/${sessionId}/complete`, {
+        method: 'POST',
+      });
+      
+      const data = await response.json();
+      
+      if (data.success) {
+        setReloadCount(count => count + 1);
+      } else {
+        setError(data.error || 'Failed to complete session');
+      }
+    } catch (err) {
+      setError('Error completing session');
+      console.error(err);
+    } finally {
+      setCompleting(false);
+    }
+  };
+  
+  // Load the share links of the session, or hide them when shown
+  const toggleShares = async () => {
+    if (shares) {
+      setShares(null);
+      return;
+    }
+    
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/shares`);
+      const data = await response.json();
+      
+      if (data.success) {
+        setShares(data.data);
+      } else {
+        setError(data.error || 'Failed to load share links');
+      }
+    } catch (err) {
+      setError('Error loading share links');
+      console.error(err);
+    }
+  };
+  
+  // Create a read-only link to the session
+  const createShare = async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/shares`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ expiresInDays: shareExpiryDays }),
+      });
+      
+      const data = await response.json();
+      
+      if (data.success) {
+        setShares(prev => [data.data, ...(prev || [])]);
+      } else {
+        setError(data.error || 'Failed to create share link');
+      }
+    } catch (err) {
+      setError('Error creating share link');
+      console.error(err);
+    }
+  };
+  
+  // Revoke a share link; it stays listed as revoked
+  const revokeShare = async (shareId: string) => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/shares/${shareId}`, {
+        method: 'DELETE',
+      });
+      
+      const data = await response.json();
+      
+      if (data.success) {
+        setShares(prev => prev.map(share => share.id === shareId ? { ...share, revokedAt: new Date().toISOString() } : share));
+      } else {
+        setError(data.error || 'Failed to revoke share link');
+      }
+    } catch (err) {
+      setError('Error revoking share link');
+      console.error(err);
+    }
+  };
+  
+  const getShareUrl = (share: SessionShare) => `${window.location.origin}/shared/${share.token}`;
+  
   // Export scoresheet as PDF
   const exportPdf = async () => {
     try {
@@ -236,95 +762,105 @@ const ScoresheetRenderer = ({
     }
   };
   
-  // Render field based on its type
-  const renderField = (field: ScoresheetField) => {
-    const value = values[field.id];
+  // Render a player's input for a field based on its type
+  const renderField = (field: ScoresheetField, playerId: string, round?: number) => {
+    const value = round === undefined ? values[playerId]?.[field.id] : values[playerId]?.[field.id]?.[round];
     
     switch (field.type) {
       case 'number':
         return (
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700">{field.name}</label>
-            <input
-              type="number"
-              min={field.min}
-              max={field.max}
-              value={value}
-              onChange={(e) => handleFieldChange(field.id, parseFloat(e.target.value) || 0)}
-              disabled={readOnly}
-              className={`mt-1 block w-full rounded-md ${
-                readOnly ? 'bg-gray-100' : 'border-gray-300'
-              } shadow-sm focus:border-indigo-500 focus:ring-indigo-500`}
-            />
-          </div>
+          <input
+            type="number"
+            min={field.min}
+            max={field.max}
+            value={value}
+            onChange={(e) => handleFieldChange(playerId, field.id, parseFloat(e.target.value) || 0, round)}
+            disabled={readOnly}
+            aria-label={field.name}
+            className={`block w-full rounded-md ${
+              readOnly ? 'bg-gray-100' : 'border-gray-300'
+            } shadow-sm focus:border-indigo-500 focus:ring-indigo-500`}
+          />
         );
         
       case 'text':
         return (
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700">{field.name}</label>
-            <input
-              type="text"
-              value={value}
-              onChange={(e) => handleFieldChange(field.id, e.target.value)}
-              disabled={readOnly}
-              className={`mt-1 block w-full rounded-md ${
-                readOnly ? 'bg-gray-100' : 'border-gray-300'
-              } shadow-sm focus:border-indigo-500 focus:ring-indigo-500`}
-            />
-          </div>
+          <input
+            type="text"
+            value={value}
+            onChange={(e) => handleFieldChange(playerId, field.id, e.target.value, round)}
+            disabled={readOnly}
+            aria-label={field.name}
+            className={`block w-full rounded-md ${
+              readOnly ? 'bg-gray-100' : 'border-gray-300'
+            } shadow-sm focus:border-indigo-500 focus:ring-indigo-500`}
+          />
         );
         
       case 'checkbox':
         return (
-          <div className="mb-4">
-            <div className="flex items-center">
-              <input
-                type="checkbox"
-                checked={value}
-                onChange={(e) => handleFieldChange(field.id, e.target.checked)}
-                disabled={readOnly}
-                className={`h-4 w-4 rounded ${
-                  readOnly ? 'bg-gray-100' : 'border-gray-300'
-                } text-indigo-600 focus:ring-indigo-500`}
-              />
-              <label className="ml-2 block text-sm text-gray-700">{field.name}</label>
-            </div>
-          </div>
+          <input
+            type="checkbox"
+            checked={value}
+            onChange={(e) => handleFieldChange(playerId, field.id, e.target.checked, round)}
+            disabled={readOnly}
+            aria-label={field.name}
+            className={`h-4 w-4 rounded ${
+              readOnly ? 'bg-gray-100' : 'border-gray-300'
+            } text-indigo-600 focus:ring-indigo-500`}
+          />
         );
         
       case 'dropdown':
         return (
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700">{field.name}</label>
-            <select
-              value={value}
-              onChange={(e) => handleFieldChange(field.id, e.target.value)}
-              disabled={readOnly}
-              className={`mt-1 block w-full rounded-md ${
-                readOnly ? 'bg-gray-100' : 'border-gray-300'
-              } shadow-sm focus:border-indigo-500 focus:ring-indigo-500`}
-            >
-              {field.options?.map((option) => (
-                <option key={option} value={option}>
-                  {option}
-                </option>
-              ))}
-            </select>
-          </div>
+          <select
+            value={value}
+            onChange={(e) => handleFieldChange(playerId, field.id, e.target.value, round)}
+            disabled={readOnly}
+            aria-label={field.name}
+            className={`block w-full rounded-md ${
+              readOnly ? 'bg-gray-100' : 'border-gray-300'
+            } shadow-sm focus:border-indigo-500 focus:ring-indigo-500`}
+          >
+            {field.options?.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
         );
         
       case 'calculation':
         return (
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-gray-700">{field.name}</label>
-            <input
-              type="text"
-              value={value}
-              readOnly
-              className="mt-1 block w-full rounded-md border-gray-300 bg-gray-100 shadow-sm"
-            />
-          </div>
+          <input
+            type="text"
+            value={value}
+            readOnly
+            aria-label={field.name}
+            className="block w-full rounded-md border-gray-300 bg-gray-100 shadow-sm"
+          />
+        );
+        
+      case 'tracker':
+        return (
+          <TrackerInput
+            field={field}
+            value={Number(value) || 0}
+            bounds={getTrackerBounds(field, values[playerId] || {}, getDependencyGraph(scoresheet.subcategories))}
+            onChange={(newValue, note) => handleTrackerChange(playerId, field, newValue, note, round)}
+            log={trackerLog.filter(entry => entry.playerId === playerId && entry.fieldId === field.id)}
+            disabled={readOnly}
+          />
+        );
+        
+      case 'dice':
+        return (
+          <DiceRollInput
+            field={field}
+            value={value}
+            onRoll={(roll) => handleRoll(playerId, field, roll, round)}
+            disabled={readOnly}
+          />
         );
         
       default:
@@ -332,6 +868,116 @@ const ScoresheetRenderer = ({
     }
   };
   
+  // Render a player's cell for a field with its validation messages, or a
+  // dash when the field is hidden for that player
+  const renderCell = (field: ScoresheetField, playerId: string, rules: PlayerRules, round?: number) => {
+    if (rules.hidden[playerId]?.has(field.id)) {
+      return <span className="text-sm text-gray-300">—</span>;
+    }
+    
+    const messages = showIssues ? rules.issues[playerId]?.[getIssueKey(field.id, round)] : null;
+    
+    return (
+      <>
+        {renderField(field, playerId, round)}
+        {messages?.map(message => (
+          <p key={message} className="mt-1 text-xs text-red-600">{message}</p>
+        ))}
+      </>
+    );
+  };
+  
+  // Field names open the history panel of the field
+  const renderFieldName = (field: ScoresheetField) => (
+    <button
+      onClick={() => setHistoryFieldId(historyFieldId === field.id ? null : field.id)}
+      title={`Show the history of ${field.name}`}
+      className="text-left hover:text-indigo-600"
+    >
+      {field.name}
+    </button>
+  );
+  
+  // Fields hidden for every player are left out of the sheet
+  const getVisibleFields = (subcategory: ScoresheetSubcategory, players: ScoresheetPlayer[], rules: PlayerRules) => {
+    return subcategory.fields.filter(field => players.some(player => !rules.hidden[player.id]?.has(field.id)));
+  };
+  
+  // Render a subcategory scored in rounds: one row per round, one column
+  // per field for every player plus that player's running total
+  const renderRoundTable = (subcategory: ScoresheetSubcategory, players: ScoresheetPlayer[], rules: PlayerRules) => {
+    const fields = getVisibleFields(subcategory, players, rules);
+    const roundCount = Math.max(...players.map(player => getRoundCount(subcategory, values[player.id] || {})));
+    const runningTotals: Record<string, number[]> = {};
+    players.forEach(player => {
+      runningTotals[player.id] = getRunningTotals(subcategory, values[player.id] || {});
+    });
+    
+    return (
+      <>
+        <table className="min-w-full">
+          <thead>
+            {players.length > 1 && (
+              <tr>
+                <th />
+                {players.map(player => (
+                  <th
+                    key={player.id}
+                    colSpan={fields.length + 1}
+                    className="px-2 py-2 text-left text-sm font-medium text-gray-900 border-l"
+                  >
+                    {player.name}
+                  </th>
+                ))}
+              </tr>
+            )}
+            <tr>
+              <th className="py-2 pr-4 text-left text-sm font-medium text-gray-500">Round</th>
+              {players.map(player => (
+                <React.Fragment key={player.id}>
+                  {fields.map(field => (
+                    <th key={field.id} className="px-2 py-2 text-left text-sm font-medium text-gray-500">
+                      {renderFieldName(field)}
+                    </th>
+                  ))}
+                  <th className="px-2 py-2 text-left text-sm font-medium text-gray-500">Total</th>
+                </React.Fragment>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {Array.from({ length: roundCount }, (_, round) => (
+              <tr key={round}>
+                <td className="py-2 pr-4 text-sm font-medium text-gray-700 whitespace-nowrap">{round + 1}</td>
+                {players.map(player => (
+                  <React.Fragment key={player.id}>
+                    {fields.map(field => (
+                      <td key={field.id} className="px-2 py-2 min-w-[6rem]">
+                        {renderCell(field, player.id, rules, round)}
+                      </td>
+                    ))}
+                    <td className="px-2 py-2 text-sm font-medium text-gray-900">
+                      {runningTotals[player.id][round]}
+                    </td>
+                  </React.Fragment>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        
+        {subcategory.rounds.openEnded && !readOnly && (
+          <button
+            onClick={() => handleAddRound(subcategory)}
+            className="mt-2 inline-flex items-center px-3 py-1 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Add Round
+          </button>
+        )}
+      </>
+    );
+  };
+  
   if (loading) {
     return <div className="text-center py-8">Loading scoresheet...</div>;
   }
@@ -344,6 +990,41 @@ const ScoresheetRenderer = ({
     return <div className="text-center py-8">No data available</div>;
   }
   
+  const players = getSessionPlayers(session);
+  const winCondition = getWinCondition(scoresheet.subcategories, scoresheet.winCondition);
+  const standings = winCondition ? rankPlayers(players, values, winCondition) : [];
+  const rules: PlayerRules = { hidden: {}, issues: {} };
+  let issueCount = 0;
+  players.forEach(player => {
+    const playerValues = values[player.id] || {};
+    const issues = validateValues(scoresheet.subcategories, playerValues);
+    rules.hidden[player.id] = getHiddenFields(scoresheet.subcategories, playerValues);
+    rules.issues[player.id] = groupIssues(issues);
+    issueCount += issues.length;
+  });
+  const subcategoryDepths = getSubcategoryDepths(scoresheet.subcategories);
+  const fieldNames: Record<string, string> = {};
+  getTemplateFields(scoresheet.subcategories).forEach(field => {
+    fieldNames[field.id] = field.name;
+  });
+  const playerNames: Record<string, string> = {};
+  players.forEach(player => {
+    playerNames[player.id] = player.name;
+  });
+  const undoState = getUndoState([...history, ...pendingChanges]);
+  const pendingIds = new Set(pendingChanges.map(change => change.id));
+  const fieldHistory = historyFieldId ? getFieldHistory([...history, ...pendingChanges], historyFieldId) : [];
+  const gridSections: GridSection[] = scoresheet.subcategories
+    .filter(subcategory => !subcategory.rounds)
+    .map(subcategory => ({
+      id: subcategory.id,
+      name: subcategory.name,
+      depth: subcategoryDepths[subcategory.id] || 0,
+      fields: getVisibleFields(subcategory, players, rules)
+    }))
+    .filter(section => section.fields.length > 0);
+  const showGrid = gridMode && !readOnly && gridSections.length > 0;
+  
   return (
     <div className="bg-white shadow overflow-hidden sm:rounded-lg p-6">
       <div className="mb-6 flex justify-between items-center">
@@ -352,9 +1033,47 @@ const ScoresheetRenderer = ({
           <p className="text-sm text-gray-500">
             Created: {new Date(session.createdAt).toLocaleString()}
           </p>
+          {session.status === 'completed' && (
+            <p className="text-sm text-gray-500">
+              Completed{session.completedAt && `: ${new Date(session.completedAt).toLocaleString()}`}
+            </p>
+          )}
+          {!readOnly && (
+            <p className={`text-xs ${syncStatus === 'error' ? 'text-red-600' : 'text-gray-400'}`}>
+              {syncStatus === 'synced' && 'All changes saved'}
+              {syncStatus === 'pending' && 'Syncing...'}
+              {syncStatus === 'offline' && 'Offline: changes are saved on this device and sync when you reconnect'}
+              {syncStatus === 'error' && `Not synced: ${syncError}`}
+            </p>
+          )}
         </div>
         
-        <div className="flex space-x-2">
+        <div className="flex space-x-2 items-center">
+          {showIssues && issueCount > 0 && (
+            <p className="text-sm text-red-600">
+              Fix {issueCount === 1 ? '1 problem' : `${issueCount} problems`} before saving
+            </p>
+          )}
+          {!readOnly && (
+            <>
+              <button
+                onClick={undo}
+                disabled={undoState.undo.length === 0}
+                title="Undo (Ctrl+Z)"
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Undo
+              </button>
+              <button
+                onClick={redo}
+                disabled={undoState.redo.length === 0}
+                title="Redo (Ctrl+Shift+Z)"
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Redo
+              </button>
+            </>
+          )}
           {!readOnly && (
             <button
               onClick={saveScoresheet}
@@ -365,42 +1084,314 @@ const ScoresheetRenderer = ({
             </button>
           )}
           
-          <button
-            onClick={exportPdf}
-            className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-          >
-            Export PDF
-          </button>
+          {!readOnly && winCondition && session.status !== 'completed' && (
+            <button
+              onClick={completeSession}
+              disabled={completing}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+            >
+              {completing ? 'Completing...' : 'Complete Session'}
+            </button>
+          )}
+          
+          {!readOnly && (
+            <button
+              onClick={() => setGridMode(!gridMode)}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              {gridMode ? 'Sheet View' : 'Grid Entry'}
+            </button>
+          )}
+          
+          {!readOnly && (
+            <button
+              onClick={toggleShares}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Share
+            </button>
+          )}
+          
+          {!shareToken && (
+            <button
+              onClick={exportPdf}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Export PDF
+            </button>
+          )}
         </div>
       </div>
       
-      {session.players.length > 0 && (
-        <div className="mb-6">
-          <h3 className="text-lg font-medium text-gray-900 mb-2">Players</h3>
-          <div className="flex flex-wrap gap-2">
-            {session.players.map(player => (
-              <div key={player.id} className="px-3 py-1 bg-gray-100 rounded-full text-sm">
-                {player.name}
-              </div>
+      {shares && (
+        <div className="mb-6 rounded-md bg-gray-50 p-4">
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Read-only share links</h3>
+          <div className="flex items-center space-x-2 mb-3">
+            <select
+              value={shareExpiryDays ?? ''}
+              onChange={(e) => setShareExpiryDays(e.target.value ? Number(e.target.value) : null)}
+              aria-label="Link expiry"
+              className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              {SHARE_EXPIRY_OPTIONS.map(option => (
+                <option key={option.label} value={option.days ?? ''}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={createShare}
+              className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              Create Link
+            </button>
+          </div>
+          {shares.length === 0 ? (
+            <p className="text-sm text-gray-500">Nobody can see this session without logging in.</p>
+          ) : (
+            <ul className="space-y-2">
+              {shares.map(share => (
+                <li key={share.id} className="flex items-center justify-between text-sm">
+                  <span className={share.revokedAt ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                    Created {new Date(share.createdAt).toLocaleString()}
+                    {share.expiresAt && `, expires ${new Date(share.expiresAt).toLocaleString()}`}
+                  </span>
+                  {!share.revokedAt && (
+                    <span className="space-x-3">
+                      {share.token && (
+                        <button
+                          onClick={() => navigator.clipboard.writeText(getShareUrl(share))}
+                          className="text-indigo-600 hover:text-indigo-800"
+                        >
+                          Copy Link
+                        </button>
+                      )}
+                      <button onClick={() => revokeShare(share.id)} className="text-red-500 hover:text-red-700">
+                        Revoke
+                      </button>
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      
+      {scoresheet.latestVersion > scoresheet.version && (
+        <div className="mb-6 rounded-md bg-yellow-50 p-4 flex justify-between items-center">
+          <p className="text-sm text-yellow-800">
+            This session uses version {scoresheet.version} of the template. Version {scoresheet.latestVersion} is available.
+          </p>
+          {!readOnly && (
+            <button
+              onClick={upgradeSession}
+              disabled={upgrading}
+              className="inline-flex items-center px-3 py-1 border border-yellow-300 text-sm font-medium rounded-md shadow-sm text-yellow-800 bg-white hover:bg-yellow-100"
+            >
+              {upgrading ? 'Upgrading...' : 'Upgrade to latest template'}
+            </button>
+          )}
+        </div>
+      )}
+      
+      {conflicts.length > 0 && (
+        <div className="mb-6 rounded-md bg-yellow-50 p-4 text-sm text-yellow-800">
+          <div className="flex justify-between">
+            <p className="font-medium">Some scores were also changed on another device:</p>
+            <button onClick={() => setConflicts([])} className="text-yellow-700 hover:text-yellow-900">
+              Dismiss
+            </button>
+          </div>
+          <ul className="mt-1 list-disc list-inside">
+            {conflicts.map(conflict => (
+              <li key={`${conflict.playerId}:${conflict.fieldId}:${conflict.round ?? ''}`}>
+                {players.length > 1 && `${playerNames[conflict.playerId] || conflict.playerId}, `}
+                {fieldNames[conflict.fieldId] || conflict.fieldId}
+                {conflict.round !== undefined && ` (round ${conflict.round + 1})`}:
+                kept {describeValue(conflict.kept === 'local' ? conflict.local : conflict.remote)} from
+                {conflict.kept === 'local' ? ' this device' : ' the other device'} over{' '}
+                {describeValue(conflict.kept === 'local' ? conflict.remote : conflict.local)}
+              </li>
             ))}
+          </ul>
+        </div>
+      )}
+      
+      {droppedFields && (
+        <div className="mb-6 rounded-md bg-blue-50 p-4 text-sm text-blue-800">
+          <div className="flex justify-between">
+            <p className="font-medium">Session upgraded to version {scoresheet.version} of the template.</p>
+            <button onClick={() => setDroppedFields(null)} className="text-blue-600 hover:text-blue-800">
+              Dismiss
+            </button>
           </div>
+          {droppedFields.length === 0 ? (
+            <p className="mt-1">All values were carried over.</p>
+          ) : (
+            <>
+              <p className="mt-1">The values of these fields could not be carried over:</p>
+              <ul className="mt-1 list-disc list-inside">
+                {droppedFields.map(field => (
+                  <li key={field.fieldId}>{field.name}: {field.reason}</li>
+                ))}
+              </ul>
+            </>
+          )}
         </div>
       )}
       
-      {scoresheet.subcategories.map((subcategory) => (
-        <div key={subcategory.id} className="mb-8">
+      {showGrid && (
+        <ScoresheetGrid
+          sections={gridSections}
+          players={players}
+          values={values}
+          hidden={rules.hidden}
+          issues={showIssues ? rules.issues : undefined}
+          getRange={getGridRange}
+          onChange={handleGridChange}
+          onPaste={handleGridPaste}
+        />
+      )}
+      
+      {scoresheet.subcategories.filter(subcategory => !showGrid || subcategory.rounds).map((subcategory) => (
+        <div
+          key={subcategory.id}
+          className="mb-8 overflow-x-auto"
+          style={{ marginLeft: `${(subcategoryDepths[subcategory.id] || 0) * 1.5}rem` }}
+        >
           <h3 className="text-lg font-medium text-gray-900 mb-4 pb-2 border-b">
             {subcategory.name}
           </h3>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {subcategory.fields.map((field) => (
-              <div key={field.id}>
-                {renderField(field)}
-              </div>
+          {subcategory.fields.length === 0 ? null : subcategory.rounds ? renderRoundTable(subcategory, players, rules) : (
+            <table className="min-w-full">
+              {players.length > 1 && (
+                <thead>
+                  <tr>
+                    <th className="py-2 pr-4 text-left text-sm font-medium text-gray-500">Field</th>
+                    {players.map(player => (
+                      <th key={player.id} className="px-2 py-2 text-left text-sm font-medium text-gray-900">
+                        {player.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+              )}
+              <tbody>
+                {getVisibleFields(subcategory, players, rules).map((field) => (
+                  <tr key={field.id}>
+                    <td className="py-2 pr-4 text-sm font-medium text-gray-700 whitespace-nowrap">{renderFieldName(field)}</td>
+                    {players.map(player => (
+                      <td key={player.id} className="px-2 py-2 min-w-[8rem]">
+                        {renderCell(field, player.id, rules)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+      
+      {!readOnly && canLevelUp(scoresheet.subcategories) && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4 pb-2 border-b">Level Up</h3>
+          <ul className="space-y-2">
+            {players.map(player => (
+              <li key={player.id} className="flex items-center space-x-2 text-sm">
+                {players.length > 1 && <span className="font-medium w-32">{player.name}</span>}
+                <button
+                  onClick={() => handleLevelUp(player.id, 'fixed')}
+                  className="inline-flex items-center px-3 py-1 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Level up (fixed hit points)
+                </button>
+                <button
+                  onClick={() => handleLevelUp(player.id, 'roll')}
+                  className="inline-flex items-center px-3 py-1 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Level up (roll hit points)
+                </button>
+                {levelUps[player.id] && <span className="text-gray-500">{levelUps[player.id]}</span>}
+              </li>
             ))}
+          </ul>
+        </div>
+      )}
+      
+      {historyFieldId && (
+        <div className="mb-6">
+          <div className="flex justify-between items-center mb-4 pb-2 border-b">
+            <h3 className="text-lg font-medium text-gray-900">History: {fieldNames[historyFieldId] || historyFieldId}</h3>
+            <button onClick={() => setHistoryFieldId(null)} className="text-sm text-indigo-600 hover:text-indigo-800">
+              Close
+            </button>
           </div>
+          {fieldHistory.length === 0 ? (
+            <p className="text-sm text-gray-500">No changes yet.</p>
+          ) : (
+            <ul className="space-y-1 max-h-64 overflow-y-auto">
+              {[...fieldHistory].reverse().map(change => (
+                <li key={change.id} className="flex justify-between text-sm">
+                  <span>
+                    {players.length > 1 && <span className="font-medium mr-2">{playerNames[change.playerId] || change.playerId}</span>}
+                    {change.round !== undefined && <span className="text-gray-500 mr-2">Round {change.round + 1}</span>}
+                    <span className="text-gray-700">{describeValue(change.previous)} → {describeValue(change.value)}</span>
+                    {change.action !== 'edit' && (
+                      <span className="ml-2 text-xs text-gray-500">({change.action === 'undo' ? 'undone' : 'redone'})</span>
+                    )}
+                  </span>
+                  <span className="text-xs text-gray-400">
+                    {pendingIds.has(change.id) ? 'unsaved' : change.editor} · {new Date(change.changedAt).toLocaleTimeString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
-      ))}
+      )}
+      
+      {standings.length > 1 && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4 pb-2 border-b">
+            {session.status === 'completed' ? 'Final Ranking' : 'Current Ranking'}
+          </h3>
+          <ol className="space-y-2">
+            {standings.map((standing, index) => (
+              <li key={standing.player.id} className="flex justify-between text-sm">
+                <span>
+                  <span className="font-bold mr-2">#{standing.rank}</span>
+                  {standing.player.name}
+                  {isDecidedByTiebreak(standings, index) && (
+                    <span className="ml-2 text-xs text-gray-500">(decided by tiebreak)</span>
+                  )}
+                </span>
+                <span className="font-medium">{standing.total}</span>
+              </li>
+            ))}
+          </ol>
+          {winCondition.lowestWins && <p className="mt-2 text-xs text-gray-500">Lowest total wins</p>}
+        </div>
+      )}
+      
+      {rolls.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4 pb-2 border-b">Roll Log</h3>
+          <ul className="space-y-1 max-h-64 overflow-y-auto">
+            {[...rolls].reverse().map(entry => (
+              <li key={entry.id} className="flex justify-between text-sm">
+                <span>
+                  {players.length > 1 && <span className="font-medium mr-2">{playerNames[entry.playerId] || entry.playerId}</span>}
+                  <span className="text-gray-700 mr-2">{fieldNames[entry.fieldId] || entry.fieldId}</span>
+                  <span className="text-gray-500">{entry.roll.notation}: {describeRoll(entry.roll)}</span>
+                </span>
+                <span className="text-xs text-gray-400">{new Date(entry.roll.rolledAt).toLocaleTimeString()}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
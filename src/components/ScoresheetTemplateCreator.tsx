@@ -1,7 +1,41 @@
 import React, { useState } from 'react';
+import { validateTemplateFormulas } from '../lib/scoresheet/dependencies';
+import { getDiceNotationError } from '../lib/scoresheet/dice';
+import { parseFormula } from '../lib/scoresheet/formula';
+import { getRuleProblems } from '../lib/scoresheet/rules';
+import {
+  duplicateField,
+  getNestingProblems,
+  getSubcategoryDepths,
+  getSubtreeIds,
+  moveField,
+  moveSubcategory,
+  moveSubcategoryBefore,
+  orderSubcategories,
+  removeSubcategoryTree
+} from '../lib/scoresheet/subcategories';
+import { getTemplateFields } from '../lib/scoresheet/template';
+import { parseTemplateFile, TemplateFileError } from '../lib/scoresheet/templateFile';
+import {
+  ScoresheetField,
+  ScoresheetFieldType,
+  ScoresheetRoundSettings,
+  ScoresheetSubcategory,
+  ScoresheetTiebreak,
+  ScoresheetValidationRule,
+  ScoresheetWinCondition
+} from '../lib/scoresheet/types';
+import { getRankableFields, getWinConditionProblems } from '../lib/scoresheet/winner';
 
 // This component allows users to create custom scoresheet templates
-// with support for subcategories as required for complex games like D&D
+// with support for subcategories as required for complex games like D&D.
+// Subcategories can be nested, and subcategories and fields are reordered
+// by dragging them; the order is saved as their display order.
+
+// What is being dragged in the editor
+type DragItem =
+  | { type: 'subcategory'; id: string }
+  | { type: 'field'; subcategoryId: string; fieldIndex: number };
 
 interface FieldType {
   id: string;
@@ -12,45 +46,100 @@ interface FieldType {
 
 const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameName: string }) => {
   const [templateName, setTemplateName] = useState('');
-  const [subcategories, setSubcategories] = useState([
+  const [subcategories, setSubcategories] = useState<ScoresheetSubcategory[]>([
     { id: crypto.randomUUID(), name: 'General', fields: [] }
   ]);
-  const [currentSubcategoryIndex, setCurrentSubcategoryIndex] = useState(0);
+  const [currentSubcategoryId, setCurrentSubcategoryId] = useState(subcategories[0].id);
+  const [dragging, setDragging] = useState<DragItem | null>(null);
+  // Null ranks players by the last calculation field, highest first
+  const [winCondition, setWinCondition] = useState<ScoresheetWinCondition | null>(null);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
+  // Subcategories move around, so the selection is kept by ID
+  const currentSubcategoryIndex = Math.max(0, subcategories.findIndex(s => s.id === currentSubcategoryId));
+  const depths = getSubcategoryDepths(subcategories);
+  const rankableFields = getRankableFields(subcategories);
+  
   // Available field types
   const fieldTypes: FieldType[] = [
     { id: 'number', name: 'Number', description: 'Numeric value with optional min/max', icon: '123' },
     { id: 'text', name: 'Text', description: 'Single line text input', icon: 'Aa' },
     { id: 'checkbox', name: 'Checkbox', description: 'True/false toggle', icon: '☑' },
     { id: 'dropdown', name: 'Dropdown', description: 'Select from predefined options', icon: '▼' },
-    { id: 'calculation', name: 'Calculation', description: 'Formula-based calculated value', icon: '=' }
+    { id: 'calculation', name: 'Calculation', description: 'Formula-based calculated value', icon: '=' },
+    { id: 'dice', name: 'Dice', description: 'Dice roll such as 2d6+3', icon: '⚄' },
+    { id: 'tracker', name: 'Tracker', description: 'Resource counted up and down, like hit points', icon: '±' }
   ];
   
-  // Add a new subcategory
-  const addSubcategory = () => {
-    setSubcategories([
-      ...subcategories,
-      { id: crypto.randomUUID(), name: `Subcategory ${subcategories.length + 1}`, fields: [] }
-    ]);
-    setCurrentSubcategoryIndex(subcategories.length);
+  // Add a new subcategory, at the top level or as the last one nested in a parent
+  const addSubcategory = (parentId?: string) => {
+    const subcategory: ScoresheetSubcategory = {
+      id: crypto.randomUUID(),
+      name: `Subcategory ${subcategories.length + 1}`,
+      ...(parentId ? { parentId } : {}),
+      fields: []
+    };
+    setSubcategories(orderSubcategories([...subcategories, subcategory]));
+    setCurrentSubcategoryId(subcategory.id);
   };
   
-  // Remove a subcategory
+  // Remove a subcategory along with the subcategories nested in it
   const removeSubcategory = (index: number) => {
-    if (subcategories.length <= 1) {
+    const removed = getSubtreeIds(subcategories, subcategories[index].id);
+    if (removed.size >= subcategories.length) {
       setError('You must have at least one subcategory');
       return;
     }
     
-    const newSubcategories = [...subcategories];
-    newSubcategories.splice(index, 1);
+    if (removed.size > 1 && !window.confirm(`Remove ${subcategories[index].name} and the subcategories nested in it?`)) {
+      return;
+    }
+    
+    const newSubcategories = removeSubcategoryTree(subcategories, subcategories[index].id);
     setSubcategories(newSubcategories);
     
-    if (currentSubcategoryIndex >= newSubcategories.length) {
-      setCurrentSubcategoryIndex(newSubcategories.length - 1);
+    if (removed.has(currentSubcategoryId)) {
+      setCurrentSubcategoryId(subcategories[index].parentId || newSubcategories[0].id);
+    }
+  };
+  
+  // Drop a dragged subcategory or field on a subcategory. A subcategory is
+  // moved before it, or into it when nesting; a field moves into it.
+  const dropOnSubcategory = (targetId: string, nest: boolean) => {
+    if (!dragging) return;
+    
+    if (dragging.type === 'field') {
+      const target = subcategories.find(s => s.id === targetId);
+      setSubcategories(moveField(subcategories, dragging.subcategoryId, dragging.fieldIndex, targetId, target.fields.length));
+    } else if (nest) {
+      setSubcategories(moveSubcategory(subcategories, dragging.id, targetId, Infinity));
+    } else {
+      setSubcategories(moveSubcategoryBefore(subcategories, dragging.id, targetId));
+    }
+    
+    setDragging(null);
+  };
+  
+  // Move a subcategory to the end of the top level
+  const dropAtEnd = () => {
+    if (dragging?.type === 'subcategory') {
+      setSubcategories(moveSubcategory(subcategories, dragging.id, null, Infinity));
     }
+    setDragging(null);
+  };
+  
+  // Drop a dragged field before another field of the current subcategory
+  const dropOnField = (fieldIndex: number) => {
+    if (dragging?.type !== 'field') return;
+    
+    const subcategoryId = subcategories[currentSubcategoryIndex].id;
+    // Moving down within the subcategory shifts the fields below up by one
+    const sameSubcategory = dragging.subcategoryId === subcategoryId;
+    const toIndex = sameSubcategory && dragging.fieldIndex < fieldIndex ? fieldIndex - 1 : fieldIndex;
+    
+    setSubcategories(moveField(subcategories, dragging.subcategoryId, dragging.fieldIndex, subcategoryId, toIndex));
+    setDragging(null);
   };
   
   // Update subcategory name
@@ -60,6 +149,13 @@ const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameN
     setSubcategories(newSubcategories);
   };
   
+  // Switch a subcategory between a fixed list of fields and round-by-round scoring
+  const updateSubcategoryRounds = (index: number, rounds: ScoresheetRoundSettings | undefined) => {
+    const newSubcategories = [...subcategories];
+    newSubcategories[index] = { ...newSubcategories[index], rounds };
+    setSubcategories(newSubcategories);
+  };
+  
   // Add a field to the current subcategory
   const addField = (fieldType: string) => {
     const newSubcategories = [...subcategories];
@@ -68,12 +164,16 @@ const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameN
     const newField = {
       id: crypto.randomUUID(),
       name: `${fieldType.charAt(0).toUpperCase() + fieldType.slice(1)} Field`,
-      type: fieldType,
-      defaultValue: fieldType === 'number' ? 0 : fieldType === 'checkbox' ? false : '',
+      type: fieldType as ScoresheetFieldType,
+      defaultValue: fieldType === 'number' || fieldType === 'tracker' ? 0 :
+        fieldType === 'checkbox' ? false :
+        fieldType === 'dice' ? undefined : '',
       options: fieldType === 'dropdown' ? ['Option 1', 'Option 2', 'Option 3'] : undefined,
-      formula: fieldType === 'calculation' ? 'field1 + field2' : undefined,
-      min: fieldType === 'number' ? 0 : undefined,
-      max: fieldType === 'number' ? 100 : undefined
+      formula: fieldType === 'calculation' ? '0' : undefined,
+      notation: fieldType === 'dice' ? '1d20' : undefined,
+      min: fieldType === 'number' || fieldType === 'tracker' ? 0 : undefined,
+      max: fieldType === 'number' ? 100 : undefined,
+      step: fieldType === 'tracker' ? 1 : undefined
     };
     
     subcategory.fields.push(newField);
@@ -100,6 +200,56 @@ const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameN
     setSubcategories(newSubcategories);
   };
   
+  // Replace the validation rules of a field, dropping the list when it is empty
+  const updateRules = (subcategoryIndex: number, fieldIndex: number, rules: ScoresheetValidationRule[]) => {
+    updateField(subcategoryIndex, fieldIndex, { validation: rules.length > 0 ? rules : undefined });
+  };
+  
+  // Set or remove the single rule of a type (required, range or pattern)
+  const setRule = (
+    subcategoryIndex: number,
+    fieldIndex: number,
+    type: ScoresheetValidationRule['type'],
+    rule: ScoresheetValidationRule | null
+  ) => {
+    const rules = subcategories[subcategoryIndex].fields[fieldIndex].validation || [];
+    const index = rules.findIndex(r => r.type === type);
+    const newRules = [...rules];
+    
+    if (index === -1) {
+      if (rule) newRules.push(rule);
+    } else if (rule) {
+      newRules[index] = rule;
+    } else {
+      newRules.splice(index, 1);
+    }
+    
+    updateRules(subcategoryIndex, fieldIndex, newRules);
+  };
+  
+  // Replace the tiebreaks of the win condition
+  const updateTiebreaks = (tiebreaks: ScoresheetTiebreak[]) => {
+    setWinCondition({ ...winCondition, tiebreaks });
+  };
+  
+  // Load a template file into the editor, replacing what is there
+  const importTemplate = async (file: File) => {
+    try {
+      const { template } = parseTemplateFile(await file.text());
+      const imported = orderSubcategories(template.subcategories);
+      setTemplateName(template.name);
+      setSubcategories(imported);
+      setCurrentSubcategoryId(imported[0].id);
+      setWinCondition(template.winCondition || null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof TemplateFileError
+        ? `Could not import ${file.name}: ${err.problems.join('. ')}`
+        : `Could not import ${file.name}`);
+      console.error(err);
+    }
+  };
+  
   // Save the template
   const saveTemplate = async () => {
     if (!templateName.trim()) {
@@ -107,10 +257,44 @@ const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameN
       return;
     }
     
-    // Validate that each subcategory has at least one field
-    const emptySubcategories = subcategories.filter(s => s.fields.length === 0);
+    // Validate that each subcategory has at least one field, or nested subcategories
+    const emptySubcategories = subcategories.filter(s => s.fields.length === 0 && !subcategories.some(c => c.parentId === s.id));
     if (emptySubcategories.length > 0) {
-      setError(`${emptySubcategories[0].name} has no fields. Each subcategory must have at least one field.`);
+      setError(`${emptySubcategories[0].name} has no fields. Each subcategory must have at least one field or a nested subcategory.`);
+      return;
+    }
+    
+    const nestingProblems = getNestingProblems(subcategories);
+    if (nestingProblems.length > 0) {
+      setError(nestingProblems.join('. '));
+      return;
+    }
+    
+    const winConditionProblems = winCondition ? getWinConditionProblems(subcategories, winCondition) : [];
+    if (winConditionProblems.length > 0) {
+      setError(winConditionProblems.join('. '));
+      return;
+    }
+    
+    // Reject formulas with cycles, unknown fields or syntax errors
+    const formulaProblems = validateTemplateFormulas(subcategories);
+    if (formulaProblems.length > 0) {
+      setError(formulaProblems.join('. '));
+      return;
+    }
+    
+    // Reject dice fields that could not be rolled
+    const invalidDice = getTemplateFields(subcategories)
+      .find(field => field.type === 'dice' && getDiceNotationError(field.notation || '1d20'));
+    if (invalidDice) {
+      setError(`${invalidDice.name} has invalid dice: ${getDiceNotationError(invalidDice.notation)}`);
+      return;
+    }
+    
+    // Reject validation rules that could never be met or explained
+    const ruleProblems = getTemplateFields(subcategories).flatMap(getRuleProblems);
+    if (ruleProblems.length > 0) {
+      setError(ruleProblems.join('. '));
       return;
     }
     
@@ -127,7 +311,8 @@ const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameN
         body: JSON.stringify({
           name: templateName,
           gameId,
-          subcategories
+          subcategories,
+          ...(winCondition ? { winCondition } : {})
         }),
       });
       
@@ -147,6 +332,155 @@ const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameN
     }
   };
   
+  // Check a formula for syntax errors
+  const getFormulaError = (formula: string | undefined): string | null => {
+    try {
+      parseFormula(formula || '');
+      return null;
+    } catch (err) {
+      return err.message;
+    }
+  };
+  
+  // Render the visibility condition and validation rules of a field
+  const renderRulesEditor = (subcategoryIndex: number, fieldIndex: number, field: ScoresheetField) => {
+    const rules = field.validation || [];
+    const required = rules.find(rule => rule.type === 'required');
+    const range = rules.find(rule => rule.type === 'range') as { min?: number; max?: number } | undefined;
+    const pattern = rules.find(rule => rule.type === 'pattern') as { pattern: string } | undefined;
+    const numeric = field.type === 'number' || field.type === 'tracker' || field.type === 'dice';
+    
+    const parseBound = (value: string) => value === '' ? undefined : parseFloat(value);
+    
+    const updateCheck = (index: number, updates: Record<string, any>) => {
+      const newRules = [...rules];
+      newRules[index] = { ...newRules[index], ...updates } as ScoresheetValidationRule;
+      updateRules(subcategoryIndex, fieldIndex, newRules);
+    };
+    
+    return (
+      <div className="mt-2 pt-4 border-t">
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700">Show Only When</label>
+          <input
+            type="text"
+            value={field.visibleWhen || ''}
+            onChange={(e) => updateField(subcategoryIndex, fieldIndex, { visibleWhen: e.target.value || undefined })}
+            placeholder="[Class] == &quot;Wizard&quot;"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          />
+          {field.visibleWhen && getFormulaError(field.visibleWhen) && (
+            <p className="mt-1 text-sm text-red-600">{getFormulaError(field.visibleWhen)}</p>
+          )}
+          <p className="mt-1 text-sm text-gray-500">
+            Optional. Hidden fields are not shown or validated, and keep their values.
+          </p>
+        </div>
+        
+        {field.type !== 'calculation' && (
+          <div className="mb-4 flex items-center">
+            <input
+              type="checkbox"
+              checked={!!required}
+              onChange={(e) => setRule(subcategoryIndex, fieldIndex, 'required', e.target.checked ? { type: 'required' } : null)}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <label className="ml-2 block text-sm text-gray-700">Required</label>
+          </div>
+        )}
+        
+        {numeric && (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700">Allowed Minimum</label>
+              <input
+                type="number"
+                value={range?.min ?? ''}
+                onChange={(e) => {
+                  const min = parseBound(e.target.value);
+                  const max = range?.max;
+                  setRule(subcategoryIndex, fieldIndex, 'range',
+                    min === undefined && max === undefined ? null : { type: 'range', min, max });
+                }}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700">Allowed Maximum</label>
+              <input
+                type="number"
+                value={range?.max ?? ''}
+                onChange={(e) => {
+                  const min = range?.min;
+                  const max = parseBound(e.target.value);
+                  setRule(subcategoryIndex, fieldIndex, 'range',
+                    min === undefined && max === undefined ? null : { type: 'range', min, max });
+                }}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+          </div>
+        )}
+        
+        {field.type === 'text' && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700">Pattern</label>
+            <input
+              type="text"
+              value={pattern?.pattern || ''}
+              onChange={(e) => setRule(subcategoryIndex, fieldIndex, 'pattern',
+                e.target.value ? { type: 'pattern', pattern: e.target.value } : null)}
+              placeholder="^[A-Z]{3}$"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+            <p className="mt-1 text-sm text-gray-500">Optional. A regular expression the text has to match.</p>
+          </div>
+        )}
+        
+        <div className="mb-2">
+          <label className="block text-sm font-medium text-gray-700">Checks</label>
+          {rules.map((rule, index) => rule.type === 'check' && (
+            <div key={index} className="mt-2 grid grid-cols-5 gap-2 items-start">
+              <div className="col-span-2">
+                <input
+                  type="text"
+                  value={rule.formula}
+                  onChange={(e) => updateCheck(index, { formula: e.target.value })}
+                  placeholder="[Gold] <= [Gold Cap]"
+                  aria-label="Check formula"
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+                {getFormulaError(rule.formula) && (
+                  <p className="mt-1 text-sm text-red-600">{getFormulaError(rule.formula)}</p>
+                )}
+              </div>
+              <input
+                type="text"
+                value={rule.message}
+                onChange={(e) => updateCheck(index, { message: e.target.value })}
+                placeholder="Message when the check fails"
+                aria-label="Check message"
+                className="col-span-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+              <button
+                onClick={() => updateRules(subcategoryIndex, fieldIndex, rules.filter((_, i) => i !== index))}
+                className="text-red-500 hover:text-red-700 text-sm"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => updateRules(subcategoryIndex, fieldIndex, [...rules, { type: 'check', formula: '', message: '' }])}
+            className="mt-2 text-sm text-indigo-600 hover:text-indigo-800"
+          >
+            + Add Check
+          </button>
+        </div>
+      </div>
+    );
+  };
+  
   // Render field editor based on field type
   const renderFieldEditor = (subcategoryIndex: number, fieldIndex: number) => {
     const field = subcategories[subcategoryIndex].fields[fieldIndex];
@@ -154,13 +488,50 @@ const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameN
     return (
       <div className="border rounded-md p-4 mb-4 bg-gray-50">
         <div className="flex justify-between items-center mb-4">
-          <h4 className="text-md font-medium">{field.name}</h4>
-          <button
-            onClick={() => removeField(subcategoryIndex, fieldIndex)}
-            className="text-red-500 hover:text-red-700"
+          <h4
+            draggable
+            onDragStart={() => setDragging({ type: 'field', subcategoryId: subcategories[subcategoryIndex].id, fieldIndex })}
+            onDragEnd={() => setDragging(null)}
+            className="text-md font-medium cursor-move"
+            title="Drag to reorder, or onto a subcategory to move it there"
           >
-            Remove
-          </button>
+            ⠿ {field.name}
+          </h4>
+          <div className="flex items-center space-x-3">
+            <select
+              value=""
+              onChange={(e) => setSubcategories(moveField(
+                subcategories,
+                subcategories[subcategoryIndex].id,
+                fieldIndex,
+                e.target.value,
+                subcategories.find(s => s.id === e.target.value).fields.length
+              ))}
+              aria-label="Move to subcategory"
+              className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="">Move to...</option>
+              {subcategories
+                .filter((_, index) => index !== subcategoryIndex)
+                .map(subcategory => (
+                  <option key={subcategory.id} value={subcategory.id}>
+                    {subcategory.name}
+                  </option>
+                ))}
+            </select>
+            <button
+              onClick={() => setSubcategories(duplicateField(subcategories, subcategories[subcategoryIndex].id, fieldIndex))}
+              className="text-indigo-600 hover:text-indigo-800"
+            >
+              Duplicate
+            </button>
+            <button
+              onClick={() => removeField(subcategoryIndex, fieldIndex)}
+              className="text-red-500 hover:text-red-700"
+            >
+              Remove
+            </button>
+          </div>
         </div>
         
         <div className="mb-4">
@@ -268,11 +639,103 @@ const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameN
               onChange={(e) => updateField(subcategoryIndex, fieldIndex, { formula: e.target.value })}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
             />
+            {getFormulaError(field.formula) && (
+              <p className="mt-1 text-sm text-red-600">{getFormulaError(field.formula)}</p>
+            )}
+            <p className="mt-1 text-sm text-gray-500">
+              Reference fields by ID or by name in brackets. Example: [Gold] * 2 + if(bonus, 10, 0).
+              Dice fields count with the total of their latest roll.
+            </p>
+            <p className="mt-1 text-xs text-gray-500">
+              Functions: if, sum, min, max, count, avg, floor, ceil, round, abs.
+              Fields scored round by round are combined across rounds with sum, min, max, count or avg.
+            </p>
+          </div>
+        )}
+        
+        {field.type === 'tracker' && (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700">Starting Value</label>
+                <input
+                  type="number"
+                  value={field.defaultValue}
+                  onChange={(e) => updateField(subcategoryIndex, fieldIndex, { defaultValue: parseFloat(e.target.value) || 0 })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700">Step</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={field.step}
+                  onChange={(e) => updateField(subcategoryIndex, fieldIndex, { step: parseFloat(e.target.value) || 1 })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700">Min Value</label>
+                <input
+                  type="number"
+                  value={field.min ?? ''}
+                  onChange={(e) => updateField(subcategoryIndex, fieldIndex, {
+                    min: e.target.value === '' ? undefined : parseFloat(e.target.value)
+                  })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700">Max Value</label>
+                <input
+                  type="number"
+                  value={field.max ?? ''}
+                  onChange={(e) => updateField(subcategoryIndex, fieldIndex, {
+                    max: e.target.value === '' ? undefined : parseFloat(e.target.value)
+                  })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700">Maximum Formula</label>
+              <input
+                type="text"
+                value={field.maxFormula || ''}
+                onChange={(e) => updateField(subcategoryIndex, fieldIndex, { maxFormula: e.target.value || undefined })}
+                placeholder="[Hit Point Maximum]"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+              {field.maxFormula && getFormulaError(field.maxFormula) && (
+                <p className="mt-1 text-sm text-red-600">{getFormulaError(field.maxFormula)}</p>
+              )}
+              <p className="mt-1 text-sm text-gray-500">
+                Optional. The value can never go above this formula or below the min value.
+              </p>
+            </div>
+          </>
+        )}
+        
+        {field.type === 'dice' && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700">Dice</label>
+            <input
+              type="text"
+              value={field.notation}
+              onChange={(e) => updateField(subcategoryIndex, fieldIndex, { notation: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+            {field.notation && getDiceNotationError(field.notation) && (
+              <p className="mt-1 text-sm text-red-600">{getDiceNotationError(field.notation)}</p>
+            )}
             <p className="mt-1 text-sm text-gray-500">
-              Use field IDs in your formula. Example: field1 + field2 * 2
+              Examples: 2d6+3, 4d6kh3 (keep the highest 3), 4d6dl1 (drop the lowest), 1d20 adv, 1d20 dis
             </p>
           </div>
         )}
+        
+        {renderRulesEditor(subcategoryIndex, fieldIndex, field)}
       </div>
     );
   };
@@ -292,6 +755,19 @@ const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameN
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
           />
         </div>
+        
+        <div className="mt-4">
+          <label className="block text-sm font-medium text-gray-700">Import from Template File</label>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              if (e.target.files?.[0]) importTemplate(e.target.files[0]);
+              e.target.value = '';
+            }}
+            className="mt-1 block w-full text-sm text-gray-700"
+          />
+        </div>
       </div>
       
       {error && (
@@ -304,27 +780,76 @@ const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameN
         <div className="flex justify-between items-center mb-4">
           <h3 className="text-lg font-medium text-gray-900">Subcategories</h3>
           <button
-            onClick={addSubcategory}
+            onClick={() => addSubcategory()}
             className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
           >
             Add Subcategory
           </button>
         </div>
         
-        <div className="flex space-x-2 mb-4 overflow-x-auto pb-2">
+        <p className="text-sm text-gray-500 mb-2">
+          Drag a subcategory onto another to place it before that one, or onto &quot;Nest&quot; to put it inside.
+          Fields can be dragged onto a subcategory to move them there.
+        </p>
+        
+        <div className="mb-4 space-y-1">
           {subcategories.map((subcategory, index) => (
-            <button
+            <div
               key={subcategory.id}
-              onClick={() => setCurrentSubcategoryIndex(index)}
-              className={`px-4 py-2 rounded-md text-sm font-medium ${
+              draggable
+              onDragStart={() => setDragging({ type: 'subcategory', id: subcategory.id })}
+              onDragEnd={() => setDragging(null)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                dropOnSubcategory(subcategory.id, false);
+              }}
+              style={{ marginLeft: `${(depths[subcategory.id] || 0) * 1.5}rem` }}
+              className={`flex items-center justify-between rounded-md cursor-move ${
                 currentSubcategoryIndex === index
                   ? 'bg-indigo-600 text-white'
                   : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
               }`}
             >
-              {subcategory.name}
-            </button>
+              <button
+                onClick={() => setCurrentSubcategoryId(subcategory.id)}
+                className="flex-1 px-4 py-2 text-left text-sm font-medium"
+              >
+                ⠿ {subcategory.name}
+              </button>
+              {dragging?.type === 'subcategory' && dragging.id !== subcategory.id && (
+                <span
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    dropOnSubcategory(subcategory.id, true);
+                  }}
+                  className="mx-2 px-2 py-1 border border-dashed rounded text-xs"
+                >
+                  Nest
+                </span>
+              )}
+              <button
+                onClick={() => addSubcategory(subcategory.id)}
+                className="px-3 py-2 text-xs font-medium"
+              >
+                + Nested
+              </button>
+            </div>
           ))}
+          {dragging?.type === 'subcategory' && (
+            <div
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                dropAtEnd();
+              }}
+              className="px-4 py-2 border border-dashed rounded-md text-sm text-gray-500"
+            >
+              Drop here to move to the end of the top level
+            </div>
+          )}
         </div>
         
         <div className="bg-gray-100 p-4 rounded-md">
@@ -348,6 +873,71 @@ const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameN
             )}
           </div>
           
+          <div className="mb-4">
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                checked={!!subcategories[currentSubcategoryIndex].rounds}
+                onChange={(e) => updateSubcategoryRounds(
+                  currentSubcategoryIndex,
+                  e.target.checked ? { count: 10, openEnded: false } : undefined
+                )}
+                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <label className="ml-2 block text-sm text-gray-700">Score round by round (repeat these fields every round)</label>
+            </div>
+            
+            {subcategories[currentSubcategoryIndex].rounds && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Number of Rounds</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={subcategories[currentSubcategoryIndex].rounds.count}
+                    onChange={(e) => updateSubcategoryRounds(currentSubcategoryIndex, {
+                      ...subcategories[currentSubcategoryIndex].rounds,
+                      count: Math.max(1, parseInt(e.target.value) || 1)
+                    })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Running Total Of</label>
+                  <select
+                    value={subcategories[currentSubcategoryIndex].rounds.totalFieldId || ''}
+                    onChange={(e) => updateSubcategoryRounds(currentSubcategoryIndex, {
+                      ...subcategories[currentSubcategoryIndex].rounds,
+                      totalFieldId: e.target.value || undefined
+                    })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    <option value="">Last score field</option>
+                    {subcategories[currentSubcategoryIndex].fields
+                      .filter(field => field.type === 'number' || field.type === 'calculation' || field.type === 'dice')
+                      .map(field => (
+                        <option key={field.id} value={field.id}>
+                          {field.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <div className="flex items-center mt-6">
+                  <input
+                    type="checkbox"
+                    checked={!!subcategories[currentSubcategoryIndex].rounds.openEnded}
+                    onChange={(e) => updateSubcategoryRounds(currentSubcategoryIndex, {
+                      ...subcategories[currentSubcategoryIndex].rounds,
+                      openEnded: e.target.checked
+                    })}
+                    className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <label className="ml-2 block text-sm text-gray-700">Allow adding rounds</label>
+                </div>
+              </div>
+            )}
+          </div>
+          
           <div className="mb-4">
             <h4 className="text-md font-medium text-gray-900 mb-2">Fields</h4>
             
@@ -371,7 +961,14 @@ const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameN
               </div>
             ) : (
               subcategories[currentSubcategoryIndex].fields.map((field, fieldIndex) => (
-                <div key={field.id}>
+                <div
+                  key={field.id}
+                  onDragOver={(e) => dragging?.type === 'field' && e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    dropOnField(fieldIndex);
+                  }}
+                >
                   {renderFieldEditor(currentSubcategoryIndex, fieldIndex)}
                 </div>
               ))
@@ -380,6 +977,87 @@ const ScoresheetTemplateCreator = ({ gameId, gameName }: { gameId: string, gameN
         </div>
       </div>
       
+      <div className="mb-6">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Winner</h3>
+        <div className="bg-gray-100 p-4 rounded-md">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Total</label>
+              <select
+                value={winCondition?.totalFieldId || ''}
+                onChange={(e) => setWinCondition(e.target.value ? { ...winCondition, totalFieldId: e.target.value } : null)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              >
+                <option value="">Last calculation field</option>
+                {rankableFields.map(field => (
+                  <option key={field.id} value={field.id}>
+                    {field.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {winCondition && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Winner</label>
+                <select
+                  value={winCondition.lowestWins ? 'lowest' : 'highest'}
+                  onChange={(e) => setWinCondition({ ...winCondition, lowestWins: e.target.value === 'lowest' })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  <option value="highest">Highest total wins</option>
+                  <option value="lowest">Lowest total wins</option>
+                </select>
+              </div>
+            )}
+          </div>
+          
+          {winCondition && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700">Tiebreaks, in order</label>
+              {(winCondition.tiebreaks || []).map((tiebreak, index) => (
+                <div key={index} className="grid grid-cols-5 gap-2 mt-2 items-center">
+                  <select
+                    value={tiebreak.fieldId}
+                    onChange={(e) => updateTiebreaks(winCondition.tiebreaks.map((t, i) => i === index ? { ...t, fieldId: e.target.value } : t))}
+                    aria-label="Tiebreak field"
+                    className="col-span-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    {rankableFields.map(field => (
+                      <option key={field.id} value={field.id}>
+                        {field.name}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={tiebreak.lowestWins ? 'lowest' : 'highest'}
+                    onChange={(e) => updateTiebreaks(winCondition.tiebreaks.map((t, i) => i === index ? { ...t, lowestWins: e.target.value === 'lowest' } : t))}
+                    aria-label="Tiebreak direction"
+                    className="col-span-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  >
+                    <option value="highest">Highest wins</option>
+                    <option value="lowest">Lowest wins</option>
+                  </select>
+                  <button
+                    onClick={() => updateTiebreaks(winCondition.tiebreaks.filter((_, i) => i !== index))}
+                    className="text-red-500 hover:text-red-700 text-sm"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              {rankableFields.length > 0 && (
+                <button
+                  onClick={() => updateTiebreaks([...(winCondition.tiebreaks || []), { fieldId: rankableFields[0].id }])}
+                  className="mt-2 text-sm text-indigo-600 hover:text-indigo-800"
+                >
+                  + Add Tiebreak
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+      
       <div className="mt-8 flex justify-end">
         <button
           onClick={saveTemplate}
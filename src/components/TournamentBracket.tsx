@@ -1,24 +1,35 @@
 import React, { useState, useEffect } from 'react';
+import { isSkippedReset } from '../lib/tournament/bracket';
+import { isPodTournamentFinished } from '../lib/tournament/pods';
+import {
+  PodStanding,
+  TournamentBracketName,
+  TournamentMatch,
+  TournamentPlayer,
+  TournamentSettings,
+  TournamentStanding
+} from '../lib/tournament/types';
 
 // This component implements tournament bracket visualization and management
-// for the game database app
+// for the game database app. The server moves winners on through the
+// bracket, so every result reloads the matches it returns. Double
+// elimination shows the winners bracket, the losers bracket and the grand
+// final one below the other. Round robins show their rounds and standings,
+// and allow draws. Swiss tournaments also show standings, pair their next
+// round once the current one has been played and end with the playoff of
+// their top cut. Pod tournaments show a table per match, with a score and a
+// placement for everyone at it, and seat their rounds the same way.
 
-interface Player {
-  id: string;
-  name: string;
-}
+const BRACKET_TITLES: Record<TournamentBracketName, string> = {
+  swiss: 'Swiss Rounds',
+  winners: 'Winners Bracket',
+  losers: 'Losers Bracket',
+  grand_final: 'Grand Final',
+  playoff: 'Playoff',
+  pods: 'Tables'
+};
 
-interface Match {
-  id: string;
-  round: number;
-  position: number;
-  player1Id: string | null;
-  player2Id: string | null;
-  winnerId: string | null;
-  score1: number | null;
-  score2: number | null;
-  status: 'pending' | 'in_progress' | 'completed';
-}
+const BRACKET_ORDER: TournamentBracketName[] = ['pods', 'swiss', 'winners', 'losers', 'grand_final', 'playoff'];
 
 interface Tournament {
   id: string;
@@ -30,18 +41,53 @@ interface Tournament {
   startDate: string;
   endDate: string;
   status: 'upcoming' | 'active' | 'completed';
-  players: Player[];
+  settings: TournamentSettings;
+  players: TournamentPlayer[];
 }
 
 const TournamentBracket = ({ tournamentId }: { tournamentId: string }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [tournament, setTournament] = useState<Tournament | null>(null);
-  const [matches, setMatches] = useState<Match[]>([]);
-  const [selectedMatch, setSelectedMatch] = useState<Match | null>(null);
+  const [matches, setMatches] = useState<TournamentMatch[]>([]);
+  const [selectedMatch, setSelectedMatch] = useState<TournamentMatch | null>(null);
   const [score1, setScore1] = useState<number | null>(null);
   const [score2, setScore2] = useState<number | null>(null);
   const [updatingScore, setUpdatingScore] = useState(false);
+  const [standings, setStandings] = useState<TournamentStanding[]>([]);
+  const [podStandings, setPodStandings] = useState<PodStanding[]>([]);
+  const [pairingRound, setPairingRound] = useState(false);
+  // Scores and placements typed for the players at the selected table, by player ID
+  const [podScores, setPodScores] = useState<Record<string, string>>({});
+  const [podPlacements, setPodPlacements] = useState<Record<string, string>>({});
+  
+  const isRoundRobin = tournament?.typeId === 'round_robin';
+  const isSwiss = tournament?.typeId === 'swiss';
+  const isPods = tournament?.typeId === 'pods';
+  const podAdvancement = tournament?.settings?.podAdvancement;
+  const hasStandings = isRoundRobin || isSwiss || podAdvancement?.type === 'placement_points';
+  
+  // Fetch the standings of a round robin, Swiss or pod tournament
+  const fetchStandings = async (pods = isPods) => {
+    try {
+      const response = await fetch(`/api/tournaments/${tournamentId}/standings`);
+      const data = await response.json();
+      
+      if (!data.success) {
+        setError(data.error || 'Failed to load standings');
+        return;
+      }
+      
+      if (pods) {
+        setPodStandings(data.data);
+      } else {
+        setStandings(data.data);
+      }
+    } catch (err) {
+      setError('Error loading standings');
+      console.error(err);
+    }
+  };
   
   // Fetch tournament details and matches
   useEffect(() => {
@@ -70,6 +116,13 @@ const TournamentBracket = ({ tournamentId }: { tournamentId: string }) => {
         }
         
         setMatches(matchesData.data);
+        
+        const { typeId, settings } = tournamentData.data;
+        if (typeId === 'round_robin' || typeId === 'swiss') {
+          await fetchStandings(false);
+        } else if (typeId === 'pods' && settings?.podAdvancement?.type === 'placement_points') {
+          await fetchStandings(true);
+        }
       } catch (err) {
         setError('Error loading tournament data');
         console.error(err);
@@ -82,17 +135,27 @@ const TournamentBracket = ({ tournamentId }: { tournamentId: string }) => {
   }, [tournamentId]);
   
   // Get player name by ID
-  const getPlayerName = (playerId: string | null) => {
+  const getPlayerName = (playerId: string | null, match?: TournamentMatch) => {
+    if (!playerId && match?.bye) return 'Bye';
     if (!playerId || !tournament) return 'TBD';
     const player = tournament.players.find(p => p.id === playerId);
     return player ? player.name : 'Unknown';
   };
   
   // Select a match to update
-  const selectMatch = (match: Match) => {
+  const selectMatch = (match: TournamentMatch) => {
     setSelectedMatch(match);
     setScore1(match.score1);
     setScore2(match.score2);
+    
+    const scores: Record<string, string> = {};
+    const placements: Record<string, string> = {};
+    match.participants?.forEach(participant => {
+      scores[participant.playerId] = participant.score === null ? '' : String(participant.score);
+      placements[participant.playerId] = participant.placement === null ? '' : String(participant.placement);
+    });
+    setPodScores(scores);
+    setPodPlacements(placements);
   };
   
   // Update match score
@@ -105,7 +168,7 @@ const TournamentBracket = ({ tournamentId }: { tournamentId: string }) => {
       return;
     }
     
-    if (score1 === score2) {
+    if (score1 === score2 && !isRoundRobin && selectedMatch.bracket !== 'swiss') {
       setError('Scores cannot be equal in a tournament match');
       return;
     }
@@ -114,21 +177,12 @@ const TournamentBracket = ({ tournamentId }: { tournamentId: string }) => {
       setUpdatingScore(true);
       setError(null);
       
-      // Determine winner based on scores
-      const winnerId = score1 > score2 ? selectedMatch.player1Id : selectedMatch.player2Id;
-      
-      // In a real implementation, this would be an API call
       const response = await fetch(`/api/tournaments/${tournamentId}/matches/${selectedMatch.id}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          score1,
-          score2,
-          winnerId,
-          status: 'completed'
-        }),
+        body: JSON.stringify({ score1, score2 }),
       });
       
       const data = await response.json();
@@ -138,51 +192,11 @@ const TournamentBracket = ({ tournamentId }: { tournamentId: string }) => {
         return;
       }
       
-      // Update matches list
-      setMatches(matches.map(match => 
-        match.id === selectedMatch.id 
-          ? { 
-              ...match, 
-              score1, 
-              score2, 
-              winnerId, 
-              status: 'completed' as const
-            } 
-          : match
-      ));
+      // The result can also have moved the winner into the next match
+      setMatches(data.data);
       
-      // Update next round match if applicable
-      const nextRoundMatches = matches.filter(m => 
-        m.round === selectedMatch.round + 1 && 
-        Math.floor(selectedMatch.position / 2) === Math.floor(m.position / 2)
-      );
-      
-      if (nextRoundMatches.length > 0) {
-        const nextMatch = nextRoundMatches[0];
-        const isFirstMatch = selectedMatch.position % 2 === 0;
-        
-        const updatedNextMatch = {
-          ...nextMatch,
-          player1Id: isFirstMatch ? winnerId : nextMatch.player1Id,
-          player2Id: !isFirstMatch ? winnerId : nextMatch.player2Id
-        };
-        
-        // Update next match in the bracket
-        setMatches(matches.map(match => 
-          match.id === nextMatch.id ? updatedNextMatch : match
-        ));
-        
-        // In a real implementation, this would be an API call to update the next match
-        await fetch(`/api/tournaments/${tournamentId}/matches/${nextMatch.id}`, {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            player1Id: updatedNextMatch.player1Id,
-            player2Id: updatedNextMatch.player2Id
-          }),
-        });
+      if (hasStandings) {
+        await fetchStandings();
       }
       
       // Clear selection
@@ -195,23 +209,239 @@ const TournamentBracket = ({ tournamentId }: { tournamentId: string }) => {
     }
   };
   
-  // Organize matches by round
-  const matchesByRound = matches.reduce((acc, match) => {
-    if (!acc[match.round]) {
-      acc[match.round] = [];
+  // Record the scores of a table. Placements are only sent when every player
+  // has one; otherwise the server places players by their scores.
+  const updatePodResult = async () => {
+    if (!selectedMatch?.participants) return;
+    
+    const participants = selectedMatch.participants;
+    if (participants.some(participant => !podScores[participant.playerId]?.trim() || isNaN(Number(podScores[participant.playerId])))) {
+      setError('Every player at the table needs a score');
+      return;
+    }
+    
+    const scores: Record<string, number> = {};
+    const placements: Record<string, number> = {};
+    participants.forEach(participant => {
+      scores[participant.playerId] = Number(podScores[participant.playerId]);
+      if (podPlacements[participant.playerId]?.trim()) {
+        placements[participant.playerId] = Number(podPlacements[participant.playerId]);
+      }
+    });
+    const allPlaced = Object.keys(placements).length === participants.length;
+    
+    try {
+      setUpdatingScore(true);
+      setError(null);
+      
+      const response = await fetch(`/api/tournaments/${tournamentId}/matches/${selectedMatch.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ scores, ...(allPlaced ? { placements } : {}) }),
+      });
+      
+      const data = await response.json();
+      
+      if (!data.success) {
+        setError(data.error || 'Failed to update table');
+        return;
+      }
+      
+      setMatches(data.data);
+      
+      if (hasStandings) {
+        await fetchStandings();
+      }
+      
+      setSelectedMatch(null);
+    } catch (err) {
+      setError('Error updating table');
+      console.error(err);
+    } finally {
+      setUpdatingScore(false);
     }
-    acc[match.round].push(match);
+  };
+  
+  // Pair the next Swiss round, or start the playoff after the last one
+  const startNextRound = async () => {
+    try {
+      setPairingRound(true);
+      setError(null);
+      
+      const response = await fetch(`/api/tournaments/${tournamentId}/rounds`, { method: 'POST' });
+      const data = await response.json();
+      
+      if (!data.success) {
+        setError(data.error || 'Failed to pair the next round');
+        return;
+      }
+      
+      setMatches(data.data);
+      if (hasStandings) {
+        await fetchStandings();
+      }
+    } catch (err) {
+      setError('Error pairing the next round');
+      console.error(err);
+    } finally {
+      setPairingRound(false);
+    }
+  };
+  
+  // Render a table of a pod tournament with its players, best placed first
+  // once it has been played
+  const renderTable = (match: TournamentMatch) => (
+    <div 
+      key={match.id} 
+      className={`border rounded-md overflow-hidden ${
+        selectedMatch?.id === match.id ? 'ring-2 ring-indigo-500' : ''
+      }`}
+      style={{ width: '240px' }}
+    >
+      <div 
+        className={`p-3 cursor-pointer ${match.status === 'completed' ? 'bg-gray-50' : 'bg-white'}`}
+        onClick={() => selectMatch(match)}
+      >
+        <div className="mb-2 text-xs font-medium text-gray-500">Table {match.position + 1}</div>
+        {[...match.participants]
+          .sort((a, b) => (a.placement ?? Infinity) - (b.placement ?? Infinity))
+          .map(participant => (
+            <div key={participant.playerId} className="flex justify-between items-center">
+              <div className={participant.placement === 1 ? 'font-medium text-green-600' : 'font-medium'}>
+                {participant.placement !== null && <span className="mr-2 text-gray-500">{participant.placement}.</span>}
+                {getPlayerName(participant.playerId)}
+              </div>
+              <div className="text-gray-700">{participant.score !== null ? participant.score : '-'}</div>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+  
+  // Render a match with its players and scores. Matches with both players
+  // known can be selected to record their result.
+  const renderMatch = (match: TournamentMatch) => match.participants ? renderTable(match) : (
+    <div 
+      key={match.id} 
+      className={`border rounded-md overflow-hidden ${
+        selectedMatch?.id === match.id ? 'ring-2 ring-indigo-500' : ''
+      }`}
+      style={{ width: '240px' }}
+    >
+      {isSkippedReset(match) ? (
+        <div className="p-3 bg-gray-50 text-sm text-gray-500">
+          Not needed: the winners bracket champion won the grand final
+        </div>
+      ) : (
+        <div 
+          className={`p-3 cursor-pointer ${
+            match.status === 'completed' ? 'bg-gray-50' : 
+            match.status === 'in_progress' ? 'bg-blue-50' : 'bg-white'
+          }`}
+          onClick={() => match.player1Id && match.player2Id && !match.bye ? selectMatch(match) : null}
+        >
+          <div className="flex justify-between items-center mb-2">
+            <div className={match.bye && !match.player1Id ? 'text-gray-400' : 'font-medium'}>{getPlayerName(match.player1Id, match)}</div>
+            <div className="text-gray-700">{match.score1 !== null ? match.score1 : '-'}</div>
+          </div>
+          <div className="flex justify-between items-center">
+            <div className={match.bye && !match.player2Id ? 'text-gray-400' : 'font-medium'}>{getPlayerName(match.player2Id, match)}</div>
+            <div className="text-gray-700">{match.score2 !== null ? match.score2 : '-'}</div>
+          </div>
+          
+          {match.status === 'completed' && match.winnerId && (
+            <div className="mt-2 text-xs text-green-600">
+              {match.bye ? 'Advances' : 'Winner'}: {getPlayerName(match.winnerId)}
+            </div>
+          )}
+          {match.status === 'completed' && !match.winnerId && !match.bye && (
+            <div className="mt-2 text-xs text-gray-500">Draw</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+  
+  // Organize matches by bracket, then by round
+  const matchesByBracket = matches.reduce((acc, match) => {
+    const bracket = match.bracket || 'winners';
+    if (!acc[bracket]) {
+      acc[bracket] = {};
+    }
+    if (!acc[bracket][match.round]) {
+      acc[bracket][match.round] = [];
+    }
+    acc[bracket][match.round].push(match);
     return acc;
-  }, {} as Record<number, Match[]>);
+  }, {} as Partial<Record<TournamentBracketName, Record<number, TournamentMatch[]>>>);
   
-  // Sort rounds and matches within rounds
-  const sortedRounds = Object.keys(matchesByRound)
-    .map(Number)
-    .sort((a, b) => a - b);
+  const isDoubleElimination = !!matchesByBracket.losers || !!matchesByBracket.grand_final;
+  const showBracketTitles = BRACKET_ORDER.filter(bracket => matchesByBracket[bracket]).length > 1;
   
-  sortedRounds.forEach(round => {
-    matchesByRound[round].sort((a, b) => a.position - b.position);
-  });
+  // Swiss tournaments pair a round, or start their playoff, once every
+  // match so far has been played
+  const swissRounds = Object.keys(matchesByBracket.swiss || {}).length;
+  const roundsToPlay = tournament?.settings?.swissRounds ?? swissRounds;
+  const canStartNextRound = isSwiss && !matchesByBracket.playoff &&
+    matches.every(match => match.status === 'completed') &&
+    (swissRounds < roundsToPlay || !!tournament?.settings?.topCut);
+  
+  // Pod tournaments seat their next round once every table has been played
+  const canSeatNextRound = isPods && !!podAdvancement && matches.length > 0 &&
+    matches.every(match => match.status === 'completed') &&
+    !isPodTournamentFinished(matches, podAdvancement);
+  
+  // Name a round by how far it is from the last round of its bracket
+  const getRoundName = (bracket: TournamentBracketName, round: number, lastRound: number) => {
+    if (isRoundRobin || bracket === 'swiss') return `Round ${round + 1}`;
+    if (bracket === 'pods') {
+      const isFinalTable = podAdvancement?.type === 'top' && round === lastRound && matchesByBracket.pods[round].length === 1;
+      return isFinalTable ? 'Final Table' : `Round ${round + 1}`;
+    }
+    if (bracket === 'grand_final') return round === 0 ? 'Grand Final' : 'Bracket Reset';
+    if (bracket === 'losers') return round === lastRound ? 'Losers Final' : `Losers Round ${round + 1}`;
+    
+    const prefix = isDoubleElimination ? 'Winners ' : '';
+    return round === lastRound ? `${prefix}Final` :
+      round === lastRound - 1 ? `${prefix}Semi-Finals` :
+      round === lastRound - 2 ? `${prefix}Quarter-Finals` :
+      `${prefix}Round ${round + 1}`;
+  };
+  
+  // Render the rounds of a bracket side by side, sorting rounds and the
+  // matches within rounds
+  const renderBracket = (bracket: TournamentBracketName) => {
+    const matchesByRound = matchesByBracket[bracket];
+    if (!matchesByRound) return null;
+    
+    const sortedRounds = Object.keys(matchesByRound)
+      .map(Number)
+      .sort((a, b) => a - b);
+    const lastRound = Math.max(...sortedRounds);
+    
+    return (
+      <div key={bracket} className="mb-8">
+        {showBracketTitles && <h4 className="mb-4 font-medium text-gray-900">{BRACKET_TITLES[bracket]}</h4>}
+        <div className="overflow-auto">
+          <div className="flex space-x-8 min-w-max">
+            {sortedRounds.map(round => (
+              <div key={round} className="flex-shrink-0">
+                <div className="mb-4 text-center font-medium text-gray-700">
+                  {getRoundName(bracket, round, lastRound)}
+                </div>
+                
+                <div className="space-y-8">
+                  {[...matchesByRound[round]].sort((a, b) => a.position - b.position).map(renderMatch)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  };
   
   if (loading) {
     return <div className="text-center py-8">Loading tournament bracket...</div>;
@@ -249,90 +479,175 @@ const TournamentBracket = ({ tournamentId }: { tournamentId: string }) => {
       </div>
       
       <div className="mb-6">
-        <h3 className="text-lg font-medium text-gray-900 mb-4">Tournament Bracket</h3>
+        <h3 className="text-lg font-medium text-gray-900 mb-4">{isPods ? 'Tables' : hasStandings ? 'Schedule' : 'Tournament Bracket'}</h3>
         
-        <div className="overflow-auto">
-          <div className="flex space-x-8 min-w-max">
-            {sortedRounds.map(round => (
-              <div key={round} className="flex-shrink-0">
-                <div className="mb-4 text-center font-medium text-gray-700">
-                  {round === Math.max(...sortedRounds) ? 'Final' : 
-                   round === Math.max(...sortedRounds) - 1 ? 'Semi-Finals' :
-                   round === Math.max(...sortedRounds) - 2 ? 'Quarter-Finals' :
-                   `Round ${round + 1}`}
-                </div>
-                
-                <div className="space-y-8">
-                  {matchesByRound[round].map(match => (
-                    <div 
-                      key={match.id} 
-                      className={`border rounded-md overflow-hidden ${
-                        selectedMatch?.id === match.id ? 'ring-2 ring-indigo-500' : ''
-                      }`}
-                      style={{ width: '240px' }}
-                    >
-                      <div 
-                        className={`p-3 cursor-pointer ${
-                          match.status === 'completed' ? 'bg-gray-50' : 
-                          match.status === 'in_progress' ? 'bg-blue-50' : 'bg-white'
-                        }`}
-                        onClick={() => match.player1Id && match.player2Id ? selectMatch(match) : null}
-                      >
-                        <div className="flex justify-between items-center mb-2">
-                          <div className="font-medium">{getPlayerName(match.player1Id)}</div>
-                          <div className="text-gray-700">{match.score1 !== null ? match.score1 : '-'}</div>
-                        </div>
-                        <div className="flex justify-between items-center">
-                          <div className="font-medium">{getPlayerName(match.player2Id)}</div>
-                          <div className="text-gray-700">{match.score2 !== null ? match.score2 : '-'}</div>
-                        </div>
-                        
-                        {match.status === 'completed' && match.winnerId && (
-                          <div className="mt-2 text-xs text-green-600">
-                            Winner: {getPlayerName(match.winnerId)}
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            ))}
-          </div>
-        </div>
+        {BRACKET_ORDER.map(renderBracket)}
+        
+        {(canStartNextRound || canSeatNextRound) && (
+          <button
+            onClick={startNextRound}
+            disabled={pairingRound}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            {pairingRound ? 'Pairing...' :
+              isPods ? 'Seat Next Round' :
+              swissRounds < roundsToPlay ? 'Pair Next Round' :
+              `Start Top ${tournament.settings.topCut} Playoff`}
+          </button>
+        )}
       </div>
       
+      {hasStandings && standings.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Standings</h3>
+          
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">#</th>
+                <th className="py-2 pr-4 font-medium">Player</th>
+                <th className="py-2 px-2 font-medium text-right">Played</th>
+                <th className="py-2 px-2 font-medium text-right">W</th>
+                <th className="py-2 px-2 font-medium text-right">D</th>
+                <th className="py-2 px-2 font-medium text-right">L</th>
+                <th className="py-2 px-2 font-medium text-right">Score</th>
+                <th className="py-2 px-2 font-medium text-right">Diff</th>
+                {isSwiss && <th className="py-2 px-2 font-medium text-right">Buchholz</th>}
+                {isSwiss && <th className="py-2 px-2 font-medium text-right">OMW%</th>}
+                <th className="py-2 pl-2 font-medium text-right">Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {standings.map(standing => (
+                <tr key={standing.player.id} className="border-t">
+                  <td className="py-2 pr-4 font-bold">{standing.rank}</td>
+                  <td className="py-2 pr-4">{standing.player.name}</td>
+                  <td className="py-2 px-2 text-right">{standing.played}</td>
+                  <td className="py-2 px-2 text-right">{standing.wins}</td>
+                  <td className="py-2 px-2 text-right">{standing.draws}</td>
+                  <td className="py-2 px-2 text-right">{standing.losses}</td>
+                  <td className="py-2 px-2 text-right">{standing.scoreFor}:{standing.scoreAgainst}</td>
+                  <td className="py-2 px-2 text-right">{standing.scoreFor - standing.scoreAgainst}</td>
+                  {isSwiss && <td className="py-2 px-2 text-right">{standing.buchholz}</td>}
+                  {isSwiss && (
+                    <td className="py-2 px-2 text-right">{(standing.opponentMatchWinPercentage * 100).toFixed(1)}%</td>
+                  )}
+                  <td className="py-2 pl-2 text-right font-medium">{standing.points}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      
+      {isPods && podStandings.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Standings</h3>
+          
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">#</th>
+                <th className="py-2 pr-4 font-medium">Player</th>
+                <th className="py-2 px-2 font-medium text-right">Played</th>
+                <th className="py-2 px-2 font-medium text-right">1st</th>
+                <th className="py-2 px-2 font-medium text-right">Score</th>
+                <th className="py-2 pl-2 font-medium text-right">Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {podStandings.map(standing => (
+                <tr key={standing.player.id} className="border-t">
+                  <td className="py-2 pr-4 font-bold">{standing.rank}</td>
+                  <td className="py-2 pr-4">{standing.player.name}</td>
+                  <td className="py-2 px-2 text-right">{standing.played}</td>
+                  <td className="py-2 px-2 text-right">{standing.wins}</td>
+                  <td className="py-2 px-2 text-right">{standing.scoreFor}</td>
+                  <td className="py-2 pl-2 text-right font-medium">{standing.points}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      
       {selectedMatch && (
         <div className="mt-8 bg-gray-50 p-4 rounded-md">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Update Match Result</h3>
+          <h3 className="text-lg font-medium text-gray-900 mb-4">
+            {selectedMatch.participants ? `Update Table ${selectedMatch.position + 1} Result` : 'Update Match Result'}
+          </h3>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700">
-                {getPlayerName(selectedMatch.player1Id)} Score
-              </label>
-              <input
-                type="number"
-                min="0"
-                value={score1 === null ? '' : score1}
-                onChange={(e) => setScore1(e.target.value ? parseInt(e.target.value) : null)}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-              />
+          {selectedMatch.participants ? (
+            <div className="mb-4">
+              <p className="mb-2 text-sm text-gray-500">
+                Placements follow from the scores, highest first. Give every player a placement to break ties.
+              </p>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Player</th>
+                    <th className="py-2 px-2 font-medium">Score</th>
+                    <th className="py-2 pl-2 font-medium">Placement</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {selectedMatch.participants.map(participant => (
+                    <tr key={participant.playerId}>
+                      <td className="py-1 pr-4 text-gray-700">{getPlayerName(participant.playerId)}</td>
+                      <td className="py-1 px-2">
+                        <input
+                          type="number"
+                          value={podScores[participant.playerId] ?? ''}
+                          onChange={(e) => setPodScores({ ...podScores, [participant.playerId]: e.target.value })}
+                          aria-label={`${getPlayerName(participant.playerId)} score`}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                        />
+                      </td>
+                      <td className="py-1 pl-2">
+                        <input
+                          type="number"
+                          min="1"
+                          max={selectedMatch.participants.length}
+                          value={podPlacements[participant.playerId] ?? ''}
+                          onChange={(e) => setPodPlacements({ ...podPlacements, [participant.playerId]: e.target.value })}
+                          aria-label={`${getPlayerName(participant.playerId)} placement`}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
-            
-            <div>
-              <label className="block text-sm font-medium text-gray-700">
-                {getPlayerName(selectedMatch.player2Id)} Score
-              </label>
-              <input
-                type="number"
-                min="0"
-                value={score2 === null ? '' : score2}
-                onChange={(e) => setScore2(e.target.value ? parseInt(e.target.value) : null)}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-              />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  {getPlayerName(selectedMatch.player1Id)} Score
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={score1 === null ? '' : score1}
+                  onChange={(e) => setScore1(e.target.value ? parseInt(e.target.value) : null)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  {getPlayerName(selectedMatch.player2Id)} Score
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={score2 === null ? '' : score2}
+                  onChange={(e) => setScore2(e.target.value ? parseInt(e.target.value) : null)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
             </div>
-          </div>
+          )}
           
           <div className="flex justify-end space-x-3">
             <button
@@ -343,7 +658,7 @@ const TournamentBracket = ({ tournamentId }: { tournamentId: string }) => {
             </button>
             
             <button
-              onClick={updateMatchScore}
+              onClick={selectedMatch.participants ? updatePodResult : updateMatchScore}
               disabled={updatingScore}
               className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
             >
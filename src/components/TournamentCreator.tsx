@@ -1,7 +1,21 @@
 import React, { useState, useEffect } from 'react';
+import { DEFAULT_PLACEMENT_POINTS, DEFAULT_POD_SIZE, MAX_POD_SIZE, MIN_POD_SIZE } from '../lib/tournament/pods';
+import { DEFAULT_STANDINGS, SWISS_STANDINGS } from '../lib/tournament/standings';
+import {
+  PodAdvancement,
+  SeedingMethod,
+  StandingsSettings,
+  StandingsTiebreaker,
+  TournamentType
+} from '../lib/tournament/types';
 
 // This component implements tournament creation functionality
-// for the game database app
+// for the game database app. Players are seeded at random, in the order
+// they are listed (manual) or by their rating. Round robins and Swiss
+// tournaments also set the points of their standings and the tiebreakers in
+// order; Swiss tournaments set their number of rounds and the top cut too.
+// Pod tournaments set their table size and whether the top players of each
+// table advance or everyone scores points by placement.
 
 interface Game {
   id: string;
@@ -9,14 +23,29 @@ interface Game {
   category: string;
 }
 
-interface TournamentType {
-  id: string;
+// A player as entered, with the rating typed for rating seeding
+interface PlayerEntry {
   name: string;
-  description: string;
-  minPlayers: number;
-  maxPlayers: number;
+  rating: string;
 }
 
+const TIEBREAKER_NAMES: Record<StandingsTiebreaker, string> = {
+  head_to_head: 'Head-to-head',
+  score_difference: 'Score difference',
+  points_scored: 'Total points scored',
+  buchholz: 'Buchholz (points of opponents)',
+  opponent_match_win_percentage: 'Opponent match-win percentage'
+};
+
+// Players in the playoff of a Swiss tournament with a top cut
+const TOP_CUT = 8;
+
+const SEEDING_OPTIONS: { method: SeedingMethod; label: string }[] = [
+  { method: 'random', label: 'Random draw' },
+  { method: 'manual', label: 'In the order listed' },
+  { method: 'rating', label: 'By rating' }
+];
+
 const TournamentCreator = ({ gameId }: { gameId: string }) => {
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
@@ -29,7 +58,20 @@ const TournamentCreator = ({ gameId }: { gameId: string }) => {
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [maxPlayers, setMaxPlayers] = useState(8);
-  const [players, setPlayers] = useState<string[]>(['']);
+  const [players, setPlayers] = useState<PlayerEntry[]>([{ name: '', rating: '' }]);
+  const [seeding, setSeeding] = useState<SeedingMethod>('random');
+  const [bracketReset, setBracketReset] = useState(true);
+  const [doubleRoundRobin, setDoubleRoundRobin] = useState(false);
+  const [standings, setStandings] = useState<StandingsSettings>(DEFAULT_STANDINGS);
+  // Swiss rounds as typed, empty for as many as the number of players needs
+  const [swissRounds, setSwissRounds] = useState('');
+  const [topCut, setTopCut] = useState(true);
+  const [podSize, setPodSize] = useState(DEFAULT_POD_SIZE);
+  const [podAdvancementType, setPodAdvancementType] = useState<PodAdvancement['type']>('top');
+  const [advancingPerTable, setAdvancingPerTable] = useState(2);
+  // Placement points as typed, separated by commas, and the rounds to play for them
+  const [placementPoints, setPlacementPoints] = useState(DEFAULT_PLACEMENT_POINTS.join(', '));
+  const [podRounds, setPodRounds] = useState(3);
   
   // Fetch game details and tournament types
   useEffect(() => {
@@ -81,6 +123,11 @@ const TournamentCreator = ({ gameId }: { gameId: string }) => {
     fetchData();
   }, [gameId]);
   
+  // Swiss tournaments break ties by the strength of opponents instead
+  useEffect(() => {
+    setStandings(selectedType === 'swiss' ? SWISS_STANDINGS : DEFAULT_STANDINGS);
+  }, [selectedType]);
+  
   // Add player field
   const addPlayer = () => {
     if (players.length >= maxPlayers) {
@@ -88,7 +135,7 @@ const TournamentCreator = ({ gameId }: { gameId: string }) => {
       return;
     }
     
-    setPlayers([...players, '']);
+    setPlayers([...players, { name: '', rating: '' }]);
   };
   
   // Remove player field
@@ -103,13 +150,49 @@ const TournamentCreator = ({ gameId }: { gameId: string }) => {
     setPlayers(newPlayers);
   };
   
-  // Update player name
-  const updatePlayer = (index: number, name: string) => {
+  // Update player name or rating
+  const updatePlayer = (index: number, changes: Partial<PlayerEntry>) => {
     const newPlayers = [...players];
-    newPlayers[index] = name;
+    newPlayers[index] = { ...newPlayers[index], ...changes };
     setPlayers(newPlayers);
   };
   
+  // Seed of a player when seeding manually, counting only the players with a
+  // name as blank rows are not sent
+  const getManualSeed = (index: number) => players.slice(0, index + 1).filter(player => player.name.trim()).length;
+  
+  // Move a player up or down the list, which is the seeding when seeding manually
+  const movePlayer = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= players.length) return;
+    
+    const newPlayers = [...players];
+    [newPlayers[index], newPlayers[target]] = [newPlayers[target], newPlayers[index]];
+    setPlayers(newPlayers);
+  };
+  
+  // Update the standings points of a win, draw or loss
+  const updatePoints = (result: keyof StandingsSettings['points'], value: string) => {
+    setStandings({ ...standings, points: { ...standings.points, [result]: Number(value) || 0 } });
+  };
+  
+  // Switch a tiebreaker on or off; new ones are applied last
+  const toggleTiebreaker = (tiebreaker: StandingsTiebreaker) => {
+    const tiebreakers = standings.tiebreakers.includes(tiebreaker)
+      ? standings.tiebreakers.filter(other => other !== tiebreaker)
+      : [...standings.tiebreakers, tiebreaker];
+    setStandings({ ...standings, tiebreakers });
+  };
+  
+  // Apply a tiebreaker before the one above it
+  const raiseTiebreaker = (index: number) => {
+    if (index <= 0) return;
+    
+    const tiebreakers = [...standings.tiebreakers];
+    [tiebreakers[index - 1], tiebreakers[index]] = [tiebreakers[index], tiebreakers[index - 1]];
+    setStandings({ ...standings, tiebreakers });
+  };
+  
   // Create tournament
   const createTournament = async () => {
     // Validate inputs
@@ -134,7 +217,7 @@ const TournamentCreator = ({ gameId }: { gameId: string }) => {
     }
     
     // Filter out empty player names
-    const validPlayers = players.filter(name => name.trim());
+    const validPlayers = players.filter(player => player.name.trim());
     if (validPlayers.length < 2) {
       setError('At least 2 players are required');
       return;
@@ -146,6 +229,27 @@ const TournamentCreator = ({ gameId }: { gameId: string }) => {
       return;
     }
     
+    if (selectedType === 'swiss' && swissRounds.trim() && !(Number.isInteger(Number(swissRounds)) && Number(swissRounds) >= 1)) {
+      setError('The number of rounds must be a whole number of at least 1');
+      return;
+    }
+    
+    const points = placementPoints.split(',').filter(points => points.trim()).map(Number);
+    if (selectedType === 'pods' && podAdvancementType === 'placement_points' && points.some(isNaN)) {
+      setError('Placement points must be numbers separated by commas');
+      return;
+    }
+    
+    if (selectedType === 'pods' && podAdvancementType === 'top' && advancingPerTable > podSize - 2) {
+      setError(`At most ${podSize - 2} players of each table can advance at tables of ${podSize}`);
+      return;
+    }
+    
+    if (seeding === 'rating' && validPlayers.some(player => player.rating.trim() && isNaN(Number(player.rating)))) {
+      setError('Ratings must be numbers');
+      return;
+    }
+    
     try {
       setCreating(true);
       setError(null);
@@ -163,7 +267,25 @@ const TournamentCreator = ({ gameId }: { gameId: string }) => {
           typeId: selectedType,
           startDate,
           endDate,
-          players: validPlayers.map(name => ({ name })),
+          players: validPlayers.map((player, index) => ({
+            name: player.name.trim(),
+            seed: index + 1,
+            ...(player.rating.trim() ? { rating: Number(player.rating) } : {})
+          })),
+          seeding,
+          ...(selectedType === 'double_elimination' ? { bracketReset } : {}),
+          ...(selectedType === 'round_robin' ? { doubleRoundRobin, standings } : {}),
+          ...(selectedType === 'swiss' ? {
+            ...(swissRounds.trim() ? { swissRounds: Number(swissRounds) } : {}),
+            topCut: topCut ? TOP_CUT : 0,
+            standings
+          } : {}),
+          ...(selectedType === 'pods' ? {
+            podSize,
+            podAdvancement: podAdvancementType === 'top'
+              ? { type: 'top', count: advancingPerTable }
+              : { type: 'placement_points', points, rounds: podRounds }
+          } : {}),
           maxPlayers
         }),
       });
@@ -246,6 +368,183 @@ const TournamentCreator = ({ gameId }: { gameId: string }) => {
               {tournamentTypes.find(type => type.id === selectedType)?.description}
             </p>
           )}
+          
+          {selectedType === 'double_elimination' && (
+            <label className="mt-2 flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={bracketReset}
+                onChange={(e) => setBracketReset(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <span>Play a bracket reset when the losers bracket champion wins the grand final</span>
+            </label>
+          )}
+          
+          {selectedType === 'pods' && (
+            <div className="mt-4 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Players per Table</label>
+                <select
+                  value={podSize}
+                  onChange={(e) => setPodSize(parseInt(e.target.value))}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                >
+                  {Array.from({ length: MAX_POD_SIZE - MIN_POD_SIZE + 1 }, (_, index) => MIN_POD_SIZE + index).map(size => (
+                    <option key={size} value={size}>
+                      {size} players
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-2 text-sm text-gray-500">
+                  Table sizes are kept even, so some tables may seat one player fewer or more.
+                </p>
+              </div>
+              
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={podAdvancementType === 'top'}
+                    onChange={() => setPodAdvancementType('top')}
+                    className="h-4 w-4 border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>The top</span>
+                  <input
+                    type="number"
+                    min="1"
+                    max={podSize - 2}
+                    value={advancingPerTable}
+                    onChange={(e) => setAdvancingPerTable(parseInt(e.target.value) || 1)}
+                    disabled={podAdvancementType !== 'top'}
+                    className="w-16 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                  <span>of each table advance, until a final table is played</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={podAdvancementType === 'placement_points'}
+                    onChange={() => setPodAdvancementType('placement_points')}
+                    className="h-4 w-4 border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>Everyone plays</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={podRounds}
+                    onChange={(e) => setPodRounds(parseInt(e.target.value) || 1)}
+                    disabled={podAdvancementType !== 'placement_points'}
+                    className="w-16 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                  <span>rounds, scoring points by placement</span>
+                </label>
+              </div>
+              
+              {podAdvancementType === 'placement_points' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Points for 1st, 2nd, 3rd...</label>
+                  <input
+                    type="text"
+                    value={placementPoints}
+                    onChange={(e) => setPlacementPoints(e.target.value)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          
+          {(selectedType === 'round_robin' || selectedType === 'swiss') && (
+            <div className="mt-4 space-y-4">
+              {selectedType === 'round_robin' && (
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={doubleRoundRobin}
+                    onChange={(e) => setDoubleRoundRobin(e.target.checked)}
+                    className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>Double round robin: everyone plays everyone twice</span>
+                </label>
+              )}
+              
+              {selectedType === 'swiss' && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">Rounds</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={swissRounds}
+                      placeholder="Enough for one unbeaten player"
+                      onChange={(e) => setSwissRounds(e.target.value)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                  </div>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={topCut}
+                      onChange={(e) => setTopCut(e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span>Cut to a top {TOP_CUT} single-elimination playoff after the last round</span>
+                  </label>
+                </>
+              )}
+              
+              <div className="grid grid-cols-3 gap-4">
+                {(['win', 'draw', 'loss'] as const).map(result => (
+                  <div key={result}>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Points per {result}
+                    </label>
+                    <input
+                      type="number"
+                      value={standings.points[result]}
+                      onChange={(e) => updatePoints(result, e.target.value)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                    />
+                  </div>
+                ))}
+              </div>
+              
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Tiebreakers</label>
+                <ol className="mt-1 space-y-1">
+                  {standings.tiebreakers.map((tiebreaker, index) => (
+                    <li key={tiebreaker} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <span className="w-6 text-gray-500">{index + 1}.</span>
+                      <span className="flex-grow">{TIEBREAKER_NAMES[tiebreaker]}</span>
+                      <button
+                        onClick={() => raiseTiebreaker(index)}
+                        disabled={index === 0}
+                        aria-label={`Apply ${TIEBREAKER_NAMES[tiebreaker]} earlier`}
+                        className="px-2 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                      >
+                        ↑
+                      </button>
+                      <button onClick={() => toggleTiebreaker(tiebreaker)} className="text-red-500 hover:text-red-700">
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+                {(Object.keys(TIEBREAKER_NAMES) as StandingsTiebreaker[])
+                  .filter(tiebreaker => !standings.tiebreakers.includes(tiebreaker))
+                  .map(tiebreaker => (
+                    <button
+                      key={tiebreaker}
+                      onClick={() => toggleTiebreaker(tiebreaker)}
+                      className="mt-1 mr-3 text-sm text-indigo-600 hover:text-indigo-800"
+                    >
+                      + {TIEBREAKER_NAMES[tiebreaker]}
+                    </button>
+                  ))}
+              </div>
+            </div>
+          )}
         </div>
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -285,6 +584,26 @@ const TournamentCreator = ({ gameId }: { gameId: string }) => {
           </select>
         </div>
         
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Seeding</label>
+          <select
+            value={seeding}
+            onChange={(e) => setSeeding(e.target.value as SeedingMethod)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          >
+            {SEEDING_OPTIONS.map(option => (
+              <option key={option.method} value={option.method}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {!['round_robin', 'swiss', 'pods'].includes(selectedType) && (
+            <p className="mt-2 text-sm text-gray-500">
+              Top seeds get the byes when the number of players does not fill the bracket.
+            </p>
+          )}
+        </div>
+        
         <div>
           <div className="flex justify-between items-center mb-4">
             <label className="block text-sm font-medium text-gray-700">Players</label>
@@ -306,14 +625,46 @@ const TournamentCreator = ({ gameId }: { gameId: string }) => {
               <div className="flex-grow">
                 <label className="block text-sm font-medium text-gray-700">
                   {index === 0 ? 'Player 1 (You)' : `Player ${index + 1}`}
+                  {seeding === 'manual' && player.name.trim() && ` - Seed ${getManualSeed(index)}`}
                 </label>
                 <input
                   type="text"
-                  value={player}
-                  onChange={(e) => updatePlayer(index, e.target.value)}
+                  value={player.name}
+                  onChange={(e) => updatePlayer(index, { name: e.target.value })}
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
                 />
               </div>
+              {seeding === 'rating' && (
+                <div className="w-28">
+                  <label className="block text-sm font-medium text-gray-700">Rating</label>
+                  <input
+                    type="number"
+                    value={player.rating}
+                    onChange={(e) => updatePlayer(index, { rating: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  />
+                </div>
+              )}
+              {seeding === 'manual' && (
+                <div className="mt-6 flex space-x-1">
+                  <button
+                    onClick={() => movePlayer(index, -1)}
+                    disabled={index === 0}
+                    aria-label="Move up"
+                    className="px-2 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => movePlayer(index, 1)}
+                    disabled={index === players.length - 1}
+                    aria-label="Move down"
+                    className="px-2 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                </div>
+              )}
               {index > 0 && (
                 <button
                   onClick={() => removePlayer(index)}
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { clampTrackerValue, getTrackerStep, TrackerBounds } from '../lib/scoresheet/tracker';
+import { ScoresheetField, TrackerLogEntry } from '../lib/scoresheet/types';
+
+// This component implements the input of tracker fields: step buttons, the
+// current value within its bounds, an optional note for the next change and
+// the change log of the field
+
+interface TrackerInputProps {
+  field: ScoresheetField;
+  value: number;
+  bounds: TrackerBounds;
+  onChange: (value: number, note?: string) => void;
+  log?: TrackerLogEntry[];
+  disabled?: boolean;
+}
+
+const TrackerInput: React.FC<TrackerInputProps> = ({ field, value, bounds, onChange, log, disabled = false }) => {
+  const [draft, setDraft] = useState(String(value ?? 0));
+  const [note, setNote] = useState('');
+  const [showLog, setShowLog] = useState(false);
+  const step = getTrackerStep(field);
+
+  useEffect(() => {
+    setDraft(String(value ?? 0));
+  }, [value]);
+
+  const change = (newValue: number) => {
+    if (disabled) return;
+
+    const clamped = clampTrackerValue(newValue, bounds);
+    setDraft(String(clamped));
+    if (clamped === value) return;
+
+    onChange(clamped, note.trim() || undefined);
+    setNote('');
+  };
+
+  const buttonClass = 'inline-flex items-center justify-center w-8 h-8 border border-gray-300 text-sm font-bold rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50';
+
+  return (
+    <div>
+      <div className="flex items-center space-x-1">
+        <button
+          onClick={() => change(value - step)}
+          disabled={disabled || (bounds.min !== null && value <= bounds.min)}
+          aria-label={`Decrease ${field.name}`}
+          className={buttonClass}
+        >
+          −
+        </button>
+        <input
+          type="number"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => change(parseFloat(draft) || 0)}
+          onKeyDown={(e) => e.key === 'Enter' && change(parseFloat(draft) || 0)}
+          disabled={disabled}
+          aria-label={field.name}
+          className={`block w-20 rounded-md text-center ${
+            disabled ? 'bg-gray-100' : 'border-gray-300'
+          } shadow-sm focus:border-indigo-500 focus:ring-indigo-500`}
+        />
+        <button
+          onClick={() => change(value + step)}
+          disabled={disabled || (bounds.max !== null && value >= bounds.max)}
+          aria-label={`Increase ${field.name}`}
+          className={buttonClass}
+        >
+          +
+        </button>
+        {bounds.max !== null && (
+          <span className="text-sm text-gray-500 whitespace-nowrap">/ {bounds.max}</span>
+        )}
+      </div>
+
+      {!disabled && log && (
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note (optional)"
+          aria-label={`${field.name} note`}
+          className="mt-1 block w-full rounded-md border-gray-300 text-xs shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        />
+      )}
+
+      {log && log.length > 0 && (
+        <div className="mt-1">
+          <button onClick={() => setShowLog(!showLog)} className="text-xs text-indigo-600 hover:text-indigo-800">
+            {showLog ? 'Hide changes' : `Changes (${log.length})`}
+          </button>
+          {showLog && (
+            <ul className="mt-1 space-y-1 max-h-40 overflow-y-auto text-xs text-gray-600">
+              {[...log].reverse().map(entry => (
+                <li key={entry.id}>
+                  <span className="text-gray-400 mr-2">{new Date(entry.changedAt).toLocaleString()}</span>
+                  {entry.previous} → {entry.value}
+                  <span className={entry.value >= entry.previous ? 'text-green-600 ml-1' : 'text-red-600 ml-1'}>
+                    ({entry.value >= entry.previous ? '+' : ''}{entry.value - entry.previous})
+                  </span>
+                  {entry.note && <span className="ml-2 italic">{entry.note}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrackerInput;
@@ -0,0 +1,122 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Key-value storage on the device for data that has to survive without a
+// connection. The web uses IndexedDB; the Expo app uses AsyncStorage, which
+// keeps data across restarts where there is no IndexedDB. Values are stored
+// as JSON.
+
+export interface LocalStore {
+  get<T = any>(key: string): Promise<T | null>;
+  set(key: string, value: any): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+// The part of the AsyncStorage API the store uses
+export interface AsyncStorageLike {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+}
+
+const DATABASE_NAME = 'game-hq';
+const STORE_NAME = 'offline';
+const KEY_PREFIX = 'game-hq:';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const createIndexedDbStore = (factory: IDBFactory = indexedDB): LocalStore => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      const request = factory.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      database = promisify(request);
+    }
+    return database;
+  };
+
+  const objectStore = async (mode: IDBTransactionMode) => {
+    return (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  };
+
+  return {
+    get: async key => {
+      const value = await promisify((await objectStore('readonly')).get(key));
+      return value === undefined ? null : value;
+    },
+    set: async (key, value) => {
+      await promisify((await objectStore('readwrite')).put(value, key));
+    },
+    remove: async key => {
+      await promisify((await objectStore('readwrite')).delete(key));
+    },
+    keys: async () => {
+      const keys = await promisify((await objectStore('readonly')).getAllKeys());
+      return keys.map(String);
+    }
+  };
+};
+
+export const createAsyncStorageStore = (storage: AsyncStorageLike): LocalStore => ({
+  get: async key => {
+    const json = await storage.getItem(KEY_PREFIX + key);
+    return json === null ? null : JSON.parse(json);
+  },
+  set: async (key, value) => {
+    await storage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+  },
+  remove: async key => {
+    await storage.removeItem(KEY_PREFIX + key);
+  },
+  keys: async () => {
+    const keys = await storage.getAllKeys();
+    return keys.filter(key => key.startsWith(KEY_PREFIX)).map(key => key.slice(KEY_PREFIX.length));
+  }
+});
+
+// Keeps data for the current page only, where no storage is available
+export const createMemoryStore = (): LocalStore => {
+  const data = new Map<string, string>();
+
+  return {
+    get: async key => data.has(key) ? JSON.parse(data.get(key)) : null,
+    set: async (key, value) => {
+      data.set(key, JSON.stringify(value));
+    },
+    remove: async key => {
+      data.delete(key);
+    },
+    keys: async () => Array.from(data.keys())
+  };
+};
+
+let localStore: LocalStore | null = null;
+
+// React Native identifies itself through navigator.product
+const isReactNative = () => typeof navigator !== 'undefined' && navigator.product === 'ReactNative';
+
+// Use another AsyncStorage implementation for the local store
+export const setAsyncStorage = (storage: AsyncStorageLike) => {
+  localStore = createAsyncStorageStore(storage);
+};
+
+// Get the local store of this device: AsyncStorage in the Expo app,
+// IndexedDB on the web, and memory only where neither is available
+export const getLocalStore = (): LocalStore => {
+  if (!localStore) {
+    if (isReactNative()) {
+      localStore = createAsyncStorageStore(AsyncStorage);
+    } else if (typeof indexedDB !== 'undefined') {
+      localStore = createIndexedDbStore();
+    } else {
+      localStore = createMemoryStore();
+    }
+  }
+  return localStore;
+};
@@ -0,0 +1,196 @@
+// This module implements a minimal PDF writer in plain TypeScript, so
+// scoresheets can be exported on the server without a headless browser.
+// It only supports what scoresheets need: text in the built-in Helvetica
+// fonts, lines and filled rectangles. Coordinates are in points measured
+// from the top-left corner of the page.
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  // 0 is black, 1 is white
+  gray?: number;
+}
+
+// US Letter
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+// Glyph widths of the standard Helvetica fonts for the characters 32 to 126,
+// in thousandths of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97
+};
+
+// Convert text to single-byte WinAnsi characters, replacing anything else
+const toWinAnsi = (text: string): string => {
+  let result = '';
+
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (WIN_ANSI_EXTRAS[char]) {
+      result += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    } else if (code < 32) {
+      result += ' ';
+    } else if (code < 127 || (code >= 160 && code <= 255)) {
+      result += char;
+    } else {
+      result += '?';
+    }
+  }
+
+  return result;
+};
+
+// Escape text for a PDF string literal
+const escapeText = (text: string) => toWinAnsi(text).replace(/[\\()]/g, match => `\\${match}`);
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+// Measure the width of a line of text in points
+export const measureText = (text: string, size: number, font: PdfFont = 'regular'): number => {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let width = 0;
+
+  for (const char of toWinAnsi(text)) {
+    const code = char.charCodeAt(0);
+    width += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+
+  return (width * size) / 1000;
+};
+
+// Shorten text with an ellipsis until it fits the given width
+export const fitText = (text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string => {
+  if (measureText(text, size, font) <= maxWidth) return text;
+
+  let fitted = text;
+  while (fitted.length > 0 && measureText(`${fitted}…`, size, font) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+
+  return fitted ? `${fitted}…` : '';
+};
+
+export class PdfPage {
+  private operations: string[] = [];
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}) {
+    const { size = 10, font = 'regular', gray = 0 } = options;
+    // y is the top of the text, PDF positions the baseline from the bottom
+    const baseline = PAGE_HEIGHT - y - size * 0.8;
+    this.operations.push(
+      `BT ${formatNumber(gray)} g /${font === 'bold' ? 'F2' : 'F1'} ${formatNumber(size)} Tf ` +
+      `${formatNumber(x)} ${formatNumber(baseline)} Td (${escapeText(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width: number = 0.5, gray: number = 0) {
+    this.operations.push(
+      `${formatNumber(gray)} G ${formatNumber(width)} w ` +
+      `${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: { fill?: number; stroke?: number; lineWidth?: number } = {}) {
+    const { fill, stroke, lineWidth = 0.5 } = options;
+    const path = `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`;
+
+    if (fill !== undefined && stroke !== undefined) {
+      this.operations.push(`${formatNumber(fill)} g ${formatNumber(stroke)} G ${formatNumber(lineWidth)} w ${path} B`);
+    } else if (fill !== undefined) {
+      this.operations.push(`${formatNumber(fill)} g ${path} f`);
+    } else {
+      this.operations.push(`${formatNumber(stroke || 0)} G ${formatNumber(lineWidth)} w ${path} S`);
+    }
+  }
+
+  getContent(): string {
+    return this.operations.join('\n');
+  }
+}
+
+export class PdfDocument {
+  private pages: PdfPage[] = [];
+
+  constructor(private title: string = '') {}
+
+  addPage(): PdfPage {
+    const page = new PdfPage();
+    this.pages.push(page);
+    return page;
+  }
+
+  getPages(): PdfPage[] {
+    return this.pages;
+  }
+
+  // Serialize the document. Every character of the output is a single byte,
+  // so string offsets double as byte offsets for the cross-reference table.
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const pageObjectIds: number[] = [];
+
+    // Objects 1 to 4 are the catalog, the page tree, the fonts; 5 is the info dictionary
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Title (${escapeText(this.title)}) /Producer (Game HQ) >>`;
+
+    this.pages.forEach(page => {
+      // Text was converted to WinAnsi when it was drawn
+      const content = page.getContent();
+      const contentId = objects.length;
+      objects[contentId] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+
+      const pageId = objects.length;
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+      pageObjectIds.push(pageId);
+    });
+
+    objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageObjectIds.length} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${offsets[id].toString().padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let index = 0; index < output.length; index++) {
+      bytes[index] = output.charCodeAt(index) & 0xff;
+    }
+    return bytes;
+  }
+}
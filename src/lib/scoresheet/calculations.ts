@@ -0,0 +1,89 @@
+import { buildDependencyGraph, DependencyGraph, getAffectedFields } from './dependencies';
+import { evaluateFormula } from './formula';
+import { getRoundCount, getRoundScope } from './rounds';
+import { clampTrackers } from './tracker';
+import { ScoresheetSubcategory } from './types';
+
+// Templates are immutable once loaded, so their dependency graphs are cached
+const graphCache = new WeakMap<ScoresheetSubcategory[], DependencyGraph>();
+
+export const getDependencyGraph = (subcategories: ScoresheetSubcategory[]): DependencyGraph => {
+  let graph = graphCache.get(subcategories);
+  
+  if (!graph) {
+    graph = buildDependencyGraph(subcategories);
+    graph.problems.forEach(problem => console.error('Invalid formula', problem.message));
+    graphCache.set(subcategories, graph);
+  }
+  
+  return graph;
+};
+
+// Evaluate the given calculation fields, or all of them, in dependency order
+const evaluateFields = (
+  subcategories: ScoresheetSubcategory[],
+  graph: DependencyGraph,
+  values: Record<string, any>,
+  affected: Set<string> | null
+) => {
+  // Calculations scored in rounds are evaluated once per round
+  const roundSubcategories: Record<string, ScoresheetSubcategory> = {};
+  subcategories.forEach(subcategory => {
+    if (subcategory.rounds) {
+      subcategory.fields.forEach(field => {
+        roundSubcategories[field.id] = subcategory;
+      });
+    }
+  });
+  
+  graph.order.forEach(fieldId => {
+    if (affected && !affected.has(fieldId)) return;
+    
+    const { ast } = graph.formulas[fieldId];
+    const subcategory = roundSubcategories[fieldId];
+    
+    try {
+      if (subcategory) {
+        const roundValues = [];
+        for (let round = 0; round < getRoundCount(subcategory, values); round++) {
+          roundValues.push(evaluateFormula(ast, getRoundScope(subcategory, values, round)));
+        }
+        values[fieldId] = roundValues;
+      } else {
+        values[fieldId] = evaluateFormula(ast, values);
+      }
+    } catch (err) {
+      console.error(`Error evaluating formula for ${fieldId}`, err);
+    }
+  });
+};
+
+// Recalculate the calculation fields of a template in dependency order.
+// When changedFieldIds is given only the fields that depend on them are
+// recalculated, otherwise every calculation field is. Trackers are then
+// clamped to their bounds, which may depend on the new values.
+export const calculateFields = (
+  subcategories: ScoresheetSubcategory[],
+  values: Record<string, any>,
+  changedFieldIds?: string[]
+): Record<string, any> => {
+  const graph = getDependencyGraph(subcategories);
+  const calculatedValues = { ...values };
+  
+  evaluateFields(
+    subcategories,
+    graph,
+    calculatedValues,
+    changedFieldIds ? getAffectedFields(graph, changedFieldIds) : null
+  );
+  
+  // Calculations reading a tracker that had to be clamped are evaluated again
+  const clampedValues = clampTrackers(subcategories, calculatedValues, graph);
+  const clampedIds = Object.keys(clampedValues).filter(fieldId => clampedValues[fieldId] !== calculatedValues[fieldId]);
+  
+  if (clampedIds.length > 0) {
+    evaluateFields(subcategories, graph, clampedValues, getAffectedFields(graph, clampedIds));
+  }
+  
+  return clampedValues;
+};
@@ -0,0 +1,203 @@
+import { CompiledFormula, compileFormula } from './formula';
+import { getTemplateFields } from './template';
+import { ScoresheetSubcategory } from './types';
+
+// This module analyzes the formulas of a template into a dependency graph
+// so calculation fields are recalculated in topological order, only when
+// something they read has changed, and never around a cycle
+
+export interface FormulaProblem {
+  fieldIds: string[];
+  message: string;
+}
+
+export interface DependencyGraph {
+  // Compiled formula of every calculation field that compiled cleanly
+  formulas: Record<string, CompiledFormula>;
+  // Calculation fields that directly read each field
+  dependents: Record<string, string[]>;
+  // Calculation fields in the order they have to be evaluated
+  order: string[];
+  // Compiled maximum formula of every tracker field that has one
+  limits: Record<string, CompiledFormula>;
+  // Compiled visibility condition of every field that has one
+  conditions: Record<string, CompiledFormula>;
+  // Compiled check rules of every field, by their index in its rules
+  checks: Record<string, CompiledFormula[]>;
+  problems: FormulaProblem[];
+}
+
+// Find the strongly connected components of the calculation fields that
+// form cycles (Tarjan's algorithm)
+const findCycles = (nodes: string[], edges: Record<string, string[]>): string[][] => {
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let nextIndex = 0;
+
+  const visit = (node: string) => {
+    indexes.set(node, nextIndex);
+    lowLinks.set(node, nextIndex);
+    nextIndex++;
+    stack.push(node);
+    onStack.add(node);
+
+    (edges[node] || []).forEach(next => {
+      if (!indexes.has(next)) {
+        visit(next);
+        lowLinks.set(node, Math.min(lowLinks.get(node), lowLinks.get(next)));
+      } else if (onStack.has(next)) {
+        lowLinks.set(node, Math.min(lowLinks.get(node), indexes.get(next)));
+      }
+    });
+
+    if (lowLinks.get(node) === indexes.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop();
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+
+      if (component.length > 1 || (edges[node] || []).includes(node)) {
+        cycles.push(component.reverse());
+      }
+    }
+  };
+
+  nodes.forEach(node => {
+    if (!indexes.has(node)) visit(node);
+  });
+
+  return cycles;
+};
+
+// Analyze the formulas of a template
+export const buildDependencyGraph = (subcategories: ScoresheetSubcategory[]): DependencyGraph => {
+  const fields = getTemplateFields(subcategories);
+  const names = new Map(fields.map(field => [field.id, field.name]));
+  const formulas: Record<string, CompiledFormula> = {};
+  const limits: Record<string, CompiledFormula> = {};
+  const conditions: Record<string, CompiledFormula> = {};
+  const checks: Record<string, CompiledFormula[]> = {};
+  const problems: FormulaProblem[] = [];
+
+  fields.forEach(field => {
+    if (field.type !== 'calculation' || !field.formula) return;
+
+    try {
+      formulas[field.id] = compileFormula(field.formula, fields);
+    } catch (err) {
+      problems.push({ fieldIds: [field.id], message: `${field.name}: ${err.message}` });
+    }
+  });
+
+  // Tracker maximums are evaluated after every calculation, so they can
+  // read any field without forming a cycle
+  fields.forEach(field => {
+    if (field.type !== 'tracker' || !field.maxFormula) return;
+
+    try {
+      limits[field.id] = compileFormula(field.maxFormula, fields);
+    } catch (err) {
+      problems.push({ fieldIds: [field.id], message: `${field.name} maximum: ${err.message}` });
+    }
+  });
+
+  // Visibility conditions and checks only read values, like tracker maximums
+  fields.forEach(field => {
+    if (field.visibleWhen) {
+      try {
+        conditions[field.id] = compileFormula(field.visibleWhen, fields);
+      } catch (err) {
+        problems.push({ fieldIds: [field.id], message: `${field.name} visibility: ${err.message}` });
+      }
+    }
+
+    (field.validation || []).forEach((rule, index) => {
+      if (rule.type !== 'check') return;
+
+      try {
+        (checks[field.id] = checks[field.id] || [])[index] = compileFormula(rule.formula, fields);
+      } catch (err) {
+        problems.push({ fieldIds: [field.id], message: `${field.name} check: ${err.message}` });
+      }
+    });
+  });
+
+  // Edges point from a calculation field to the calculation fields it reads
+  const calculationIds = Object.keys(formulas);
+  const reads: Record<string, string[]> = {};
+  calculationIds.forEach(fieldId => {
+    reads[fieldId] = formulas[fieldId].references.filter(reference => formulas[reference]);
+  });
+
+  const cyclic = new Set<string>();
+  findCycles(calculationIds, reads).forEach(cycle => {
+    cycle.forEach(fieldId => cyclic.add(fieldId));
+    const path = [...cycle, cycle[0]].map(fieldId => names.get(fieldId));
+    problems.push({ fieldIds: cycle, message: `Circular formula: ${path.join(' → ')}` });
+  });
+
+  // Fields that are part of a cycle, or read one, cannot be evaluated
+  const blocked = new Set<string>(cyclic);
+  const isBlocked = (fieldId: string, visiting: Set<string> = new Set()): boolean => {
+    if (blocked.has(fieldId)) return true;
+    if (visiting.has(fieldId)) return false;
+    visiting.add(fieldId);
+    if (reads[fieldId].some(reference => isBlocked(reference, visiting))) {
+      blocked.add(fieldId);
+      return true;
+    }
+    return false;
+  };
+  calculationIds.forEach(fieldId => isBlocked(fieldId));
+  blocked.forEach(fieldId => delete formulas[fieldId]);
+
+  // Depth-first topological sort, keeping template order between independent fields
+  const order: string[] = [];
+  const visited = new Set<string>();
+  const place = (fieldId: string) => {
+    if (visited.has(fieldId)) return;
+    visited.add(fieldId);
+    reads[fieldId].forEach(place);
+    order.push(fieldId);
+  };
+  calculationIds.filter(fieldId => !blocked.has(fieldId)).forEach(place);
+
+  const dependents: Record<string, string[]> = {};
+  order.forEach(fieldId => {
+    formulas[fieldId].references.forEach(reference => {
+      (dependents[reference] = dependents[reference] || []).push(fieldId);
+    });
+  });
+
+  return { formulas, dependents, order, limits, conditions, checks, problems };
+};
+
+// Get every calculation field that has to be recalculated when the given
+// fields change, directly or through other calculations
+export const getAffectedFields = (graph: DependencyGraph, changedFieldIds: string[]): Set<string> => {
+  const affected = new Set<string>();
+  const queue = [...changedFieldIds];
+
+  while (queue.length > 0) {
+    (graph.dependents[queue.shift()] || []).forEach(dependent => {
+      if (!affected.has(dependent)) {
+        affected.add(dependent);
+        queue.push(dependent);
+      }
+    });
+  }
+
+  return affected;
+};
+
+// Describe everything wrong with the formulas of a template, naming the
+// offending fields. An empty list means the template can be saved.
+export const validateTemplateFormulas = (subcategories: ScoresheetSubcategory[]): string[] => {
+  return buildDependencyGraph(subcategories).problems.map(problem => problem.message);
+};
@@ -0,0 +1,180 @@
+import { DiceRoll, RolledDie } from './types';
+
+// Dice notation for dice fields. A notation is a sum of terms such as 2d6,
+// 4d6kh3 (keep the highest 3), 4d6dl1 (drop the lowest), d% and plain
+// numbers, optionally followed by "adv" or "dis" to roll a d20 twice and
+// keep the higher or lower result. Rolls use a seedable random number
+// generator, so every logged roll can be reproduced from its seed.
+
+export interface DiceTerm {
+  sign: 1 | -1;
+  count: number;
+  sides: number;
+  // Number of dice counted towards the total, highest or lowest first
+  keep?: { count: number; highest: boolean };
+}
+
+export interface DiceExpression {
+  terms: DiceTerm[];
+  modifier: number;
+}
+
+export class DiceNotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiceNotationError';
+  }
+}
+
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+
+const TERM_PATTERN = /([+-])?(?:(\d*)d(\d+|%)(?:(kh|kl|k|dh|dl|d)(\d+))?|(\d+))/y;
+
+// Parse dice notation such as "2d6+3", "4d6kh3" or "1d20+5 adv"
+export const parseDiceNotation = (notation: string): DiceExpression => {
+  let source = notation.trim().toLowerCase();
+  let advantage: 'adv' | 'dis' | null = null;
+
+  const advantageMatch = source.match(/\s+(adv|advantage|dis|disadvantage)$/);
+  if (advantageMatch) {
+    advantage = advantageMatch[1].startsWith('adv') ? 'adv' : 'dis';
+    source = source.slice(0, advantageMatch.index);
+  }
+
+  source = source.replace(/\s+/g, '');
+  if (!source) {
+    throw new DiceNotationError('Enter dice to roll, for example 2d6+3');
+  }
+
+  const expression: DiceExpression = { terms: [], modifier: 0 };
+  TERM_PATTERN.lastIndex = 0;
+
+  while (TERM_PATTERN.lastIndex < source.length) {
+    const start = TERM_PATTERN.lastIndex;
+    const match = TERM_PATTERN.exec(source);
+
+    if (!match || (start > 0 && !match[1])) {
+      throw new DiceNotationError(`Unexpected "${source.slice(start)}" in dice notation`);
+    }
+
+    const sign = match[1] === '-' ? -1 : 1;
+
+    if (match[6] !== undefined) {
+      expression.modifier += sign * parseInt(match[6], 10);
+      continue;
+    }
+
+    const count = match[2] ? parseInt(match[2], 10) : 1;
+    const sides = match[3] === '%' ? 100 : parseInt(match[3], 10);
+
+    if (count < 1 || count > MAX_DICE) {
+      throw new DiceNotationError(`Roll between 1 and ${MAX_DICE} dice at a time`);
+    }
+    if (sides < 2 || sides > MAX_SIDES) {
+      throw new DiceNotationError(`Dice need between 2 and ${MAX_SIDES} sides`);
+    }
+
+    const term: DiceTerm = { sign, count, sides };
+
+    if (match[4]) {
+      const amount = parseInt(match[5], 10);
+      const dropping = match[4].startsWith('d');
+      const kept = dropping ? count - amount : amount;
+
+      if (kept < 1 || kept > count) {
+        throw new DiceNotationError(`Cannot ${dropping ? 'drop' : 'keep'} ${amount} of ${count} dice`);
+      }
+
+      // Dropping the lowest dice keeps the highest ones and the other way round
+      term.keep = { count: kept, highest: ['kh', 'k', 'dl', 'd'].includes(match[4]) };
+    }
+
+    expression.terms.push(term);
+  }
+
+  if (advantage) {
+    const [term] = expression.terms;
+    if (expression.terms.length !== 1 || term.count !== 1 || term.sides !== 20 || term.keep) {
+      throw new DiceNotationError('Advantage and disadvantage apply to a single d20');
+    }
+    expression.terms[0] = { ...term, count: 2, keep: { count: 1, highest: advantage === 'adv' } };
+  }
+
+  return expression;
+};
+
+// Check notation and return the problem with it, if any
+export const getDiceNotationError = (notation: string): string | null => {
+  try {
+    parseDiceNotation(notation);
+    return null;
+  } catch (err) {
+    return err.message;
+  }
+};
+
+// Seedable random number generator (mulberry32) returning numbers in [0, 1)
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+// Roll dice notation. The same notation and seed always give the same roll.
+export const rollDice = (notation: string, seed: number = createSeed(), rolledAt: string = new Date().toISOString()): DiceRoll => {
+  const expression = parseDiceNotation(notation);
+  const random = createRandom(seed);
+  const dice: RolledDie[] = [];
+  let total = expression.modifier;
+
+  expression.terms.forEach(term => {
+    const rolled: RolledDie[] = Array.from({ length: term.count }, () => ({
+      sides: term.sides,
+      value: 1 + Math.floor(random() * term.sides),
+      ...(term.sign < 0 ? { negative: true } : {})
+    }));
+
+    if (term.keep) {
+      const ranked = [...rolled].sort((a, b) => term.keep.highest ? b.value - a.value : a.value - b.value);
+      ranked.slice(term.keep.count).forEach(die => {
+        die.dropped = true;
+      });
+    }
+
+    rolled.forEach(die => {
+      if (!die.dropped) total += term.sign * die.value;
+    });
+    dice.push(...rolled);
+  });
+
+  return { notation: notation.trim(), dice, modifier: expression.modifier, total, seed, rolledAt };
+};
+
+// Dice field values are the latest roll
+export const isDiceRoll = (value: any): value is DiceRoll => {
+  return typeof value === 'object' && value !== null && Array.isArray(value.dice) && typeof value.total === 'number';
+};
+
+// Describe a roll as "4 + 3 + (1) + 3 = 10", with dropped dice in parentheses
+export const describeRoll = (roll: DiceRoll): string => {
+  const parts = roll.dice.map(die => {
+    const value = die.dropped ? `(${die.value})` : `${die.value}`;
+    return die.negative ? `- ${value}` : `+ ${value}`;
+  });
+
+  if (roll.modifier) {
+    parts.push(roll.modifier < 0 ? `- ${-roll.modifier}` : `+ ${roll.modifier}`);
+  }
+
+  const sum = parts.join(' ').replace(/^\+ /, '').replace(/^- /, '-');
+  return `${sum} = ${roll.total}`;
+};
@@ -0,0 +1,295 @@
+import { rollDice } from './dice';
+import { RuleFunction } from './formula';
+import { getTemplateFields } from './template';
+import { DiceRoll, ScoresheetSubcategory } from './types';
+
+// D&D 5e rules for character sheets: ability modifiers, proficiency bonus,
+// skills, saving throws, passive scores, spellcasting and hit points, all
+// derived from level, class and ability scores. The rules are offered to
+// formulas as functions (see DND5E_FUNCTIONS), so any template can use
+// them. Multiclassing is not covered.
+
+export type Ability = 'strength' | 'dexterity' | 'constitution' | 'intelligence' | 'wisdom' | 'charisma';
+
+export const ABILITIES: Ability[] = ['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma'];
+
+export const SKILLS: Record<string, Ability> = {
+  acrobatics: 'dexterity',
+  animal_handling: 'wisdom',
+  arcana: 'intelligence',
+  athletics: 'strength',
+  deception: 'charisma',
+  history: 'intelligence',
+  insight: 'wisdom',
+  intimidation: 'charisma',
+  investigation: 'intelligence',
+  medicine: 'wisdom',
+  nature: 'intelligence',
+  perception: 'wisdom',
+  performance: 'charisma',
+  persuasion: 'charisma',
+  religion: 'intelligence',
+  sleight_of_hand: 'dexterity',
+  stealth: 'dexterity',
+  survival: 'wisdom'
+};
+
+interface ClassRules {
+  name: string;
+  hitDie: number;
+  savingThrows: Ability[];
+  // Full casters use the spell slot table as is, half casters at half
+  // their level; warlocks have pact magic slots instead
+  caster?: 'full' | 'half' | 'pact';
+  spellcastingAbility?: Ability;
+}
+
+export const CLASSES: Record<string, ClassRules> = {
+  barbarian: { name: 'Barbarian', hitDie: 12, savingThrows: ['strength', 'constitution'] },
+  bard: { name: 'Bard', hitDie: 8, savingThrows: ['dexterity', 'charisma'], caster: 'full', spellcastingAbility: 'charisma' },
+  cleric: { name: 'Cleric', hitDie: 8, savingThrows: ['wisdom', 'charisma'], caster: 'full', spellcastingAbility: 'wisdom' },
+  druid: { name: 'Druid', hitDie: 8, savingThrows: ['intelligence', 'wisdom'], caster: 'full', spellcastingAbility: 'wisdom' },
+  fighter: { name: 'Fighter', hitDie: 10, savingThrows: ['strength', 'constitution'] },
+  monk: { name: 'Monk', hitDie: 8, savingThrows: ['strength', 'dexterity'] },
+  paladin: { name: 'Paladin', hitDie: 10, savingThrows: ['wisdom', 'charisma'], caster: 'half', spellcastingAbility: 'charisma' },
+  ranger: { name: 'Ranger', hitDie: 10, savingThrows: ['strength', 'dexterity'], caster: 'half', spellcastingAbility: 'wisdom' },
+  rogue: { name: 'Rogue', hitDie: 8, savingThrows: ['dexterity', 'intelligence'] },
+  sorcerer: { name: 'Sorcerer', hitDie: 6, savingThrows: ['constitution', 'charisma'], caster: 'full', spellcastingAbility: 'charisma' },
+  warlock: { name: 'Warlock', hitDie: 8, savingThrows: ['wisdom', 'charisma'], caster: 'pact', spellcastingAbility: 'charisma' },
+  wizard: { name: 'Wizard', hitDie: 6, savingThrows: ['intelligence', 'wisdom'], caster: 'full', spellcastingAbility: 'intelligence' }
+};
+
+export const MAX_LEVEL = 20;
+
+// Spell slots of a full caster by character level, from 1st-level slots up
+const FULL_CASTER_SLOTS: number[][] = [
+  [2],
+  [3],
+  [4, 2],
+  [4, 3],
+  [4, 3, 2],
+  [4, 3, 3],
+  [4, 3, 3, 1],
+  [4, 3, 3, 2],
+  [4, 3, 3, 3, 1],
+  [4, 3, 3, 3, 2],
+  [4, 3, 3, 3, 2, 1],
+  [4, 3, 3, 3, 2, 1],
+  [4, 3, 3, 3, 2, 1, 1],
+  [4, 3, 3, 3, 2, 1, 1],
+  [4, 3, 3, 3, 2, 1, 1, 1],
+  [4, 3, 3, 3, 2, 1, 1, 1],
+  [4, 3, 3, 3, 2, 1, 1, 1, 1],
+  [4, 3, 3, 3, 3, 1, 1, 1, 1],
+  [4, 3, 3, 3, 3, 2, 1, 1, 1],
+  [4, 3, 3, 3, 3, 2, 2, 1, 1]
+];
+
+// An empty class means none has been picked yet
+const getClass = (className: string): ClassRules | null => {
+  const key = className.trim().toLowerCase();
+  if (!key) return null;
+
+  if (!CLASSES[key]) {
+    throw new Error(`Unknown class "${className}"`);
+  }
+  return CLASSES[key];
+};
+
+const toLevel = (level: number) => Math.min(MAX_LEVEL, Math.max(1, Math.floor(level)));
+
+const toAbility = (ability: string): Ability => {
+  const key = ability.trim().toLowerCase() as Ability;
+  if (!ABILITIES.includes(key)) {
+    throw new Error(`Unknown ability "${ability}"`);
+  }
+  return key;
+};
+
+export const getAbilityModifier = (score: number): number => Math.floor((score - 10) / 2);
+
+export const getProficiencyBonus = (level: number): number => 2 + Math.floor((toLevel(level) - 1) / 4);
+
+// Modifier of an ability check, doubling the proficiency bonus for expertise
+export const getCheckModifier = (score: number, level: number, proficient: boolean, expertise = false): number => {
+  const proficiency = expertise ? 2 * getProficiencyBonus(level) : proficient ? getProficiencyBonus(level) : 0;
+  return getAbilityModifier(score) + proficiency;
+};
+
+export const hasSaveProficiency = (className: string, ability: string): boolean => {
+  return getClass(className)?.savingThrows.includes(toAbility(ability)) || false;
+};
+
+// Number of spell slots of one spell level
+export const getSpellSlots = (className: string, level: number, slotLevel: number): number => {
+  const rules = getClass(className);
+  if (!rules?.caster || slotLevel < 1 || slotLevel > 9) return 0;
+
+  const characterLevel = toLevel(level);
+
+  if (rules.caster === 'pact') {
+    const pactSlotLevel = Math.min(5, Math.ceil(characterLevel / 2));
+    if (slotLevel !== pactSlotLevel) return 0;
+    return characterLevel === 1 ? 1 : characterLevel <= 10 ? 2 : characterLevel <= 16 ? 3 : 4;
+  }
+
+  // Half casters get their first slots at level 2
+  const casterLevel = rules.caster === 'half' ? (characterLevel === 1 ? 0 : Math.ceil(characterLevel / 2)) : characterLevel;
+  return casterLevel === 0 ? 0 : FULL_CASTER_SLOTS[casterLevel - 1][slotLevel - 1] || 0;
+};
+
+export const getHitDie = (className: string): number => getClass(className)?.hitDie || 0;
+
+// Hit points gained per level after the first, taking the fixed value
+// (half the hit die plus one). Every level gives at least 1 hit point.
+const getFixedHitPointGain = (hitDie: number, constitution: number) => {
+  return Math.max(1, hitDie / 2 + 1 + getAbilityModifier(constitution));
+};
+
+// Hit point maximum with the fixed value for every level after the first
+export const getHitPointMaximum = (className: string, level: number, constitution: number): number => {
+  const hitDie = getHitDie(className);
+  if (!hitDie) return 0;
+
+  const firstLevel = Math.max(1, hitDie + getAbilityModifier(constitution));
+  return firstLevel + (toLevel(level) - 1) * getFixedHitPointGain(hitDie, constitution);
+};
+
+// Score of the class's spellcasting ability, picked from the given scores
+const getSpellcastingScore = (className: string, scores: Partial<Record<Ability, number>>): number | null => {
+  const ability = getClass(className)?.spellcastingAbility;
+  return ability ? scores[ability] ?? 10 : null;
+};
+
+// Functions available to formulas. Class and ability names are matched
+// without regard to case.
+export const DND5E_FUNCTIONS: Record<string, RuleFunction> = {
+  ability_modifier: {
+    params: ['number'],
+    evaluate: getAbilityModifier
+  },
+  proficiency_bonus: {
+    params: ['number'],
+    evaluate: getProficiencyBonus
+  },
+  // skill_modifier(dexterity, level, acrobatics_proficient, acrobatics_expertise?)
+  skill_modifier: {
+    params: ['number', 'number', 'boolean', 'boolean'],
+    optional: 1,
+    evaluate: getCheckModifier
+  },
+  saving_throw: {
+    params: ['number', 'number', 'boolean'],
+    evaluate: (score: number, level: number, proficient: boolean) => getCheckModifier(score, level, proficient)
+  },
+  save_proficiency: {
+    params: ['text', 'text'],
+    evaluate: hasSaveProficiency
+  },
+  // Passive scores such as passive Perception: 10 plus the check modifier
+  passive_score: {
+    params: ['number', 'number', 'boolean', 'boolean'],
+    optional: 1,
+    evaluate: (score: number, level: number, proficient: boolean, expertise = false) =>
+      10 + getCheckModifier(score, level, proficient, expertise)
+  },
+  spellcasting_ability: {
+    params: ['text'],
+    evaluate: (className: string) => {
+      const ability = getClass(className)?.spellcastingAbility;
+      return ability ? ability.charAt(0).toUpperCase() + ability.slice(1) : '';
+    }
+  },
+  // spell_save_dc(class, level, intelligence, wisdom, charisma)
+  spell_save_dc: {
+    params: ['text', 'number', 'number', 'number', 'number'],
+    evaluate: (className: string, level: number, intelligence: number, wisdom: number, charisma: number) => {
+      const score = getSpellcastingScore(className, { intelligence, wisdom, charisma });
+      return score === null ? 0 : 8 + getProficiencyBonus(level) + getAbilityModifier(score);
+    }
+  },
+  spell_attack_bonus: {
+    params: ['text', 'number', 'number', 'number', 'number'],
+    evaluate: (className: string, level: number, intelligence: number, wisdom: number, charisma: number) => {
+      const score = getSpellcastingScore(className, { intelligence, wisdom, charisma });
+      return score === null ? 0 : getProficiencyBonus(level) + getAbilityModifier(score);
+    }
+  },
+  spell_slots: {
+    params: ['text', 'number', 'number'],
+    evaluate: getSpellSlots
+  },
+  hit_die: {
+    params: ['text'],
+    evaluate: getHitDie
+  },
+  hit_point_maximum: {
+    params: ['text', 'number', 'number'],
+    evaluate: getHitPointMaximum
+  }
+};
+
+// Fields of the official D&D 5e template that levelling up changes
+export const DND5E_FIELDS = {
+  className: 'class',
+  level: 'level',
+  constitution: 'constitution',
+  hitPointAdjustment: 'hp_adjustment',
+  currentHitPoints: 'current_hit_points',
+  spellSlots: (slotLevel: number) => `level${slotLevel}_slots`
+};
+
+export interface LevelUp {
+  level: number;
+  hitPointGain: number;
+  // Roll of the hit die, when hit points were rolled
+  roll?: DiceRoll;
+  // New values by field ID
+  changes: Record<string, any>;
+}
+
+// Whether a template has the fields levelling up works with
+export const canLevelUp = (subcategories: ScoresheetSubcategory[]): boolean => {
+  const fieldIds = new Set(getTemplateFields(subcategories).map(field => field.id));
+  return [DND5E_FIELDS.className, DND5E_FIELDS.level, DND5E_FIELDS.constitution, DND5E_FIELDS.hitPointAdjustment]
+    .every(fieldId => fieldIds.has(fieldId));
+};
+
+// Work out the changes of gaining a level. Hit points either take the fixed
+// value or roll the hit die; a rolled difference from the fixed value is
+// kept in the hit point adjustment, since the maximum is a formula. Spell
+// slots are refilled to their new maximum.
+export const levelUp = (values: Record<string, any>, method: 'fixed' | 'roll', seed?: number): LevelUp => {
+  const className = String(values[DND5E_FIELDS.className] || '');
+  const level = toLevel(Number(values[DND5E_FIELDS.level]) || 1);
+  const constitution = Number(values[DND5E_FIELDS.constitution]) || 10;
+  const hitDie = getHitDie(className);
+
+  if (!hitDie) {
+    throw new Error('Choose a class before levelling up');
+  }
+  if (level >= MAX_LEVEL) {
+    throw new Error(`Characters cannot go above level ${MAX_LEVEL}`);
+  }
+
+  const fixedGain = getFixedHitPointGain(hitDie, constitution);
+  const roll = method === 'roll' ? rollDice(`1d${hitDie}`, seed) : undefined;
+  const hitPointGain = roll ? Math.max(1, roll.total + getAbilityModifier(constitution)) : fixedGain;
+
+  const changes: Record<string, any> = {
+    [DND5E_FIELDS.level]: level + 1,
+    [DND5E_FIELDS.hitPointAdjustment]: (Number(values[DND5E_FIELDS.hitPointAdjustment]) || 0) + hitPointGain - fixedGain
+  };
+
+  if (DND5E_FIELDS.currentHitPoints in values) {
+    changes[DND5E_FIELDS.currentHitPoints] = (Number(values[DND5E_FIELDS.currentHitPoints]) || 0) + hitPointGain;
+  }
+
+  for (let slotLevel = 1; slotLevel <= 9; slotLevel++) {
+    const fieldId = DND5E_FIELDS.spellSlots(slotLevel);
+    const slots = getSpellSlots(className, level + 1, slotLevel);
+    if (fieldId in values && slots > 0) changes[fieldId] = slots;
+  }
+
+  return { level: level + 1, hitPointGain, ...(roll ? { roll } : {}), changes };
+};
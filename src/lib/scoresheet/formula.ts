@@ -0,0 +1,601 @@
+import { isDiceRoll } from './dice';
+import { DND5E_FUNCTIONS } from './dnd5e';
+import { ScoresheetField } from './types';
+
+// This module implements the formula language used by calculation fields.
+// Formulas are parsed into an AST and evaluated against field values, so
+// community templates never reach eval() or the global scope.
+//
+// Supported syntax:
+//   numbers, "strings", true/false
+//   + - * / %, unary - and !
+//   == != < <= > >=, && || (also: and, or, not)
+//   condition ? a : b
+//   if(condition, a, b), sum(...), min(...), max(...), count(...), avg(...),
+//   floor(x), ceil(x), round(x, digits?), abs(x)
+//   game rule functions, such as the D&D 5e rules in dnd5e.ts
+//   (ability_modifier, proficiency_bonus, skill_modifier, saving_throw, ...)
+//   field references by ID (strength) or by name ([Hit Point Maximum])
+//   dice fields read as the total of their latest roll
+//
+// A field scored in rounds holds one value per round. Inside its own
+// subcategory it reads as the value of the current round, everywhere else
+// as the list of all rounds, which sum, min, max, count and avg aggregate.
+
+export type FormulaValue = number | string | boolean | FormulaValue[];
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'reference'; name: string; fieldId?: string }
+  | { type: 'unary'; operator: string; operand: FormulaNode }
+  | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { type: 'conditional'; test: FormulaNode; consequent: FormulaNode; alternate: FormulaNode }
+  | { type: 'call'; callee: string; args: FormulaNode[] };
+
+export interface CompiledFormula {
+  source: string;
+  ast: FormulaNode;
+  references: string[];
+}
+
+// A function with typed parameters, for game rules offered to formulas.
+// Arguments are coerced to the parameter types before evaluate is called;
+// the last `optional` parameters may be left out.
+export interface RuleFunction {
+  params: ('number' | 'text' | 'boolean')[];
+  optional?: number;
+  evaluate: (...args: any[]) => FormulaValue;
+}
+
+export class FormulaError extends Error {
+  position: number;
+
+  constructor(message: string, position: number = -1) {
+    super(message);
+    this.name = 'FormulaError';
+    this.position = position;
+  }
+}
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'reference' | 'operator' | 'eof';
+  value: string;
+  position: number;
+}
+
+// Lookups in the tables below and in field values only see their own keys,
+// so names like "constructor" do not resolve to members of Object.prototype
+const hasOwn = (table: object, key: string) => Object.prototype.hasOwnProperty.call(table, key);
+
+// Older templates were written as JavaScript expressions, so the JavaScript
+// spellings are mapped onto the formula language
+const LEGACY_FUNCTIONS: Record<string, string> = {
+  'Math.floor': 'floor',
+  'Math.ceil': 'ceil',
+  'Math.round': 'round',
+  'Math.min': 'min',
+  'Math.max': 'max',
+  'Math.abs': 'abs'
+};
+
+const LEGACY_OPERATORS: Record<string, string> = {
+  '===': '==',
+  '!==': '!='
+};
+
+const KEYWORD_OPERATORS: Record<string, string> = {
+  and: '&&',
+  or: '||',
+  not: '!'
+};
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', ','];
+
+// Split a formula into tokens
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(index));
+      if (!match) {
+        throw new FormulaError(`Unexpected character "${char}"`, index);
+      }
+      tokens.push({ type: 'number', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = index + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\' && end + 1 < source.length) {
+          end++;
+        }
+        value += source[end];
+        end++;
+      }
+      if (end >= source.length) {
+        throw new FormulaError('Unterminated string', index);
+      }
+      tokens.push({ type: 'string', value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    if (char === '[') {
+      const end = source.indexOf(']', index);
+      if (end === -1) {
+        throw new FormulaError('Unterminated field reference', index);
+      }
+      const value = source.slice(index + 1, end).trim();
+      if (!value) {
+        throw new FormulaError('Empty field reference', index);
+      }
+      tokens.push({ type: 'reference', value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(index));
+      const word = match[0];
+      if (hasOwn(KEYWORD_OPERATORS, word)) {
+        tokens.push({ type: 'operator', value: KEYWORD_OPERATORS[word], position: index });
+      } else {
+        tokens.push({ type: 'identifier', value: word, position: index });
+      }
+      index += word.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, index));
+    if (!operator) {
+      throw new FormulaError(`Unexpected character "${char}"`, index);
+    }
+    tokens.push({ type: 'operator', value: LEGACY_OPERATORS[operator] || operator, position: index });
+    index += operator.length;
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+};
+
+// Binary operators from lowest to highest precedence
+const BINARY_PRECEDENCE: string[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+// Parse a formula into an AST, throwing a FormulaError on invalid syntax
+export const parseFormula = (source: string): FormulaNode => {
+  const tokens = tokenize(source);
+  let current = 0;
+
+  const peek = () => tokens[current];
+
+  const isOperator = (value: string) => peek().type === 'operator' && peek().value === value;
+
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      const token = peek();
+      throw new FormulaError(
+        token.type === 'eof' ? `Expected "${value}" at end of formula` : `Expected "${value}" but found "${token.value}"`,
+        token.position
+      );
+    }
+    current++;
+  };
+
+  const parseConditional = (): FormulaNode => {
+    const test = parseBinary(0);
+
+    if (isOperator('?')) {
+      current++;
+      const consequent = parseConditional();
+      expect(':');
+      const alternate = parseConditional();
+      return { type: 'conditional', test, consequent, alternate };
+    }
+
+    return test;
+  };
+
+  const parseBinary = (level: number): FormulaNode => {
+    if (level >= BINARY_PRECEDENCE.length) {
+      return parseUnary();
+    }
+
+    let left = parseBinary(level + 1);
+
+    while (peek().type === 'operator' && BINARY_PRECEDENCE[level].includes(peek().value)) {
+      const operator = tokens[current++].value;
+      const right = parseBinary(level + 1);
+      left = { type: 'binary', operator, left, right };
+    }
+
+    return left;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isOperator('-') || isOperator('+') || isOperator('!')) {
+      const operator = tokens[current++].value;
+      return { type: 'unary', operator, operand: parseUnary() };
+    }
+
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[current++];
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.value) };
+
+      case 'string':
+        return { type: 'string', value: token.value };
+
+      case 'reference':
+        return { type: 'reference', name: token.value };
+
+      case 'identifier': {
+        if (token.value === 'true' || token.value === 'false') {
+          return { type: 'boolean', value: token.value === 'true' };
+        }
+
+        if (isOperator('(')) {
+          current++;
+          const args: FormulaNode[] = [];
+          if (!isOperator(')')) {
+            args.push(parseConditional());
+            while (isOperator(',')) {
+              current++;
+              args.push(parseConditional());
+            }
+          }
+          expect(')');
+
+          const callee = hasOwn(LEGACY_FUNCTIONS, token.value) ? LEGACY_FUNCTIONS[token.value] : token.value.toLowerCase();
+          if (!hasOwn(FUNCTIONS, callee)) {
+            throw new FormulaError(`Unknown function "${token.value}"`, token.position);
+          }
+          return { type: 'call', callee, args };
+        }
+
+        return { type: 'reference', name: token.value };
+      }
+
+      case 'operator':
+        if (token.value === '(') {
+          const expression = parseConditional();
+          expect(')');
+          return expression;
+        }
+        throw new FormulaError(`Unexpected "${token.value}"`, token.position);
+
+      default:
+        throw new FormulaError('Unexpected end of formula', token.position);
+    }
+  };
+
+  const ast = parseConditional();
+
+  if (peek().type !== 'eof') {
+    throw new FormulaError(`Unexpected "${peek().value}"`, peek().position);
+  }
+
+  return ast;
+};
+
+// Per-round values only make sense inside aggregate functions
+const expectSingleValue = (value: FormulaValue) => {
+  if (Array.isArray(value)) {
+    throw new FormulaError('Values of every round have to be combined with sum(), min(), max(), count() or avg()');
+  }
+};
+
+// Flatten per-round values into the arguments of an aggregate function
+const flatten = (args: FormulaValue[]): FormulaValue[] => {
+  return args.reduce<FormulaValue[]>((all, value) => all.concat(Array.isArray(value) ? flatten(value) : [value]), []);
+};
+
+// Coerce a value to a number for arithmetic
+const toNumber = (value: FormulaValue): number => {
+  expectSingleValue(value);
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+
+  const trimmed = (value as string).trim();
+  if (trimmed === '') return 0;
+
+  const number = Number(trimmed);
+  if (isNaN(number)) {
+    throw new FormulaError(`"${value}" is not a number`);
+  }
+  return number;
+};
+
+// Coerce a value to a boolean for conditions
+export const toBoolean = (value: FormulaValue): boolean => {
+  expectSingleValue(value);
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  return (value as string).trim() !== '';
+};
+
+// Compare two values, comparing text as text and everything else as numbers
+const isEqual = (left: FormulaValue, right: FormulaValue): boolean => {
+  expectSingleValue(left);
+  expectSingleValue(right);
+  if (typeof left === 'string' || typeof right === 'string') {
+    return String(left) === String(right);
+  }
+  return toNumber(left) === toNumber(right);
+};
+
+const expectArgs = (name: string, args: FormulaValue[], min: number, max: number) => {
+  if (args.length < min || args.length > max) {
+    const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+    throw new FormulaError(`${name}() expects ${expected} argument${min === 1 && max === 1 ? '' : 's'}`);
+  }
+};
+
+// Built-in functions. `if` is evaluated lazily and handled by the evaluator.
+const FUNCTIONS: Record<string, (args: FormulaValue[]) => FormulaValue> = {
+  if: () => {
+    throw new FormulaError('if() must be evaluated lazily');
+  },
+  sum: (args) => flatten(args).reduce<number>((total, value) => total + toNumber(value), 0),
+  min: (args) => {
+    const values = flatten(args);
+    expectArgs('min', values, 1, Infinity);
+    return Math.min(...values.map(toNumber));
+  },
+  max: (args) => {
+    const values = flatten(args);
+    expectArgs('max', values, 1, Infinity);
+    return Math.max(...values.map(toNumber));
+  },
+  count: (args) => flatten(args).length,
+  avg: (args) => {
+    const values = flatten(args);
+    expectArgs('avg', values, 1, Infinity);
+    return values.reduce<number>((total, value) => total + toNumber(value), 0) / values.length;
+  },
+  floor: (args) => {
+    expectArgs('floor', args, 1, 1);
+    return Math.floor(toNumber(args[0]));
+  },
+  ceil: (args) => {
+    expectArgs('ceil', args, 1, 1);
+    return Math.ceil(toNumber(args[0]));
+  },
+  round: (args) => {
+    expectArgs('round', args, 1, 2);
+    const factor = Math.pow(10, args.length > 1 ? toNumber(args[1]) : 0);
+    return Math.round(toNumber(args[0]) * factor) / factor;
+  },
+  abs: (args) => {
+    expectArgs('abs', args, 1, 1);
+    return Math.abs(toNumber(args[0]));
+  }
+};
+
+// Coerce the arguments of a rule function and report rule errors, such as
+// an unknown class, as formula errors
+const toFormulaFunction = (name: string, rule: RuleFunction) => (args: FormulaValue[]): FormulaValue => {
+  expectArgs(name, args, rule.params.length - (rule.optional || 0), rule.params.length);
+
+  const coerced = args.map((arg, index) => {
+    switch (rule.params[index]) {
+      case 'number':
+        return toNumber(arg);
+      case 'boolean':
+        return toBoolean(arg);
+      default:
+        expectSingleValue(arg);
+        return String(arg);
+    }
+  });
+
+  try {
+    return rule.evaluate(...coerced);
+  } catch (err) {
+    throw err instanceof FormulaError ? err : new FormulaError(`${name}(): ${err.message}`);
+  }
+};
+
+Object.entries(DND5E_FUNCTIONS).forEach(([name, rule]) => {
+  FUNCTIONS[name] = toFormulaFunction(name, rule);
+});
+
+// Evaluate a parsed formula against a map of field values keyed by field ID
+export const evaluateFormula = (node: FormulaNode, values: Record<string, any>): FormulaValue => {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+
+    case 'reference': {
+      const key = node.fieldId || node.name;
+      const value = hasOwn(values, key) ? values[key] : undefined;
+      if (value === undefined || value === null) return 0;
+      // Dice fields count with the total of their latest roll
+      if (isDiceRoll(value)) return value.total;
+      if (Array.isArray(value)) {
+        return value.map(item => item === undefined || item === null ? 0 : isDiceRoll(item) ? item.total : item);
+      }
+      if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+      throw new FormulaError(`Field "${node.name}" does not hold a value`);
+    }
+
+    case 'unary': {
+      const operand = evaluateFormula(node.operand, values);
+      if (node.operator === '!') return !toBoolean(operand);
+      return node.operator === '-' ? -toNumber(operand) : toNumber(operand);
+    }
+
+    case 'binary': {
+      if (node.operator === '&&') {
+        return toBoolean(evaluateFormula(node.left, values)) && toBoolean(evaluateFormula(node.right, values));
+      }
+      if (node.operator === '||') {
+        return toBoolean(evaluateFormula(node.left, values)) || toBoolean(evaluateFormula(node.right, values));
+      }
+
+      const left = evaluateFormula(node.left, values);
+      const right = evaluateFormula(node.right, values);
+
+      switch (node.operator) {
+        case '==': return isEqual(left, right);
+        case '!=': return !isEqual(left, right);
+        case '<': return toNumber(left) < toNumber(right);
+        case '<=': return toNumber(left) <= toNumber(right);
+        case '>': return toNumber(left) > toNumber(right);
+        case '>=': return toNumber(left) >= toNumber(right);
+        case '+': return toNumber(left) + toNumber(right);
+        case '-': return toNumber(left) - toNumber(right);
+        case '*': return toNumber(left) * toNumber(right);
+        case '/':
+        case '%': {
+          const divisor = toNumber(right);
+          if (divisor === 0) {
+            throw new FormulaError('Division by zero');
+          }
+          return node.operator === '/' ? toNumber(left) / divisor : toNumber(left) % divisor;
+        }
+        default:
+          throw new FormulaError(`Unknown operator "${node.operator}"`);
+      }
+    }
+
+    case 'conditional':
+      return toBoolean(evaluateFormula(node.test, values))
+        ? evaluateFormula(node.consequent, values)
+        : evaluateFormula(node.alternate, values);
+
+    case 'call': {
+      if (node.callee === 'if') {
+        if (node.args.length !== 3) {
+          throw new FormulaError('if() expects 3 arguments');
+        }
+        return toBoolean(evaluateFormula(node.args[0], values))
+          ? evaluateFormula(node.args[1], values)
+          : evaluateFormula(node.args[2], values);
+      }
+      if (!hasOwn(FUNCTIONS, node.callee)) {
+        throw new FormulaError(`Unknown function "${node.callee}"`);
+      }
+      return FUNCTIONS[node.callee](node.args.map(arg => evaluateFormula(arg, values)));
+    }
+  }
+};
+
+// Normalize a field name so "Hit Points", "hit points" and "hit_points" match
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_');
+
+// Build a lookup from field IDs and names to field IDs
+const buildFieldLookup = (fields: ScoresheetField[]) => {
+  const byId = new Map<string, string>();
+  const byName = new Map<string, string | null>();
+
+  fields.forEach(field => {
+    byId.set(field.id, field.id);
+    const name = normalizeName(field.name);
+    // A name shared by several fields is ambiguous and must be referenced by ID
+    byName.set(name, byName.has(name) ? null : field.id);
+  });
+
+  return (reference: string): string => {
+    if (byId.has(reference)) return byId.get(reference);
+
+    const name = normalizeName(reference);
+    if (byName.has(name)) {
+      const fieldId = byName.get(name);
+      if (fieldId === null) {
+        throw new FormulaError(`Field name "${reference}" is ambiguous, reference it by ID instead`);
+      }
+      return fieldId;
+    }
+
+    throw new FormulaError(`Unknown field "${reference}"`);
+  };
+};
+
+// Replace the references of a parsed formula with the IDs of the fields they name
+const resolveReferences = (node: FormulaNode, lookup: (reference: string) => string): FormulaNode => {
+  switch (node.type) {
+    case 'reference':
+      return { ...node, fieldId: lookup(node.name) };
+    case 'unary':
+      return { ...node, operand: resolveReferences(node.operand, lookup) };
+    case 'binary':
+      return { ...node, left: resolveReferences(node.left, lookup), right: resolveReferences(node.right, lookup) };
+    case 'conditional':
+      return {
+        ...node,
+        test: resolveReferences(node.test, lookup),
+        consequent: resolveReferences(node.consequent, lookup),
+        alternate: resolveReferences(node.alternate, lookup)
+      };
+    case 'call':
+      return { ...node, args: node.args.map(arg => resolveReferences(arg, lookup)) };
+    default:
+      return node;
+  }
+};
+
+// Collect the field IDs a resolved formula reads, without duplicates
+export const collectReferences = (node: FormulaNode, references: string[] = []): string[] => {
+  switch (node.type) {
+    case 'reference': {
+      const fieldId = node.fieldId || node.name;
+      if (!references.includes(fieldId)) references.push(fieldId);
+      break;
+    }
+    case 'unary':
+      collectReferences(node.operand, references);
+      break;
+    case 'binary':
+      collectReferences(node.left, references);
+      collectReferences(node.right, references);
+      break;
+    case 'conditional':
+      collectReferences(node.test, references);
+      collectReferences(node.consequent, references);
+      collectReferences(node.alternate, references);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectReferences(arg, references));
+      break;
+  }
+  return references;
+};
+
+// Parse a formula and resolve its references against the fields of a template
+export const compileFormula = (source: string, fields: ScoresheetField[]): CompiledFormula => {
+  const ast = resolveReferences(parseFormula(source), buildFieldLookup(fields));
+
+  return {
+    source,
+    ast,
+    references: collectReferences(ast)
+  };
+};
@@ -0,0 +1,229 @@
+import { ScoresheetField, ScoresheetPlayer } from './types';
+
+// Grid entry fills a sheet like a spreadsheet: every field outside of
+// rounds is a row, every player a column. The keyboard moves between cells
+// and blocks copied from a spreadsheet are pasted as tab separated values,
+// starting at the focused cell. A pasted block is only applied when every
+// one of its values fits its field.
+
+export interface GridCell {
+  row: number;
+  column: number;
+}
+
+export interface GridChange {
+  playerId: string;
+  fieldId: string;
+  value: any;
+}
+
+export interface PastePlan {
+  changes: GridChange[];
+  problems: string[];
+}
+
+// The range values of a field have to stay in for a player
+export interface GridRange {
+  min: number | null;
+  max: number | null;
+}
+
+// Calculations are worked out from other fields and dice values come from
+// rolls, so neither can be typed or pasted
+export const isGridEditable = (field: ScoresheetField): boolean => {
+  return field.type !== 'calculation' && field.type !== 'dice';
+};
+
+const TRUE_TEXTS = ['true', 'yes', 'y', 'x', '1', '✓'];
+const FALSE_TEXTS = ['false', 'no', 'n', '0', ''];
+
+// Move from a cell for a key press: arrows move one cell, Enter moves down
+// and Tab moves right, wrapping to the next row. Shift reverses Enter and
+// Tab. Null when the key does not move or the move would leave the grid.
+export const moveGridCell = (
+  cell: GridCell,
+  key: string,
+  shiftKey: boolean,
+  rowCount: number,
+  columnCount: number
+): GridCell | null => {
+  let { row, column } = cell;
+
+  switch (key) {
+    case 'ArrowUp':
+      row--;
+      break;
+    case 'ArrowDown':
+      row++;
+      break;
+    case 'ArrowLeft':
+      column--;
+      break;
+    case 'ArrowRight':
+      column++;
+      break;
+    case 'Enter':
+      row += shiftKey ? -1 : 1;
+      break;
+    case 'Tab':
+      column += shiftKey ? -1 : 1;
+      if (column >= columnCount) {
+        column = 0;
+        row++;
+      } else if (column < 0) {
+        column = columnCount - 1;
+        row--;
+      }
+      break;
+    default:
+      return null;
+  }
+
+  if (row < 0 || row >= rowCount || column < 0 || column >= columnCount) return null;
+  return { row, column };
+};
+
+// Split tab separated text into rows of cells. Cells in double quotes can
+// hold tabs, line breaks and doubled quotes, as spreadsheets copy them. The
+// line break ending the last row is ignored.
+export const parseTsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === '\t') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Whether pasted text is a block of cells rather than a single value
+export const isTsvBlock = (text: string): boolean => /[\t\n\r]/.test(text.replace(/[\r\n]+$/, ''));
+
+// Read the text of a cell as a value of its field. Numbers and trackers
+// have to be within their range and dropdowns one of their options, ignoring
+// case. Checkboxes take true/false, yes/no, x and 1/0.
+export const parseCellText = (
+  field: ScoresheetField,
+  text: string,
+  range: GridRange = { min: field.min ?? null, max: field.max ?? null }
+): { value?: any; error?: string } => {
+  const trimmed = text.trim();
+
+  switch (field.type) {
+    case 'number':
+    case 'tracker': {
+      if (trimmed === '') return { value: 0 };
+
+      const value = Number(trimmed);
+      if (!Number.isFinite(value)) {
+        return { error: `"${trimmed}" is not a number` };
+      }
+      if (range.min !== null && value < range.min) {
+        return { error: `${value} is below the minimum of ${range.min}` };
+      }
+      if (range.max !== null && value > range.max) {
+        return { error: `${value} is above the maximum of ${range.max}` };
+      }
+      return { value };
+    }
+
+    case 'checkbox': {
+      const lower = trimmed.toLowerCase();
+      if (TRUE_TEXTS.includes(lower)) return { value: true };
+      if (FALSE_TEXTS.includes(lower)) return { value: false };
+      return { error: `"${trimmed}" is not yes or no` };
+    }
+
+    case 'dropdown': {
+      const option = field.options?.find(option => option.toLowerCase() === trimmed.toLowerCase());
+      if (option === undefined) {
+        return { error: `"${trimmed}" is not one of ${(field.options || []).join(', ')}` };
+      }
+      return { value: option };
+    }
+
+    case 'text':
+      return { value: text };
+
+    default:
+      return { error: `${field.name} cannot be entered` };
+  }
+};
+
+// Work out the changes of pasting a block at a cell of the grid. Rows of the
+// block go down the fields and its columns across the players. Empty cells,
+// calculations, dice and fields hidden for a player are left as they are.
+// Nothing is changed when the block does not fit the grid or any value does
+// not fit its field.
+export const planPaste = (
+  block: string[][],
+  fields: ScoresheetField[],
+  players: ScoresheetPlayer[],
+  start: GridCell,
+  options: {
+    hidden?: Record<string, Set<string>>;
+    getRange?: (field: ScoresheetField, playerId: string) => GridRange;
+  } = {}
+): PastePlan => {
+  const changes: GridChange[] = [];
+  const problems: string[] = [];
+
+  const width = Math.max(0, ...block.map(row => row.length));
+  if (start.row + block.length > fields.length || start.column + width > players.length) {
+    problems.push(
+      `The pasted block is ${block.length} × ${width} cells, but only ${fields.length - start.row} × ` +
+      `${players.length - start.column} fit from the selected cell`
+    );
+    return { changes: [], problems };
+  }
+
+  block.forEach((cells, rowOffset) => {
+    const field = fields[start.row + rowOffset];
+
+    cells.forEach((text, columnOffset) => {
+      const player = players[start.column + columnOffset];
+      if (text.trim() === '' || !isGridEditable(field) || options.hidden?.[player.id]?.has(field.id)) return;
+
+      const { value, error } = parseCellText(field, text, options.getRange?.(field, player.id));
+      if (error) {
+        problems.push(`${field.name}, ${player.name}: ${error}`);
+      } else {
+        changes.push({ playerId: player.id, fieldId: field.id, value });
+      }
+    });
+  });
+
+  return problems.length > 0 ? { changes: [], problems } : { changes, problems };
+};
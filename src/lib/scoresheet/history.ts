@@ -0,0 +1,111 @@
+import { isDiceRoll } from './dice';
+import { ValueChangeEvent } from './types';
+
+// Edit history of session values. Every change of an entered value is an
+// event; undo and redo are events too, so the history only ever grows and
+// the undo and redo stacks can be rebuilt from it after a reload.
+
+export interface UndoState {
+  // Changes that can be undone or redone, the next one last
+  undo: ValueChangeEvent[];
+  redo: ValueChangeEvent[];
+}
+
+// Keystrokes typed into the same cell within this time are one change
+const MERGE_WINDOW_MS = 2000;
+
+const isSameCell = (a: ValueChangeEvent, b: ValueChangeEvent) => {
+  return a.playerId === b.playerId && a.fieldId === b.fieldId && a.round === b.round;
+};
+
+const isSameValue = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+export const createChange = (
+  playerId: string,
+  fieldId: string,
+  previous: any,
+  value: any,
+  editor: string,
+  round?: number
+): ValueChangeEvent => ({
+  id: crypto.randomUUID(),
+  playerId,
+  fieldId,
+  ...(round !== undefined ? { round } : {}),
+  previous: previous ?? null,
+  value: value ?? null,
+  changedAt: new Date().toISOString(),
+  editor,
+  action: 'edit'
+});
+
+// Add an edit to the changes not saved yet. An edit of the same cell right
+// after the last one is merged into it, and dropped when it restores the
+// value from before.
+export const recordChange = (pending: ValueChangeEvent[], change: ValueChangeEvent): ValueChangeEvent[] => {
+  if (isSameValue(change.previous, change.value)) return pending;
+
+  const last = pending[pending.length - 1];
+  const mergeable = last && last.action === 'edit' && isSameCell(last, change) && last.editor === change.editor &&
+    Date.parse(change.changedAt) - Date.parse(last.changedAt) < MERGE_WINDOW_MS;
+
+  if (!mergeable) return [...pending, change];
+
+  const rest = pending.slice(0, -1);
+  if (isSameValue(last.previous, change.value)) return rest;
+
+  return [...rest, { ...last, value: change.value, changedAt: change.changedAt }];
+};
+
+// Replay the history to find the changes that can be undone and redone.
+// A new edit clears the redo stack.
+export const getUndoState = (history: ValueChangeEvent[]): UndoState => {
+  const byId: Record<string, ValueChangeEvent> = {};
+  let undo: ValueChangeEvent[] = [];
+  let redo: ValueChangeEvent[] = [];
+
+  history.forEach(event => {
+    byId[event.id] = event;
+    const target = byId[event.targetId];
+
+    if (event.action === 'edit') {
+      undo.push(event);
+      redo = [];
+    } else if (event.action === 'undo' && target) {
+      undo = undo.filter(change => change.id !== target.id);
+      redo.push(target);
+    } else if (event.action === 'redo' && target) {
+      redo = redo.filter(change => change.id !== target.id);
+      undo.push(target);
+    }
+  });
+
+  return { undo, redo };
+};
+
+// The event undoing a change sets the cell back to its previous value
+export const revertChange = (target: ValueChangeEvent, editor: string): ValueChangeEvent => ({
+  ...createChange(target.playerId, target.fieldId, target.value, target.previous, editor, target.round),
+  action: 'undo',
+  targetId: target.id
+});
+
+// The event redoing an undone change sets the cell to its value again
+export const repeatChange = (target: ValueChangeEvent, editor: string): ValueChangeEvent => ({
+  ...createChange(target.playerId, target.fieldId, target.previous, target.value, editor, target.round),
+  action: 'redo',
+  targetId: target.id
+});
+
+// Get the changes of one field, optionally for one player only
+export const getFieldHistory = (history: ValueChangeEvent[], fieldId: string, playerId?: string): ValueChangeEvent[] => {
+  return history.filter(event => event.fieldId === fieldId && (playerId === undefined || event.playerId === playerId));
+};
+
+// Describe a value for the history panel
+export const describeValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (isDiceRoll(value)) return `${value.total} (${value.notation})`;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
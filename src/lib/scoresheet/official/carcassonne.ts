@@ -0,0 +1,46 @@
+import { OfficialTemplate } from '../types';
+
+// Carcassonne: features completed during the game, then incomplete
+// features and farms at the end of the game.
+
+const points = (id: string, name: string) => ({ id, name, type: 'number' as const, defaultValue: 0, min: 0 });
+
+export const carcassonne: OfficialTemplate = {
+  id: 'official-carcassonne',
+  name: 'Carcassonne',
+  game: { id: 'carcassonne', name: 'Carcassonne', minPlayers: 2, maxPlayers: 5, category: 'Tile Placement' },
+  subcategories: [
+    {
+      id: 'during_game',
+      name: 'During the Game',
+      fields: [
+        points('completed_cities', 'Completed Cities'),
+        points('completed_roads', 'Completed Roads'),
+        points('completed_monasteries', 'Completed Monasteries')
+      ]
+    },
+    {
+      id: 'end_of_game',
+      name: 'End of Game',
+      fields: [
+        points('incomplete_cities', 'Incomplete Cities'),
+        points('incomplete_roads', 'Incomplete Roads'),
+        points('incomplete_monasteries', 'Incomplete Monasteries'),
+        points('farms', 'Farms')
+      ]
+    },
+    {
+      id: 'totals',
+      name: 'Totals',
+      fields: [
+        {
+          id: 'total',
+          name: 'Total',
+          type: 'calculation',
+          formula: 'completed_cities + completed_roads + completed_monasteries + incomplete_cities + ' +
+            'incomplete_roads + incomplete_monasteries + farms'
+        }
+      ]
+    }
+  ]
+};
@@ -0,0 +1,43 @@
+import { OfficialTemplate } from '../types';
+
+// Catan: victory points from buildings, the special cards and development
+// cards. The first player to reach 10 points on their turn wins; when a
+// game is ended early, holding the Longest Road breaks ties.
+
+export const catan: OfficialTemplate = {
+  id: 'official-catan',
+  name: 'Catan',
+  game: { id: 'catan', name: 'Catan', minPlayers: 3, maxPlayers: 4, category: 'Strategy' },
+  subcategories: [
+    {
+      id: 'buildings',
+      name: 'Buildings',
+      fields: [
+        { id: 'settlements', name: 'Settlements', type: 'number', defaultValue: 2, min: 0, max: 5, validation: [{ type: 'range', min: 0, max: 5 }] },
+        { id: 'cities', name: 'Cities', type: 'number', defaultValue: 0, min: 0, max: 4, validation: [{ type: 'range', min: 0, max: 4 }] }
+      ]
+    },
+    {
+      id: 'special',
+      name: 'Special Cards',
+      fields: [
+        { id: 'longest_road', name: 'Longest Road', type: 'checkbox', defaultValue: false },
+        { id: 'largest_army', name: 'Largest Army', type: 'checkbox', defaultValue: false },
+        { id: 'victory_point_cards', name: 'Victory Point Cards', type: 'number', defaultValue: 0, min: 0, max: 5, validation: [{ type: 'range', min: 0, max: 5 }] }
+      ]
+    },
+    {
+      id: 'totals',
+      name: 'Totals',
+      fields: [
+        {
+          id: 'total',
+          name: 'Victory Points',
+          type: 'calculation',
+          formula: 'settlements + cities * 2 + if(longest_road, 2, 0) + if(largest_army, 2, 0) + victory_point_cards'
+        }
+      ]
+    }
+  ],
+  winCondition: { totalFieldId: 'total', tiebreaks: [{ fieldId: 'longest_road' }] }
+};
@@ -0,0 +1,203 @@
+import { ABILITIES, CLASSES, SKILLS } from '../dnd5e';
+import { OfficialTemplate, ScoresheetField } from '../types';
+
+// D&D 5e character sheet. Everything the rules derive (modifiers,
+// proficiency, skills, saves, spellcasting and hit points) is a calculation
+// using the rule functions of dnd5e.ts, so the sheet follows level, class
+// and ability scores. Spell slots and hit points are trackers capped by the
+// rules; levelling up refills them.
+
+const ABBREVIATIONS: Record<string, string> = {
+  strength: 'str',
+  dexterity: 'dex',
+  constitution: 'con',
+  intelligence: 'int',
+  wisdom: 'wis',
+  charisma: 'cha'
+};
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+const skillName = (skill: string) => skill.split('_').map(word => word === 'of' ? word : capitalize(word)).join(' ');
+
+const abilityScore = (ability: string): ScoresheetField => ({
+  id: ability,
+  name: capitalize(ability),
+  type: 'number',
+  defaultValue: 10,
+  min: 1,
+  max: 30
+});
+
+const abilityModifier = (ability: string): ScoresheetField => ({
+  id: `${ABBREVIATIONS[ability]}_mod`,
+  name: `${capitalize(ability)} Modifier`,
+  type: 'calculation',
+  formula: `ability_modifier(${ability})`
+});
+
+// Saves are proficient by class, or ticked for proficiencies from elsewhere
+const savingThrow = (ability: string): ScoresheetField[] => {
+  const id = `${ABBREVIATIONS[ability]}_save`;
+  return [
+    { id: `${id}_prof`, name: `${capitalize(ability)} Save Proficiency`, type: 'checkbox', defaultValue: false },
+    {
+      id,
+      name: `${capitalize(ability)} Saving Throw`,
+      type: 'calculation',
+      formula: `saving_throw(${ability}, level, ${id}_prof || save_proficiency(class, "${capitalize(ability)}"))`
+    }
+  ];
+};
+
+const skill = ([id, ability]: [string, string]): ScoresheetField[] => [
+  { id: `${id}_prof`, name: `${skillName(id)} Proficiency`, type: 'checkbox', defaultValue: false },
+  {
+    id,
+    name: `${skillName(id)} (${capitalize(ABBREVIATIONS[ability])})`,
+    type: 'calculation',
+    formula: `skill_modifier(${ability}, level, ${id}_prof)`
+  }
+];
+
+const spellSlots = (slotLevel: number): ScoresheetField => ({
+  id: `level${slotLevel}_slots`,
+  name: `Level ${slotLevel} Slots`,
+  type: 'tracker',
+  // Trackers are capped by their maximum, so the slots start full
+  defaultValue: 4,
+  min: 0,
+  maxFormula: `spell_slots(class, level, ${slotLevel})`,
+  visibleWhen: `spell_slots(class, level, ${slotLevel}) > 0`
+});
+
+const IS_SPELLCASTER = 'spellcasting_ability(class) != ""';
+
+export const dnd5e: OfficialTemplate = {
+  id: 'official-dnd-5e',
+  name: 'D&D 5e Character Sheet',
+  game: { id: 'dnd-5e', name: 'Dungeons & Dragons 5th Edition', minPlayers: 1, maxPlayers: 8, category: 'Role-Playing' },
+  subcategories: [
+    {
+      id: 'character',
+      name: 'Character Information',
+      fields: [
+        { id: 'character_name', name: 'Character Name', type: 'text', defaultValue: '' },
+        { id: 'class', name: 'Class', type: 'dropdown', options: Object.values(CLASSES).map(rules => rules.name) },
+        { id: 'race', name: 'Race', type: 'text', defaultValue: '' },
+        { id: 'background', name: 'Background', type: 'text', defaultValue: '' },
+        {
+          id: 'alignment',
+          name: 'Alignment',
+          type: 'dropdown',
+          options: ['Lawful Good', 'Neutral Good', 'Chaotic Good', 'Lawful Neutral', 'True Neutral',
+            'Chaotic Neutral', 'Lawful Evil', 'Neutral Evil', 'Chaotic Evil']
+        },
+        { id: 'experience', name: 'Experience Points', type: 'number', defaultValue: 0, min: 0 },
+        { id: 'level', name: 'Level', type: 'number', defaultValue: 1, min: 1, max: 20 },
+        { id: 'proficiency_bonus', name: 'Proficiency Bonus', type: 'calculation', formula: 'proficiency_bonus(level)' }
+      ]
+    },
+    {
+      id: 'abilities',
+      name: 'Ability Scores',
+      fields: [...ABILITIES.map(abilityScore), ...ABILITIES.map(abilityModifier)]
+    },
+    {
+      id: 'saving_throws',
+      name: 'Saving Throws',
+      fields: ABILITIES.flatMap(savingThrow)
+    },
+    {
+      id: 'skills',
+      name: 'Skills',
+      fields: [
+        ...Object.entries(SKILLS).flatMap(skill),
+        {
+          id: 'passive_perception',
+          name: 'Passive Perception',
+          type: 'calculation',
+          formula: 'passive_score(wisdom, level, perception_prof)'
+        }
+      ]
+    },
+    {
+      id: 'combat',
+      name: 'Combat Stats',
+      fields: [
+        { id: 'armor_class', name: 'Armor Class', type: 'number', defaultValue: 10 },
+        { id: 'initiative', name: 'Initiative', type: 'calculation', formula: 'dex_mod' },
+        { id: 'speed', name: 'Speed', type: 'number', defaultValue: 30 },
+        // Hit points rolled on level up instead of taking the fixed value,
+        // and bonuses such as the Tough feat
+        { id: 'hp_adjustment', name: 'Hit Point Adjustment', type: 'number', defaultValue: 0 },
+        {
+          id: 'hit_point_max',
+          name: 'Hit Point Maximum',
+          type: 'calculation',
+          formula: 'hit_point_maximum(class, level, constitution) + hp_adjustment'
+        },
+        {
+          id: 'current_hit_points',
+          name: 'Current Hit Points',
+          type: 'tracker',
+          defaultValue: 10,
+          min: 0,
+          maxFormula: 'hit_point_max'
+        },
+        { id: 'temporary_hit_points', name: 'Temporary Hit Points', type: 'number', defaultValue: 0, min: 0 },
+        { id: 'hit_dice', name: 'Hit Die Size', type: 'calculation', formula: 'hit_die(class)' }
+      ]
+    },
+    {
+      id: 'spellcasting',
+      name: 'Spellcasting',
+      fields: [
+        {
+          id: 'spellcasting_ability',
+          name: 'Spellcasting Ability',
+          type: 'calculation',
+          formula: 'spellcasting_ability(class)',
+          visibleWhen: IS_SPELLCASTER
+        },
+        {
+          id: 'spell_save_dc',
+          name: 'Spell Save DC',
+          type: 'calculation',
+          formula: 'spell_save_dc(class, level, intelligence, wisdom, charisma)',
+          visibleWhen: IS_SPELLCASTER
+        },
+        {
+          id: 'spell_attack_bonus',
+          name: 'Spell Attack Bonus',
+          type: 'calculation',
+          formula: 'spell_attack_bonus(class, level, intelligence, wisdom, charisma)',
+          visibleWhen: IS_SPELLCASTER
+        },
+        { id: 'cantrips', name: 'Cantrips', type: 'text', defaultValue: '', visibleWhen: IS_SPELLCASTER },
+        ...[1, 2, 3, 4, 5, 6, 7, 8, 9].map(spellSlots)
+      ]
+    },
+    {
+      id: 'equipment',
+      name: 'Equipment',
+      fields: [
+        { id: 'copper', name: 'Copper (CP)', type: 'number', defaultValue: 0 },
+        { id: 'silver', name: 'Silver (SP)', type: 'number', defaultValue: 0 },
+        { id: 'electrum', name: 'Electrum (EP)', type: 'number', defaultValue: 0 },
+        { id: 'gold', name: 'Gold (GP)', type: 'number', defaultValue: 0 },
+        { id: 'platinum', name: 'Platinum (PP)', type: 'number', defaultValue: 0 },
+        { id: 'equipment_list', name: 'Equipment List', type: 'text', defaultValue: '' }
+      ]
+    },
+    {
+      id: 'features',
+      name: 'Features & Traits',
+      fields: [
+        { id: 'features', name: 'Features & Traits', type: 'text', defaultValue: '' },
+        { id: 'proficiencies', name: 'Proficiencies', type: 'text', defaultValue: '' },
+        { id: 'languages', name: 'Languages', type: 'text', defaultValue: '' }
+      ]
+    }
+  ]
+};
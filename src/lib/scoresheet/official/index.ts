@@ -0,0 +1,24 @@
+import { OfficialTemplate } from '../types';
+import { carcassonne } from './carcassonne';
+import { catan } from './catan';
+import { dnd5e } from './dnd5e';
+import { scrabble } from './scrabble';
+import { sevenWonders } from './sevenWonders';
+import { ticketToRide } from './ticketToRide';
+import { wingspan } from './wingspan';
+import { yahtzee } from './yahtzee';
+
+// The official template library. Templates are installed by migration and
+// kept up to date with scripts/seed-official-templates.ts; changing a
+// template here and seeding again stores it as a new version.
+
+export const OFFICIAL_TEMPLATES: OfficialTemplate[] = [
+  yahtzee,
+  catan,
+  sevenWonders,
+  ticketToRide,
+  scrabble,
+  carcassonne,
+  wingspan,
+  dnd5e
+];
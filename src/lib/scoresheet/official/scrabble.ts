@@ -0,0 +1,50 @@
+import { OfficialTemplate } from '../types';
+
+// Scrabble: a score per turn, then the letters left on each rack are
+// subtracted and a player who used all their tiles adds everyone else's.
+
+export const scrabble: OfficialTemplate = {
+  id: 'official-scrabble',
+  name: 'Scrabble',
+  game: { id: 'scrabble', name: 'Scrabble', minPlayers: 2, maxPlayers: 4, category: 'Word' },
+  subcategories: [
+    {
+      id: 'turns',
+      name: 'Turns',
+      rounds: { count: 10, openEnded: true, totalFieldId: 'turn_total' },
+      fields: [
+        { id: 'word_score', name: 'Score', type: 'number', defaultValue: 0, min: 0 },
+        { id: 'bingo', name: 'Bingo (all 7 tiles)', type: 'checkbox', defaultValue: false },
+        { id: 'turn_total', name: 'Turn Total', type: 'calculation', formula: 'word_score + if(bingo, 50, 0)' }
+      ]
+    },
+    {
+      id: 'end',
+      name: 'End of Game',
+      fields: [
+        { id: 'tiles_left', name: 'Value of Tiles Left', type: 'number', defaultValue: 0, min: 0 },
+        { id: 'went_out', name: 'Used All Tiles', type: 'checkbox', defaultValue: false },
+        {
+          id: 'opponent_tiles',
+          name: "Value of Opponents' Tiles",
+          type: 'number',
+          defaultValue: 0,
+          min: 0,
+          visibleWhen: 'went_out'
+        }
+      ]
+    },
+    {
+      id: 'totals',
+      name: 'Totals',
+      fields: [
+        {
+          id: 'total',
+          name: 'Final Score',
+          type: 'calculation',
+          formula: 'sum(turn_total) - tiles_left + if(went_out, opponent_tiles, 0)'
+        }
+      ]
+    }
+  ]
+};
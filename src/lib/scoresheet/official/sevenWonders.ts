@@ -0,0 +1,69 @@
+import { OfficialTemplate } from '../types';
+
+// 7 Wonders: seven scoring categories. Science scores the square of each
+// symbol count plus 7 points per complete set of three different symbols.
+// Ties go to the player with the most coins.
+
+const points = (id: string, name: string) => ({ id, name, type: 'number' as const, defaultValue: 0, min: 0 });
+
+export const sevenWonders: OfficialTemplate = {
+  id: 'official-7-wonders',
+  name: '7 Wonders',
+  game: { id: '7-wonders', name: '7 Wonders', minPlayers: 3, maxPlayers: 7, category: 'Card Drafting' },
+  subcategories: [
+    {
+      id: 'military',
+      name: 'Military',
+      fields: [
+        // Each age's defeats cost a point, so the total can be negative
+        { id: 'military', name: 'Military Conflicts', type: 'number', defaultValue: 0, min: -6, max: 18 }
+      ]
+    },
+    {
+      id: 'treasury',
+      name: 'Treasury',
+      fields: [
+        points('coins', 'Coins'),
+        { id: 'treasury', name: 'Treasury Points', type: 'calculation', formula: 'floor(coins / 3)' }
+      ]
+    },
+    {
+      id: 'buildings',
+      name: 'Wonder and Buildings',
+      fields: [
+        points('wonder', 'Wonder Stages'),
+        points('civilian', 'Civilian Structures'),
+        points('commercial', 'Commercial Structures'),
+        points('guilds', 'Guilds')
+      ]
+    },
+    {
+      id: 'science',
+      name: 'Scientific Structures',
+      fields: [
+        points('compasses', 'Compasses'),
+        points('gears', 'Gears'),
+        points('tablets', 'Tablets'),
+        {
+          id: 'science',
+          name: 'Science Points',
+          type: 'calculation',
+          formula: 'compasses * compasses + gears * gears + tablets * tablets + 7 * min(compasses, gears, tablets)'
+        }
+      ]
+    },
+    {
+      id: 'totals',
+      name: 'Totals',
+      fields: [
+        {
+          id: 'total',
+          name: 'Total',
+          type: 'calculation',
+          formula: 'military + treasury + wonder + civilian + commercial + guilds + science'
+        }
+      ]
+    }
+  ],
+  winCondition: { totalFieldId: 'total', tiebreaks: [{ fieldId: 'coins' }] }
+};
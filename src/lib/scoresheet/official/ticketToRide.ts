@@ -0,0 +1,63 @@
+import { OfficialTemplate } from '../types';
+
+// Ticket to Ride: routes score by length, completed destination tickets
+// add their value and unfinished ones subtract it. The longest continuous
+// path earns a 10 point bonus.
+
+// Points for a claimed route of each length
+const ROUTE_POINTS = [1, 2, 4, 7, 10, 15];
+
+export const ticketToRide: OfficialTemplate = {
+  id: 'official-ticket-to-ride',
+  name: 'Ticket to Ride',
+  game: { id: 'ticket-to-ride', name: 'Ticket to Ride', minPlayers: 2, maxPlayers: 5, category: 'Route Building' },
+  subcategories: [
+    {
+      id: 'routes',
+      name: 'Claimed Routes',
+      fields: [
+        ...ROUTE_POINTS.map((_, index) => ({
+          id: `routes_${index + 1}`,
+          name: `Length ${index + 1} Routes`,
+          type: 'number' as const,
+          defaultValue: 0,
+          min: 0
+        })),
+        {
+          id: 'route_points',
+          name: 'Route Points',
+          type: 'calculation',
+          formula: ROUTE_POINTS.map((routePoints, index) => `routes_${index + 1} * ${routePoints}`).join(' + ')
+        },
+        {
+          id: 'trains_used',
+          name: 'Trains Used',
+          type: 'calculation',
+          formula: ROUTE_POINTS.map((_, index) => `routes_${index + 1} * ${index + 1}`).join(' + ')
+        }
+      ]
+    },
+    {
+      id: 'tickets',
+      name: 'Destination Tickets',
+      fields: [
+        { id: 'tickets_completed', name: 'Completed Tickets', type: 'number', defaultValue: 0, min: 0 },
+        { id: 'tickets_failed', name: 'Unfinished Tickets', type: 'number', defaultValue: 0, min: 0 },
+        { id: 'longest_path', name: 'Longest Continuous Path', type: 'checkbox', defaultValue: false }
+      ]
+    },
+    {
+      id: 'totals',
+      name: 'Totals',
+      fields: [
+        {
+          id: 'total',
+          name: 'Total',
+          type: 'calculation',
+          formula: 'route_points + tickets_completed - tickets_failed + if(longest_path, 10, 0)',
+          validation: [{ type: 'check', formula: 'trains_used <= 45', message: 'Each player only has 45 trains' }]
+        }
+      ]
+    }
+  ]
+};
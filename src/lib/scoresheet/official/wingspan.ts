@@ -0,0 +1,46 @@
+import { OfficialTemplate } from '../types';
+
+// Wingspan: the six rows of the score pad, plus nectar for games with the
+// Oceania expansion.
+
+const points = (id: string, name: string) => ({ id, name, type: 'number' as const, defaultValue: 0, min: 0 });
+
+export const wingspan: OfficialTemplate = {
+  id: 'official-wingspan',
+  name: 'Wingspan',
+  game: { id: 'wingspan', name: 'Wingspan', minPlayers: 1, maxPlayers: 5, category: 'Engine Building' },
+  subcategories: [
+    {
+      id: 'score_pad',
+      name: 'Score Pad',
+      fields: [
+        points('birds', 'Birds'),
+        points('bonus_cards', 'Bonus Cards'),
+        points('round_goals', 'End-of-Round Goals'),
+        points('eggs', 'Eggs'),
+        points('cached_food', 'Food on Cards'),
+        points('tucked_cards', 'Tucked Cards')
+      ]
+    },
+    {
+      id: 'expansions',
+      name: 'Expansions',
+      fields: [
+        { id: 'oceania', name: 'Oceania Expansion', type: 'checkbox', defaultValue: false },
+        { ...points('nectar', 'Nectar'), visibleWhen: 'oceania' }
+      ]
+    },
+    {
+      id: 'totals',
+      name: 'Totals',
+      fields: [
+        {
+          id: 'total',
+          name: 'Total',
+          type: 'calculation',
+          formula: 'birds + bonus_cards + round_goals + eggs + cached_food + tucked_cards + if(oceania, nectar, 0)'
+        }
+      ]
+    }
+  ]
+};
@@ -0,0 +1,91 @@
+import { OfficialTemplate } from '../types';
+
+// Yahtzee: the upper section scores each die face, with a 35 point bonus
+// for 63 or more; the lower section scores the combinations.
+
+const face = (id: string, name: string, value: number) => ({
+  id,
+  name,
+  type: 'number' as const,
+  defaultValue: 0,
+  min: 0,
+  max: value * 5,
+  ...(value > 1 ? {
+    validation: [{
+      type: 'check' as const,
+      formula: `${id} % ${value} == 0`,
+      message: `${name} scores a multiple of ${value}`
+    }]
+  } : {})
+});
+
+// Fixed-score boxes score either nothing or their full value
+const fixedBox = (id: string, name: string, points: number) => ({
+  id,
+  name,
+  type: 'number' as const,
+  defaultValue: 0,
+  validation: [{
+    type: 'check' as const,
+    formula: `${id} == 0 || ${id} == ${points}`,
+    message: `${name} scores 0 or ${points}`
+  }]
+});
+
+export const yahtzee: OfficialTemplate = {
+  id: 'official-yahtzee',
+  name: 'Yahtzee',
+  game: { id: 'yahtzee', name: 'Yahtzee', minPlayers: 1, maxPlayers: 10, category: 'Dice' },
+  subcategories: [
+    {
+      id: 'upper',
+      name: 'Upper Section',
+      fields: [
+        face('ones', 'Ones', 1),
+        face('twos', 'Twos', 2),
+        face('threes', 'Threes', 3),
+        face('fours', 'Fours', 4),
+        face('fives', 'Fives', 5),
+        face('sixes', 'Sixes', 6),
+        { id: 'upper_subtotal', name: 'Upper Subtotal', type: 'calculation', formula: 'ones + twos + threes + fours + fives + sixes' },
+        { id: 'upper_bonus', name: 'Upper Bonus', type: 'calculation', formula: 'if(upper_subtotal >= 63, 35, 0)' }
+      ]
+    },
+    {
+      id: 'lower',
+      name: 'Lower Section',
+      fields: [
+        { id: 'three_of_a_kind', name: 'Three of a Kind', type: 'number', defaultValue: 0, min: 0, max: 30 },
+        { id: 'four_of_a_kind', name: 'Four of a Kind', type: 'number', defaultValue: 0, min: 0, max: 30 },
+        fixedBox('full_house', 'Full House', 25),
+        fixedBox('small_straight', 'Small Straight', 30),
+        fixedBox('large_straight', 'Large Straight', 40),
+        fixedBox('yahtzee', 'Yahtzee', 50),
+        { id: 'chance', name: 'Chance', type: 'number', defaultValue: 0, min: 0, max: 30 },
+        {
+          id: 'yahtzee_bonus_count',
+          name: 'Extra Yahtzees',
+          type: 'number',
+          defaultValue: 0,
+          min: 0,
+          max: 12,
+          visibleWhen: 'yahtzee == 50'
+        },
+        { id: 'yahtzee_bonus', name: 'Yahtzee Bonus', type: 'calculation', formula: 'if(yahtzee == 50, yahtzee_bonus_count * 100, 0)' }
+      ]
+    },
+    {
+      id: 'totals',
+      name: 'Totals',
+      fields: [
+        {
+          id: 'total',
+          name: 'Grand Total',
+          type: 'calculation',
+          formula: 'upper_subtotal + upper_bonus + three_of_a_kind + four_of_a_kind + full_house + small_straight + ' +
+            'large_straight + yahtzee + chance + yahtzee_bonus'
+        }
+      ]
+    }
+  ]
+};
@@ -0,0 +1,398 @@
+import { LocalStore } from '../offline/storage';
+import { calculateFields } from './calculations';
+import { buildPlayerValues, flattenPlayerValues, getSessionPlayers } from './players';
+import { getTemplateFields } from './template';
+import { PlayerValues, ScoresheetSession, ScoresheetSubcategory, ScoresheetTemplate, ValueChangeEvent } from './types';
+import { upgradeSessionValues } from './versions';
+
+// Offline copies of scoresheet sessions. Every session is autosaved on the
+// device together with the values it last synced with the server (its
+// base). Sessions with unsynced changes wait in a queue until the server can
+// be reached again. The server may have changed in the meantime, so syncing
+// merges the values cell by cell: a cell changed on one side only takes
+// that change, and a cell changed on both sides keeps the later change.
+// The merged values are saved against the revision they were merged with,
+// and merged again when another device saved in between.
+
+export interface LocalSession {
+  // The session as last loaded from the server
+  session: ScoresheetSession;
+  gameName: string;
+  values: PlayerValues;
+  base: PlayerValues;
+  history: ValueChangeEvent[];
+  pendingChanges: ValueChangeEvent[];
+  savedAt: string;
+  syncedAt?: string;
+}
+
+// A cell changed on this device and on another one since the last sync
+export interface SyncConflict {
+  playerId: string;
+  fieldId: string;
+  round?: number;
+  local: any;
+  remote: any;
+  kept: 'local' | 'remote';
+}
+
+export interface SyncResult {
+  record: LocalSession;
+  template: ScoresheetTemplate;
+  // Values of the device the sync started from, to rebase later edits on
+  snapshot: PlayerValues;
+  conflicts: SyncConflict[];
+}
+
+// Raised when a sync fails. Offline errors are retried once the connection
+// is back; other errors need the user to fix the session first.
+export class SyncError extends Error {
+  offline: boolean;
+  // HTTP status of a rejected request
+  status?: number;
+
+  constructor(message: string, offline: boolean, status?: number) {
+    super(message);
+    this.name = 'SyncError';
+    this.offline = offline;
+    this.status = status;
+  }
+}
+
+const SYNC_QUEUE_KEY = 'sync-queue';
+
+// Times a sync merges again after another device saved during it
+const MAX_SYNC_ATTEMPTS = 3;
+
+// Delay before syncing sessions again that other devices kept saving during
+// their sync
+export const SYNC_RETRY_DELAY_MS = 30 * 1000;
+
+const sessionKey = (sessionId: string) => `session:${sessionId}`;
+const templateKey = (templateId: string, version: number) => `template:${templateId}:${version}`;
+
+const isSameValue = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export const loadLocalSession = (store: LocalStore, sessionId: string) => {
+  return store.get<LocalSession>(sessionKey(sessionId));
+};
+
+export const saveLocalSession = async (store: LocalStore, record: LocalSession) => {
+  await store.set(sessionKey(record.session.id), record);
+};
+
+export const loadLocalTemplate = (store: LocalStore, templateId: string, version: number) => {
+  return store.get<ScoresheetTemplate>(templateKey(templateId, version));
+};
+
+export const saveLocalTemplate = async (store: LocalStore, template: ScoresheetTemplate) => {
+  await store.set(templateKey(template.id, template.version || 1), template);
+};
+
+export const hasUnsyncedChanges = (record: LocalSession): boolean => {
+  return record.pendingChanges.length > 0 || !isSameValue(record.values, record.base);
+};
+
+export const getSyncQueue = async (store: LocalStore): Promise<string[]> => {
+  return (await store.get<string[]>(SYNC_QUEUE_KEY)) || [];
+};
+
+export const queueSync = async (store: LocalStore, sessionId: string) => {
+  const queue = await getSyncQueue(store);
+  if (!queue.includes(sessionId)) {
+    await store.set(SYNC_QUEUE_KEY, [...queue, sessionId]);
+  }
+};
+
+const dequeueSync = async (store: LocalStore, sessionId: string) => {
+  const queue = await getSyncQueue(store);
+  await store.set(SYNC_QUEUE_KEY, queue.filter(id => id !== sessionId));
+};
+
+// Latest time a cell was changed by the given changes, if at all
+const getLastChangedAt = (changes: ValueChangeEvent[], playerId: string, fieldId: string, round?: number) => {
+  return changes
+    .filter(change => change.playerId === playerId && change.fieldId === fieldId && change.round === round)
+    .reduce<string | null>((latest, change) => latest && latest > change.changedAt ? latest : change.changedAt, null);
+};
+
+// Merge the values of this device and of the server, given the values both
+// started from. Calculations are worked out again from the merged values.
+export const mergeSessionValues = (
+  subcategories: ScoresheetSubcategory[],
+  base: PlayerValues,
+  local: PlayerValues,
+  remote: PlayerValues,
+  localChanges: ValueChangeEvent[],
+  remoteChanges: ValueChangeEvent[]
+): { values: PlayerValues; conflicts: SyncConflict[] } => {
+  const calculated = new Set(getTemplateFields(subcategories)
+    .filter(field => field.type === 'calculation')
+    .map(field => field.id));
+  const values: PlayerValues = {};
+  const conflicts: SyncConflict[] = [];
+
+  const mergeCell = (playerId: string, fieldId: string, baseValue: any, localValue: any, remoteValue: any, round?: number) => {
+    if (isSameValue(localValue, remoteValue) || isSameValue(remoteValue, baseValue)) return localValue;
+    if (isSameValue(localValue, baseValue)) return remoteValue;
+
+    // Changed on both sides: the later change wins, this device when the
+    // server has no time for its change
+    const localTime = getLastChangedAt(localChanges, playerId, fieldId, round);
+    const remoteTime = getLastChangedAt(remoteChanges, playerId, fieldId, round);
+    const kept = remoteTime && (!localTime || remoteTime > localTime) ? 'remote' : 'local';
+
+    conflicts.push({ playerId, fieldId, ...(round !== undefined ? { round } : {}), local: localValue, remote: remoteValue, kept });
+    return kept === 'local' ? localValue : remoteValue;
+  };
+
+  const playerIds = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  playerIds.forEach(playerId => {
+    const baseValues = base[playerId] || {};
+    const localValues = local[playerId] || {};
+    const remoteValues = remote[playerId] || {};
+    const merged: Record<string, any> = {};
+
+    new Set([...Object.keys(localValues), ...Object.keys(remoteValues)]).forEach(fieldId => {
+      if (calculated.has(fieldId)) return;
+
+      const [baseValue, localValue, remoteValue] = [baseValues[fieldId], localValues[fieldId], remoteValues[fieldId]];
+
+      // Fields scored in rounds are merged round by round
+      if ([baseValue, localValue, remoteValue].some(Array.isArray)) {
+        const rounds = Math.max(...[baseValue, localValue, remoteValue].map(value => Array.isArray(value) ? value.length : 0));
+        merged[fieldId] = Array.from({ length: rounds }, (_, round) =>
+          mergeCell(playerId, fieldId, baseValue?.[round], localValue?.[round], remoteValue?.[round], round));
+      } else {
+        merged[fieldId] = mergeCell(playerId, fieldId, baseValue, localValue, remoteValue);
+      }
+    });
+
+    values[playerId] = calculateFields(subcategories, merged);
+  });
+
+  return { values, conflicts };
+};
+
+// Carry edits made during a sync over to the merged values. Fields edited
+// since the snapshot keep the edit; the others take the merged value.
+export const rebaseValues = (
+  subcategories: ScoresheetSubcategory[],
+  snapshot: PlayerValues,
+  merged: PlayerValues,
+  current: PlayerValues
+): PlayerValues => {
+  const values: PlayerValues = {};
+
+  Object.entries(merged).forEach(([playerId, mergedValues]) => {
+    const rebased = { ...mergedValues };
+
+    Object.entries(current[playerId] || {}).forEach(([fieldId, value]) => {
+      if (!isSameValue(value, snapshot[playerId]?.[fieldId])) rebased[fieldId] = value;
+    });
+
+    values[playerId] = calculateFields(subcategories, rebased);
+  });
+
+  return values;
+};
+
+// Call the API, telling connection problems apart from rejected requests
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (err) {
+    throw new SyncError('The server cannot be reached', true);
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!data?.success) {
+    throw new SyncError(data?.error || `Request to ${url} failed`, response.status >= 500, response.status);
+  }
+
+  return data.data;
+};
+
+// Get a template version from the device, downloading it when missing
+export const getTemplate = async (store: LocalStore, templateId: string, version: number): Promise<ScoresheetTemplate> => {
+  const local = await loadLocalTemplate(store, templateId, version);
+  if (local) return local;
+
+  const template = await request<ScoresheetTemplate>(`/api/scoresheets/${templateId}?version=${version}`);
+  await saveLocalTemplate(store, template);
+  return template;
+};
+
+// Syncs in progress by session ID, so a session is never synced twice at once
+const running = new Map<string, Promise<SyncResult | null>>();
+
+// Sync the local copy of a session with the server. Resolves to null when
+// there was nothing to sync.
+export const syncSession = (store: LocalStore, sessionId: string): Promise<SyncResult | null> => {
+  if (!running.has(sessionId)) {
+    running.set(sessionId, runSessionSync(store, sessionId).finally(() => running.delete(sessionId)));
+  }
+  return running.get(sessionId);
+};
+
+const runSessionSync = async (store: LocalStore, sessionId: string): Promise<SyncResult | null> => {
+  const record = await loadLocalSession(store, sessionId);
+  if (!record || !hasUnsyncedChanges(record)) {
+    await dequeueSync(store, sessionId);
+    return null;
+  }
+
+  // Merge with the values on the server and save the result against the
+  // revision it was merged with. When another device saved in between, the
+  // save is rejected and the values are merged again. A session that keeps
+  // changing stays queued and is synced again after a while.
+  const sent = record.pendingChanges;
+  for (let attempt = 1; ; attempt++) {
+    const remote = await request<ScoresheetSession>(`/api/sessions/${sessionId}`);
+    const { template, merged, conflicts } = await mergeWithRemote(store, record, remote);
+
+    let saved: { changes: ValueChangeEvent[] };
+    try {
+      saved = await request<{ changes: ValueChangeEvent[] }>(`/api/sessions/${sessionId}/values`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          values: flattenPlayerValues(merged),
+          changes: sent,
+          baseRevision: remote.valuesRevision ?? 0
+        }),
+      });
+    } catch (err) {
+      if (!(err instanceof SyncError) || err.status !== 409) throw err;
+      if (attempt < MAX_SYNC_ATTEMPTS) continue;
+      throw new SyncError('Other devices kept saving this session; your changes are kept on this device and synced again shortly', false, 409);
+    }
+
+    return finishSync(store, record, remote, template, merged, conflicts, sent, saved.changes);
+  }
+};
+
+// Merge the local copy of a session with the session on the server
+const mergeWithRemote = async (store: LocalStore, record: LocalSession, remote: ScoresheetSession) => {
+  const localVersion = record.session.scoresheetVersion || 1;
+  const remoteVersion = remote.scoresheetVersion || 1;
+  const template = await getTemplate(store, remote.scoresheetId, remoteVersion);
+  const players = getSessionPlayers(remote);
+  let { base, values } = record;
+
+  // A session upgraded on another device moves the values of this one to
+  // the new template version first
+  if (localVersion !== remoteVersion) {
+    const pinned = await getTemplate(store, record.session.scoresheetId, localVersion);
+    const upgrade = (playerValues: PlayerValues) => buildPlayerValues(
+      template.subcategories,
+      players,
+      upgradeSessionValues(flattenPlayerValues(playerValues), pinned.subcategories, template.subcategories).values
+    );
+    base = upgrade(base);
+    values = upgrade(values);
+  }
+
+  const seen = new Set(record.history.map(change => change.id));
+  const { values: merged, conflicts } = mergeSessionValues(
+    template.subcategories,
+    base,
+    values,
+    buildPlayerValues(template.subcategories, players, remote.values),
+    record.pendingChanges,
+    (remote.history || []).filter(change => !seen.has(change.id))
+  );
+
+  return { template, merged, conflicts };
+};
+
+// Store the synced session on the device and leave the queue when nothing
+// is left to sync
+const finishSync = async (
+  store: LocalStore,
+  record: LocalSession,
+  remote: ScoresheetSession,
+  template: ScoresheetTemplate,
+  merged: PlayerValues,
+  conflicts: SyncConflict[],
+  sent: ValueChangeEvent[],
+  savedChanges: ValueChangeEvent[]
+): Promise<SyncResult> => {
+  const sessionId = record.session.id;
+  const remoteHistory = remote.history || [];
+
+  // The session may have been autosaved again while syncing
+  const latest = (await loadLocalSession(store, sessionId)) || record;
+  const sentIds = new Set(sent.map(change => change.id));
+  const now = new Date().toISOString();
+  const synced: LocalSession = {
+    session: remote,
+    gameName: record.gameName,
+    values: latest.savedAt === record.savedAt ? merged : rebaseValues(template.subcategories, record.values, merged, latest.values),
+    base: merged,
+    history: [...remoteHistory, ...savedChanges.filter(change => !remoteHistory.some(known => known.id === change.id))],
+    pendingChanges: latest.pendingChanges.filter(change => !sentIds.has(change.id)),
+    savedAt: now,
+    syncedAt: now
+  };
+
+  await saveLocalSession(store, synced);
+  if (!hasUnsyncedChanges(synced)) {
+    await dequeueSync(store, sessionId);
+  }
+
+  return { record: synced, template, snapshot: record.values, conflicts };
+};
+
+// Sync every queued session, stopping at the first connection problem.
+// Sessions the server rejects stay queued for the user to fix. Resolves to
+// whether a session stayed queued because other devices kept saving it.
+export const flushSyncQueue = async (
+  store: LocalStore,
+  onSynced: (result: SyncResult) => void
+): Promise<boolean> => {
+  let conflicted = false;
+
+  for (const sessionId of await getSyncQueue(store)) {
+    try {
+      const result = await syncSession(store, sessionId);
+      if (result) onSynced(result);
+    } catch (err) {
+      if (err instanceof SyncError && err.offline) return conflicted;
+      if (err instanceof SyncError && err.status === 409) {
+        conflicted = true;
+      } else {
+        console.error(`Error syncing session ${sessionId}`, err);
+      }
+    }
+  }
+
+  return conflicted;
+};
+
+// Sync queued sessions now and whenever the connection comes back, and
+// again after a while when other devices kept saving them. Returns a
+// function that stops syncing.
+export const startBackgroundSync = (store: LocalStore, onSynced: (result: SyncResult) => void): (() => void) => {
+  let retry: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const flush = async () => {
+    clearTimeout(retry);
+    if (await flushSyncQueue(store, onSynced) && !stopped) {
+      retry = setTimeout(flush, SYNC_RETRY_DELAY_MS);
+    }
+  };
+
+  window.addEventListener('online', flush);
+  flush();
+
+  return () => {
+    stopped = true;
+    clearTimeout(retry);
+    window.removeEventListener('online', flush);
+  };
+};
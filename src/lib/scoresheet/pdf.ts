@@ -0,0 +1,201 @@
+import { fitText, PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, PdfPage } from '../pdf/document';
+import { isDiceRoll } from './dice';
+import { buildPlayerValues, getSessionPlayers } from './players';
+import { getRoundCount, getRunningTotals } from './rounds';
+import {
+  PlayerValues,
+  ScoresheetField,
+  ScoresheetPlayer,
+  ScoresheetSession,
+  ScoresheetSubcategory,
+  ScoresheetWinCondition
+} from './types';
+import { getWinCondition, rankPlayers } from './winner';
+
+// Lays out a filled-in scoresheet session as a PDF document: game name,
+// date and players, one table per subcategory with a column per player,
+// and the final totals. Long sheets such as the D&D character sheet flow
+// onto as many pages as they need.
+
+export const MARGIN = 40;
+export const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+export const ROW_HEIGHT = 16;
+export const CELL_PADDING = 4;
+export const FONT_SIZE = 9;
+
+export interface SessionPdfInput {
+  gameName: string;
+  session: ScoresheetSession;
+  subcategories: ScoresheetSubcategory[];
+  winCondition?: ScoresheetWinCondition;
+}
+
+// Tracks the current page and the vertical position on it
+export class PdfLayout {
+  document: PdfDocument;
+  page: PdfPage;
+  y = MARGIN;
+
+  constructor(title: string) {
+    this.document = new PdfDocument(title);
+    this.page = this.document.addPage();
+  }
+
+  // Start a new page unless the given height still fits on the current one
+  ensureSpace(height: number): boolean {
+    if (this.y + height <= PAGE_HEIGHT - MARGIN) return false;
+
+    this.page = this.document.addPage();
+    this.y = MARGIN;
+    return true;
+  }
+
+  // Number every page and add a footer once the layout is finished
+  finish(footer: string): Uint8Array {
+    const pages = this.document.getPages();
+    pages.forEach((page, index) => {
+      page.text(MARGIN, PAGE_HEIGHT - MARGIN + 12, footer, { size: 8, gray: 0.4 });
+      const pageNumber = `Page ${index + 1} of ${pages.length}`;
+      page.text(PAGE_WIDTH - MARGIN - 60, PAGE_HEIGHT - MARGIN + 12, pageNumber, { size: 8, gray: 0.4 });
+    });
+    return this.document.toBytes();
+  }
+}
+
+// Draw one table row, with the first column as the label column
+export const drawRow = (layout: PdfLayout, cells: string[], widths: number[], header: boolean = false) => {
+  const { page, y } = layout;
+  let x = MARGIN;
+
+  if (header) {
+    page.rect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT, { fill: 0.92 });
+  }
+
+  cells.forEach((cell, index) => {
+    const font = header || index === 0 ? 'bold' : 'regular';
+    const text = fitText(cell, widths[index] - CELL_PADDING * 2, FONT_SIZE, font);
+    page.text(x + CELL_PADDING, y + (ROW_HEIGHT - FONT_SIZE) / 2, text, { size: FONT_SIZE, font });
+    x += widths[index];
+  });
+
+  page.line(MARGIN, y + ROW_HEIGHT, MARGIN + CONTENT_WIDTH, y + ROW_HEIGHT, 0.5, 0.75);
+  layout.y += ROW_HEIGHT;
+};
+
+// Draw a table, repeating the header row whenever it continues on a new page
+export const drawTable = (layout: PdfLayout, header: string[], rows: string[][], widths: number[]) => {
+  layout.ensureSpace(ROW_HEIGHT * 2);
+  drawRow(layout, header, widths, true);
+
+  rows.forEach(row => {
+    if (layout.ensureSpace(ROW_HEIGHT)) {
+      drawRow(layout, header, widths, true);
+    }
+    drawRow(layout, row, widths);
+  });
+
+  layout.y += ROW_HEIGHT;
+};
+
+// Draw a subcategory heading, keeping it on the same page as its first rows
+export const drawHeading = (layout: PdfLayout, text: string) => {
+  layout.ensureSpace(ROW_HEIGHT * 4);
+  layout.page.text(MARGIN, layout.y, text, { size: 12, font: 'bold' });
+  layout.y += 18;
+};
+
+// Split the content width into a label column and equal value columns
+export const getColumnWidths = (valueColumns: number): number[] => {
+  const labelWidth = Math.min(180, CONTENT_WIDTH * 0.4);
+  const valueWidth = (CONTENT_WIDTH - labelWidth) / Math.max(1, valueColumns);
+  return [labelWidth, ...Array.from({ length: valueColumns }, () => valueWidth)];
+};
+
+// Format a value for print
+export const formatValue = (field: ScoresheetField, value: any): string => {
+  if (value === undefined || value === null) return '';
+  if (field.type === 'checkbox') return value ? 'Yes' : 'No';
+  if (isDiceRoll(value)) return `${value.total} (${value.notation})`;
+  if (typeof value === 'number') return Number(value.toFixed(2)).toString();
+  return String(value);
+};
+
+// Draw a fixed subcategory: one row per field, one column per player
+const drawFieldTable = (
+  layout: PdfLayout,
+  subcategory: ScoresheetSubcategory,
+  players: ScoresheetPlayer[],
+  playerValues: PlayerValues
+) => {
+  const rows = subcategory.fields.map(field => [
+    field.name,
+    ...players.map(player => formatValue(field, playerValues[player.id]?.[field.id]))
+  ]);
+
+  drawTable(layout, ['Field', ...players.map(player => player.name)], rows, getColumnWidths(players.length));
+};
+
+// Draw a subcategory scored in rounds: one row per round, with each
+// player's round values and running total in their column
+const drawRoundTable = (
+  layout: PdfLayout,
+  subcategory: ScoresheetSubcategory,
+  players: ScoresheetPlayer[],
+  playerValues: PlayerValues
+) => {
+  const roundCount = Math.max(...players.map(player => getRoundCount(subcategory, playerValues[player.id] || {})));
+  const runningTotals = players.map(player => getRunningTotals(subcategory, playerValues[player.id] || {}));
+
+  layout.ensureSpace(ROW_HEIGHT * 3);
+  const legend = `${subcategory.fields.map(field => field.name).join(' / ')} = running total`;
+  layout.page.text(MARGIN, layout.y, legend, { size: 8, gray: 0.4 });
+  layout.y += 12;
+
+  const rows = Array.from({ length: roundCount }, (_, round) => [
+    `Round ${round + 1}`,
+    ...players.map((player, index) => {
+      const roundValues = subcategory.fields.map(field => formatValue(field, playerValues[player.id]?.[field.id]?.[round]));
+      return `${roundValues.join(' / ')} = ${formatValue(subcategory.fields[0], runningTotals[index][round])}`;
+    })
+  ]);
+
+  drawTable(layout, ['Round', ...players.map(player => player.name)], rows, getColumnWidths(players.length));
+};
+
+// Render a session as a PDF document
+export const renderSessionPdf = ({ gameName, session, subcategories, winCondition }: SessionPdfInput): Uint8Array => {
+  const players = getSessionPlayers(session);
+  const playerValues = buildPlayerValues(subcategories, players, session.values);
+  const layout = new PdfLayout(`${gameName} Scoresheet`);
+  const date = new Date(session.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+  layout.page.text(MARGIN, layout.y, `${gameName} Scoresheet`, { size: 18, font: 'bold' });
+  layout.y += 26;
+  layout.page.text(MARGIN, layout.y, `Played ${date}`, { size: 10, gray: 0.3 });
+  layout.y += 14;
+  layout.page.text(MARGIN, layout.y, fitText(`Players: ${players.map(player => player.name).join(', ')}`, CONTENT_WIDTH, 10), { size: 10 });
+  layout.y += 24;
+
+  subcategories.forEach(subcategory => {
+    drawHeading(layout, subcategory.name);
+    if (subcategory.rounds) {
+      drawRoundTable(layout, subcategory, players, playerValues);
+    } else {
+      drawFieldTable(layout, subcategory, players, playerValues);
+    }
+  });
+
+  const rankedBy = getWinCondition(subcategories, winCondition);
+  if (rankedBy) {
+    const standings = rankPlayers(players, playerValues, rankedBy);
+    drawHeading(layout, 'Results');
+    drawTable(
+      layout,
+      ['Player', 'Rank', 'Total'],
+      standings.map(standing => [standing.player.name, `#${standing.rank}`, Number(standing.total.toFixed(2)).toString()]),
+      getColumnWidths(2)
+    );
+  }
+
+  return layout.finish(`${gameName} · ${date}`);
+};
@@ -0,0 +1,67 @@
+import { calculateFields } from './calculations';
+import { getDefaultValues } from './template';
+import { PlayerValues, ScoresheetPlayer, ScoresheetSession, ScoresheetSubcategory, ScoresheetValue } from './types';
+
+// Helpers for storing scoresheet values per player
+
+// Sessions created without players are scored in a single column
+export const DEFAULT_PLAYER: ScoresheetPlayer = { id: 'Player 1', name: 'Player 1' };
+
+// Get the players that get a score column in a session
+export const getSessionPlayers = (session: ScoresheetSession): ScoresheetPlayer[] => {
+  return session.players.length > 0 ? session.players : [DEFAULT_PLAYER];
+};
+
+// Build the player × field grid of a session, filling in defaults and calculations
+export const buildPlayerValues = (
+  subcategories: ScoresheetSubcategory[],
+  players: ScoresheetPlayer[],
+  values: ScoresheetValue[]
+): PlayerValues => {
+  const playerValues: PlayerValues = {};
+  
+  players.forEach(player => {
+    playerValues[player.id] = getDefaultValues(subcategories);
+  });
+  
+  values.forEach(value => {
+    // Values saved before per-player scoring belong to the first player
+    const playerId = value.playerId || players[0]?.id;
+    if (playerValues[playerId]) {
+      playerValues[playerId][value.fieldId] = value.value;
+    }
+  });
+  
+  players.forEach(player => {
+    playerValues[player.id] = calculateFields(subcategories, playerValues[player.id]);
+  });
+  
+  return playerValues;
+};
+
+// Flatten the player × field grid into the list sent to the API
+export const flattenPlayerValues = (playerValues: PlayerValues): ScoresheetValue[] => {
+  const values: ScoresheetValue[] = [];
+  
+  Object.entries(playerValues).forEach(([playerId, fieldValues]) => {
+    Object.entries(fieldValues).forEach(([fieldId, value]) => {
+      values.push({ playerId, fieldId, value });
+    });
+  });
+  
+  return values;
+};
+
+// The total of a template without a win condition is its last calculation
+// field outside of rounds
+export const getTotalFieldId = (subcategories: ScoresheetSubcategory[]): string | null => {
+  let totalFieldId: string | null = null;
+  
+  subcategories.filter(subcategory => !subcategory.rounds).forEach(subcategory => {
+    subcategory.fields.forEach(field => {
+      if (field.type === 'calculation') totalFieldId = field.id;
+    });
+  });
+  
+  return totalFieldId;
+};
@@ -0,0 +1,287 @@
+import { fitText, PdfPage } from '../pdf/document';
+import { CONTENT_WIDTH, drawHeading, getColumnWidths, MARGIN, PdfLayout } from './pdf';
+import { ScoresheetField, ScoresheetSubcategory, ScoresheetTemplate } from './types';
+
+// Renders empty scoresheets to print and fill in by hand, as a PDF or as
+// print-optimized HTML: a column per player, rounds pre-ruled, squares for
+// checkboxes and dropdown options listed to circle one.
+
+export interface BlankSheetOptions {
+  playerCount: number;
+}
+
+const BLANK_ROW_HEIGHT = 22;
+
+// Open-ended subcategories get spare rows to keep playing on paper
+const OPEN_ENDED_ROUNDS = 12;
+
+const getPrintedRoundCount = (subcategory: ScoresheetSubcategory): number => {
+  return subcategory.rounds.openEnded
+    ? Math.max(subcategory.rounds.count, OPEN_ENDED_ROUNDS)
+    : subcategory.rounds.count;
+};
+
+// Short hint printed under a field name
+const getFieldHint = (field: ScoresheetField): string => {
+  switch (field.type) {
+    case 'calculation':
+      return field.formula ? `= ${field.formula}` : 'calculated';
+    case 'dropdown':
+      return 'circle one';
+    case 'dice':
+      return field.notation ? `roll ${field.notation}` : 'roll';
+    case 'tracker':
+      return field.maxFormula ? `max = ${field.maxFormula}` : field.max !== undefined ? `up to ${field.max}` : '';
+    case 'number':
+      return field.min !== undefined && field.max !== undefined ? `${field.min} to ${field.max}` : '';
+    default:
+      return '';
+  }
+};
+
+const getPlayerLabels = (playerCount: number) => {
+  return Array.from({ length: playerCount }, (_, index) => `Player ${index + 1}`);
+};
+
+// Draw the header row of a blank table with space to write player names
+const drawBlankHeader = (layout: PdfLayout, label: string, widths: number[], playerCount: number) => {
+  const { page, y } = layout;
+  page.rect(MARGIN, y, CONTENT_WIDTH, BLANK_ROW_HEIGHT, { fill: 0.92 });
+  page.text(MARGIN + 4, y + 7, label, { size: 9, font: 'bold' });
+
+  let x = MARGIN + widths[0];
+  getPlayerLabels(playerCount).forEach((playerLabel, index) => {
+    page.text(x + 4, y + 2, playerLabel, { size: 6, gray: 0.5 });
+    x += widths[index + 1];
+  });
+
+  layout.y += BLANK_ROW_HEIGHT;
+};
+
+// Rule the grid lines of one row
+const ruleRow = (page: PdfPage, y: number, height: number, widths: number[]) => {
+  let x = MARGIN;
+  widths.forEach(width => {
+    page.line(x, y, x, y + height, 0.5, 0.6);
+    x += width;
+  });
+  page.line(x, y, x, y + height, 0.5, 0.6);
+  page.line(MARGIN, y + height, MARGIN + CONTENT_WIDTH, y + height, 0.5, 0.6);
+};
+
+// Draw what a player fills in for a field in a cell
+const drawBlankCell = (page: PdfPage, field: ScoresheetField, x: number, y: number, width: number) => {
+  switch (field.type) {
+    case 'checkbox':
+      page.rect(x + 6, y + 6, 10, 10, { stroke: 0, lineWidth: 0.75 });
+      break;
+    case 'dropdown':
+      page.text(x + 4, y + 7, fitText((field.options || []).join('   '), width - 8, 7), { size: 7 });
+      break;
+    case 'calculation':
+      page.rect(x + 0.5, y + 0.5, width - 1, BLANK_ROW_HEIGHT - 1, { fill: 0.96 });
+      break;
+  }
+};
+
+const drawBlankFieldTable = (layout: PdfLayout, subcategory: ScoresheetSubcategory, playerCount: number) => {
+  const widths = getColumnWidths(playerCount);
+
+  layout.ensureSpace(BLANK_ROW_HEIGHT * 2);
+  drawBlankHeader(layout, 'Field', widths, playerCount);
+
+  subcategory.fields.forEach(field => {
+    if (layout.ensureSpace(BLANK_ROW_HEIGHT)) {
+      drawBlankHeader(layout, 'Field', widths, playerCount);
+    }
+
+    const { page, y } = layout;
+    const hint = getFieldHint(field);
+    page.text(MARGIN + 4, y + (hint ? 3 : 7), fitText(field.name, widths[0] - 8, 9, 'bold'), { size: 9, font: 'bold' });
+    if (hint) {
+      page.text(MARGIN + 4, y + 13, fitText(hint, widths[0] - 8, 6), { size: 6, gray: 0.4 });
+    }
+
+    let x = MARGIN + widths[0];
+    for (let player = 0; player < playerCount; player++) {
+      drawBlankCell(page, field, x, y, widths[player + 1]);
+      x += widths[player + 1];
+    }
+
+    ruleRow(page, y, BLANK_ROW_HEIGHT, widths);
+    layout.y += BLANK_ROW_HEIGHT;
+  });
+
+  layout.y += BLANK_ROW_HEIGHT;
+};
+
+// Rounds are pre-ruled: each player column is split into one sub-column
+// per field plus a running total
+const drawBlankRoundTable = (layout: PdfLayout, subcategory: ScoresheetSubcategory, playerCount: number) => {
+  const widths = getColumnWidths(playerCount);
+  const columns = [...subcategory.fields.map(field => field.name), 'Total'];
+
+  const drawHeader = () => {
+    drawBlankHeader(layout, 'Round', widths, playerCount);
+    const { page, y } = layout;
+    let x = MARGIN + widths[0];
+    for (let player = 0; player < playerCount; player++) {
+      const columnWidth = widths[player + 1] / columns.length;
+      columns.forEach((column, index) => {
+        page.text(x + index * columnWidth + 2, y + 2, fitText(column, columnWidth - 4, 6), { size: 6, gray: 0.4 });
+      });
+      x += widths[player + 1];
+    }
+    layout.y += 10;
+  };
+
+  layout.ensureSpace(BLANK_ROW_HEIGHT * 3);
+  drawHeader();
+
+  for (let round = 0; round < getPrintedRoundCount(subcategory); round++) {
+    if (layout.ensureSpace(BLANK_ROW_HEIGHT)) {
+      drawHeader();
+    }
+
+    const { page, y } = layout;
+    page.text(MARGIN + 4, y + 7, `${round + 1}`, { size: 9, font: 'bold' });
+
+    let x = MARGIN + widths[0];
+    for (let player = 0; player < playerCount; player++) {
+      const columnWidth = widths[player + 1] / columns.length;
+      for (let index = 1; index < columns.length; index++) {
+        page.line(x + index * columnWidth, y, x + index * columnWidth, y + BLANK_ROW_HEIGHT, 0.25, 0.8);
+      }
+      subcategory.fields.forEach((field, index) => {
+        if (field.type === 'checkbox') {
+          drawBlankCell(page, field, x + index * columnWidth, y, columnWidth);
+        }
+      });
+      x += widths[player + 1];
+    }
+
+    ruleRow(page, y, BLANK_ROW_HEIGHT, widths);
+    layout.y += BLANK_ROW_HEIGHT;
+  }
+
+  layout.y += BLANK_ROW_HEIGHT;
+};
+
+// Render a blank scoresheet as a PDF document
+export const renderBlankSheetPdf = (template: ScoresheetTemplate, { playerCount }: BlankSheetOptions): Uint8Array => {
+  const layout = new PdfLayout(`${template.name} (blank)`);
+
+  layout.page.text(MARGIN, layout.y, template.name, { size: 18, font: 'bold' });
+  layout.y += 28;
+  layout.page.text(MARGIN, layout.y, 'Date: ____________________     Location: ____________________', { size: 10 });
+  layout.y += 26;
+
+  template.subcategories.forEach(subcategory => {
+    drawHeading(layout, subcategory.name);
+    if (subcategory.rounds) {
+      drawBlankRoundTable(layout, subcategory, playerCount);
+    } else {
+      drawBlankFieldTable(layout, subcategory, playerCount);
+    }
+  });
+
+  return layout.finish(template.name);
+};
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+  @page { size: letter; margin: 12mm; }
+  body { font-family: Helvetica, Arial, sans-serif; color: #000; margin: 0; }
+  h1 { font-size: 20pt; margin: 0 0 6pt; }
+  h2 { font-size: 12pt; margin: 14pt 0 4pt; break-after: avoid; }
+  .meta { font-size: 10pt; margin-bottom: 8pt; }
+  table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; }
+  th, td { border: 0.75pt solid #999; height: 22pt; padding: 2pt 4pt; font-size: 9pt; vertical-align: middle; }
+  th { background: #eee; text-align: left; }
+  th.player { font-weight: normal; font-size: 6pt; color: #666; vertical-align: top; }
+  th.label, td.label { width: 30%; font-weight: bold; }
+  td.round-cell { border-left-color: #ddd; }
+  td.calculated { background: #f4f4f4; }
+  .hint { display: block; font-size: 6pt; font-weight: normal; color: #666; }
+  .box { display: inline-block; width: 9pt; height: 9pt; border: 0.75pt solid #000; }
+  .choices { font-size: 7pt; word-spacing: 6pt; }
+`;
+
+const renderHtmlCell = (field: ScoresheetField): string => {
+  switch (field.type) {
+    case 'checkbox':
+      return '<td><span class="box"></span></td>';
+    case 'dropdown':
+      return `<td class="choices">${(field.options || []).map(escapeHtml).join(' ')}</td>`;
+    case 'calculation':
+      return '<td class="calculated"></td>';
+    default:
+      return '<td></td>';
+  }
+};
+
+const renderHtmlPlayerHeader = (label: string, playerCount: number, colSpan: number = 1) => {
+  const players = getPlayerLabels(playerCount)
+    .map(playerLabel => `<th class="player" colspan="${colSpan}">${playerLabel}</th>`)
+    .join('');
+  return `<tr><th class="label">${label}</th>${players}</tr>`;
+};
+
+const renderHtmlFieldTable = (subcategory: ScoresheetSubcategory, playerCount: number): string => {
+  const rows = subcategory.fields.map(field => {
+    const hint = getFieldHint(field);
+    const label = `${escapeHtml(field.name)}${hint ? `<span class="hint">${escapeHtml(hint)}</span>` : ''}`;
+    return `<tr><td class="label">${label}</td>${Array.from({ length: playerCount }, () => renderHtmlCell(field)).join('')}</tr>`;
+  });
+
+  return `<table><thead>${renderHtmlPlayerHeader('Field', playerCount)}</thead><tbody>${rows.join('')}</tbody></table>`;
+};
+
+const renderHtmlRoundTable = (subcategory: ScoresheetSubcategory, playerCount: number): string => {
+  const columns = [...subcategory.fields.map(field => field.name), 'Total'];
+  const columnHeader = Array.from({ length: playerCount }, () =>
+    columns.map(column => `<th class="player">${escapeHtml(column)}</th>`).join('')
+  ).join('');
+
+  const rows = Array.from({ length: getPrintedRoundCount(subcategory) }, (_, round) => {
+    const cells = Array.from({ length: playerCount }, () => [
+      ...subcategory.fields.map(field => field.type === 'checkbox'
+        ? '<td class="round-cell"><span class="box"></span></td>'
+        : '<td class="round-cell"></td>'),
+      '<td class="round-cell"></td>'
+    ].join('')).join('');
+    return `<tr><td class="label">${round + 1}</td>${cells}</tr>`;
+  });
+
+  return `<table><thead>${renderHtmlPlayerHeader('Round', playerCount, columns.length)}` +
+    `<tr><th class="label"></th>${columnHeader}</tr></thead><tbody>${rows.join('')}</tbody></table>`;
+};
+
+// Render a blank scoresheet as a standalone HTML page that prints cleanly
+export const renderBlankSheetHtml = (template: ScoresheetTemplate, { playerCount }: BlankSheetOptions): string => {
+  const sections = template.subcategories.map(subcategory =>
+    `<h2>${escapeHtml(subcategory.name)}</h2>` +
+    (subcategory.rounds ? renderHtmlRoundTable(subcategory, playerCount) : renderHtmlFieldTable(subcategory, playerCount))
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(template.name)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(template.name)}</h1>
+<div class="meta">Date: ____________________ &nbsp; Location: ____________________</div>
+${sections.join('\n')}
+</body>
+</html>`;
+};
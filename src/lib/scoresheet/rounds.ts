@@ -0,0 +1,88 @@
+import { isDiceRoll } from './dice';
+import { getFieldDefaultValue } from './template';
+import { ScoresheetSubcategory } from './types';
+
+// Helpers for subcategories scored round by round. Each of their fields
+// holds a list of values, one per round, in the value map.
+
+// Get the number of rounds currently played in a subcategory
+export const getRoundCount = (subcategory: ScoresheetSubcategory, values: Record<string, any>): number => {
+  if (!subcategory.rounds) return 0;
+  
+  return subcategory.fields.reduce((count, field) => {
+    const fieldValues = values[field.id];
+    return Array.isArray(fieldValues) ? Math.max(count, fieldValues.length) : count;
+  }, subcategory.rounds.count);
+};
+
+// Get the values of a single round, as seen by the formulas of its subcategory
+export const getRoundScope = (
+  subcategory: ScoresheetSubcategory,
+  values: Record<string, any>,
+  round: number
+): Record<string, any> => {
+  const scope = { ...values };
+  
+  subcategory.fields.forEach(field => {
+    scope[field.id] = Array.isArray(values[field.id]) ? values[field.id][round] : undefined;
+  });
+  
+  return scope;
+};
+
+// The running total follows the configured field, or else the last
+// calculation or number field of the round
+export const getRoundTotalFieldId = (subcategory: ScoresheetSubcategory): string | null => {
+  if (subcategory.rounds?.totalFieldId) return subcategory.rounds.totalFieldId;
+  
+  const calculation = [...subcategory.fields].reverse().find(field => field.type === 'calculation');
+  const number = [...subcategory.fields].reverse().find(field => field.type === 'number');
+  
+  return (calculation || number)?.id || null;
+};
+
+// Get the cumulative total after each round
+export const getRunningTotals = (subcategory: ScoresheetSubcategory, values: Record<string, any>): number[] => {
+  const totalFieldId = getRoundTotalFieldId(subcategory);
+  const roundValues: any[] = totalFieldId && Array.isArray(values[totalFieldId]) ? values[totalFieldId] : [];
+  const totals: number[] = [];
+  
+  for (let round = 0; round < getRoundCount(subcategory, values); round++) {
+    const value = isDiceRoll(roundValues[round]) ? roundValues[round].total : Number(roundValues[round]);
+    totals.push((round > 0 ? totals[round - 1] : 0) + (value || 0));
+  }
+  
+  return totals;
+};
+
+// Set a field value, or the value of one round for fields scored in rounds
+export const setFieldValue = (
+  values: Record<string, any>,
+  fieldId: string,
+  value: any,
+  round?: number
+): Record<string, any> => {
+  if (round === undefined) {
+    return { ...values, [fieldId]: value };
+  }
+  
+  const roundValues = Array.isArray(values[fieldId]) ? [...values[fieldId]] : [];
+  roundValues[round] = value;
+  return { ...values, [fieldId]: roundValues };
+};
+
+// Append a round with default values to an open-ended subcategory
+export const addRound = (subcategory: ScoresheetSubcategory, values: Record<string, any>): Record<string, any> => {
+  const count = getRoundCount(subcategory, values);
+  const newValues = { ...values };
+  
+  subcategory.fields.forEach(field => {
+    const roundValues = Array.isArray(values[field.id]) ? [...values[field.id]] : [];
+    while (roundValues.length <= count) {
+      roundValues.push(getFieldDefaultValue(field));
+    }
+    newValues[field.id] = roundValues;
+  });
+  
+  return newValues;
+};
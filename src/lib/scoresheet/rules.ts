@@ -0,0 +1,160 @@
+import { getDependencyGraph } from './calculations';
+import { isDiceRoll } from './dice';
+import { CompiledFormula, evaluateFormula, toBoolean } from './formula';
+import { getRoundCount, getRoundScope } from './rounds';
+import { ScoresheetField, ScoresheetSubcategory, ScoresheetValidationRule } from './types';
+
+// Conditional visibility and validation rules of template fields. Hidden
+// fields are neither shown nor validated; their values are kept so they
+// come back when the field is shown again.
+
+export interface ValidationIssue {
+  fieldId: string;
+  round?: number;
+  message: string;
+}
+
+const isEmptyValue = (field: ScoresheetField, value: any) => {
+  if (value === undefined || value === null || value === '') return true;
+  // A required checkbox has to be ticked
+  return field.type === 'checkbox' && value === false;
+};
+
+// Describe what is wrong with the rules of a field itself, for the creator
+// and for imports. Rule formulas are checked with the other formulas.
+export const getRuleProblems = (field: ScoresheetField): string[] => {
+  const problems: string[] = [];
+
+  (field.validation || []).forEach(rule => {
+    if (rule.type === 'range') {
+      if (rule.min === undefined && rule.max === undefined) {
+        problems.push(`${field.name} has a range rule without a min or max`);
+      } else if (rule.min !== undefined && rule.max !== undefined && rule.min > rule.max) {
+        problems.push(`${field.name} has a range rule with a min greater than its max`);
+      }
+    }
+
+    if (rule.type === 'pattern') {
+      try {
+        new RegExp(rule.pattern);
+      } catch (err) {
+        problems.push(`${field.name} has an invalid pattern: ${err.message}`);
+      }
+    }
+
+    if (rule.type === 'check' && !rule.message?.trim()) {
+      problems.push(`${field.name} has a check without a message`);
+    }
+  });
+
+  return problems;
+};
+
+// Get the IDs of the fields hidden by their visibility conditions
+export const getHiddenFields = (subcategories: ScoresheetSubcategory[], values: Record<string, any>): Set<string> => {
+  const { conditions } = getDependencyGraph(subcategories);
+  const hidden = new Set<string>();
+
+  Object.entries(conditions).forEach(([fieldId, condition]) => {
+    try {
+      if (!toBoolean(evaluateFormula(condition.ast, values))) hidden.add(fieldId);
+    } catch (err) {
+      console.error(`Error evaluating visibility of ${fieldId}`, err);
+    }
+  });
+
+  return hidden;
+};
+
+const describeRange = (rule: { min?: number; max?: number }) => {
+  if (rule.min !== undefined && rule.max !== undefined) return `between ${rule.min} and ${rule.max}`;
+  return rule.min !== undefined ? `at least ${rule.min}` : `at most ${rule.max}`;
+};
+
+// Evaluate a check rule. Checks that cannot be evaluated do not block saving.
+const passesCheck = (check: CompiledFormula | undefined, scope: Record<string, any>): boolean => {
+  if (!check) return true;
+
+  try {
+    return toBoolean(evaluateFormula(check.ast, scope));
+  } catch (err) {
+    console.error('Error evaluating check', err);
+    return true;
+  }
+};
+
+// Check one value of a field against a rule, returning the message when it fails
+const checkRule = (
+  field: ScoresheetField,
+  rule: ScoresheetValidationRule,
+  value: any,
+  passes: () => boolean
+): string | null => {
+  if (rule.type === 'required') {
+    return isEmptyValue(field, value) ? rule.message || `${field.name} is required` : null;
+  }
+
+  // The other rules leave empty values to the required rule
+  if (isEmptyValue(field, value) && rule.type !== 'check') return null;
+
+  switch (rule.type) {
+    case 'range': {
+      const number = isDiceRoll(value) ? value.total : Number(value);
+      const inRange = Number.isFinite(number) &&
+        (rule.min === undefined || number >= rule.min) &&
+        (rule.max === undefined || number <= rule.max);
+      return inRange ? null : rule.message || `${field.name} must be ${describeRange(rule)}`;
+    }
+
+    case 'pattern':
+      return new RegExp(rule.pattern).test(String(value)) ? null : rule.message || `${field.name} is not in the expected format`;
+
+    case 'check':
+      return passes() ? null : rule.message;
+  }
+};
+
+// Validate the values of one player, skipping hidden fields. Fields scored
+// in rounds are validated round by round.
+export const validateValues = (subcategories: ScoresheetSubcategory[], values: Record<string, any>): ValidationIssue[] => {
+  const graph = getDependencyGraph(subcategories);
+  const hidden = getHiddenFields(subcategories, values);
+  const issues: ValidationIssue[] = [];
+
+  subcategories.forEach(subcategory => {
+    subcategory.fields.forEach(field => {
+      if (hidden.has(field.id) || !field.validation?.length) return;
+
+      const validate = (value: any, scope: Record<string, any>, round?: number) => {
+        field.validation.forEach((rule, index) => {
+          const message = checkRule(field, rule, value, () => passesCheck(graph.checks[field.id]?.[index], scope));
+          if (message) issues.push({ fieldId: field.id, ...(round !== undefined ? { round } : {}), message });
+        });
+      };
+
+      if (subcategory.rounds) {
+        for (let round = 0; round < getRoundCount(subcategory, values); round++) {
+          validate(values[field.id]?.[round], getRoundScope(subcategory, values, round), round);
+        }
+      } else {
+        validate(values[field.id], values);
+      }
+    });
+  });
+
+  return issues;
+};
+
+// Group issues by field, and by round for fields scored in rounds
+export const getIssueKey = (fieldId: string, round?: number) => round === undefined ? fieldId : `${fieldId}:${round}`;
+
+export const groupIssues = (issues: ValidationIssue[]): Record<string, string[]> => {
+  const grouped: Record<string, string[]> = {};
+
+  issues.forEach(issue => {
+    const key = getIssueKey(issue.fieldId, issue.round);
+    (grouped[key] = grouped[key] || []).push(issue.message);
+  });
+
+  return grouped;
+};
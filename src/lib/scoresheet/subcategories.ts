@@ -0,0 +1,239 @@
+import { ScoresheetField, ScoresheetSubcategory } from './types';
+
+// Nested subcategories, such as Combat > Weapons > Attacks. Templates keep
+// a flat list of subcategories where nested ones name their parent, so
+// everything reading fields subcategory by subcategory works unchanged. The
+// list is kept in display order with every subcategory right after its
+// parent and earlier siblings (depth first), which is also the order
+// stored in display_order.
+
+export interface SubcategoryNode {
+  subcategory: ScoresheetSubcategory;
+  depth: number;
+  children: SubcategoryNode[];
+}
+
+// Build the tree of subcategories. A parent that does not exist, or a loop
+// of parents, makes a subcategory top-level.
+export const getSubcategoryTree = (subcategories: ScoresheetSubcategory[]): SubcategoryNode[] => {
+  const ids = new Set(subcategories.map(subcategory => subcategory.id));
+  const children: Record<string, ScoresheetSubcategory[]> = {};
+  const placed = new Set<string>();
+
+  subcategories.forEach(subcategory => {
+    const { parentId } = subcategory;
+    if (parentId && parentId !== subcategory.id && ids.has(parentId)) {
+      (children[parentId] = children[parentId] || []).push(subcategory);
+    }
+  });
+
+  const buildNode = (subcategory: ScoresheetSubcategory, depth: number): SubcategoryNode => {
+    placed.add(subcategory.id);
+    return {
+      subcategory,
+      depth,
+      children: (children[subcategory.id] || [])
+        .filter(child => !placed.has(child.id))
+        .map(child => buildNode(child, depth + 1))
+    };
+  };
+
+  const roots = subcategories
+    .filter(subcategory => !subcategory.parentId || !ids.has(subcategory.parentId) || subcategory.parentId === subcategory.id)
+    .map(subcategory => buildNode(subcategory, 0));
+
+  // Subcategories in a loop of parents are not reached from the top level
+  subcategories.forEach(subcategory => {
+    if (!placed.has(subcategory.id)) roots.push(buildNode(subcategory, 0));
+  });
+
+  return roots;
+};
+
+const flattenTree = (nodes: SubcategoryNode[]): SubcategoryNode[] => {
+  return nodes.flatMap(node => [node, ...flattenTree(node.children)]);
+};
+
+// Put subcategories in display order and drop parents that do not exist
+export const orderSubcategories = (subcategories: ScoresheetSubcategory[]): ScoresheetSubcategory[] => {
+  return flattenTree(getSubcategoryTree(subcategories)).map(({ subcategory, depth }) => {
+    if (depth > 0 || !subcategory.parentId) return subcategory;
+
+    const topLevel = { ...subcategory };
+    delete topLevel.parentId;
+    return topLevel;
+  });
+};
+
+// Depth of every subcategory by ID, 0 for top-level ones
+export const getSubcategoryDepths = (subcategories: ScoresheetSubcategory[]): Record<string, number> => {
+  const depths: Record<string, number> = {};
+  flattenTree(getSubcategoryTree(subcategories)).forEach(node => {
+    depths[node.subcategory.id] = node.depth;
+  });
+  return depths;
+};
+
+// The subcategory and its parents, outermost first
+export const getSubcategoryPath = (subcategories: ScoresheetSubcategory[], id: string): ScoresheetSubcategory[] => {
+  const findPath = (nodes: SubcategoryNode[]): ScoresheetSubcategory[] | null => {
+    for (const node of nodes) {
+      if (node.subcategory.id === id) return [node.subcategory];
+      const path = findPath(node.children);
+      if (path) return [node.subcategory, ...path];
+    }
+    return null;
+  };
+
+  return findPath(getSubcategoryTree(subcategories)) || [];
+};
+
+// IDs of a subcategory and everything nested in it
+export const getSubtreeIds = (subcategories: ScoresheetSubcategory[], id: string): Set<string> => {
+  const node = flattenTree(getSubcategoryTree(subcategories)).find(candidate => candidate.subcategory.id === id);
+  return new Set(node ? flattenTree([node]).map(({ subcategory }) => subcategory.id) : []);
+};
+
+// Check that nested subcategories name an existing parent and that no
+// subcategory ends up nested in itself
+export const getNestingProblems = (subcategories: ScoresheetSubcategory[]): string[] => {
+  const byId = new Map(subcategories.map(subcategory => [subcategory.id, subcategory]));
+  const problems: string[] = [];
+
+  subcategories.forEach(subcategory => {
+    if (!subcategory.parentId) return;
+
+    if (!byId.has(subcategory.parentId)) {
+      problems.push(`"${subcategory.name}" is nested in subcategory "${subcategory.parentId}", which does not exist`);
+      return;
+    }
+
+    const seen = new Set([subcategory.id]);
+    for (let parent = byId.get(subcategory.parentId); parent; parent = byId.get(parent.parentId)) {
+      if (seen.has(parent.id)) {
+        problems.push(`"${subcategory.name}" is nested in itself`);
+        return;
+      }
+      seen.add(parent.id);
+    }
+  });
+
+  return problems;
+};
+
+// Move a subcategory, with everything nested in it, to a position among the
+// children of another subcategory, or among the top-level ones when the
+// parent is null. A subcategory cannot move into itself.
+export const moveSubcategory = (
+  subcategories: ScoresheetSubcategory[],
+  id: string,
+  parentId: string | null,
+  index: number
+): ScoresheetSubcategory[] => {
+  if (parentId !== null && getSubtreeIds(subcategories, id).has(parentId)) return subcategories;
+
+  const ordered = orderSubcategories(subcategories);
+  const moving = ordered.find(subcategory => subcategory.id === id);
+  if (!moving) return subcategories;
+
+  const moved = { ...moving };
+  if (parentId === null) {
+    delete moved.parentId;
+  } else {
+    moved.parentId = parentId;
+  }
+  const others = ordered.filter(subcategory => subcategory.id !== id);
+
+  // Siblings after the move, to find the subcategory to insert before
+  const siblings = others.filter(subcategory => (subcategory.parentId || null) === parentId);
+  const before = siblings[Math.max(0, index)];
+
+  const result = [...others];
+  result.splice(before ? result.indexOf(before) : result.length, 0, moved);
+
+  return orderSubcategories(result);
+};
+
+// Move a subcategory right before another one, next to it in the tree
+export const moveSubcategoryBefore = (
+  subcategories: ScoresheetSubcategory[],
+  id: string,
+  targetId: string
+): ScoresheetSubcategory[] => {
+  const target = subcategories.find(subcategory => subcategory.id === targetId);
+  if (!target || target.id === id) return subcategories;
+
+  const parentId = getSubcategoryPath(subcategories, targetId).slice(-2, -1)[0]?.id || null;
+  const siblings = orderSubcategories(subcategories)
+    .filter(subcategory => subcategory.id !== id && (subcategory.parentId || null) === parentId);
+
+  return moveSubcategory(subcategories, id, parentId, siblings.findIndex(subcategory => subcategory.id === targetId));
+};
+
+// Remove a subcategory together with everything nested in it
+export const removeSubcategoryTree = (subcategories: ScoresheetSubcategory[], id: string): ScoresheetSubcategory[] => {
+  const removed = getSubtreeIds(subcategories, id);
+  return subcategories.filter(subcategory => !removed.has(subcategory.id));
+};
+
+const updateFields = (
+  subcategories: ScoresheetSubcategory[],
+  id: string,
+  update: (fields: ScoresheetField[]) => ScoresheetField[]
+) => {
+  return subcategories.map(subcategory => subcategory.id === id ? { ...subcategory, fields: update(subcategory.fields) } : subcategory);
+};
+
+// Move a field within its subcategory or into another one. Formulas keep
+// working, since they reference fields by ID.
+export const moveField = (
+  subcategories: ScoresheetSubcategory[],
+  fromId: string,
+  fieldIndex: number,
+  toId: string,
+  toIndex: number
+): ScoresheetSubcategory[] => {
+  const field = subcategories.find(subcategory => subcategory.id === fromId)?.fields[fieldIndex];
+  if (!field || !subcategories.some(subcategory => subcategory.id === toId)) return subcategories;
+
+  const removed = updateFields(subcategories, fromId, fields => fields.filter((_, index) => index !== fieldIndex));
+
+  return updateFields(removed, toId, fields => {
+    const result = [...fields];
+    result.splice(Math.max(0, Math.min(toIndex, result.length)), 0, field);
+    return result;
+  });
+};
+
+// Pick an ID not used by any field yet, based on the given one
+const getUnusedFieldId = (subcategories: ScoresheetSubcategory[], id: string) => {
+  const used = new Set(subcategories.flatMap(subcategory => subcategory.fields.map(field => field.id)));
+  let candidate = `${id}_copy`;
+  for (let count = 2; used.has(candidate); count++) {
+    candidate = `${id}_copy_${count}`;
+  }
+  return candidate;
+};
+
+// Insert a copy of a field right after it. The copy gets a new ID and name,
+// since field IDs have to be unique across the template.
+export const duplicateField = (
+  subcategories: ScoresheetSubcategory[],
+  subcategoryId: string,
+  fieldIndex: number
+): ScoresheetSubcategory[] => {
+  const field = subcategories.find(subcategory => subcategory.id === subcategoryId)?.fields[fieldIndex];
+  if (!field) return subcategories;
+
+  const copy: ScoresheetField = {
+    ...JSON.parse(JSON.stringify(field)),
+    id: getUnusedFieldId(subcategories, field.id),
+    name: `${field.name} (copy)`
+  };
+
+  return updateFields(subcategories, subcategoryId, fields => {
+    const result = [...fields];
+    result.splice(fieldIndex + 1, 0, copy);
+    return result;
+  });
+};
@@ -0,0 +1,44 @@
+import { ScoresheetField, ScoresheetSubcategory } from './types';
+
+// Helpers for walking scoresheet templates, shared by the generator,
+// the renderer and the server
+
+// Get every field of a template in display order
+export const getTemplateFields = (subcategories: ScoresheetSubcategory[]): ScoresheetField[] => {
+  const fields: ScoresheetField[] = [];
+  
+  subcategories.forEach(subcategory => {
+    subcategory.fields.forEach(field => fields.push(field));
+  });
+  
+  return fields;
+};
+
+// Get the initial value of a field before anything has been entered
+export const getFieldDefaultValue = (field: ScoresheetField) => {
+  if (field.defaultValue !== undefined) return field.defaultValue;
+  
+  // Dice fields hold nothing until they are first rolled
+  if (field.type === 'dice') return null;
+  if (field.type === 'tracker') return field.min ?? 0;
+  
+  return field.type === 'number' ? 0 : 
+    field.type === 'checkbox' ? false : 
+    field.type === 'dropdown' && field.options?.length ? field.options[0] : '';
+};
+
+// Build a value map holding the default value of every field, with one
+// value per round for fields scored in rounds
+export const getDefaultValues = (subcategories: ScoresheetSubcategory[]): Record<string, any> => {
+  const values: Record<string, any> = {};
+  
+  subcategories.forEach(subcategory => {
+    subcategory.fields.forEach(field => {
+      values[field.id] = subcategory.rounds
+        ? Array.from({ length: subcategory.rounds.count }, () => getFieldDefaultValue(field))
+        : getFieldDefaultValue(field);
+    });
+  });
+  
+  return values;
+};
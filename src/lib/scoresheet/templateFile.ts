@@ -0,0 +1,351 @@
+import { validateTemplateFormulas } from './dependencies';
+import { getDiceNotationError } from './dice';
+import { getRuleProblems } from './rules';
+import { getNestingProblems, orderSubcategories } from './subcategories';
+import {
+  SCORESHEET_FIELD_TYPES,
+  ScoresheetField,
+  ScoresheetSubcategory,
+  ScoresheetTemplate,
+  ScoresheetWinCondition,
+  VALIDATION_RULE_TYPES
+} from './types';
+import { getWinConditionProblems } from './winner';
+
+// Portable scoresheet template files, used to share templates between
+// instances and keep them in version control. See
+// docs/scoresheet-template-format.md for the format.
+
+export const TEMPLATE_FILE_FORMAT = 'game-hq-scoresheet-template';
+export const TEMPLATE_FILE_VERSION = 6;
+
+export interface TemplateFile {
+  format: typeof TEMPLATE_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  template: {
+    name: string;
+    gameId?: string;
+    subcategories: ScoresheetSubcategory[];
+    winCondition?: ScoresheetWinCondition;
+  };
+}
+
+export class TemplateFileError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(problems.join('\n'));
+    this.name = 'TemplateFileError';
+    this.problems = problems;
+  }
+}
+
+// Keep only the documented properties of a field, dropping unset ones
+const exportField = (field: ScoresheetField): ScoresheetField => {
+  const exported: ScoresheetField = { id: field.id, name: field.name, type: field.type };
+
+  if (field.defaultValue !== undefined) exported.defaultValue = field.defaultValue;
+  if (field.type === 'dropdown') exported.options = field.options || [];
+  if (field.type === 'calculation') exported.formula = field.formula || '';
+  if (field.type === 'dice' && field.notation) exported.notation = field.notation;
+  if (field.type === 'tracker' && field.step !== undefined) exported.step = field.step;
+  if (field.type === 'tracker' && field.maxFormula) exported.maxFormula = field.maxFormula;
+  if (field.visibleWhen) exported.visibleWhen = field.visibleWhen;
+  if (field.validation?.length) exported.validation = field.validation;
+  if (field.min !== undefined && field.min !== null) exported.min = field.min;
+  if (field.max !== undefined && field.max !== null) exported.max = field.max;
+
+  return exported;
+};
+
+// Build the file for a template
+export const exportTemplateFile = (template: ScoresheetTemplate): TemplateFile => ({
+  format: TEMPLATE_FILE_FORMAT,
+  version: TEMPLATE_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  template: {
+    name: template.name,
+    gameId: template.gameId,
+    subcategories: template.subcategories.map(subcategory => ({
+      id: subcategory.id,
+      name: subcategory.name,
+      ...(subcategory.parentId ? { parentId: subcategory.parentId } : {}),
+      ...(subcategory.rounds ? { rounds: subcategory.rounds } : {}),
+      fields: subcategory.fields.map(exportField)
+    })),
+    ...(template.winCondition ? { winCondition: template.winCondition } : {})
+  }
+});
+
+export const serializeTemplateFile = (template: ScoresheetTemplate): string => {
+  return JSON.stringify(exportTemplateFile(template), null, 2);
+};
+
+const isObject = (value: any) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: any) => typeof value === 'string' && value.trim() !== '';
+
+// Check the shape of the validation rules of a field
+const validateRules = (rules: any[], name: string): string[] => {
+  const problems: string[] = [];
+
+  rules.forEach((rule, index) => {
+    const label = `${name} rule ${index + 1}`;
+
+    if (!isObject(rule) || !VALIDATION_RULE_TYPES.includes(rule.type)) {
+      problems.push(`${label} has to be one of ${VALIDATION_RULE_TYPES.join(', ')}`);
+      return;
+    }
+
+    if (rule.message !== undefined && typeof rule.message !== 'string') problems.push(`${label} has a message that is not text`);
+    if (rule.type === 'range' && ['min', 'max'].some(key => rule[key] !== undefined && typeof rule[key] !== 'number')) {
+      problems.push(`${label} has a min or max that is not a number`);
+    }
+    if (rule.type === 'pattern' && typeof rule.pattern !== 'string') problems.push(`${label} needs a pattern`);
+    if (rule.type === 'check' && !isNonEmptyString(rule.formula)) problems.push(`${label} needs a formula`);
+  });
+
+  return problems;
+};
+
+// Check one field, collecting problems under the given label
+const validateField = (field: any, label: string, problems: string[]) => {
+  if (!isObject(field)) {
+    problems.push(`${label} must be an object`);
+    return;
+  }
+
+  if (!isNonEmptyString(field.id)) problems.push(`${label} needs an id`);
+  if (!isNonEmptyString(field.name)) problems.push(`${label} needs a name`);
+
+  const name = isNonEmptyString(field.name) ? `${label} "${field.name}"` : label;
+
+  if (!SCORESHEET_FIELD_TYPES.includes(field.type)) {
+    problems.push(`${name} has unknown type "${field.type}", expected one of ${SCORESHEET_FIELD_TYPES.join(', ')}`);
+    return;
+  }
+
+  const { defaultValue, min, max } = field;
+
+  if (min !== undefined && typeof min !== 'number') problems.push(`${name} has a min that is not a number`);
+  if (max !== undefined && typeof max !== 'number') problems.push(`${name} has a max that is not a number`);
+  if (typeof min === 'number' && typeof max === 'number' && min > max) {
+    problems.push(`${name} has a min greater than its max`);
+  }
+
+  if (field.visibleWhen !== undefined && typeof field.visibleWhen !== 'string') {
+    problems.push(`${name} has a visibility condition that is not text`);
+  }
+
+  if (field.validation !== undefined) {
+    if (!Array.isArray(field.validation)) {
+      problems.push(`${name} has validation rules that are not a list`);
+    } else {
+      const ruleProblems = validateRules(field.validation, name);
+      problems.push(...ruleProblems);
+      if (ruleProblems.length === 0) problems.push(...getRuleProblems(field));
+    }
+  }
+
+  if (field.type === 'tracker') {
+    if (field.step !== undefined && !(typeof field.step === 'number' && field.step > 0)) {
+      problems.push(`${name} has a step that is not a positive number`);
+    }
+    if (field.maxFormula !== undefined && typeof field.maxFormula !== 'string') {
+      problems.push(`${name} has a maximum formula that is not text`);
+    }
+  }
+
+  switch (field.type) {
+    case 'number':
+    case 'tracker':
+      if (defaultValue !== undefined) {
+        if (typeof defaultValue !== 'number') {
+          problems.push(`${name} has a default value that is not a number`);
+        } else if ((typeof min === 'number' && defaultValue < min) || (typeof max === 'number' && defaultValue > max)) {
+          problems.push(`${name} has a default value outside its min and max`);
+        }
+      }
+      break;
+
+    case 'text':
+      if (defaultValue !== undefined && typeof defaultValue !== 'string') {
+        problems.push(`${name} has a default value that is not text`);
+      }
+      break;
+
+    case 'checkbox':
+      if (defaultValue !== undefined && typeof defaultValue !== 'boolean') {
+        problems.push(`${name} has a default value that is not true or false`);
+      }
+      break;
+
+    case 'dropdown':
+      if (!Array.isArray(field.options) || field.options.length === 0 || !field.options.every(isNonEmptyString)) {
+        problems.push(`${name} needs a list of options`);
+      } else {
+        if (new Set(field.options).size !== field.options.length) {
+          problems.push(`${name} lists the same option twice`);
+        }
+        if (defaultValue !== undefined && defaultValue !== '' && !field.options.includes(defaultValue)) {
+          problems.push(`${name} has a default value that is not one of its options`);
+        }
+      }
+      break;
+
+    case 'calculation':
+      if (!isNonEmptyString(field.formula)) {
+        problems.push(`${name} needs a formula`);
+      }
+      break;
+
+    case 'dice':
+      if (defaultValue !== undefined && defaultValue !== null) {
+        problems.push(`${name} is a dice field and cannot have a default value`);
+      }
+      if (field.notation !== undefined) {
+        const notationError = typeof field.notation === 'string' ? getDiceNotationError(field.notation) : 'Dice notation must be text';
+        if (notationError) problems.push(`${name} has invalid dice notation: ${notationError}`);
+      }
+      break;
+  }
+};
+
+// Check one subcategory and its fields. Subcategories holding nested ones
+// may have no fields of their own.
+const validateSubcategory = (subcategory: any, index: number, parentIds: Set<string>, problems: string[]) => {
+  const label = `Subcategory ${index + 1}`;
+
+  if (!isObject(subcategory)) {
+    problems.push(`${label} must be an object`);
+    return;
+  }
+
+  if (!isNonEmptyString(subcategory.id)) problems.push(`${label} needs an id`);
+  if (!isNonEmptyString(subcategory.name)) problems.push(`${label} needs a name`);
+
+  const name = isNonEmptyString(subcategory.name) ? `"${subcategory.name}"` : label;
+
+  if (subcategory.parentId !== undefined && !isNonEmptyString(subcategory.parentId)) {
+    problems.push(`${name} has an invalid parentId`);
+  }
+
+  if (!Array.isArray(subcategory.fields)) {
+    problems.push(`${name} needs a list of fields`);
+    return;
+  }
+
+  if (subcategory.fields.length === 0 && !parentIds.has(subcategory.id)) {
+    problems.push(`${name} needs at least one field or a nested subcategory`);
+    return;
+  }
+
+  subcategory.fields.forEach((field: any, fieldIndex: number) => {
+    validateField(field, `${name} field ${fieldIndex + 1}`, problems);
+  });
+
+  if (subcategory.rounds !== undefined) {
+    const { rounds } = subcategory;
+    if (!isObject(rounds) || !Number.isInteger(rounds.count) || rounds.count < 1) {
+      problems.push(`${name} needs a whole number of rounds of at least 1`);
+    } else {
+      if (rounds.openEnded !== undefined && typeof rounds.openEnded !== 'boolean') {
+        problems.push(`${name} has an openEnded setting that is not true or false`);
+      }
+      if (rounds.totalFieldId !== undefined && !subcategory.fields.some((field: any) => field?.id === rounds.totalFieldId)) {
+        problems.push(`${name} keeps a running total of a field it does not have`);
+      }
+    }
+  }
+};
+
+// Parse and validate a template file. Throws a TemplateFileError listing
+// every problem found, so a file can be fixed in one pass.
+export const parseTemplateFile = (contents: string): TemplateFile => {
+  let file: any;
+  try {
+    file = JSON.parse(contents);
+  } catch (err) {
+    throw new TemplateFileError([`The file is not valid JSON: ${err.message}`]);
+  }
+
+  if (!isObject(file) || file.format !== TEMPLATE_FILE_FORMAT) {
+    throw new TemplateFileError(['The file is not a scoresheet template']);
+  }
+
+  if (!Number.isInteger(file.version) || file.version < 1) {
+    throw new TemplateFileError(['The file has no valid schema version']);
+  }
+
+  if (file.version > TEMPLATE_FILE_VERSION) {
+    throw new TemplateFileError([
+      `The file uses schema version ${file.version}, this app supports up to version ${TEMPLATE_FILE_VERSION}`
+    ]);
+  }
+
+  const problems: string[] = [];
+  const { template } = file;
+
+  if (!isObject(template)) {
+    throw new TemplateFileError(['The file has no template']);
+  }
+
+  if (!isNonEmptyString(template.name)) problems.push('The template needs a name');
+  if (template.gameId !== undefined && typeof template.gameId !== 'string') problems.push('The template has an invalid gameId');
+
+  if (!Array.isArray(template.subcategories) || template.subcategories.length === 0) {
+    problems.push('The template needs at least one subcategory');
+  } else {
+    const parentIds = new Set<string>(template.subcategories.map((subcategory: any) => subcategory?.parentId));
+    template.subcategories.forEach((subcategory: any, index: number) => {
+      validateSubcategory(subcategory, index, parentIds, problems);
+    });
+  }
+
+  if (problems.length === 0) {
+    problems.push(...getNestingProblems(template.subcategories));
+  }
+
+  if (problems.length === 0) {
+    const subcategoryIds = new Set<string>();
+    const ids = new Set<string>();
+    template.subcategories.forEach((subcategory: ScoresheetSubcategory) => {
+      if (subcategoryIds.has(subcategory.id)) problems.push(`Subcategory ID "${subcategory.id}" is used more than once`);
+      subcategoryIds.add(subcategory.id);
+
+      subcategory.fields.forEach(field => {
+        if (ids.has(field.id)) problems.push(`Field ID "${field.id}" is used more than once`);
+        ids.add(field.id);
+      });
+    });
+  }
+
+  // Formulas are only checked once the structure around them is sound
+  if (problems.length === 0) {
+    problems.push(...validateTemplateFormulas(template.subcategories));
+    if (template.winCondition !== undefined) {
+      problems.push(...getWinConditionProblems(template.subcategories, template.winCondition));
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new TemplateFileError(problems);
+  }
+
+  return file as TemplateFile;
+};
+
+// Turn an imported file into a new template for the given game. Field IDs
+// are kept because formulas reference them.
+export const importTemplateFile = (contents: string, gameId: string, id: string): ScoresheetTemplate => {
+  const file = parseTemplateFile(contents);
+
+  return {
+    id,
+    name: file.template.name,
+    gameId,
+    subcategories: orderSubcategories(file.template.subcategories),
+    ...(file.template.winCondition ? { winCondition: file.template.winCondition } : {})
+  };
+};
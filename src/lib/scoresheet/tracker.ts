@@ -0,0 +1,78 @@
+import { DependencyGraph } from './dependencies';
+import { evaluateFormula } from './formula';
+import { getTemplateFields } from './template';
+import { ScoresheetField, ScoresheetSubcategory } from './types';
+
+// Tracker fields count a resource such as hit points, gold or mana up and
+// down in steps. Their value is always kept between min and max, where the
+// maximum can also come from a formula (maxFormula).
+
+export interface TrackerBounds {
+  min: number | null;
+  max: number | null;
+}
+
+export const getTrackerStep = (field: ScoresheetField): number => {
+  return field.step && field.step > 0 ? field.step : 1;
+};
+
+// Work out the current bounds of a tracker. A formula maximum can only
+// lower a fixed max, never raise it.
+export const getTrackerBounds = (
+  field: ScoresheetField,
+  values: Record<string, any>,
+  graph: DependencyGraph
+): TrackerBounds => {
+  const min = typeof field.min === 'number' ? field.min : null;
+  let max = typeof field.max === 'number' ? field.max : null;
+
+  const limit = graph.limits[field.id];
+  if (limit) {
+    try {
+      const formulaMax = Number(evaluateFormula(limit.ast, values));
+      if (Number.isFinite(formulaMax)) {
+        max = max === null ? formulaMax : Math.min(max, formulaMax);
+      }
+    } catch (err) {
+      console.error(`Error evaluating maximum of ${field.id}`, err);
+    }
+  }
+
+  // A maximum below the minimum pins the tracker to its minimum
+  if (min !== null && max !== null && max < min) max = min;
+
+  return { min, max };
+};
+
+export const clampTrackerValue = (value: any, { min, max }: TrackerBounds): number => {
+  let clamped = Number(value) || 0;
+  if (max !== null) clamped = Math.min(clamped, max);
+  if (min !== null) clamped = Math.max(clamped, min);
+  return clamped;
+};
+
+// Clamp every tracker of a template to its bounds. Trackers already within
+// their bounds keep their value unchanged.
+export const clampTrackers = (
+  subcategories: ScoresheetSubcategory[],
+  values: Record<string, any>,
+  graph: DependencyGraph
+): Record<string, any> => {
+  const clampedValues = { ...values };
+
+  getTemplateFields(subcategories)
+    .filter(field => field.type === 'tracker')
+    .forEach(field => {
+      const bounds = getTrackerBounds(field, values, graph);
+      const value = values[field.id];
+
+      if (Array.isArray(value)) {
+        const rounds = value.map(round => clampTrackerValue(round, bounds));
+        if (rounds.some((round, index) => round !== value[index])) clampedValues[field.id] = rounds;
+      } else if (clampTrackerValue(value, bounds) !== value) {
+        clampedValues[field.id] = clampTrackerValue(value, bounds);
+      }
+    });
+
+  return clampedValues;
+};
@@ -0,0 +1,220 @@
+// Shared scoresheet template types used by the scoresheet components
+// and by the scoresheet API on the server
+
+export type ScoresheetFieldType = 'number' | 'text' | 'checkbox' | 'dropdown' | 'calculation' | 'dice' | 'tracker';
+
+export const SCORESHEET_FIELD_TYPES: ScoresheetFieldType[] = [
+  'number', 'text', 'checkbox', 'dropdown', 'calculation', 'dice', 'tracker'
+];
+
+// Validation rules checked before values are saved. Checks are formulas
+// that have to be true, e.g. [Gold Spent] <= [Gold]
+export type ScoresheetValidationRule =
+  | { type: 'required'; message?: string }
+  | { type: 'range'; min?: number; max?: number; message?: string }
+  | { type: 'pattern'; pattern: string; message?: string }
+  | { type: 'check'; formula: string; message: string };
+
+export const VALIDATION_RULE_TYPES: ScoresheetValidationRule['type'][] = ['required', 'range', 'pattern', 'check'];
+
+export interface ScoresheetField {
+  id: string;
+  name: string;
+  type: ScoresheetFieldType;
+  defaultValue?: any;
+  options?: string[];
+  formula?: string;
+  min?: number;
+  max?: number;
+  // Dice notation rolled by dice fields, such as 2d6+3
+  notation?: string;
+  // Tracker fields: amount added or removed per click, and a formula for
+  // the maximum such as [Hit Point Maximum], applied on top of max
+  step?: number;
+  maxFormula?: string;
+  // Formula deciding whether the field is shown, e.g. [Expansion Used]
+  visibleWhen?: string;
+  validation?: ScoresheetValidationRule[];
+}
+
+// Subcategories scored round by round repeat their fields once per round,
+// and each of their fields holds a list with one value per round
+export interface ScoresheetRoundSettings {
+  // Number of rounds, or the number to start with when rounds can be added
+  count: number;
+  // Whether players can keep adding rounds ("add round")
+  openEnded?: boolean;
+  // Field whose running total is shown next to each round
+  totalFieldId?: string;
+}
+
+export interface ScoresheetSubcategory {
+  id: string;
+  name: string;
+  // Subcategory this one is nested in, see subcategories.ts
+  parentId?: string;
+  fields: ScoresheetField[];
+  rounds?: ScoresheetRoundSettings;
+}
+
+// A field breaking ties between players with the same total
+export interface ScoresheetTiebreak {
+  fieldId: string;
+  lowestWins?: boolean;
+}
+
+// How the winner of a session is decided: the field holding each player's
+// total, whether the lowest total wins, and the fields breaking ties in
+// order (e.g. coins in 7 Wonders). See winner.ts.
+export interface ScoresheetWinCondition {
+  totalFieldId: string;
+  lowestWins?: boolean;
+  tiebreaks?: ScoresheetTiebreak[];
+}
+
+// Templates are immutable once saved: every edit is stored as a new
+// version, and sessions keep using the version they were created with
+export interface ScoresheetTemplate {
+  id: string;
+  name: string;
+  gameId: string;
+  subcategories: ScoresheetSubcategory[];
+  // Templates without one rank players by their last calculation field
+  winCondition?: ScoresheetWinCondition;
+  version?: number;
+  // Newest version of the template, sent along when an older one is loaded
+  latestVersion?: number;
+  // Official templates come with the app; the others are made by the community
+  isOfficial?: boolean;
+}
+
+// A template of the official library, installed and updated by seeding.
+// IDs are fixed so that seeding again updates the same template.
+export interface OfficialTemplate {
+  id: string;
+  name: string;
+  game: {
+    id: string;
+    name: string;
+    minPlayers: number;
+    maxPlayers: number;
+    category: string;
+  };
+  subcategories: ScoresheetSubcategory[];
+  winCondition?: ScoresheetWinCondition;
+}
+
+export interface ScoresheetPlayer {
+  id: string;
+  name: string;
+  // Final placement once the session is completed, 1 for the winner.
+  // Tied players share a placement.
+  placement?: number;
+}
+
+// A single entered value. Values without a playerId come from sessions
+// saved before scores were tracked per player.
+export interface ScoresheetValue {
+  playerId?: string;
+  fieldId: string;
+  value: any;
+}
+
+export interface RolledDie {
+  sides: number;
+  value: number;
+  // Dice left out of the total by keep/drop rules or advantage
+  dropped?: boolean;
+  // Dice subtracted from the total, as in 1d20-1d4
+  negative?: boolean;
+}
+
+// The value of a dice field: its latest roll
+export interface DiceRoll {
+  notation: string;
+  dice: RolledDie[];
+  modifier: number;
+  total: number;
+  seed: number;
+  rolledAt: string;
+}
+
+// An entry of the roll log every session keeps
+export interface DiceLogEntry {
+  id: string;
+  playerId: string;
+  fieldId: string;
+  roll: DiceRoll;
+}
+
+// An entry of the append-only change log of tracker fields
+export interface TrackerLogEntry {
+  id: string;
+  playerId: string;
+  fieldId: string;
+  previous: number;
+  value: number;
+  note?: string;
+  changedAt: string;
+}
+
+// An entry of the edit history of a session. Undoing or redoing a change
+// is recorded as a change of its own that points at the change it reverts
+// or repeats.
+export interface ValueChangeEvent {
+  id: string;
+  playerId: string;
+  fieldId: string;
+  round?: number;
+  previous: any;
+  value: any;
+  changedAt: string;
+  editor: string;
+  action: 'edit' | 'undo' | 'redo';
+  targetId?: string;
+}
+
+export interface ScoresheetSession {
+  id: string;
+  gameId: string;
+  scoresheetId: string;
+  // Template version the session is pinned to
+  scoresheetVersion?: number;
+  createdAt: string;
+  status?: 'active' | 'completed';
+  completedAt?: string;
+  players: ScoresheetPlayer[];
+  values: ScoresheetValue[];
+  // Number of times the values were saved; saves based on an older one are rejected
+  valuesRevision?: number;
+  rolls?: DiceLogEntry[];
+  trackerLog?: TrackerLogEntry[];
+  history?: ValueChangeEvent[];
+}
+
+// A read-only link to a session. The token is the share ID signed by the
+// server, and stops working once the link expires or is revoked.
+export interface SessionShare {
+  id: string;
+  // Only sent to the user who created the link
+  token?: string;
+  createdAt: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+// What a share link opens: the session without its edit history, the
+// template version it uses and a summary to preview the link with
+export interface SharedSession {
+  session: ScoresheetSession;
+  scoresheet: ScoresheetTemplate;
+  game: { name: string };
+  summary: {
+    gameName: string;
+    players: { name: string; total: number | null; placement?: number }[];
+  };
+  expiresAt?: string;
+}
+
+// Values of a session as a player × field grid: playerId -> fieldId -> value
+export type PlayerValues = Record<string, Record<string, any>>;
@@ -0,0 +1,125 @@
+import { isDiceRoll } from './dice';
+import { ScoresheetField, ScoresheetSubcategory, ScoresheetValue } from './types';
+
+// Moving a session from the template version it is pinned to onto a newer
+// version. Values are carried over by field ID; values that have no place
+// in the new version are dropped and reported back to the player.
+
+export interface DroppedField {
+  fieldId: string;
+  name: string;
+  reason: string;
+}
+
+export interface SessionUpgrade {
+  values: ScoresheetValue[];
+  droppedFields: DroppedField[];
+}
+
+interface FieldLocation {
+  field: ScoresheetField;
+  inRounds: boolean;
+}
+
+const locateFields = (subcategories: ScoresheetSubcategory[]): Map<string, FieldLocation> => {
+  const fields = new Map<string, FieldLocation>();
+
+  subcategories.forEach(subcategory => {
+    subcategory.fields.forEach(field => {
+      fields.set(field.id, { field, inRounds: !!subcategory.rounds });
+    });
+  });
+
+  return fields;
+};
+
+const isEmpty = (value: any) => value === undefined || value === null || value === '';
+
+// Convert a single value to the type of a field. Returns undefined when the
+// value cannot be represented by the field.
+const convertValue = (value: any, field: ScoresheetField): any => {
+  if (isEmpty(value)) return value;
+
+  switch (field.type) {
+    case 'number':
+    case 'tracker': {
+      const number = typeof value === 'number' ? value : parseFloat(value);
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case 'text':
+      return typeof value === 'object' ? undefined : String(value);
+    case 'checkbox':
+      return typeof value === 'boolean' ? value : undefined;
+    case 'dropdown':
+      return field.options?.includes(String(value)) ? String(value) : undefined;
+    case 'dice':
+      return isDiceRoll(value) ? value : undefined;
+    default:
+      return undefined;
+  }
+};
+
+// Work out the value a field holds in the new version, or why it cannot be kept
+const upgradeValue = (value: any, from: FieldLocation, to: FieldLocation): { value?: any; reason?: string } => {
+  if (to.field.type === 'calculation') {
+    // Calculated values are worked out again from the new formula
+    return from.field.type === 'calculation' ? {} : { reason: 'it is now calculated' };
+  }
+
+  if (from.inRounds && !to.inRounds) {
+    return { reason: 'it is no longer scored in rounds' };
+  }
+
+  const rounds: any[] = from.inRounds && Array.isArray(value) ? value : [value];
+  const converted = rounds.map(round => convertValue(round, to.field));
+
+  if (converted.some((round, index) => round === undefined && !isEmpty(rounds[index]))) {
+    return { reason: `its values do not fit the new ${to.field.type} type` };
+  }
+
+  // A field moved into rounds keeps its value as the first round
+  return { value: to.inRounds ? converted : converted[0] };
+};
+
+// Map session values onto a new template version
+export const upgradeSessionValues = (
+  values: ScoresheetValue[],
+  fromSubcategories: ScoresheetSubcategory[],
+  toSubcategories: ScoresheetSubcategory[]
+): SessionUpgrade => {
+  const fromFields = locateFields(fromSubcategories);
+  const toFields = locateFields(toSubcategories);
+  const droppedFields = new Map<string, DroppedField>();
+  const upgraded: ScoresheetValue[] = [];
+
+  const drop = (fieldId: string, reason: string) => {
+    if (!droppedFields.has(fieldId)) {
+      const name = fromFields.get(fieldId)?.field.name || fieldId;
+      droppedFields.set(fieldId, { fieldId, name, reason });
+    }
+  };
+
+  values.forEach(value => {
+    const from = fromFields.get(value.fieldId);
+    const to = toFields.get(value.fieldId);
+
+    // Values of fields the old version did not have and of calculations are not player data
+    if (!from || (from.field.type === 'calculation' && !to)) return;
+
+    const entered = Array.isArray(value.value) ? value.value.some(round => !isEmpty(round)) : !isEmpty(value.value);
+
+    if (!to) {
+      if (entered) drop(value.fieldId, 'it was removed from the template');
+      return;
+    }
+
+    const result = upgradeValue(value.value, from, to);
+    if (result.reason) {
+      if (entered) drop(value.fieldId, result.reason);
+    } else if (result.value !== undefined) {
+      upgraded.push({ ...value, value: result.value });
+    }
+  });
+
+  return { values: upgraded, droppedFields: Array.from(droppedFields.values()) };
+};
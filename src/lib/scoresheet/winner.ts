@@ -0,0 +1,158 @@
+import { isDiceRoll } from './dice';
+import { getTotalFieldId } from './players';
+import { PlayerValues, ScoresheetField, ScoresheetPlayer, ScoresheetSubcategory, ScoresheetWinCondition } from './types';
+
+// Deciding who won a session. Templates declare the field holding each
+// player's total, whether the highest or lowest total wins and the fields
+// breaking ties, in order. Templates without a win condition rank players
+// by their last calculation field, highest first. Players still tied after
+// every tiebreak share a placement.
+
+export interface PlayerStanding {
+  player: ScoresheetPlayer;
+  total: number;
+  // Values of the tiebreak fields, in the order of the win condition
+  tiebreaks: number[];
+  rank: number;
+}
+
+// Field types that hold a single value players can be ranked by
+const RANKED_FIELD_TYPES: ScoresheetField['type'][] = ['number', 'calculation', 'tracker', 'checkbox', 'dice'];
+
+// The win condition of a template, or the default one when it has none.
+// Null when the template has nothing to rank players by.
+export const getWinCondition = (
+  subcategories: ScoresheetSubcategory[],
+  winCondition?: ScoresheetWinCondition
+): ScoresheetWinCondition | null => {
+  if (winCondition) return winCondition;
+
+  const totalFieldId = getTotalFieldId(subcategories);
+  return totalFieldId ? { totalFieldId } : null;
+};
+
+// Fields a win condition can use: fields holding a single value, outside of
+// subcategories scored by round
+export const getRankableFields = (subcategories: ScoresheetSubcategory[]): ScoresheetField[] => {
+  return subcategories
+    .filter(subcategory => !subcategory.rounds)
+    .flatMap(subcategory => subcategory.fields)
+    .filter(field => RANKED_FIELD_TYPES.includes(field.type));
+};
+
+// Checkboxes rank as 1 or 0 and dice fields by the total of their roll
+const toRankValue = (value: any): number => {
+  if (isDiceRoll(value)) return value.total;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return Number(value) || 0;
+};
+
+// Check a win condition sent by a client or read from a template file.
+// Its fields have to exist outside of rounds and hold a single value.
+export const getWinConditionProblems = (subcategories: ScoresheetSubcategory[], winCondition: any): string[] => {
+  if (typeof winCondition !== 'object' || winCondition === null || Array.isArray(winCondition)) {
+    return ['The win condition must be an object'];
+  }
+
+  const fields = new Map<string, ScoresheetField>();
+  subcategories.filter(subcategory => !subcategory.rounds).forEach(subcategory => {
+    subcategory.fields.forEach(field => fields.set(field.id, field));
+  });
+
+  const problems: string[] = [];
+
+  const checkField = (fieldId: any, label: string) => {
+    if (typeof fieldId !== 'string' || fieldId === '') {
+      problems.push(`The ${label} needs a field`);
+      return;
+    }
+
+    const field = fields.get(fieldId);
+    if (!field) {
+      problems.push(`The ${label} uses field "${fieldId}", which does not exist or is scored by round`);
+    } else if (!RANKED_FIELD_TYPES.includes(field.type)) {
+      problems.push(`The ${label} uses "${field.name}", a ${field.type} field that players cannot be ranked by`);
+    }
+  };
+
+  checkField(winCondition.totalFieldId, 'total of the win condition');
+
+  if (winCondition.lowestWins !== undefined && typeof winCondition.lowestWins !== 'boolean') {
+    problems.push('The lowestWins setting of the win condition must be true or false');
+  }
+
+  if (winCondition.tiebreaks !== undefined) {
+    if (!Array.isArray(winCondition.tiebreaks)) {
+      problems.push('The tiebreaks of the win condition must be a list');
+    } else {
+      const used = new Set([winCondition.totalFieldId]);
+      winCondition.tiebreaks.forEach((tiebreak: any, index: number) => {
+        const label = `tiebreak ${index + 1}`;
+
+        if (typeof tiebreak !== 'object' || tiebreak === null) {
+          problems.push(`The ${label} must be an object`);
+          return;
+        }
+
+        checkField(tiebreak.fieldId, label);
+        if (tiebreak.lowestWins !== undefined && typeof tiebreak.lowestWins !== 'boolean') {
+          problems.push(`The lowestWins setting of ${label} must be true or false`);
+        }
+        if (used.has(tiebreak.fieldId)) {
+          problems.push(`The ${label} uses a field the win condition already ranks by`);
+        }
+        used.add(tiebreak.fieldId);
+      });
+    }
+  }
+
+  return problems;
+};
+
+// Rank players by the win condition, winner first. Players tied on the
+// total and every tiebreak share a rank.
+export const rankPlayers = (
+  players: ScoresheetPlayer[],
+  playerValues: PlayerValues,
+  winCondition: ScoresheetWinCondition
+): PlayerStanding[] => {
+  const keys = [
+    { fieldId: winCondition.totalFieldId, lowestWins: winCondition.lowestWins },
+    ...(winCondition.tiebreaks || [])
+  ];
+
+  const compare = (a: number[], b: number[]) => {
+    for (let index = 0; index < keys.length; index++) {
+      const difference = a[index] - b[index];
+      if (difference !== 0) return keys[index].lowestWins ? difference : -difference;
+    }
+    return 0;
+  };
+
+  const ranked = players
+    .map(player => ({
+      player,
+      values: keys.map(key => toRankValue(playerValues[player.id]?.[key.fieldId]))
+    }))
+    .sort((a, b) => compare(a.values, b.values));
+
+  const standings: PlayerStanding[] = [];
+  ranked.forEach(({ player, values }, index) => {
+    const tied = index > 0 && compare(values, ranked[index - 1].values) === 0;
+    standings.push({
+      player,
+      total: values[0],
+      tiebreaks: values.slice(1),
+      rank: tied ? standings[index - 1].rank : index + 1
+    });
+  });
+
+  return standings;
+};
+
+// Whether a tiebreak decided between a player and the one ranked above
+export const isDecidedByTiebreak = (standings: PlayerStanding[], index: number): boolean => {
+  return index > 0 &&
+    standings[index].total === standings[index - 1].total &&
+    standings[index].rank !== standings[index - 1].rank;
+};
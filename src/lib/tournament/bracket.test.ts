@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BracketError,
+  createSingleElimination,
+  getBracketOrder,
+  getBracketSize,
+  getChampionId,
+  getSeedingProblems,
+  isSkippedReset,
+  recordMatchResult,
+  seedPlayers
+} from './bracket';
+import { createDoubleElimination } from './doubleElimination';
+import { TournamentMatch, TournamentPlayer } from './types';
+
+const createPlayers = (count: number): TournamentPlayer[] =>
+  Array.from({ length: count }, (_, index) => ({ id: `p${index + 1}`, name: `Player ${index + 1}`, seed: index + 1 }));
+
+const createIds = () => {
+  let next = 0;
+  return () => `m${next++}`;
+};
+
+// Play every match that has both players, the better seed winning
+const playOut = (
+  matches: TournamentMatch[],
+  isPlayed: (match: TournamentMatch) => boolean = () => true
+): TournamentMatch[] => {
+  const seed = (id: string) => Number(id.slice(1));
+  for (;;) {
+    const match = matches.find(other => other.status === 'pending' && other.player1Id && other.player2Id && isPlayed(other));
+    if (!match) return matches;
+
+    const player1Wins = seed(match.player1Id) < seed(match.player2Id);
+    matches = recordMatchResult(matches, match.id, player1Wins ? 2 : 1, player1Wins ? 1 : 2);
+  }
+};
+
+describe('seeding', () => {
+  it('orders manual seeds', () => {
+    const players = [
+      { id: 'a', name: 'A', seed: 2 },
+      { id: 'b', name: 'B', seed: 1 }
+    ];
+    expect(seedPlayers(players, 'manual').map(player => player.id)).toEqual(['b', 'a']);
+  });
+
+  it('puts the highest rating first and unrated players last in the order entered', () => {
+    const players = [
+      { id: 'a', name: 'A' },
+      { id: 'b', name: 'B', rating: 1500 },
+      { id: 'c', name: 'C' },
+      { id: 'd', name: 'D', rating: 1800 }
+    ];
+    const seeded = seedPlayers(players, 'rating');
+    expect(seeded.map(player => player.id)).toEqual(['d', 'b', 'a', 'c']);
+    expect(seeded.map(player => player.seed)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('repeats random draws with the same random numbers', () => {
+    const random = () => 0.3;
+    expect(seedPlayers(createPlayers(6), 'random', random)).toEqual(seedPlayers(createPlayers(6), 'random', random));
+  });
+
+  it('reports missing, repeated and out of range seeds', () => {
+    const problems = getSeedingProblems([
+      { id: 'a', name: 'A', seed: 1 },
+      { id: 'b', name: 'B', seed: 1 },
+      { id: 'c', name: 'C', seed: 5 },
+      { id: 'd', name: 'a' }
+    ], 'manual');
+    expect(problems).toEqual([
+      '"a" is entered more than once',
+      'Seed 1 is given to more than one player',
+      'C needs a seed between 1 and 4',
+      'a needs a seed between 1 and 4'
+    ]);
+  });
+});
+
+describe('bracket shape', () => {
+  it('fills the bracket up to the next power of two', () => {
+    expect(getBracketSize(2)).toBe(2);
+    expect(getBracketSize(5)).toBe(8);
+    expect(getBracketSize(16)).toBe(16);
+  });
+
+  it('keeps the top two seeds apart until the final', () => {
+    expect(getBracketOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+
+  it('needs at least two players', () => {
+    expect(() => createSingleElimination(createPlayers(1))).toThrow(BracketError);
+  });
+});
+
+describe('byes', () => {
+  it('gives the byes to the top seeds and moves them on', () => {
+    const matches = createSingleElimination(createPlayers(6), createIds());
+    const byes = matches.filter(match => match.bye);
+
+    expect(byes.map(match => match.winnerId).sort()).toEqual(['p1', 'p2']);
+    byes.forEach(match => {
+      const next = matches.find(other => other.id === match.nextMatchId);
+      expect([next.player1Id, next.player2Id]).toContain(match.winnerId);
+    });
+  });
+
+  it('has no result to record for a bye', () => {
+    const matches = createSingleElimination(createPlayers(3), createIds());
+    const bye = matches.find(match => match.bye);
+    expect(() => recordMatchResult(matches, bye.id, 1, 0)).toThrow('Byes have no result to record');
+  });
+});
+
+describe('advancement', () => {
+  it('moves the winner into the next match', () => {
+    const matches = createSingleElimination(createPlayers(4), createIds());
+    const first = matches.find(match => match.round === 0 && match.player1Id === 'p1');
+    const updated = recordMatchResult(matches, first.id, 1, 3);
+    const next = updated.find(match => match.id === first.nextMatchId);
+
+    expect(updated.find(match => match.id === first.id).winnerId).toBe(first.player2Id);
+    expect(first.nextSlot === 1 ? next.player1Id : next.player2Id).toBe(first.player2Id);
+    // The given matches are left unchanged
+    expect(matches.find(match => match.id === first.id).status).toBe('pending');
+  });
+
+  it('rejects draws unless allowed', () => {
+    const matches = createSingleElimination(createPlayers(2), createIds());
+    expect(() => recordMatchResult(matches, matches[0].id, 1, 1)).toThrow('Matches cannot end in a draw');
+    expect(recordMatchResult(matches, matches[0].id, 1, 1, { allowDraws: true })[0].winnerId).toBeNull();
+  });
+
+  it('keeps the winner once the next match has been played', () => {
+    let matches = createSingleElimination(createPlayers(4), createIds());
+    const first = matches.find(match => match.round === 0 && match.player1Id === 'p1');
+    matches = playOut(matches);
+
+    expect(() => recordMatchResult(matches, first.id, 0, 1)).toThrow(
+      'The winner cannot change after the next match has been played'
+    );
+    expect(recordMatchResult(matches, first.id, 5, 1).find(match => match.id === first.id).score1).toBe(5);
+  });
+
+  it('crowns the winner of the final', () => {
+    const matches = createSingleElimination(createPlayers(5), createIds());
+    expect(getChampionId(matches)).toBeNull();
+    expect(getChampionId(playOut(matches))).toBe('p1');
+  });
+});
+
+describe('grand final reset', () => {
+  const getFinals = (matches: TournamentMatch[]) =>
+    matches.filter(match => match.bracket === 'grand_final').sort((a, b) => a.round - b.round);
+
+  it('skips the reset when the winners bracket champion wins the grand final', () => {
+    const matches = playOut(createDoubleElimination(createPlayers(4), { bracketReset: true }, createIds()));
+    const [grandFinal, reset] = getFinals(matches);
+
+    expect(grandFinal.winnerId).toBe('p1');
+    expect(isSkippedReset(reset)).toBe(true);
+    expect(getChampionId(matches)).toBe('p1');
+  });
+
+  it('plays the reset when the losers bracket champion wins the grand final', () => {
+    let matches = playOut(
+      createDoubleElimination(createPlayers(4), { bracketReset: true }, createIds()),
+      match => match.bracket !== 'grand_final'
+    );
+    const [grandFinal] = getFinals(matches);
+    expect([grandFinal.player1Id, grandFinal.player2Id]).toEqual(['p1', 'p2']);
+
+    matches = recordMatchResult(matches, grandFinal.id, 1, 2);
+    const [, reset] = getFinals(matches);
+    expect(isSkippedReset(reset)).toBe(false);
+    expect(reset.status).toBe('pending');
+    expect(getChampionId(matches)).toBeNull();
+
+    matches = recordMatchResult(matches, reset.id, 1, 3);
+    expect(getChampionId(matches)).toBe(getFinals(matches)[1].player2Id);
+  });
+
+  it('has no reset without the option', () => {
+    const matches = playOut(createDoubleElimination(createPlayers(4), { bracketReset: false }, createIds()));
+    expect(getFinals(matches)).toHaveLength(1);
+    expect(getChampionId(matches)).toBe('p1');
+  });
+});
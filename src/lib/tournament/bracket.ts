@@ -0,0 +1,322 @@
+import { SeedingMethod, TournamentMatch, TournamentPlayer } from './types';
+
+// Knockout brackets for any number of players. The bracket is filled up to
+// the next power of two with byes, which go to the top seeds, and seeds are
+// placed so the top two can only meet in the final. Byes are won right
+// away, moving their player on to the second round. Matches link to the
+// match their winner moves on to, and in double elimination to the match
+// their loser drops to, so results can be recorded without knowing the
+// shape of the bracket.
+
+export class BracketError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BracketError';
+  }
+}
+
+// Check players and their seeding before a bracket is built. Manual seeding
+// needs every seed from 1 to the number of players exactly once.
+export const getSeedingProblems = (players: TournamentPlayer[], method: SeedingMethod): string[] => {
+  const problems: string[] = [];
+
+  if (players.length < 2) {
+    problems.push('A bracket needs at least 2 players');
+  }
+
+  const names = new Set<string>();
+  players.forEach(player => {
+    const name = player.name.trim().toLowerCase();
+    if (names.has(name)) problems.push(`"${player.name}" is entered more than once`);
+    names.add(name);
+  });
+
+  if (method === 'manual') {
+    const seeds = new Set<number>();
+    players.forEach(player => {
+      if (!Number.isInteger(player.seed) || player.seed < 1 || player.seed > players.length) {
+        problems.push(`${player.name} needs a seed between 1 and ${players.length}`);
+      } else if (seeds.has(player.seed)) {
+        problems.push(`Seed ${player.seed} is given to more than one player`);
+      } else {
+        seeds.add(player.seed);
+      }
+    });
+  }
+
+  if (method === 'rating') {
+    players
+      .filter(player => player.rating !== undefined && !Number.isFinite(player.rating))
+      .forEach(player => problems.push(`The rating of ${player.name} must be a number`));
+  }
+
+  return problems;
+};
+
+// Order players by seed and number their seeds from 1. Rating seeding puts
+// the highest rating first and unrated players last, keeping the order they
+// were entered in for equal ratings. Random seeding takes the random number
+// generator to use, so draws can be repeated in tests.
+export const seedPlayers = (
+  players: TournamentPlayer[],
+  method: SeedingMethod,
+  random: () => number = Math.random
+): TournamentPlayer[] => {
+  let ordered = [...players];
+
+  if (method === 'manual') {
+    ordered.sort((a, b) => a.seed - b.seed);
+  } else if (method === 'rating') {
+    ordered = ordered
+      .map((player, index) => ({ player, index }))
+      .sort((a, b) => {
+        const ratingA = a.player.rating ?? -Infinity;
+        const ratingB = b.player.rating ?? -Infinity;
+        return ratingA === ratingB ? a.index - b.index : ratingB - ratingA;
+      })
+      .map(({ player }) => player);
+  } else {
+    for (let index = ordered.length - 1; index > 0; index--) {
+      const other = Math.floor(random() * (index + 1));
+      [ordered[index], ordered[other]] = [ordered[other], ordered[index]];
+    }
+  }
+
+  return ordered.map((player, index) => ({ ...player, seed: index + 1 }));
+};
+
+// Number of slots in the first round: the next power of two
+export const getBracketSize = (playerCount: number): number => {
+  let size = 2;
+  while (size < playerCount) size *= 2;
+  return size;
+};
+
+// Seeds in the order of the first round slots, pairing the best seed with
+// the worst: [1, 8, 4, 5, 2, 7, 3, 6] for 8 slots. Seeds above the number of
+// players are byes, so they always face the top seeds.
+export const getBracketOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const slots = order.length * 2;
+    order = order.flatMap(seed => [seed, slots + 1 - seed]);
+  }
+  return order;
+};
+
+export const emptyMatch = (
+  id: string,
+  round: number,
+  position: number,
+  bracket?: TournamentMatch['bracket']
+): TournamentMatch => ({
+  id,
+  round,
+  position,
+  player1Id: null,
+  player2Id: null,
+  winnerId: null,
+  score1: null,
+  score2: null,
+  status: 'pending',
+  nextMatchId: null,
+  nextSlot: null,
+  ...(bracket ? { bracket } : {})
+});
+
+// The loser of a played match. Byes have none.
+const getLoserId = (match: TournamentMatch): string | null => {
+  if (match.status !== 'completed' || match.bye || !match.winnerId) return null;
+  return match.winnerId === match.player1Id ? match.player2Id : match.player1Id;
+};
+
+const setSlot = (match: TournamentMatch, slot: 1 | 2 | null, playerId: string | null) => {
+  if (slot === 1) {
+    match.player1Id = playerId;
+  } else {
+    match.player2Id = playerId;
+  }
+};
+
+// Put the winner of a match into its slot of the next match, and the loser
+// into its slot of the loser's match
+const movePlayersOn = (byId: Map<string, TournamentMatch>, match: TournamentMatch) => {
+  const next = match.nextMatchId && byId.get(match.nextMatchId);
+  if (next) setSlot(next, match.nextSlot, match.winnerId);
+
+  const loserMatch = match.loserMatchId && byId.get(match.loserMatchId);
+  if (loserMatch) setSlot(loserMatch, match.loserSlot ?? null, getLoserId(match));
+};
+
+// Complete every match that can no longer get two players. A match with one
+// player left is a bye won by that player; a match without any produces no
+// winner. Slots stay open while the match feeding them is still to be
+// played, so losers brackets settle as their feeding matches finish.
+export const settleByes = (matches: TournamentMatch[]) => {
+  const byId = new Map(matches.map(match => [match.id, match]));
+  // The match feeding each slot, by match ID and slot
+  const sources = new Map<string, TournamentMatch>();
+  matches.forEach(match => {
+    if (match.nextMatchId) sources.set(`${match.nextMatchId}:${match.nextSlot}`, match);
+    if (match.loserMatchId) sources.set(`${match.loserMatchId}:${match.loserSlot}`, match);
+  });
+
+  const isOpen = (match: TournamentMatch, slot: 1 | 2) => {
+    if (slot === 1 ? match.player1Id : match.player2Id) return false;
+    const source = sources.get(`${match.id}:${slot}`);
+    return !!source && source.status !== 'completed';
+  };
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    matches
+      .filter(match => match.status === 'pending' && !(match.player1Id && match.player2Id))
+      .filter(match => !isOpen(match, 1) && !isOpen(match, 2))
+      .forEach(match => {
+        match.winnerId = match.player1Id ?? match.player2Id;
+        match.status = 'completed';
+        match.bye = true;
+        movePlayersOn(byId, match);
+        changed = true;
+      });
+  }
+};
+
+// Build the rounds of a knockout tree from players in seed order, linking
+// every match to the next one. Rounds and positions count from 0; the last
+// round holds the final.
+export const buildKnockoutRounds = (
+  seeded: TournamentPlayer[],
+  createId: () => string,
+  bracket?: TournamentMatch['bracket']
+): TournamentMatch[][] => {
+  if (seeded.length < 2) {
+    throw new BracketError('A bracket needs at least 2 players');
+  }
+
+  const size = getBracketSize(seeded.length);
+  const rounds: TournamentMatch[][] = [];
+  for (let round = 0, count = size / 2; count >= 1; round++, count /= 2) {
+    rounds.push(Array.from({ length: count }, (_, position) => emptyMatch(createId(), round, position, bracket)));
+  }
+
+  rounds.forEach((matches, round) => {
+    const next = rounds[round + 1];
+    if (!next) return;
+
+    matches.forEach(match => {
+      match.nextMatchId = next[Math.floor(match.position / 2)].id;
+      match.nextSlot = match.position % 2 === 0 ? 1 : 2;
+    });
+  });
+
+  const order = getBracketOrder(size);
+  rounds[0].forEach(match => {
+    match.player1Id = seeded[order[match.position * 2] - 1]?.id ?? null;
+    match.player2Id = seeded[order[match.position * 2 + 1] - 1]?.id ?? null;
+  });
+
+  return rounds;
+};
+
+// Build the matches of a single-elimination bracket from players in seed
+// order, with the byes already won
+export const createSingleElimination = (
+  seeded: TournamentPlayer[],
+  createId: () => string = () => crypto.randomUUID()
+): TournamentMatch[] => {
+  const matches = buildKnockoutRounds(seeded, createId).flat();
+  settleByes(matches);
+  return matches;
+};
+
+// The grand final and the bracket reset played when the player coming from
+// the losers bracket wins it
+const getGrandFinals = (matches: TournamentMatch[]) => {
+  const finals = matches.filter(match => match.bracket === 'grand_final').sort((a, b) => a.round - b.round);
+  return { grandFinal: finals[0], reset: finals[1] };
+};
+
+// Record the scores of a match and move its winner on, and in double
+// elimination its loser too. A result can be corrected until the players
+// have played their next match. A grand final won by the champion of the
+// winners bracket makes the bracket reset unnecessary. Formats scored in
+// standings, such as round robin, allow draws, which have no winner.
+// Returns the updated matches, leaving the given ones unchanged.
+export const recordMatchResult = (
+  matches: TournamentMatch[],
+  matchId: string,
+  score1: number,
+  score2: number,
+  options: { allowDraws?: boolean } = {}
+): TournamentMatch[] => {
+  const updated = matches.map(match => ({ ...match }));
+  const byId = new Map(updated.map(match => [match.id, match]));
+
+  const match = byId.get(matchId);
+  if (!match) {
+    throw new BracketError('Match not found');
+  }
+
+  if (match.bye) {
+    throw new BracketError('Byes have no result to record');
+  }
+
+  if (!match.player1Id || !match.player2Id) {
+    throw new BracketError('Both players of the match have to be known first');
+  }
+
+  if (!Number.isFinite(score1) || !Number.isFinite(score2)) {
+    throw new BracketError('Both scores are required');
+  }
+
+  if (score1 === score2 && !options.allowDraws) {
+    throw new BracketError('Matches cannot end in a draw');
+  }
+
+  const winnerId = score1 === score2 ? null : score1 > score2 ? match.player1Id : match.player2Id;
+  const isPlayed = (id?: string | null) => {
+    const other = id && byId.get(id);
+    return !!other && other.status === 'completed' && other.winnerId !== null;
+  };
+  if (match.winnerId !== winnerId && (isPlayed(match.nextMatchId) || isPlayed(match.loserMatchId))) {
+    throw new BracketError('The winner cannot change after the next match has been played');
+  }
+
+  Object.assign(match, { score1, score2, winnerId, status: 'completed' });
+
+  const { grandFinal, reset } = getGrandFinals(updated);
+  if (match === grandFinal && reset) {
+    // The reset is only played when the winners bracket champion lost
+    if (winnerId === match.player1Id) {
+      Object.assign(reset, { player1Id: null, player2Id: null, status: 'completed' });
+      return updated;
+    }
+    reset.status = 'pending';
+  }
+
+  movePlayersOn(byId, match);
+  settleByes(updated);
+
+  return updated;
+};
+
+// Whether a bracket reset was left out because the grand final decided it
+export const isSkippedReset = (match: TournamentMatch): boolean => {
+  return match.bracket === 'grand_final' && match.status === 'completed' && !match.player1Id && !match.player2Id;
+};
+
+// The winner of the tournament, once the final has been played
+export const getChampionId = (matches: TournamentMatch[]): string | null => {
+  const { grandFinal, reset } = getGrandFinals(matches);
+
+  if (!grandFinal) {
+    const final = matches.find(match => !match.nextMatchId);
+    return final?.status === 'completed' ? final.winnerId : null;
+  }
+
+  if (reset?.status === 'completed' && reset.winnerId) return reset.winnerId;
+  if (grandFinal.status === 'completed' && (!reset || isSkippedReset(reset))) return grandFinal.winnerId;
+  return null;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { getChampionId, isSkippedReset, recordMatchResult } from './bracket';
+import { createDoubleElimination } from './doubleElimination';
+import { TournamentMatch, TournamentPlayer } from './types';
+
+const createPlayers = (count: number): TournamentPlayer[] =>
+  Array.from({ length: count }, (_, index) => ({ id: `p${index + 1}`, name: `Player ${index + 1}`, seed: index + 1 }));
+
+const createIds = () => {
+  let next = 0;
+  return () => `m${next++}`;
+};
+
+// Random numbers that repeat from run to run
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+// Play every match that has both players, player 1 winning when the given
+// function says so
+const playOut = (matches: TournamentMatch[], player1Wins: (match: TournamentMatch) => boolean): TournamentMatch[] => {
+  for (;;) {
+    const match = matches.find(other => other.status === 'pending' && other.player1Id && other.player2Id);
+    if (!match) return matches;
+
+    matches = player1Wins(match)
+      ? recordMatchResult(matches, match.id, 2, 1)
+      : recordMatchResult(matches, match.id, 1, 2);
+  }
+};
+
+const getLosses = (matches: TournamentMatch[]) => {
+  const losses = new Map<string, number>();
+  matches
+    .filter(match => match.status === 'completed' && !match.bye && match.winnerId)
+    .forEach(match => {
+      const loserId = match.winnerId === match.player1Id ? match.player2Id : match.player1Id;
+      losses.set(loserId, (losses.get(loserId) ?? 0) + 1);
+    });
+  return losses;
+};
+
+describe('double elimination', () => {
+  it('sends the loser of a two player final straight to the grand final', () => {
+    let matches = createDoubleElimination(createPlayers(2), { bracketReset: false }, createIds());
+    expect(matches.filter(match => match.bracket === 'losers')).toHaveLength(0);
+
+    matches = recordMatchResult(matches, matches[0].id, 1, 2);
+    const grandFinal = matches.find(match => match.bracket === 'grand_final');
+    expect([grandFinal.player1Id, grandFinal.player2Id]).toEqual(['p2', 'p1']);
+  });
+
+  it('drops the losers of the first round into the first losers round', () => {
+    const matches = createDoubleElimination(createPlayers(8), {}, createIds());
+    const firstLosersRound = matches.filter(match => match.bracket === 'losers' && match.round === 0).map(match => match.id);
+
+    matches
+      .filter(match => match.bracket === 'winners' && match.round === 0)
+      .forEach(match => expect(firstLosersRound).toContain(match.loserMatchId));
+  });
+
+  it.each([2, 3, 4, 5, 6, 7, 8, 11, 16])('eliminates everyone but the champion after two losses with %i players', count => {
+    [true, false].forEach(bracketReset => {
+      for (let run = 0; run < 5; run++) {
+        const random = createRandom(count * 10 + run);
+        const matches = playOut(createDoubleElimination(createPlayers(count), { bracketReset }, createIds()), () => random() < 0.5);
+        const championId = getChampionId(matches);
+        const losses = getLosses(matches);
+        const others = createPlayers(count).filter(player => player.id !== championId).map(player => losses.get(player.id));
+
+        expect(championId).not.toBeNull();
+        expect(losses.get(championId) ?? 0).toBeLessThanOrEqual(1);
+        expect(matches.every(match => match.status === 'completed')).toBe(true);
+        // Without a reset the winners bracket champion can lose the grand
+        // final with a single loss
+        expect(others.filter(lossCount => lossCount !== 2)).toEqual(
+          bracketReset || others.every(lossCount => lossCount === 2) ? [] : [1]
+        );
+      }
+    });
+  });
+
+  it('skips the reset when the winners bracket champion wins the grand final', () => {
+    const matches = playOut(createDoubleElimination(createPlayers(6), {}, createIds()), () => true);
+    const reset = matches.filter(match => match.bracket === 'grand_final').find(match => match.round === 1);
+    expect(isSkippedReset(reset)).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { buildKnockoutRounds, emptyMatch, settleByes } from './bracket';
+import { TournamentMatch, TournamentPlayer } from './types';
+
+// Double-elimination brackets. Players losing in the winners bracket drop
+// into the losers bracket, which alternates two kinds of rounds: one where
+// its remaining players meet the players dropping down from a winners
+// round, and one where they play each other. Players dropping down are
+// placed in reverse order every other round, so they do not meet the
+// player they just lost to again. The champion of each bracket meets in
+// the grand final; when the player coming from the losers bracket wins it,
+// both have one loss and an optional bracket reset decides the tournament.
+
+const link = (from: TournamentMatch, to: TournamentMatch, slot: 1 | 2, loser: boolean) => {
+  if (loser) {
+    from.loserMatchId = to.id;
+    from.loserSlot = slot;
+  } else {
+    from.nextMatchId = to.id;
+    from.nextSlot = slot;
+  }
+};
+
+// Build the matches of a double-elimination bracket from players in seed
+// order, with the byes already won. Rounds count from 0 within each bracket.
+export const createDoubleElimination = (
+  seeded: TournamentPlayer[],
+  options: { bracketReset?: boolean } = {},
+  createId: () => string = () => crypto.randomUUID()
+): TournamentMatch[] => {
+  const winners = buildKnockoutRounds(seeded, createId, 'winners');
+  const losers: TournamentMatch[][] = [];
+
+  const addLosersRound = (count: number) => {
+    const round = losers.length;
+    losers.push(Array.from({ length: count }, (_, position) => emptyMatch(createId(), round, position, 'losers')));
+    return losers[round];
+  };
+
+  if (winners.length > 1) {
+    // Losers of the first round play each other
+    const first = addLosersRound(winners[0].length / 2);
+    winners[0].forEach(match => link(match, first[Math.floor(match.position / 2)], match.position % 2 === 0 ? 1 : 2, true));
+
+    for (let round = 1; round < winners.length; round++) {
+      // Players left in the losers bracket meet those dropping from this winners round
+      const previous = losers[losers.length - 1];
+      const dropRound = addLosersRound(winners[round].length);
+      previous.forEach(match => link(match, dropRound[match.position], 1, false));
+      winners[round].forEach(match => {
+        const position = round % 2 === 1 ? dropRound.length - 1 - match.position : match.position;
+        link(match, dropRound[position], 2, true);
+      });
+
+      // Then they play each other, until one is left for the losers final
+      if (dropRound.length > 1) {
+        const pairRound = addLosersRound(dropRound.length / 2);
+        dropRound.forEach(match => link(match, pairRound[Math.floor(match.position / 2)], match.position % 2 === 0 ? 1 : 2, false));
+      }
+    }
+  }
+
+  const grandFinal = emptyMatch(createId(), 0, 0, 'grand_final');
+  const winnersFinal = winners[winners.length - 1][0];
+  link(winnersFinal, grandFinal, 1, false);
+
+  // With two players the loser of the only winners match goes straight to the grand final
+  if (losers.length > 0) {
+    link(losers[losers.length - 1][0], grandFinal, 2, false);
+  } else {
+    link(winnersFinal, grandFinal, 2, true);
+  }
+
+  const matches = [...winners.flat(), ...losers.flat(), grandFinal];
+
+  // Both players of the grand final keep their slots in the reset
+  if (options.bracketReset !== false) {
+    const reset = emptyMatch(createId(), 1, 0, 'grand_final');
+    link(grandFinal, reset, 2, false);
+    link(grandFinal, reset, 1, true);
+    matches.push(reset);
+  }
+
+  settleByes(matches);
+  return matches;
+};
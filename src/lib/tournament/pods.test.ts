@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { BracketError } from './bracket';
+import {
+  getPodChampionId,
+  getPodSettingsProblems,
+  getPodStandings,
+  getTableSizes,
+  isPodTournamentFinished,
+  recordPodResult,
+  seatPodRound
+} from './pods';
+import { PodAdvancement, TournamentMatch, TournamentPlayer } from './types';
+
+const createPlayers = (count: number): TournamentPlayer[] =>
+  Array.from({ length: count }, (_, index) => ({ id: `p${index + 1}`, name: `Player ${index + 1}`, seed: index + 1 }));
+
+const createIds = () => {
+  let next = 0;
+  return () => `m${next++}`;
+};
+
+// Score every table of the current round, the best seed at a table first
+const playRound = (matches: TournamentMatch[], advancement: PodAdvancement): TournamentMatch[] => {
+  matches
+    .filter(match => match.status === 'pending')
+    .forEach(match => {
+      const scores = Object.fromEntries(match.participants.map(({ playerId }) => [playerId, 100 - Number(playerId.slice(1))]));
+      matches = recordPodResult(matches, match.id, scores, null, advancement);
+    });
+  return matches;
+};
+
+describe('table sizes', () => {
+  it('balances the tables', () => {
+    expect(getTableSizes(10, 4)).toEqual([4, 3, 3]);
+    expect(getTableSizes(12, 4)).toEqual([4, 4, 4]);
+    expect(getTableSizes(7, 5)).toEqual([4, 3]);
+  });
+
+  it('seats players at one table over the pod size rather than at tables of two', () => {
+    expect(getTableSizes(4, 3)).toEqual([4]);
+    expect(getTableSizes(5, 4)).toEqual([5]);
+  });
+
+  it('rejects player counts that fit no tables', () => {
+    expect(() => getTableSizes(5, 3)).toThrow(BracketError);
+    expect(() => getTableSizes(2, 4)).toThrow('2 players cannot sit at tables of 3 to 5');
+  });
+
+  it.each([3, 4, 5, 6, 7, 8])('keeps tables at pod size %i between three players and one over the pod size', podSize => {
+    for (let count = 3; count <= 64; count++) {
+      let sizes: number[];
+      try {
+        sizes = getTableSizes(count, podSize);
+      } catch (err) {
+        expect(err).toBeInstanceOf(BracketError);
+        continue;
+      }
+      expect(sizes.reduce((sum, size) => sum + size, 0)).toBe(count);
+      expect(Math.min(...sizes)).toBeGreaterThanOrEqual(3);
+      expect(Math.max(...sizes)).toBeLessThanOrEqual(podSize + 1);
+      expect(Math.max(...sizes) - Math.min(...sizes)).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe('pod settings', () => {
+  it('rejects tournaments whose rounds cannot be seated', () => {
+    expect(getPodSettingsProblems(4, { type: 'top', count: 2 }, 16)).toEqual([]);
+    expect(getPodSettingsProblems(3, { type: 'top', count: 1 }, 5)).toEqual(['5 players cannot sit at tables of 3 to 4']);
+    expect(getPodSettingsProblems(4, { type: 'top', count: 1 }, 25)).toEqual([
+      'Round 3 would have 2 players, who cannot sit at tables of 3 to 5'
+    ]);
+  });
+
+  it('rejects rounds in which every player advances', () => {
+    expect(getPodSettingsProblems(8, { type: 'top', count: 6 }, 9)).toEqual([
+      'Every player of round 1 would advance; let fewer players of each table advance'
+    ]);
+  });
+
+  it('checks the pod size and advancement', () => {
+    expect(getPodSettingsProblems(2, { type: 'top', count: 1 }, 8)).toContain('Tables seat 3 to 8 players');
+    expect(getPodSettingsProblems(4, { type: 'top', count: 3 }, 8)).toContain('1 to 2 players of each table can advance');
+    expect(getPodSettingsProblems(4, { type: 'placement_points', points: [], rounds: 0 }, 8)).toEqual([
+      'Placement points must be a list of numbers',
+      'Pod tournaments scored by placement play at least 1 round'
+    ]);
+  });
+});
+
+describe('pod rounds', () => {
+  it('deals the seeds out across the tables', () => {
+    const tables = seatPodRound(createPlayers(8), [], 4, { type: 'top', count: 2 }, createIds());
+    expect(tables.map(table => table.participants.map(participant => participant.playerId))).toEqual([
+      ['p1', 'p4', 'p5', 'p8'],
+      ['p2', 'p3', 'p6', 'p7']
+    ]);
+  });
+
+  it.each([9, 16, 24, 37])('plays %i players down to a final table', count => {
+    const advancement: PodAdvancement = { type: 'top', count: 2 };
+    const players = createPlayers(count);
+    const createId = createIds();
+    let matches: TournamentMatch[] = [];
+
+    while (!isPodTournamentFinished(matches, advancement)) {
+      matches = playRound([...matches, ...seatPodRound(players, matches, 4, advancement, createId)], advancement);
+    }
+
+    expect(getPodChampionId(matches, advancement)).toBe('p1');
+    expect(() => seatPodRound(players, matches, 4, advancement)).toThrow('The final table has been played');
+  });
+
+  it('needs a tie across the advancing places broken by placements', () => {
+    const advancement: PodAdvancement = { type: 'top', count: 2 };
+    const matches = seatPodRound(createPlayers(8), [], 4, advancement, createIds());
+    const [p1, p4, p5, p8] = matches[0].participants.map(participant => participant.playerId);
+    const scores = { [p1]: 10, [p4]: 5, [p5]: 5, [p8]: 1 };
+
+    expect(() => recordPodResult(matches, matches[0].id, scores, null, advancement)).toThrow(BracketError);
+    const updated = recordPodResult(matches, matches[0].id, scores, { [p1]: 1, [p4]: 2, [p5]: 3, [p8]: 4 }, advancement);
+    expect(updated[0].participants.map(participant => participant.placement)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('ranks players by placement points over the rounds', () => {
+    const advancement: PodAdvancement = { type: 'placement_points', points: [3, 1], rounds: 2 };
+    const players = createPlayers(6);
+    const createId = createIds();
+    let matches: TournamentMatch[] = [];
+
+    for (let round = 0; round < 2; round++) {
+      matches = playRound([...matches, ...seatPodRound(players, matches, 3, advancement, createId)], advancement);
+    }
+
+    expect(isPodTournamentFinished(matches, advancement)).toBe(true);
+    expect(() => seatPodRound(players, matches, 3, advancement)).toThrow('Every round has been played');
+    const standings = getPodStandings(players, matches, advancement.points);
+    expect(standings[0]).toMatchObject({ player: { id: 'p1' }, played: 2, wins: 2, points: 6, rank: 1 });
+  });
+});
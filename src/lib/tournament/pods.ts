@@ -0,0 +1,345 @@
+import { BracketError, emptyMatch } from './bracket';
+import { PodAdvancement, PodParticipant, PodStanding, TournamentMatch, TournamentPlayer } from './types';
+
+// Pod tournaments seat players at tables of three or more, the usual way to
+// play board games in a tournament. Every round splits the players into
+// tables of balanced sizes: ten players at tables of four sit at tables of
+// 4, 3 and 3 rather than 4, 4 and 2. Each table is one match whose players
+// all get a score and a placement. Players move on in one of two ways: the
+// top players of each table advance until a single final table is left, or
+// everyone plays a set number of rounds scoring points by placement and is
+// ranked in standings. Like Swiss rounds, each round is seated once the
+// previous one has been played.
+
+export const DEFAULT_POD_SIZE = 4;
+
+export const DEFAULT_PLACEMENT_POINTS = [4, 2, 1, 0];
+
+export const MIN_POD_SIZE = 3;
+
+export const MAX_POD_SIZE = 8;
+
+// By default the top 2 of each table advance, or the winner only at tables of 3
+export const getDefaultAdvancement = (podSize: number): PodAdvancement => ({
+  type: 'top',
+  count: Math.max(1, Math.min(2, podSize - 2))
+});
+
+// Sizes of the tables for a number of players, as even as possible, or null
+// when they cannot be split. Tables seat MIN_POD_SIZE players at the least
+// and the pod size at the most; when that is not possible the players sit
+// at fewer tables of one player more.
+const splitTables = (playerCount: number, podSize: number): number[] | null => {
+  let tables = Math.max(1, Math.ceil(playerCount / podSize));
+  while (tables > 1 && Math.floor(playerCount / tables) < MIN_POD_SIZE) tables--;
+
+  const size = Math.floor(playerCount / tables);
+  const larger = playerCount % tables;
+  if (size < MIN_POD_SIZE || (larger > 0 ? size + 1 : size) > podSize + 1) return null;
+
+  return Array.from({ length: tables }, (_, table) => table < larger ? size + 1 : size);
+};
+
+// Sizes of the tables for a number of players, throwing when they cannot be split
+export const getTableSizes = (playerCount: number, podSize: number): number[] => {
+  const sizes = splitTables(playerCount, podSize);
+  if (!sizes) {
+    throw new BracketError(`${playerCount} players cannot sit at tables of ${MIN_POD_SIZE} to ${podSize + 1}`);
+  }
+  return sizes;
+};
+
+// Check that every round can be seated, and when the top players advance
+// that every round sends someone home until a single final table is left.
+// The tables of each round follow from the number of players, so this is
+// known before the first round is seated.
+const getRoundProblems = (playerCount: number, podSize: number, advancement: PodAdvancement): string[] => {
+  let remaining = playerCount;
+
+  for (let round = 1; ; round++) {
+    const sizes = splitTables(remaining, podSize);
+    if (!sizes) {
+      return [round === 1
+        ? `${playerCount} players cannot sit at tables of ${MIN_POD_SIZE} to ${podSize + 1}`
+        : `Round ${round} would have ${remaining} players, who cannot sit at tables of ${MIN_POD_SIZE} to ${podSize + 1}`];
+    }
+    if (advancement.type !== 'top' || sizes.length === 1) return [];
+
+    const advancing = sizes.reduce((sum, size) => sum + Math.min(size, advancement.count), 0);
+    if (advancing === remaining) {
+      return [`Every player of round ${round} would advance; let fewer players of each table advance`];
+    }
+    remaining = advancing;
+  }
+};
+
+// Check pod settings sent by a client for a number of players. Tables of
+// the pod size have to send home at least two players, so that tables one
+// player short still eliminate someone.
+export const getPodSettingsProblems = (podSize: any, advancement: any, playerCount: number): string[] => {
+  const problems: string[] = [];
+
+  if (!Number.isInteger(podSize) || podSize < MIN_POD_SIZE || podSize > MAX_POD_SIZE) {
+    problems.push(`Tables seat ${MIN_POD_SIZE} to ${MAX_POD_SIZE} players`);
+  }
+
+  if (typeof advancement !== 'object' || advancement === null) {
+    problems.push('Pod advancement must be an object');
+  } else if (advancement.type === 'top') {
+    if (!Number.isInteger(advancement.count) || advancement.count < 1 || advancement.count > podSize - 2) {
+      problems.push(`1 to ${Math.max(1, podSize - 2)} players of each table can advance`);
+    }
+  } else if (advancement.type === 'placement_points') {
+    if (!Array.isArray(advancement.points) || advancement.points.length === 0 ||
+      !advancement.points.every((points: any) => Number.isFinite(points))) {
+      problems.push('Placement points must be a list of numbers');
+    }
+    if (!Number.isInteger(advancement.rounds) || advancement.rounds < 1) {
+      problems.push('Pod tournaments scored by placement play at least 1 round');
+    }
+  } else {
+    problems.push('Pod advancement must be "top" or "placement_points"');
+  }
+
+  if (problems.length === 0) {
+    problems.push(...getRoundProblems(playerCount, podSize, advancement));
+  }
+
+  return problems;
+};
+
+// Seat players in ranking order. Spreading deals them out back and forth
+// across the tables, so the best players meet as late as possible;
+// otherwise players sit with those ranked next to them.
+const seatPlayers = (ranked: string[], podSize: number, spread: boolean): string[][] => {
+  const sizes = getTableSizes(ranked.length, podSize);
+  const tables: string[][] = sizes.map(() => []);
+
+  if (!spread) {
+    let next = 0;
+    sizes.forEach((size, table) => {
+      tables[table] = ranked.slice(next, next + size);
+      next += size;
+    });
+    return tables;
+  }
+
+  let table = 0;
+  let direction = 1;
+  ranked.forEach(playerId => {
+    // Skip tables that are full already, as the smaller ones fill up first
+    while (tables[table].length >= sizes[table]) {
+      table += direction;
+      if (table < 0 || table >= tables.length) {
+        direction = -direction;
+        table += direction;
+      }
+    }
+    tables[table].push(playerId);
+
+    table += direction;
+    if (table < 0 || table >= tables.length) {
+      direction = -direction;
+      table += direction;
+    }
+  });
+  return tables;
+};
+
+const getPodMatches = (matches: TournamentMatch[]) => matches.filter(match => match.bracket === 'pods');
+
+// Number of rounds seated so far
+export const getSeatedRounds = (matches: TournamentMatch[]): number => {
+  return new Set(getPodMatches(matches).map(match => match.round)).size;
+};
+
+// Points a player scores for a placement
+const getPlacementPoints = (placement: number | null, points: number[]): number => {
+  return placement ? points[placement - 1] ?? 0 : 0;
+};
+
+// Standings of a pod tournament scored by placement, best first: by points,
+// then first places, then the total of their table scores. Players still
+// tied share a rank.
+export const getPodStandings = (
+  players: TournamentPlayer[],
+  matches: TournamentMatch[],
+  points: number[] = DEFAULT_PLACEMENT_POINTS
+): PodStanding[] => {
+  const rows = players.map((player): PodStanding => {
+    const seats = getPodMatches(matches)
+      .filter(match => match.status === 'completed')
+      .map(match => match.participants?.find(participant => participant.playerId === player.id))
+      .filter(seat => seat);
+
+    return {
+      player,
+      played: seats.length,
+      wins: seats.filter(seat => seat.placement === 1).length,
+      points: seats.reduce((sum, seat) => sum + getPlacementPoints(seat.placement, points), 0),
+      scoreFor: seats.reduce((sum, seat) => sum + (seat.score ?? 0), 0),
+      rank: 0
+    };
+  });
+
+  const compare = (a: PodStanding, b: PodStanding) => (b.points - a.points) || (b.wins - a.wins) || (b.scoreFor - a.scoreFor);
+  rows.sort((a, b) => compare(a, b) || a.player.name.localeCompare(b.player.name));
+  rows.forEach((row, index) => {
+    row.rank = index > 0 && compare(row, rows[index - 1]) === 0 ? rows[index - 1].rank : index + 1;
+  });
+
+  return rows;
+};
+
+// The players moving on from a table, best placed first
+const getAdvancing = (match: TournamentMatch, count: number): string[] => {
+  return [...match.participants]
+    .sort((a, b) => a.placement - b.placement)
+    .slice(0, count)
+    .map(participant => participant.playerId);
+};
+
+// The only table of the last round, which is the final table when the top
+// players advance
+const getFinalTable = (matches: TournamentMatch[], advancement: PodAdvancement): TournamentMatch | null => {
+  if (advancement.type !== 'top') return null;
+
+  const podMatches = getPodMatches(matches);
+  const lastRound = Math.max(...podMatches.map(match => match.round));
+  const tables = podMatches.filter(match => match.round === lastRound);
+  return tables.length === 1 ? tables[0] : null;
+};
+
+// Seat the next round of a pod tournament. The first round deals players
+// out by seed; later rounds seat the players advancing from each table, or
+// with placement points group players by their standings. Returns the
+// tables of the new round.
+export const seatPodRound = (
+  players: TournamentPlayer[],
+  matches: TournamentMatch[],
+  podSize: number,
+  advancement: PodAdvancement,
+  createId: () => string = () => crypto.randomUUID()
+): TournamentMatch[] => {
+  if (players.length < MIN_POD_SIZE) {
+    throw new BracketError(`A pod tournament needs at least ${MIN_POD_SIZE} players`);
+  }
+
+  const podMatches = getPodMatches(matches);
+  if (podMatches.some(match => match.status !== 'completed')) {
+    throw new BracketError('Every table of the current round has to be played first');
+  }
+
+  const round = getSeatedRounds(matches);
+  let ranked = [...players].sort((a, b) => (a.seed ?? 0) - (b.seed ?? 0)).map(player => player.id);
+  let spread = true;
+
+  if (round > 0 && advancement.type === 'top') {
+    if (getFinalTable(matches, advancement)) {
+      throw new BracketError('The final table has been played');
+    }
+
+    // Table winners first, then the players placed second, and so on
+    const advancing = podMatches
+      .filter(match => match.round === round - 1)
+      .sort((a, b) => a.position - b.position)
+      .map(match => getAdvancing(match, advancement.count));
+    ranked = [];
+    for (let place = 0; place < advancement.count; place++) {
+      advancing.forEach(table => table[place] && ranked.push(table[place]));
+    }
+  } else if (round > 0 && advancement.type === 'placement_points') {
+    if (round >= advancement.rounds) {
+      throw new BracketError('Every round has been played');
+    }
+
+    ranked = getPodStandings(players, matches, advancement.points).map(standing => standing.player.id);
+    spread = false;
+  }
+
+  return seatPlayers(ranked, podSize, spread).map((table, position) => ({
+    ...emptyMatch(createId(), round, position, 'pods'),
+    participants: table.map((playerId): PodParticipant => ({ playerId, score: null, placement: null }))
+  }));
+};
+
+// Record the scores of a table. Placements follow from the scores, the
+// highest first, unless they are given; players with the same score share
+// a placement. When the top players advance, a tie across the advancing
+// places has to be broken by giving placements, as does a tie for first at
+// the final table. Returns the updated matches, leaving the given ones
+// unchanged.
+export const recordPodResult = (
+  matches: TournamentMatch[],
+  matchId: string,
+  scores: Record<string, number>,
+  placements: Record<string, number> | null,
+  advancement: PodAdvancement
+): TournamentMatch[] => {
+  const updated = matches.map(match => ({ ...match }));
+
+  const match = updated.find(other => other.id === matchId);
+  if (!match) {
+    throw new BracketError('Match not found');
+  }
+
+  if (!match.participants) {
+    throw new BracketError('This match is not a table of a pod tournament');
+  }
+
+  if (updated.some(other => other.bracket === 'pods' && other.round > match.round)) {
+    throw new BracketError('Results cannot change after the next round has been seated');
+  }
+
+  const participants = match.participants;
+  if (participants.some(participant => !Number.isFinite(scores[participant.playerId]))) {
+    throw new BracketError('Every player at the table needs a score');
+  }
+
+  if (placements && participants.some(participant => {
+    const placement = placements[participant.playerId];
+    return !Number.isInteger(placement) || placement < 1 || placement > participants.length;
+  })) {
+    throw new BracketError(`Every player at the table needs a placement between 1 and ${participants.length}`);
+  }
+
+  const seated: PodParticipant[] = participants.map(participant => {
+    const score = scores[participant.playerId];
+    const placement = placements
+      ? placements[participant.playerId]
+      : 1 + participants.filter(other => scores[other.playerId] > score).length;
+    return { playerId: participant.playerId, score, placement };
+  });
+
+  if (advancement.type === 'top') {
+    const isFinal = updated.filter(other => other.bracket === 'pods' && other.round === match.round).length === 1;
+    const count = isFinal ? 1 : Math.min(advancement.count, seated.length);
+    if (seated.filter(seat => seat.placement <= count).length !== count) {
+      throw new BracketError(isFinal
+        ? 'The final table needs a single winner; give placements to break the tie'
+        : `Exactly ${count} players of the table have to advance; give placements to break the tie`);
+    }
+  }
+
+  const winners = seated.filter(seat => seat.placement === 1);
+  Object.assign(match, {
+    participants: seated,
+    winnerId: winners.length === 1 ? winners[0].playerId : null,
+    status: 'completed'
+  });
+
+  return updated;
+};
+
+// The winner of the final table when the top players advance
+export const getPodChampionId = (matches: TournamentMatch[], advancement: PodAdvancement): string | null => {
+  const final = getFinalTable(matches, advancement);
+  return final?.status === 'completed' ? final.winnerId : null;
+};
+
+// Whether a pod tournament is over: its final table has been played, or
+// every round when scoring by placement
+export const isPodTournamentFinished = (matches: TournamentMatch[], advancement: PodAdvancement): boolean => {
+  if (advancement.type === 'top') return getPodChampionId(matches, advancement) !== null;
+  return getSeatedRounds(matches) >= advancement.rounds && matches.every(match => match.status === 'completed');
+};
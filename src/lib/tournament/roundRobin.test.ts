@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createRoundRobin } from './roundRobin';
+import { TournamentPlayer } from './types';
+
+const createPlayers = (count: number): TournamentPlayer[] =>
+  Array.from({ length: count }, (_, index) => ({ id: `p${index + 1}`, name: `Player ${index + 1}`, seed: index + 1 }));
+
+const getPairKey = (a: string, b: string) => a < b ? `${a}:${b}` : `${b}:${a}`;
+
+describe('round robin', () => {
+  it.each([2, 3, 4, 5, 6, 7, 8, 9, 10])('pairs every two of %i players exactly once', count => {
+    const matches = createRoundRobin(createPlayers(count));
+    const pairs = matches.map(match => getPairKey(match.player1Id, match.player2Id));
+
+    expect(matches).toHaveLength(count * (count - 1) / 2);
+    expect(new Set(pairs).size).toBe(pairs.length);
+  });
+
+  it.each([4, 5, 6, 7])('lets each of %i players play at most once a round', count => {
+    const matches = createRoundRobin(createPlayers(count));
+    const rounds = new Set(matches.map(match => match.round));
+
+    expect(rounds.size).toBe(count % 2 === 0 ? count - 1 : count);
+    rounds.forEach(round => {
+      const playing = matches.filter(match => match.round === round).flatMap(match => [match.player1Id, match.player2Id]);
+      expect(new Set(playing).size).toBe(playing.length);
+      expect(playing.length).toBe(count % 2 === 0 ? count : count - 1);
+    });
+  });
+
+  it('repeats the first half with sides swapped in a double round robin', () => {
+    const single = createRoundRobin(createPlayers(5));
+    const double = createRoundRobin(createPlayers(5), { double: true });
+    const rounds = new Set(single.map(match => match.round)).size;
+
+    expect(double).toHaveLength(single.length * 2);
+    single.forEach(match => {
+      expect(double).toContainEqual(expect.objectContaining({
+        round: match.round + rounds,
+        player1Id: match.player2Id,
+        player2Id: match.player1Id
+      }));
+    });
+  });
+
+  it('alternates the sides of the fixed player', () => {
+    const matches = createRoundRobin(createPlayers(6)).filter(match => match.player1Id === 'p1' || match.player2Id === 'p1');
+    const home = matches.filter(match => match.player1Id === 'p1').length;
+    expect(Math.abs(home - (matches.length - home))).toBeLessThanOrEqual(1);
+  });
+});
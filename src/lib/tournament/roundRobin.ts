@@ -0,0 +1,46 @@
+import { emptyMatch } from './bracket';
+import { TournamentMatch, TournamentPlayer } from './types';
+
+// Round robin: everyone plays everyone, once or twice. Rounds are scheduled
+// with the circle method: the first player stays in place while the others
+// rotate around them, so every round pairs each player once. With an odd
+// number of players one player sits out each round. Players are ranked in
+// standings (see standings.ts).
+
+// Build the matches of a round robin. The second half of a double round
+// robin repeats the first with players swapping sides.
+export const createRoundRobin = (
+  players: TournamentPlayer[],
+  options: { double?: boolean } = {},
+  createId: () => string = () => crypto.randomUUID()
+): TournamentMatch[] => {
+  // An empty seat makes the count even; whoever meets it sits out the round
+  const seats: (string | null)[] = players.map(player => player.id);
+  if (seats.length % 2 === 1) seats.push(null);
+
+  const rounds: [string, string][][] = [];
+  for (let round = 0; round < seats.length - 1; round++) {
+    const pairs: [string, string][] = [];
+    for (let index = 0; index < seats.length / 2; index++) {
+      const home = seats[index];
+      const away = seats[seats.length - 1 - index];
+      if (home && away) {
+        // Alternate sides of the fixed player so they do not always start
+        pairs.push(index === 0 && round % 2 === 1 ? [away, home] : [home, away]);
+      }
+    }
+    rounds.push(pairs);
+
+    seats.splice(1, 0, seats.pop());
+  }
+
+  if (options.double) {
+    rounds.push(...rounds.map(pairs => pairs.map(([home, away]): [string, string] => [away, home])));
+  }
+
+  return rounds.flatMap((pairs, round) => pairs.map(([player1Id, player2Id], position) => ({
+    ...emptyMatch(createId(), round, position),
+    player1Id,
+    player2Id
+  })));
+};
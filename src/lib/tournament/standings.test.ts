@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { emptyMatch } from './bracket';
+import { DEFAULT_STANDINGS, getStandings, getStandingsProblems, SWISS_STANDINGS } from './standings';
+import { StandingsSettings, TournamentMatch, TournamentPlayer } from './types';
+
+const createPlayers = (count: number): TournamentPlayer[] =>
+  Array.from({ length: count }, (_, index) => ({ id: `p${index + 1}`, name: `Player ${index + 1}`, seed: index + 1 }));
+
+let nextId = 0;
+
+// A played match; equal scores are a draw
+const played = (player1Id: string, player2Id: string, score1: number, score2: number): TournamentMatch => ({
+  ...emptyMatch(`m${nextId++}`, 0, 0),
+  player1Id,
+  player2Id,
+  score1,
+  score2,
+  winnerId: score1 === score2 ? null : score1 > score2 ? player1Id : player2Id,
+  status: 'completed'
+});
+
+const getRanking = (players: TournamentPlayer[], matches: TournamentMatch[], settings?: StandingsSettings) =>
+  getStandings(players, matches, settings).map(standing => [standing.player.id, standing.rank]);
+
+describe('standings', () => {
+  it('ranks players by points for wins, draws and losses', () => {
+    const standings = getStandings(createPlayers(3), [
+      played('p1', 'p2', 2, 2),
+      played('p1', 'p3', 1, 0),
+      played('p2', 'p3', 0, 3)
+    ]);
+
+    expect(standings.map(standing => [standing.player.id, standing.points])).toEqual([['p1', 4], ['p3', 3], ['p2', 1]]);
+    expect(standings[0]).toMatchObject({ played: 2, wins: 1, draws: 1, losses: 0, scoreFor: 3, scoreAgainst: 2 });
+  });
+
+  it('uses the points of the settings', () => {
+    const settings: StandingsSettings = { points: { win: 2, draw: 1, loss: -1 }, tiebreakers: [] };
+    const standings = getStandings(createPlayers(2), [played('p1', 'p2', 1, 0)], settings);
+    expect(standings.map(standing => standing.points)).toEqual([2, -1]);
+  });
+
+  it('ignores matches still to be played', () => {
+    const pending = { ...emptyMatch('pending', 0, 0), player1Id: 'p1', player2Id: 'p2' };
+    expect(getStandings(createPlayers(2), [pending]).map(standing => standing.played)).toEqual([0, 0]);
+  });
+
+  it('breaks ties by the matches between the tied players first', () => {
+    // p1 beat p2, but p2 has the better score difference
+    const matches = [
+      played('p1', 'p2', 1, 0),
+      played('p2', 'p3', 5, 0)
+    ];
+
+    expect(getRanking(createPlayers(3), matches)).toEqual([['p1', 1], ['p2', 2], ['p3', 3]]);
+  });
+
+  it('moves on to the next tiebreaker when the tied players beat each other in turn', () => {
+    const matches = [
+      played('p1', 'p2', 1, 0),
+      played('p2', 'p3', 1, 0),
+      played('p3', 'p1', 1, 0),
+      played('p1', 'p4', 1, 0),
+      played('p2', 'p4', 1, 0),
+      played('p3', 'p4', 9, 0)
+    ];
+
+    expect(getRanking(createPlayers(4), matches)).toEqual([['p3', 1], ['p1', 2], ['p2', 2], ['p4', 4]]);
+  });
+
+  it('applies the tiebreakers in the order given', () => {
+    const matches = [
+      played('p1', 'p2', 1, 0),
+      played('p2', 'p3', 5, 0),
+      played('p3', 'p1', 1, 0)
+    ];
+    const players = createPlayers(3);
+
+    expect(getRanking(players, matches, { ...DEFAULT_STANDINGS, tiebreakers: ['score_difference'] })[0]).toEqual(['p2', 1]);
+    expect(getRanking(players, matches, { ...DEFAULT_STANDINGS, tiebreakers: ['points_scored'] })[0]).toEqual(['p2', 1]);
+    expect(getRanking(players, matches, { ...DEFAULT_STANDINGS, tiebreakers: [] })).toEqual([['p1', 1], ['p2', 1], ['p3', 1]]);
+  });
+
+  it('sums the points of the opponents for the Buchholz score, leaving out byes', () => {
+    const bye = { ...emptyMatch('bye', 0, 0), player1Id: 'p3', winnerId: 'p3', status: 'completed' as const, bye: true };
+    const matches = [
+      played('p1', 'p2', 1, 0),
+      played('p1', 'p3', 1, 0),
+      played('p2', 'p3', 1, 0),
+      bye
+    ];
+    const standings = getStandings(createPlayers(3), matches, SWISS_STANDINGS);
+    const buchholz = Object.fromEntries(standings.map(standing => [standing.player.id, standing.buchholz]));
+
+    // p1 has 6 points, p2 3 and p3 3 from the bye
+    expect(buchholz).toEqual({ p1: 6, p2: 9, p3: 9 });
+  });
+
+  it('counts opponent match-win percentages of at least a third', () => {
+    const matches = [
+      played('p1', 'p2', 1, 0),
+      played('p1', 'p3', 1, 0),
+      played('p4', 'p2', 1, 0),
+      played('p4', 'p3', 1, 0),
+      played('p1', 'p4', 1, 0)
+    ];
+    const standings = getStandings(createPlayers(4), matches, SWISS_STANDINGS);
+    const percentage = (id: string) => standings.find(standing => standing.player.id === id).opponentMatchWinPercentage;
+
+    // p2 and p3 lost every match, which counts as a third
+    expect(percentage('p1')).toBeCloseTo((1 / 3 + 1 / 3 + 2 / 3) / 3);
+    expect(percentage('p2')).toBeCloseTo((1 + 2 / 3) / 2);
+  });
+
+  it('ranks Swiss players level on points by the strength of their opponents', () => {
+    // p1 and p3 both won once, but p1 met the unbeaten p2 and p3 the winless p5
+    const matches = [
+      played('p2', 'p1', 1, 0),
+      played('p1', 'p4', 1, 0),
+      played('p4', 'p3', 1, 0),
+      played('p3', 'p5', 1, 0),
+      played('p2', 'p5', 1, 0)
+    ];
+    const ranking = getRanking(createPlayers(5), matches, SWISS_STANDINGS).map(([id]) => id);
+    expect(ranking.indexOf('p1')).toBeLessThan(ranking.indexOf('p3'));
+  });
+
+  it('reports invalid settings', () => {
+    expect(getStandingsProblems(DEFAULT_STANDINGS)).toEqual([]);
+    expect(getStandingsProblems({ points: { win: 3 }, tiebreakers: ['coin_flip', 'buchholz', 'buchholz'] })).toEqual([
+      'Standings need points for a win, a draw and a loss',
+      'Unknown tiebreaker "coin_flip"',
+      'Every tiebreaker can only be used once'
+    ]);
+  });
+});
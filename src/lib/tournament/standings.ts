@@ -0,0 +1,178 @@
+import {
+  STANDINGS_TIEBREAKERS,
+  StandingsSettings,
+  StandingsTiebreaker,
+  TournamentMatch,
+  TournamentPlayer,
+  TournamentStanding
+} from './types';
+
+// Standings of round robin and Swiss tournaments. Players are ranked by the
+// points for their wins, draws and losses, then by the tiebreakers in
+// order. Byes count as wins without a score.
+
+export const DEFAULT_STANDINGS: StandingsSettings = {
+  points: { win: 3, draw: 1, loss: 0 },
+  tiebreakers: ['head_to_head', 'score_difference', 'points_scored']
+};
+
+// Swiss players do not all meet, so ties are broken by the strength of the
+// opponents each player met instead
+export const SWISS_STANDINGS: StandingsSettings = {
+  points: { win: 3, draw: 1, loss: 0 },
+  tiebreakers: ['buchholz', 'opponent_match_win_percentage']
+};
+
+// Opponent match-win percentages count at least this much, so meeting a
+// player who lost every match is not punished more than meeting a weak one
+const MINIMUM_MATCH_WIN_PERCENTAGE = 1 / 3;
+
+interface StandingRow extends TournamentStanding {
+  results: TournamentMatch[];
+}
+
+// Points a player earns from matches
+const getPoints = (playerId: string, matches: TournamentMatch[], settings: StandingsSettings): number => {
+  return matches.reduce((points, match) => {
+    if (!match.winnerId) return points + settings.points.draw;
+    return points + (match.winnerId === playerId ? settings.points.win : settings.points.loss);
+  }, 0);
+};
+
+// Value of a tiebreaker for a player among the players tied with them.
+// Head-to-head only counts the matches between the tied players.
+const getTiebreakValue = (row: StandingRow, tied: StandingRow[], tiebreaker: StandingsTiebreaker, settings: StandingsSettings) => {
+  switch (tiebreaker) {
+    case 'head_to_head': {
+      const opponents = new Set(tied.map(other => other.player.id));
+      const direct = row.results.filter(match => opponents.has(match.player1Id) && opponents.has(match.player2Id));
+      return getPoints(row.player.id, direct, settings);
+    }
+    case 'score_difference':
+      return row.scoreFor - row.scoreAgainst;
+    case 'points_scored':
+      return row.scoreFor;
+    case 'buchholz':
+      return row.buchholz;
+    case 'opponent_match_win_percentage':
+      return row.opponentMatchWinPercentage;
+  }
+};
+
+// Split a group of tied players by a tiebreaker, best first
+const splitGroup = (
+  group: StandingRow[],
+  value: (row: StandingRow) => number
+): StandingRow[][] => {
+  const values = new Map(group.map(row => [row, value(row)]));
+  const sorted = [...group].sort((a, b) => values.get(b) - values.get(a));
+
+  const groups: StandingRow[][] = [];
+  sorted.forEach((row, index) => {
+    if (index > 0 && values.get(row) === values.get(sorted[index - 1])) {
+      groups[groups.length - 1].push(row);
+    } else {
+      groups.push([row]);
+    }
+  });
+  return groups;
+};
+
+// Standings from the completed matches, best first. Players still tied
+// after every tiebreaker share a rank.
+export const getStandings = (
+  players: TournamentPlayer[],
+  matches: TournamentMatch[],
+  settings: StandingsSettings = DEFAULT_STANDINGS
+): TournamentStanding[] => {
+  const rows = players.map((player): StandingRow => {
+    const results = matches.filter(match =>
+      match.status === 'completed' && (match.player1Id === player.id || match.player2Id === player.id)
+    );
+
+    const row: StandingRow = {
+      player,
+      played: results.length,
+      wins: results.filter(match => match.winnerId === player.id).length,
+      draws: results.filter(match => !match.winnerId).length,
+      losses: results.filter(match => match.winnerId && match.winnerId !== player.id).length,
+      points: getPoints(player.id, results, settings),
+      scoreFor: 0,
+      scoreAgainst: 0,
+      buchholz: 0,
+      opponentMatchWinPercentage: 0,
+      rank: 0,
+      results
+    };
+
+    results.forEach(match => {
+      const first = match.player1Id === player.id;
+      row.scoreFor += (first ? match.score1 : match.score2) ?? 0;
+      row.scoreAgainst += (first ? match.score2 : match.score1) ?? 0;
+    });
+
+    return row;
+  });
+
+  // Opponent strength, from the opponents met in played matches
+  const byId = new Map(rows.map(row => [row.player.id, row]));
+  const getMatchWinPercentage = (row: StandingRow) => {
+    const possible = row.played * settings.points.win;
+    const percentage = possible > 0 ? row.points / possible : 0;
+    return Math.max(MINIMUM_MATCH_WIN_PERCENTAGE, percentage);
+  };
+  rows.forEach(row => {
+    const opponents = row.results
+      .filter(match => !match.bye)
+      .map(match => byId.get(match.player1Id === row.player.id ? match.player2Id : match.player1Id))
+      .filter(opponent => opponent);
+
+    row.buchholz = opponents.reduce((sum, opponent) => sum + opponent.points, 0);
+    row.opponentMatchWinPercentage = opponents.length > 0
+      ? opponents.reduce((sum, opponent) => sum + getMatchWinPercentage(opponent), 0) / opponents.length
+      : 0;
+  });
+
+  let groups = splitGroup(rows, row => row.points);
+  settings.tiebreakers.forEach(tiebreaker => {
+    groups = groups.flatMap(group => group.length > 1
+      ? splitGroup(group, row => getTiebreakValue(row, group, tiebreaker, settings))
+      : [group]);
+  });
+
+  const standings: TournamentStanding[] = [];
+  groups.forEach(group => {
+    const rank = standings.length + 1;
+    group
+      .sort((a, b) => a.player.name.localeCompare(b.player.name))
+      .forEach(({ results, ...standing }) => standings.push({ ...standing, rank }));
+  });
+
+  return standings;
+};
+
+// Check standings settings sent by a client
+export const getStandingsProblems = (settings: any): string[] => {
+  if (typeof settings !== 'object' || settings === null) {
+    return ['Standings settings must be an object'];
+  }
+
+  const problems: string[] = [];
+  const points = settings.points;
+  if (typeof points !== 'object' || points === null || ['win', 'draw', 'loss'].some(key => !Number.isFinite(points[key]))) {
+    problems.push('Standings need points for a win, a draw and a loss');
+  }
+
+  if (!Array.isArray(settings.tiebreakers)) {
+    problems.push('The tiebreakers of the standings must be a list');
+  } else {
+    settings.tiebreakers
+      .filter((tiebreaker: any) => !STANDINGS_TIEBREAKERS.includes(tiebreaker))
+      .forEach((tiebreaker: any) => problems.push(`Unknown tiebreaker "${tiebreaker}"`));
+    if (new Set(settings.tiebreakers).size !== settings.tiebreakers.length) {
+      problems.push('Every tiebreaker can only be used once');
+    }
+  }
+
+  return problems;
+};
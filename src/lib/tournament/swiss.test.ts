@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { BracketError, getChampionId, recordMatchResult } from './bracket';
+import { getStandings, SWISS_STANDINGS } from './standings';
+import { createTopCut, getPairedRounds, getSwissRoundCount, pairSwissRound } from './swiss';
+import { TournamentMatch, TournamentPlayer } from './types';
+
+const createPlayers = (count: number): TournamentPlayer[] =>
+  Array.from({ length: count }, (_, index) => ({ id: `p${index + 1}`, name: `Player ${index + 1}`, seed: index + 1 }));
+
+const createIds = () => {
+  let next = 0;
+  return () => `m${next++}`;
+};
+
+// Random numbers that repeat from run to run
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+// Play every match still to be played, player 1 winning when the given
+// function says so
+const playRound = (matches: TournamentMatch[], player1Wins: () => boolean): TournamentMatch[] => {
+  matches
+    .filter(match => match.status === 'pending' && match.player1Id && match.player2Id)
+    .forEach(match => {
+      matches = player1Wins()
+        ? recordMatchResult(matches, match.id, 2, 1, { allowDraws: true })
+        : recordMatchResult(matches, match.id, 1, 2, { allowDraws: true });
+    });
+  return matches;
+};
+
+const getPairKey = (match: TournamentMatch) => [match.player1Id, match.player2Id].sort().join(':');
+
+describe('Swiss pairing', () => {
+  it('plays enough rounds for a single unbeaten player', () => {
+    expect(getSwissRoundCount(2)).toBe(1);
+    expect(getSwissRoundCount(8)).toBe(3);
+    expect(getSwissRoundCount(9)).toBe(4);
+  });
+
+  it('pairs the top half of the seeds with the bottom half in the first round', () => {
+    const matches = pairSwissRound(createPlayers(8), [], undefined, createIds());
+    expect(matches.map(match => [match.player1Id, match.player2Id])).toEqual([
+      ['p1', 'p5'],
+      ['p2', 'p6'],
+      ['p3', 'p7'],
+      ['p4', 'p8']
+    ]);
+  });
+
+  it('gives the bye to the lowest seed and counts it as a win', () => {
+    const matches = pairSwissRound(createPlayers(5), [], undefined, createIds());
+    const bye = matches.find(match => match.bye);
+    expect(bye).toMatchObject({ player1Id: 'p5', winnerId: 'p5', status: 'completed' });
+  });
+
+  it('pairs players with the same record', () => {
+    const createId = createIds();
+    const players = createPlayers(8);
+    let matches = pairSwissRound(players, [], undefined, createId);
+    matches = playRound(matches, () => true);
+    const second = pairSwissRound(players, matches, undefined, createId);
+
+    const winners = new Set(['p1', 'p2', 'p3', 'p4']);
+    second.forEach(match => expect(winners.has(match.player1Id)).toBe(winners.has(match.player2Id)));
+  });
+
+  it('waits for the current round to be played', () => {
+    const players = createPlayers(4);
+    const matches = pairSwissRound(players, [], undefined, createIds());
+    expect(() => pairSwissRound(players, matches)).toThrow(BracketError);
+  });
+
+  it.each([4, 5, 6, 7, 8, 9, 12, 15, 16, 21])('avoids rematches and second byes with %i players', count => {
+    for (let run = 0; run < 5; run++) {
+      const random = createRandom(count * 10 + run);
+      const createId = createIds();
+      const players = createPlayers(count);
+      let matches: TournamentMatch[] = [];
+
+      for (let round = 0; round < getSwissRoundCount(count); round++) {
+        matches = playRound([...matches, ...pairSwissRound(players, matches, undefined, createId)], () => random() < 0.5);
+      }
+
+      const pairs = matches.filter(match => !match.bye).map(getPairKey);
+      const byes = matches.filter(match => match.bye).map(match => match.player1Id);
+      expect(getPairedRounds(matches)).toBe(getSwissRoundCount(count));
+      expect(new Set(pairs).size).toBe(pairs.length);
+      expect(new Set(byes).size).toBe(byes.length);
+    }
+  });
+});
+
+describe('top cut', () => {
+  it('seeds the playoff by the Swiss standings and plays it to a champion', () => {
+    const createId = createIds();
+    const players = createPlayers(8);
+    let matches: TournamentMatch[] = [];
+    for (let round = 0; round < 3; round++) {
+      // The better seed always wins
+      matches = [...matches, ...pairSwissRound(players, matches, undefined, createId)];
+      matches
+        .filter(match => match.status === 'pending')
+        .forEach(match => {
+          const player1Wins = Number(match.player1Id.slice(1)) < Number(match.player2Id.slice(1));
+          matches = recordMatchResult(matches, match.id, player1Wins ? 1 : 0, player1Wins ? 0 : 1);
+        });
+    }
+
+    // The best four meet as 1 against 4 and 2 against 3
+    const [first, second, third, fourth] = getStandings(players, matches, SWISS_STANDINGS).map(standing => standing.player.id);
+    let playoff = createTopCut(players, matches, 4, undefined, createId);
+    expect(playoff.every(match => match.bracket === 'playoff')).toBe(true);
+    expect(playoff.filter(match => match.round === 0).map(match => [match.player1Id, match.player2Id]))
+      .toEqual([[first, fourth], [second, third]]);
+
+    playoff = playRound(playoff, () => true);
+    playoff = playRound(playoff, () => true);
+    expect(getChampionId(playoff)).toBe(first);
+  });
+
+  it('cuts to every player when the cut is larger than the field', () => {
+    const players = createPlayers(3);
+    const matches = playRound(pairSwissRound(players, [], undefined, createIds()), () => true);
+    const playoff = createTopCut(players, matches, 8, undefined, createIds());
+    expect(playoff.filter(match => match.round === 0).flatMap(match => [match.player1Id, match.player2Id]).filter(id => id).sort())
+      .toEqual(['p1', 'p2', 'p3']);
+  });
+});
@@ -0,0 +1,160 @@
+import { BracketError, buildKnockoutRounds, emptyMatch, settleByes } from './bracket';
+import { getStandings, SWISS_STANDINGS } from './standings';
+import { StandingsSettings, TournamentMatch, TournamentPlayer } from './types';
+
+// Swiss system: every round pairs players with the same record, or as close
+// to it as possible, and never pairs two players who already met unless
+// there is no other way. Rounds are paired one at a time, once the previous
+// round has been played. With an odd number of players the lowest ranked
+// player without a bye so far gets one, which counts as a win. After the
+// last round the best players of the standings can play a
+// single-elimination playoff, the top cut.
+
+// Pairing gives up on avoiding rematches after this many attempts, so odd
+// fields late in a long tournament cannot stall it
+const MAX_PAIRING_ATTEMPTS = 10000;
+
+// Rounds needed for a single player to be the only one winning every round
+export const getSwissRoundCount = (playerCount: number): number => {
+  return Math.max(1, Math.ceil(Math.log2(playerCount)));
+};
+
+const getSwissMatches = (matches: TournamentMatch[]) => matches.filter(match => match.bracket === 'swiss');
+
+// Number of Swiss rounds paired so far
+export const getPairedRounds = (matches: TournamentMatch[]): number => {
+  return new Set(getSwissMatches(matches).map(match => match.round)).size;
+};
+
+const checkRoundsPlayed = (matches: TournamentMatch[]) => {
+  if (getSwissMatches(matches).some(match => match.status !== 'completed')) {
+    throw new BracketError('Every match of the current round has to be played first');
+  }
+};
+
+const getPairKey = (a: string, b: string) => a < b ? `${a}:${b}` : `${b}:${a}`;
+
+// Pair players in ranking order, each with the best ranked player left they
+// have not met yet, backtracking when the players left cannot be paired.
+// Returns null when every pairing needs a rematch.
+const pairWithoutRematches = (ranked: string[], met: Set<string>): [string, string][] | null => {
+  let attempts = 0;
+
+  const pair = (left: string[]): [string, string][] | null => {
+    if (left.length === 0) return [];
+    if (++attempts > MAX_PAIRING_ATTEMPTS) return null;
+
+    const [player, ...others] = left;
+    for (const opponent of others) {
+      if (met.has(getPairKey(player, opponent))) continue;
+
+      const rest = pair(others.filter(other => other !== opponent));
+      if (rest) return [[player, opponent], ...rest];
+    }
+    return null;
+  };
+
+  return pair(ranked);
+};
+
+// Pair the next Swiss round. The first round pairs the top half of the
+// seeds with the bottom half; later rounds rank players by their points,
+// then by seed. Returns the matches of the new round.
+export const pairSwissRound = (
+  players: TournamentPlayer[],
+  matches: TournamentMatch[],
+  settings: StandingsSettings = SWISS_STANDINGS,
+  createId: () => string = () => crypto.randomUUID()
+): TournamentMatch[] => {
+  if (players.length < 2) {
+    throw new BracketError('A Swiss tournament needs at least 2 players');
+  }
+
+  checkRoundsPlayed(matches);
+
+  const swissMatches = getSwissMatches(matches);
+  const round = getPairedRounds(matches);
+  const points = new Map(getStandings(players, swissMatches, settings).map(standing => [standing.player.id, standing.points]));
+  const ranked = [...players]
+    .sort((a, b) => (points.get(b.id) - points.get(a.id)) || ((a.seed ?? 0) - (b.seed ?? 0)))
+    .map(player => player.id);
+
+  const met = new Set(swissMatches
+    .filter(match => match.player1Id && match.player2Id)
+    .map(match => getPairKey(match.player1Id, match.player2Id)));
+  const hadBye = new Set(swissMatches.filter(match => match.bye).map(match => match.player1Id));
+
+  // Players who can get the bye, lowest ranked first. Everyone can once
+  // every player has had one.
+  let byeCandidates: (string | null)[] = [null];
+  if (ranked.length % 2 === 1) {
+    const lowestFirst = [...ranked].reverse();
+    const withoutBye = lowestFirst.filter(id => !hadBye.has(id));
+    byeCandidates = withoutBye.length > 0 ? withoutBye : lowestFirst;
+  }
+
+  let byePlayer = byeCandidates[0];
+  let pairs: [string, string][] | null = null;
+  for (const candidate of byeCandidates) {
+    const paired = ranked.filter(id => id !== candidate);
+    if (round === 0) {
+      const half = paired.length / 2;
+      pairs = paired.slice(0, half).map((id, index): [string, string] => [id, paired[half + index]]);
+    } else {
+      pairs = pairWithoutRematches(paired, met);
+    }
+
+    if (pairs) {
+      byePlayer = candidate;
+      break;
+    }
+  }
+
+  // Rematches cannot be avoided: pair neighbours in the ranking
+  if (!pairs) {
+    const paired = ranked.filter(id => id !== byePlayer);
+    pairs = [];
+    for (let index = 0; index < paired.length; index += 2) {
+      pairs.push([paired[index], paired[index + 1]]);
+    }
+  }
+
+  const roundMatches = pairs.map(([player1Id, player2Id], position) => ({
+    ...emptyMatch(createId(), round, position, 'swiss'),
+    player1Id,
+    player2Id
+  }));
+
+  if (byePlayer) {
+    roundMatches.push({
+      ...emptyMatch(createId(), round, roundMatches.length, 'swiss'),
+      player1Id: byePlayer,
+      winnerId: byePlayer,
+      status: 'completed',
+      bye: true
+    });
+  }
+
+  return roundMatches;
+};
+
+// Build the single-elimination playoff of the best players in the Swiss
+// standings, seeded by their rank. Returns the playoff matches, with the
+// byes already won.
+export const createTopCut = (
+  players: TournamentPlayer[],
+  matches: TournamentMatch[],
+  topCut: number,
+  settings: StandingsSettings = SWISS_STANDINGS,
+  createId: () => string = () => crypto.randomUUID()
+): TournamentMatch[] => {
+  checkRoundsPlayed(matches);
+
+  const seeded = getStandings(players, getSwissMatches(matches), settings)
+    .slice(0, Math.min(topCut, players.length))
+    .map((standing, index) => ({ ...standing.player, seed: index + 1 }));
+
+  const playoff = buildKnockoutRounds(seeded, createId, 'playoff').flat();
+  settleByes(playoff);
+  return playoff;
+};
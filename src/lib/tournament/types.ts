@@ -0,0 +1,130 @@
+// Shared tournament types used by the tournament components and by the
+// tournament API on the server
+
+export type SeedingMethod = 'random' | 'manual' | 'rating';
+
+export const SEEDING_METHODS: SeedingMethod[] = ['random', 'manual', 'rating'];
+
+export interface TournamentType {
+  id: string;
+  name: string;
+  description: string;
+  minPlayers: number;
+  maxPlayers: number;
+}
+
+export interface TournamentPlayer {
+  id: string;
+  name: string;
+  // Position in the seeding, 1 being the top seed
+  seed?: number;
+  rating?: number;
+}
+
+export type TournamentMatchStatus = 'pending' | 'in_progress' | 'completed';
+
+// Double elimination plays a winners and a losers bracket, whose champions
+// meet in the grand final. Single elimination only has a winners bracket.
+// Swiss tournaments play their rounds in the swiss bracket and can cut to a
+// single-elimination playoff. Pod tournaments play rounds of tables.
+export type TournamentBracketName = 'winners' | 'losers' | 'grand_final' | 'swiss' | 'playoff' | 'pods';
+
+// A player at a table of a pod tournament. Placements count from 1 and are
+// shared by tied players.
+export interface PodParticipant {
+  playerId: string;
+  score: number | null;
+  placement: number | null;
+}
+
+export interface TournamentMatch {
+  id: string;
+  round: number;
+  position: number;
+  player1Id: string | null;
+  player2Id: string | null;
+  winnerId: string | null;
+  score1: number | null;
+  score2: number | null;
+  status: TournamentMatchStatus;
+  // Match the winner moves on to, and whether as its player 1 or 2
+  nextMatchId: string | null;
+  nextSlot: 1 | 2 | null;
+  // Match the loser drops to in double elimination
+  loserMatchId?: string | null;
+  loserSlot?: 1 | 2 | null;
+  bracket?: TournamentBracketName;
+  // Byes are won by their only player without being played
+  bye?: boolean;
+  // Everyone at the table in pod tournaments, which leave the players and
+  // scores of two-player matches empty
+  participants?: PodParticipant[];
+}
+
+// Tiebreakers of standings, applied in order to players level on points.
+// Buchholz is the sum of the points of a player's opponents; the opponent
+// match-win percentage is the average share of their matches the
+// opponents won.
+export type StandingsTiebreaker =
+  | 'head_to_head'
+  | 'score_difference'
+  | 'points_scored'
+  | 'buchholz'
+  | 'opponent_match_win_percentage';
+
+export const STANDINGS_TIEBREAKERS: StandingsTiebreaker[] = [
+  'head_to_head',
+  'score_difference',
+  'points_scored',
+  'buchholz',
+  'opponent_match_win_percentage'
+];
+
+export interface StandingsSettings {
+  // Standings points for each win, draw and loss
+  points: { win: number; draw: number; loss: number };
+  tiebreakers: StandingsTiebreaker[];
+}
+
+// How players move on in a pod tournament: the top players of each table
+// advance to the next round until a final table is played, or everyone
+// plays a number of rounds scoring points by their placement (the first
+// number for first place, and so on; later places score nothing)
+export type PodAdvancement =
+  | { type: 'top'; count: number }
+  | { type: 'placement_points'; points: number[]; rounds: number };
+
+// Settings of a tournament chosen when it is created
+export interface TournamentSettings {
+  // Double elimination: play a reset when the losers bracket champion wins the grand final
+  bracketReset?: boolean;
+  // Round robin: everyone plays everyone twice
+  doubleRoundRobin?: boolean;
+  // Swiss: number of rounds, and how many players the top cut takes (0 for none)
+  swissRounds?: number;
+  topCut?: number;
+  standings?: StandingsSettings;
+  // Pods: the number of players to seat at each table, and how they move on
+  podSize?: number;
+  podAdvancement?: PodAdvancement;
+}
+
+export interface TournamentStanding {
+  player: TournamentPlayer;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  points: number;
+  // Match scores of the player and of their opponents, summed
+  scoreFor: number;
+  scoreAgainst: number;
+  // Opponent strength: the points of all opponents, and their average match-win percentage
+  buchholz: number;
+  opponentMatchWinPercentage: number;
+  rank: number;
+}
+
+// Standing in a pod tournament scored by placement, where wins are first
+// places and scoreFor is the sum of the player's table scores
+export type PodStanding = Pick<TournamentStanding, 'player' | 'played' | 'wins' | 'points' | 'scoreFor' | 'rank'>;
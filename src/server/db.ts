@@ -0,0 +1,14 @@
+// Minimal interface of the D1 database binding used by the scoresheet API.
+// Only the calls the API makes are listed, so any D1-compatible client fits.
+
+export interface PreparedStatement {
+  bind(...values: any[]): PreparedStatement;
+  first<T = any>(column?: string): Promise<T | null>;
+  all<T = any>(): Promise<{ results: T[] }>;
+  run(): Promise<any>;
+}
+
+export interface Database {
+  prepare(query: string): PreparedStatement;
+  batch(statements: PreparedStatement[]): Promise<any[]>;
+}
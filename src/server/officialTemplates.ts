@@ -0,0 +1,58 @@
+import { OFFICIAL_TEMPLATES } from '../lib/scoresheet/official';
+import { OfficialTemplate } from '../lib/scoresheet/types';
+import { Database } from './db';
+import { getTemplateRowStatements } from './templateRows';
+
+// Seeding of the official template library. The seed is plain SQL so the
+// same statements serve as the migration installing the library and as the
+// seeding script keeping it up to date. Every statement can be run again:
+// games and templates are only inserted when missing, and a template whose
+// structure differs from its latest version gets a new version, so sessions
+// stay on the version they were created with.
+
+const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+// Find the game of a template by ID, or by name for games added by hand
+const gameIdQuery = (template: OfficialTemplate) => {
+  return `(SELECT id FROM games WHERE id = ${quote(template.game.id)} OR name = ${quote(template.game.name)} ` +
+    `ORDER BY id = ${quote(template.game.id)} DESC LIMIT 1)`;
+};
+
+export const getSeedStatements = (templates: OfficialTemplate[] = OFFICIAL_TEMPLATES): string[] => {
+  return templates.flatMap(template => {
+    const { game } = template;
+    const id = quote(template.id);
+    const structure = quote(JSON.stringify({
+      subcategories: template.subcategories,
+      ...(template.winCondition ? { winCondition: template.winCondition } : {})
+    }));
+    const isChanged = `NOT EXISTS (SELECT 1 FROM scoresheet_versions v
+  WHERE v.scoresheet_id = scoresheets.id AND v.version = scoresheets.current_version AND v.structure = ${structure})`;
+    
+    return [
+      `INSERT INTO games (id, name, min_players, max_players, category, is_official)
+SELECT ${quote(game.id)}, ${quote(game.name)}, ${game.minPlayers}, ${game.maxPlayers}, ${quote(game.category)}, TRUE
+WHERE NOT EXISTS (SELECT 1 FROM games WHERE id = ${quote(game.id)} OR name = ${quote(game.name)});`,
+      
+      // New templates start at version 0 without a structure; the version
+      // statements below make the seeded structure version 1
+      `INSERT INTO scoresheets (id, game_id, name, structure, is_official, current_version)
+SELECT ${id}, ${gameIdQuery(template)}, ${quote(template.name)}, '{}', TRUE, 0
+WHERE NOT EXISTS (SELECT 1 FROM scoresheets WHERE id = ${id});`,
+      
+      `INSERT INTO scoresheet_versions (scoresheet_id, version, structure)
+SELECT id, current_version + 1, ${structure} FROM scoresheets
+WHERE id = ${id} AND ${isChanged};`,
+      
+      `UPDATE scoresheets SET current_version = current_version + 1, name = ${quote(template.name)}, is_official = TRUE
+WHERE id = ${id} AND ${isChanged};`,
+      
+      ...getTemplateRowStatements(`s.id = ${id}`)
+    ];
+  });
+};
+
+// Seed the official templates into a database
+export const seedOfficialTemplates = async (db: Database, templates: OfficialTemplate[] = OFFICIAL_TEMPLATES) => {
+  await db.batch(getSeedStatements(templates).map(statement => db.prepare(statement)));
+};
@@ -0,0 +1,16 @@
+// Response helpers producing the { success, data, error } envelope
+// the components expect from every API call
+
+export const jsonResponse = (data: any, status: number = 200): Response => {
+  return new Response(JSON.stringify({ success: true, data }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+};
+
+export const errorResponse = (error: string, status: number = 400): Response => {
+  return new Response(JSON.stringify({ success: false, error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+};
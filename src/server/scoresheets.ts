@@ -0,0 +1,343 @@
+import { validateTemplateFormulas } from '../lib/scoresheet/dependencies';
+import { getNestingProblems, orderSubcategories } from '../lib/scoresheet/subcategories';
+import { serializeTemplateFile } from '../lib/scoresheet/templateFile';
+import { ScoresheetSubcategory, ScoresheetTemplate, ScoresheetWinCondition } from '../lib/scoresheet/types';
+import { getWinConditionProblems } from '../lib/scoresheet/winner';
+import { Database } from './db';
+import { errorResponse, jsonResponse } from './responses';
+import { FieldRow, getTemplateRowStatements, SubcategoryRow, toTemplateField, toTemplateStructures } from './templateRows';
+
+// Scoresheet template storage. Every saved edit is a new immutable row in
+// scoresheet_versions, stored as { subcategories, winCondition } JSON. The
+// latest version is also kept in the normalized scoresheet_subcategories and
+// scoresheet_fields tables and scoresheets.win_condition, which the API
+// reads templates from and which allow fields to be queried on their own.
+
+interface ScoresheetRow {
+  id: string;
+  game_id: string;
+  name: string;
+  current_version: number;
+  is_official: number | boolean | null;
+  win_condition: string | null;
+}
+
+const TEMPLATE_COLUMNS = 'id, game_id, name, current_version, is_official, win_condition';
+
+// What every version of a template stores
+interface TemplateStructure {
+  subcategories: ScoresheetSubcategory[];
+  winCondition?: ScoresheetWinCondition;
+}
+
+interface ScoresheetVersionRow {
+  version: number;
+  structure: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Early templates stored the subcategory list on its own
+const parseStructure = (structure: string): TemplateStructure => {
+  const parsed = JSON.parse(structure);
+  return Array.isArray(parsed) ? { subcategories: parsed } : { subcategories: [], ...parsed };
+};
+
+// Load the latest structure of the templates matching a condition on their
+// scoresheet ID, keyed by scoresheet ID
+const loadStructures = async (
+  db: Database,
+  condition: string,
+  value: string
+): Promise<Record<string, ScoresheetSubcategory[]>> => {
+  const [subcategories, fields] = await Promise.all([
+    db.prepare(`SELECT * FROM scoresheet_subcategories WHERE ${condition} ORDER BY display_order`)
+      .bind(value)
+      .all<SubcategoryRow>(),
+    db.prepare(`SELECT * FROM scoresheet_fields WHERE ${condition} ORDER BY display_order`)
+      .bind(value)
+      .all<FieldRow>()
+  ]);
+  
+  return toTemplateStructures(subcategories.results, fields.results);
+};
+
+// The latest version of a template, from its normalized rows
+const getLatestStructure = (row: ScoresheetRow, structures: Record<string, ScoresheetSubcategory[]>): TemplateStructure => ({
+  subcategories: structures[row.id] || [],
+  ...(row.win_condition ? { winCondition: JSON.parse(row.win_condition) } : {})
+});
+
+const toTemplate = (row: ScoresheetRow, structure: TemplateStructure, version?: number): ScoresheetTemplate => ({
+  id: row.id,
+  name: row.name,
+  gameId: row.game_id,
+  subcategories: structure.subcategories,
+  ...(structure.winCondition ? { winCondition: structure.winCondition } : {}),
+  version: version ?? row.current_version,
+  latestVersion: row.current_version,
+  isOfficial: !!row.is_official
+});
+
+// Load a template by ID, at the given version or else the latest one
+export const loadTemplate = async (
+  db: Database,
+  scoresheetId: string,
+  version?: number
+): Promise<ScoresheetTemplate | null> => {
+  const row = await db
+    .prepare(`SELECT ${TEMPLATE_COLUMNS} FROM scoresheets WHERE id = ?`)
+    .bind(scoresheetId)
+    .first<ScoresheetRow>();
+  
+  if (!row) return null;
+  
+  if (version === undefined || version === row.current_version) {
+    const structures = await loadStructures(db, 'scoresheet_id = ?', scoresheetId);
+    return toTemplate(row, getLatestStructure(row, structures));
+  }
+  
+  const versionRow = await db
+    .prepare('SELECT structure FROM scoresheet_versions WHERE scoresheet_id = ? AND version = ?')
+    .bind(scoresheetId, version)
+    .first<{ structure: string }>();
+  
+  if (!versionRow) return null;
+  
+  return toTemplate(row, parseStructure(versionRow.structure), version);
+};
+
+// Store an edited template as a new version and make it the latest one.
+// Returns the new version, or null when another version was saved since the
+// latest one was read.
+export const saveTemplateVersion = async (
+  db: Database,
+  scoresheetId: string,
+  { subcategories, winCondition }: TemplateStructure,
+  userId: string | null
+): Promise<number | null> => {
+  const row = await db
+    .prepare('SELECT current_version FROM scoresheets WHERE id = ?')
+    .bind(scoresheetId)
+    .first<{ current_version: number }>();
+  
+  const structure = JSON.stringify({ subcategories, ...(winCondition ? { winCondition } : {}) });
+  
+  // The version is numbered inside the batch, and only while the latest
+  // version is still the one read above. The normalized rows are rebuilt
+  // from the latest version in the same batch.
+  const [inserted] = await db.batch([
+    db.prepare(
+      `INSERT INTO scoresheet_versions (scoresheet_id, version, structure, created_by)
+       SELECT id, current_version + 1, ?, ? FROM scoresheets WHERE id = ? AND current_version = ?
+       RETURNING version`
+    ).bind(structure, userId, scoresheetId, row.current_version),
+    db.prepare('UPDATE scoresheets SET current_version = current_version + 1 WHERE id = ? AND current_version = ?')
+      .bind(scoresheetId, row.current_version),
+    ...getTemplateRowStatements('s.id = ?').map(statement => db.prepare(statement).bind(scoresheetId))
+  ]);
+  
+  return inserted?.results?.[0]?.version ?? null;
+};
+
+// Check the structure of a template sent by a client
+const getStructureProblems = (body: any): string[] => {
+  const problems = [...getNestingProblems(body.subcategories), ...validateTemplateFormulas(body.subcategories)];
+  if (body.winCondition !== undefined && body.winCondition !== null) {
+    problems.push(...getWinConditionProblems(body.subcategories, body.winCondition));
+  }
+  return problems;
+};
+
+// The structure to store for a template sent by a client
+const toStructure = (body: any): TemplateStructure => ({
+  subcategories: orderSubcategories(body.subcategories),
+  ...(body.winCondition ? { winCondition: body.winCondition } : {})
+});
+
+// POST /api/scoresheets creates a template at version 1
+export const handleCreateTemplate = async (db: Database, request: Request, userId: string | null): Promise<Response> => {
+  const body = await request.json().catch(() => null);
+  
+  if (!body || !body.name?.trim() || !body.gameId || !Array.isArray(body.subcategories)) {
+    return errorResponse('Expected a template name, game ID and subcategories');
+  }
+  
+  const problems = getStructureProblems(body);
+  if (problems.length > 0) {
+    return errorResponse(problems.join('. '));
+  }
+  
+  const game = await db.prepare('SELECT id FROM games WHERE id = ?').bind(body.gameId).first();
+  if (!game) {
+    return errorResponse('Game not found', 404);
+  }
+  
+  const scoresheetId = typeof body.id === 'string' ? body.id : crypto.randomUUID();
+  const existing = await db.prepare('SELECT id FROM scoresheets WHERE id = ?').bind(scoresheetId).first();
+  if (existing) {
+    return errorResponse('A scoresheet with this ID already exists', 409);
+  }
+  
+  // Version 0 has no structure; saving makes the posted structure version 1
+  await db
+    .prepare(
+      `INSERT INTO scoresheets (id, game_id, name, structure, is_official, current_version, created_by)
+       VALUES (?, ?, ?, '{}', FALSE, 0, ?)`
+    )
+    .bind(scoresheetId, body.gameId, body.name.trim(), userId)
+    .run();
+  
+  const version = await saveTemplateVersion(db, scoresheetId, toStructure(body), userId);
+  if (version === null) {
+    return errorResponse('The template was saved by someone else in the meantime', 409);
+  }
+  
+  return jsonResponse({ id: scoresheetId, version }, 201);
+};
+
+// GET /api/games/:id/scoresheets lists the latest version of every template
+// of a game, official templates first
+export const handleListGameTemplates = async (db: Database, gameId: string): Promise<Response> => {
+  const [{ results }, structures] = await Promise.all([
+    db.prepare(
+      `SELECT ${TEMPLATE_COLUMNS} FROM scoresheets WHERE game_id = ? ORDER BY is_official DESC, name`
+    )
+      .bind(gameId)
+      .all<ScoresheetRow>(),
+    loadStructures(db, 'scoresheet_id IN (SELECT id FROM scoresheets WHERE game_id = ?)', gameId)
+  ]);
+  
+  return jsonResponse(results.map(row => toTemplate(row, getLatestStructure(row, structures))));
+};
+
+// GET /api/scoresheets/:id?version=
+export const handleGetTemplate = async (db: Database, scoresheetId: string, request: Request): Promise<Response> => {
+  const versionParam = new URL(request.url).searchParams.get('version');
+  const version = versionParam ? parseInt(versionParam, 10) : undefined;
+  
+  if (versionParam && !(version >= 1)) {
+    return errorResponse(`Invalid template version "${versionParam}"`);
+  }
+  
+  const template = await loadTemplate(db, scoresheetId, version);
+  
+  if (!template) {
+    return errorResponse(version ? `Version ${version} of the scoresheet not found` : 'Scoresheet not found', 404);
+  }
+  
+  return jsonResponse(template);
+};
+
+// PUT /api/scoresheets/:id saves an edit as a new version. Only the user who
+// created a template can edit it. Sessions created with earlier versions
+// keep using them until they are upgraded.
+export const handleUpdateTemplate = async (
+  db: Database,
+  scoresheetId: string,
+  request: Request,
+  userId: string | null
+): Promise<Response> => {
+  if (!userId) {
+    return errorResponse('Sign in to edit templates', 401);
+  }
+  
+  const body = await request.json().catch(() => null);
+  
+  if (!body || !Array.isArray(body.subcategories)) {
+    return errorResponse('Expected the template subcategories');
+  }
+  
+  const problems = getStructureProblems(body);
+  if (problems.length > 0) {
+    return errorResponse(problems.join('. '));
+  }
+  
+  const existing = await db
+    .prepare('SELECT id, is_official, created_by FROM scoresheets WHERE id = ?')
+    .bind(scoresheetId)
+    .first<{ id: string; is_official: number | boolean | null; created_by: string | null }>();
+  if (!existing) {
+    return errorResponse('Scoresheet not found', 404);
+  }
+  
+  // Seeding would overwrite edits of official templates
+  if (existing.is_official) {
+    return errorResponse('Official templates can only be changed through the template library', 403);
+  }
+  
+  if (existing.created_by !== userId) {
+    return errorResponse('Only the creator of a template can edit it', 403);
+  }
+  
+  const version = await saveTemplateVersion(db, scoresheetId, toStructure(body), userId);
+  if (version === null) {
+    return errorResponse('The template was saved by someone else in the meantime', 409);
+  }
+  
+  return jsonResponse({ id: scoresheetId, version });
+};
+
+// GET /api/scoresheets/:id/fields?type= lists the fields of the latest
+// version, optionally of one type, with the subcategory they belong to
+export const handleListTemplateFields = async (db: Database, scoresheetId: string, request: Request): Promise<Response> => {
+  const type = new URL(request.url).searchParams.get('type');
+  
+  const scoresheet = await db.prepare('SELECT id FROM scoresheets WHERE id = ?').bind(scoresheetId).first();
+  if (!scoresheet) {
+    return errorResponse('Scoresheet not found', 404);
+  }
+  
+  const { results } = await db
+    .prepare(
+      `SELECT f.* FROM scoresheet_fields f
+       JOIN scoresheet_subcategories s ON s.scoresheet_id = f.scoresheet_id AND s.id = f.subcategory_id
+       WHERE f.scoresheet_id = ? AND (? IS NULL OR f.type = ?)
+       ORDER BY s.display_order, f.display_order`
+    )
+    .bind(scoresheetId, type, type)
+    .all<FieldRow>();
+  
+  return jsonResponse(results.map(row => ({
+    ...toTemplateField(row),
+    subcategoryId: row.subcategory_id,
+    displayOrder: row.display_order
+  })));
+};
+
+// GET /api/scoresheets/:id/versions
+export const handleListTemplateVersions = async (db: Database, scoresheetId: string): Promise<Response> => {
+  const { results } = await db
+    .prepare(
+      'SELECT version, structure, created_by, created_at FROM scoresheet_versions WHERE scoresheet_id = ? ORDER BY version DESC'
+    )
+    .bind(scoresheetId)
+    .all<ScoresheetVersionRow>();
+  
+  if (results.length === 0) {
+    return errorResponse('Scoresheet not found', 404);
+  }
+  
+  return jsonResponse(results.map(row => ({
+    version: row.version,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    fieldCount: parseStructure(row.structure).subcategories.reduce((count, subcategory) => count + subcategory.fields.length, 0)
+  })));
+};
+
+// GET /api/scoresheets/:id/export
+export const handleExportTemplate = async (db: Database, scoresheetId: string): Promise<Response> => {
+  const template = await loadTemplate(db, scoresheetId);
+  
+  if (!template) {
+    return errorResponse('Scoresheet not found', 404);
+  }
+  
+  return new Response(serializeTemplateFile(template), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Content-Disposition': `attachment; filename="scoresheet-template-${scoresheetId}.json"`
+    }
+  });
+};
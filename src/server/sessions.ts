@@ -0,0 +1,724 @@
+import { DiceNotationError, isDiceRoll, rollDice } from '../lib/scoresheet/dice';
+import { renderSessionPdf } from '../lib/scoresheet/pdf';
+import { buildPlayerValues, DEFAULT_PLAYER, getSessionPlayers } from '../lib/scoresheet/players';
+import { validateValues } from '../lib/scoresheet/rules';
+import {
+  DiceLogEntry,
+  ScoresheetFieldType,
+  ScoresheetSession,
+  ScoresheetSubcategory,
+  ScoresheetTemplate,
+  ScoresheetValue,
+  TrackerLogEntry,
+  ValueChangeEvent
+} from '../lib/scoresheet/types';
+import { upgradeSessionValues } from '../lib/scoresheet/versions';
+import { getWinCondition, rankPlayers } from '../lib/scoresheet/winner';
+import { Database, PreparedStatement } from './db';
+import { errorResponse, jsonResponse } from './responses';
+import { loadTemplate } from './scoresheets';
+
+// Scoresheet session routes. Values are stored per player in the
+// session_players.scores JSON column as { [fieldId]: value }.
+// session_players is keyed by (session_id, player_name), so the player
+// name doubles as the player ID. Sessions are pinned to the template version
+// they were created with until they are explicitly upgraded. Rolls of dice
+// fields are logged in session_rolls, changes of tracker fields in
+// session_tracker_log and the edit history of all values in
+// session_value_changes. Completing a session stores the placement of every
+// player in session_players.placement, decided by the win condition of the
+// template; it is updated whenever values of a completed session change.
+// Only the creator and the players of a session can open or change it.
+
+interface SessionRow {
+  id: string;
+  game_id: string;
+  scoresheet_id: string;
+  scoresheet_version: number | null;
+  status: string | null;
+  started_at: string;
+  ended_at: string | null;
+  values_revision: number | null;
+}
+
+interface SessionPlayerRow {
+  player_name: string;
+  scores: string | null;
+  placement: number | null;
+}
+
+interface SessionRollRow {
+  id: string;
+  player_name: string;
+  field_id: string;
+  notation: string;
+  dice: string;
+  modifier: number;
+  total: number;
+  seed: number;
+  rolled_at: string;
+}
+
+const toLogEntry = (row: SessionRollRow): DiceLogEntry => ({
+  id: row.id,
+  playerId: row.player_name,
+  fieldId: row.field_id,
+  roll: {
+    notation: row.notation,
+    dice: JSON.parse(row.dice),
+    modifier: row.modifier,
+    total: row.total,
+    seed: row.seed,
+    rolledAt: row.rolled_at
+  }
+});
+
+interface TrackerLogRow {
+  id: string;
+  player_name: string;
+  field_id: string;
+  previous_value: number;
+  new_value: number;
+  note: string | null;
+  changed_at: string;
+}
+
+const MAX_NOTE_LENGTH = 500;
+
+const toTrackerLogEntry = (row: TrackerLogRow): TrackerLogEntry => ({
+  id: row.id,
+  playerId: row.player_name,
+  fieldId: row.field_id,
+  previous: row.previous_value,
+  value: row.new_value,
+  ...(row.note ? { note: row.note } : {}),
+  changedAt: row.changed_at
+});
+
+interface ValueChangeRow {
+  id: string;
+  player_name: string;
+  field_id: string;
+  round: number | null;
+  previous_value: string | null;
+  new_value: string | null;
+  action: ValueChangeEvent['action'];
+  target_id: string | null;
+  editor: string;
+  changed_at: string;
+}
+
+const CHANGE_ACTIONS: ValueChangeEvent['action'][] = ['edit', 'undo', 'redo'];
+
+const toValueChange = (row: ValueChangeRow): ValueChangeEvent => ({
+  id: row.id,
+  playerId: row.player_name,
+  fieldId: row.field_id,
+  ...(row.round !== null ? { round: row.round } : {}),
+  previous: row.previous_value === null ? null : JSON.parse(row.previous_value),
+  value: row.new_value === null ? null : JSON.parse(row.new_value),
+  changedAt: row.changed_at,
+  editor: row.editor,
+  action: row.action,
+  ...(row.target_id ? { targetId: row.target_id } : {})
+});
+
+// Append a roll to the roll log of a session
+export const appendSessionRoll = async (db: Database, sessionId: string, entry: DiceLogEntry) => {
+  const { roll } = entry;
+  
+  await db
+    .prepare(
+      `INSERT INTO session_rolls (id, session_id, player_name, field_id, notation, dice, modifier, total, seed, rolled_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      entry.id, sessionId, entry.playerId, entry.fieldId, roll.notation,
+      JSON.stringify(roll.dice), roll.modifier, roll.total, roll.seed, roll.rolledAt
+    )
+    .run();
+};
+
+// A response refusing a user who neither created nor plays in a session,
+// or null when the user may open it
+export const checkSessionMember = async (db: Database, sessionId: string, userId: string | null): Promise<Response | null> => {
+  if (!userId) {
+    return errorResponse('Sign in to open sessions', 401);
+  }
+  
+  const session = await db
+    .prepare('SELECT created_by FROM game_sessions WHERE id = ?')
+    .bind(sessionId)
+    .first<{ created_by: string }>();
+  if (!session) {
+    return errorResponse('Session not found', 404);
+  }
+  
+  if (session.created_by === userId) return null;
+  
+  const player = await db
+    .prepare('SELECT 1 AS member FROM session_players WHERE session_id = ? AND user_id = ? LIMIT 1')
+    .bind(sessionId, userId)
+    .first();
+  return player ? null : errorResponse('Only the players of a session can open it', 403);
+};
+
+// Load a session with its players and their values
+export const loadSession = async (db: Database, sessionId: string): Promise<ScoresheetSession | null> => {
+  const session = await db
+    .prepare(
+      'SELECT id, game_id, scoresheet_id, scoresheet_version, status, started_at, ended_at, values_revision FROM game_sessions WHERE id = ?'
+    )
+    .bind(sessionId)
+    .first<SessionRow>();
+  
+  if (!session) return null;
+  
+  const { results: players } = await db
+    .prepare('SELECT player_name, scores, placement FROM session_players WHERE session_id = ? ORDER BY joined_at')
+    .bind(sessionId)
+    .all<SessionPlayerRow>();
+  
+  const { results: rolls } = await db
+    .prepare('SELECT * FROM session_rolls WHERE session_id = ? ORDER BY rolled_at')
+    .bind(sessionId)
+    .all<SessionRollRow>();
+  
+  const { results: trackerLog } = await db
+    .prepare('SELECT * FROM session_tracker_log WHERE session_id = ? ORDER BY changed_at')
+    .bind(sessionId)
+    .all<TrackerLogRow>();
+  
+  // The history is kept in the order it reached the server, which undo and
+  // redo depend on, rather than by the clocks of the devices
+  const { results: history } = await db
+    .prepare('SELECT * FROM session_value_changes WHERE session_id = ? ORDER BY rowid')
+    .bind(sessionId)
+    .all<ValueChangeRow>();
+  
+  const values: ScoresheetValue[] = [];
+  players.forEach(player => {
+    const scores: Record<string, any> = player.scores ? JSON.parse(player.scores) : {};
+    Object.entries(scores).forEach(([fieldId, value]) => {
+      values.push({ playerId: player.player_name, fieldId, value });
+    });
+  });
+  
+  return {
+    id: session.id,
+    gameId: session.game_id,
+    scoresheetId: session.scoresheet_id,
+    // Sessions from before template versions use the first version
+    scoresheetVersion: session.scoresheet_version || 1,
+    createdAt: session.started_at,
+    status: session.status === 'completed' ? 'completed' : 'active',
+    ...(session.status === 'completed' && session.ended_at ? { completedAt: session.ended_at } : {}),
+    players: players.map(player => ({
+      id: player.player_name,
+      name: player.player_name,
+      ...(player.placement !== null ? { placement: player.placement } : {})
+    })),
+    values,
+    valuesRevision: session.values_revision ?? 0,
+    rolls: rolls.map(toLogEntry),
+    trackerLog: trackerLog.map(toTrackerLogEntry),
+    history: history.map(toValueChange)
+  };
+};
+
+// Check that a request body holds a list of { playerId?, fieldId, value } entries
+const isValueList = (values: any): values is ScoresheetValue[] => {
+  return Array.isArray(values) && values.every(value =>
+    value && typeof value === 'object' &&
+    typeof value.fieldId === 'string' &&
+    (value.playerId === undefined || typeof value.playerId === 'string')
+  );
+};
+
+// Check that a request body holds a list of value changes
+const isChangeList = (changes: any): boolean => {
+  return Array.isArray(changes) && changes.every(change =>
+    change && typeof change === 'object' &&
+    typeof change.id === 'string' &&
+    typeof change.playerId === 'string' &&
+    typeof change.fieldId === 'string' &&
+    (change.round === undefined || Number.isInteger(change.round)) &&
+    typeof change.changedAt === 'string' &&
+    CHANGE_ACTIONS.includes(change.action) &&
+    (change.action === 'edit' || typeof change.targetId === 'string')
+  );
+};
+
+// Append changes to the edit history of a session, made by the given
+// editor. Changes already in the history are skipped, so a device can send
+// its changes again when it did not get an answer.
+const appendValueChanges = async (
+  db: Database,
+  sessionId: string,
+  changes: ValueChangeEvent[],
+  editor: string
+): Promise<ValueChangeEvent[]> => {
+  const stored = changes.map(change => ({ ...change, editor }));
+  if (stored.length === 0) return stored;
+  
+  await db.batch(stored.map(change =>
+    db.prepare(
+      `INSERT OR IGNORE INTO session_value_changes
+         (id, session_id, player_name, field_id, round, previous_value, new_value, action, target_id, editor, changed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      change.id, sessionId, change.playerId, change.fieldId, change.round ?? null,
+      JSON.stringify(change.previous ?? null), JSON.stringify(change.value ?? null),
+      change.action, change.targetId || null, editor, change.changedAt
+    )
+  ));
+  
+  return stored;
+};
+
+// Check values against the validation rules of a template, naming the
+// player when several are scored
+const getValidationProblems = (subcategories: ScoresheetSubcategory[], values: ScoresheetValue[]): string[] => {
+  const playerIds = Array.from(new Set(values.map(value => value.playerId || DEFAULT_PLAYER.id)));
+  const players = playerIds.map(id => ({ id, name: id }));
+  const playerValues = buildPlayerValues(subcategories, players, values);
+  const problems: string[] = [];
+  
+  players.forEach(player => {
+    validateValues(subcategories, playerValues[player.id]).forEach(issue => {
+      problems.push(players.length > 1 ? `${player.name}: ${issue.message}` : issue.message);
+    });
+  });
+  
+  return problems;
+};
+
+// Statements storing values per player, replacing each player's previous
+// scores
+const getSaveValuesStatements = (db: Database, sessionId: string, values: ScoresheetValue[]): PreparedStatement[] => {
+  const scoresByPlayer: Record<string, Record<string, any>> = {};
+  
+  values.forEach(value => {
+    const playerId = value.playerId || DEFAULT_PLAYER.id;
+    scoresByPlayer[playerId] = scoresByPlayer[playerId] || {};
+    scoresByPlayer[playerId][value.fieldId] = value.value;
+  });
+  
+  return Object.entries(scoresByPlayer).map(([playerId, scores]) =>
+    db.prepare(
+      `INSERT INTO session_players (session_id, player_name, scores) VALUES (?, ?, ?)
+       ON CONFLICT (session_id, player_name) DO UPDATE SET scores = excluded.scores`
+    ).bind(sessionId, playerId, JSON.stringify(scores))
+  );
+};
+
+// Store values per player, replacing each player's previous scores
+export const saveSessionValues = async (db: Database, sessionId: string, values: ScoresheetValue[]) => {
+  await db.batch(getSaveValuesStatements(db, sessionId, values));
+};
+
+// Store the placement of every player of a session by the win condition of
+// its template. Returns null when the template has nothing to rank by.
+const storePlacements = async (db: Database, session: ScoresheetSession, template: ScoresheetTemplate) => {
+  const winCondition = getWinCondition(template.subcategories, template.winCondition);
+  if (!winCondition) return null;
+  
+  const players = getSessionPlayers(session);
+  const playerValues = buildPlayerValues(template.subcategories, players, session.values);
+  const standings = rankPlayers(players, playerValues, winCondition);
+  
+  await db.batch(standings.map(standing =>
+    db.prepare(
+      `INSERT INTO session_players (session_id, player_name, placement) VALUES (?, ?, ?)
+       ON CONFLICT (session_id, player_name) DO UPDATE SET placement = excluded.placement`
+    ).bind(session.id, standing.player.id, standing.rank)
+  ));
+  
+  return standings;
+};
+
+// Update the placements of a completed session after its values changed
+const updatePlacements = async (db: Database, sessionId: string) => {
+  const session = await loadSession(db, sessionId);
+  if (session?.status !== 'completed') return;
+  
+  const template = await loadTemplate(db, session.scoresheetId, session.scoresheetVersion);
+  if (template) {
+    await storePlacements(db, session, template);
+  }
+};
+
+// A problem with the player and field a log entry is about, or null when
+// they are a player of the session and a field of the given type in the
+// template version it is pinned to
+const getLogTargetProblem = async (
+  db: Database,
+  sessionId: string,
+  playerId: string,
+  fieldId: string,
+  type: ScoresheetFieldType
+): Promise<string | null> => {
+  const session = await loadSession(db, sessionId);
+  if (!getSessionPlayers(session).some(player => player.id === playerId)) {
+    return `"${playerId}" is not a player of the session`;
+  }
+  
+  const template = await loadTemplate(db, session.scoresheetId, session.scoresheetVersion);
+  const field = template?.subcategories
+    .flatMap(subcategory => subcategory.fields)
+    .find(field => field.id === fieldId);
+  if (!field || field.type !== type) {
+    return `"${fieldId}" is not a ${type} field of the scoresheet`;
+  }
+  
+  return null;
+};
+
+// POST /api/sessions creates a session pinned to the template version it
+// was filled in with, or the latest version when none is given
+export const handleCreateSession = async (db: Database, request: Request, userId: string): Promise<Response> => {
+  const body = await request.json().catch(() => null);
+  
+  if (!body || typeof body.gameId !== 'string' || typeof body.scoresheetId !== 'string') {
+    return errorResponse('Expected a gameId and a scoresheetId');
+  }
+  
+  const version = Number.isInteger(body.scoresheetVersion) ? body.scoresheetVersion : undefined;
+  const template = await loadTemplate(db, body.scoresheetId, version);
+  if (!template) {
+    return errorResponse('Scoresheet not found', 404);
+  }
+  
+  const scoresheetData: Record<string, any> = body.scoresheetData || {};
+  const initialValues: ScoresheetValue[] = Object.entries(scoresheetData).map(([fieldId, value]) => ({ fieldId, value }));
+  
+  const problems = getValidationProblems(template.subcategories, initialValues);
+  if (problems.length > 0) {
+    return errorResponse(problems.join('. '));
+  }
+  
+  const sessionId = crypto.randomUUID();
+  
+  await db
+    .prepare(
+      'INSERT INTO game_sessions (id, game_id, scoresheet_id, scoresheet_version, created_by) VALUES (?, ?, ?, ?, ?)'
+    )
+    .bind(sessionId, body.gameId, template.id, template.version, userId)
+    .run();
+  
+  // Values entered while generating the sheet belong to its single column
+  await saveSessionValues(db, sessionId, initialValues);
+  
+  // Dice rolled while generating the sheet start the roll log
+  for (const [fieldId, value] of Object.entries(scoresheetData)) {
+    const rolls = (Array.isArray(value) ? value : [value]).filter(isDiceRoll);
+    for (const roll of rolls) {
+      await appendSessionRoll(db, sessionId, { id: crypto.randomUUID(), playerId: DEFAULT_PLAYER.id, fieldId, roll });
+    }
+  }
+  
+  return jsonResponse({ id: sessionId, scoresheetVersion: template.version }, 201);
+};
+
+// GET /api/sessions/:id
+export const handleGetSession = async (db: Database, sessionId: string, userId: string | null): Promise<Response> => {
+  const refused = await checkSessionMember(db, sessionId, userId);
+  if (refused) return refused;
+  
+  const session = await loadSession(db, sessionId);
+  
+  if (!session) {
+    return errorResponse('Session not found', 404);
+  }
+  
+  return jsonResponse(session);
+};
+
+// PUT /api/sessions/:id/values saves the values of a session together with
+// the changes made since the last save, which are added to its history.
+// The { baseRevision } the values were read at, 0 when it is left out, has
+// to be the latest one: the save is rejected with 409 when another device
+// has saved values since.
+export const handlePutSessionValues = async (
+  db: Database,
+  sessionId: string,
+  request: Request,
+  userId: string | null
+): Promise<Response> => {
+  const refused = await checkSessionMember(db, sessionId, userId);
+  if (refused) return refused;
+  
+  const body = await request.json().catch(() => null);
+  
+  if (!body || !isValueList(body.values)) {
+    return errorResponse('Expected a list of { playerId, fieldId, value } entries');
+  }
+  
+  if (body.changes !== undefined && !isChangeList(body.changes)) {
+    return errorResponse('Expected a list of changes with id, playerId, fieldId, changedAt and action');
+  }
+  
+  if (body.baseRevision !== undefined && (!Number.isInteger(body.baseRevision) || body.baseRevision < 0)) {
+    return errorResponse('The base revision must be a whole number of at least 0');
+  }
+  
+  const session = await db
+    .prepare('SELECT scoresheet_id, scoresheet_version FROM game_sessions WHERE id = ?')
+    .bind(sessionId)
+    .first<{ scoresheet_id: string; scoresheet_version: number | null }>();
+  if (!session) {
+    return errorResponse('Session not found', 404);
+  }
+  
+  // Values are validated against the template version the session is pinned to
+  const template = await loadTemplate(db, session.scoresheet_id, session.scoresheet_version || 1);
+  if (template) {
+    const problems = getValidationProblems(template.subcategories, body.values);
+    if (problems.length > 0) {
+      return errorResponse(problems.join('. '));
+    }
+  }
+  
+  // Claim the next revision first, so only one of two saves based on the
+  // same revision goes through
+  const revised = await db
+    .prepare(
+      `UPDATE game_sessions SET values_revision = COALESCE(values_revision, 0) + 1
+      WHERE id = ? AND COALESCE(values_revision, 0) = ?
+      RETURNING values_revision`
+    )
+    .bind(sessionId, body.baseRevision ?? 0)
+    .first<{ values_revision: number }>();
+  if (!revised) {
+    return errorResponse('The session was saved on another device since these values were read', 409);
+  }
+  
+  await saveSessionValues(db, sessionId, body.values);
+  await updatePlacements(db, sessionId);
+  
+  // Changes are credited to the signed-in user, whatever the device claims
+  const changes = await appendValueChanges(db, sessionId, body.changes || [], userId);
+  
+  return jsonResponse({ id: sessionId, changes, valuesRevision: revised.values_revision });
+};
+
+// POST /api/sessions/:id/rolls logs a roll made on a player's device. The
+// roll is repeated from its notation and seed, so the log holds the same
+// dice the player saw.
+export const handlePostSessionRoll = async (
+  db: Database,
+  sessionId: string,
+  request: Request,
+  userId: string | null
+): Promise<Response> => {
+  const refused = await checkSessionMember(db, sessionId, userId);
+  if (refused) return refused;
+  
+  const body = await request.json().catch(() => null);
+  
+  if (
+    !body || typeof body.playerId !== 'string' || typeof body.fieldId !== 'string' ||
+    typeof body.notation !== 'string' || !Number.isInteger(body.seed)
+  ) {
+    return errorResponse('Expected a roll with playerId, fieldId, notation and seed');
+  }
+  
+  const problem = await getLogTargetProblem(db, sessionId, body.playerId, body.fieldId, 'dice');
+  if (problem) {
+    return errorResponse(problem);
+  }
+  
+  let entry: DiceLogEntry;
+  try {
+    entry = {
+      id: typeof body.id === 'string' ? body.id : crypto.randomUUID(),
+      playerId: body.playerId,
+      fieldId: body.fieldId,
+      roll: rollDice(body.notation, body.seed, typeof body.rolledAt === 'string' ? body.rolledAt : new Date().toISOString())
+    };
+  } catch (err) {
+    if (err instanceof DiceNotationError) {
+      return errorResponse(err.message);
+    }
+    throw err;
+  }
+  
+  await appendSessionRoll(db, sessionId, entry);
+  
+  return jsonResponse(entry, 201);
+};
+
+// POST /api/sessions/:id/tracker-log appends a tracker change. Entries are
+// never updated or removed.
+export const handlePostTrackerChange = async (
+  db: Database,
+  sessionId: string,
+  request: Request,
+  userId: string | null
+): Promise<Response> => {
+  const refused = await checkSessionMember(db, sessionId, userId);
+  if (refused) return refused;
+  
+  const body = await request.json().catch(() => null);
+  
+  if (
+    !body || typeof body.playerId !== 'string' || typeof body.fieldId !== 'string' ||
+    !Number.isFinite(body.previous) || !Number.isFinite(body.value)
+  ) {
+    return errorResponse('Expected a change with playerId, fieldId, previous and value');
+  }
+  
+  if (body.note !== undefined && (typeof body.note !== 'string' || body.note.length > MAX_NOTE_LENGTH)) {
+    return errorResponse(`Notes are text of at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  
+  const problem = await getLogTargetProblem(db, sessionId, body.playerId, body.fieldId, 'tracker');
+  if (problem) {
+    return errorResponse(problem);
+  }
+  
+  const entry: TrackerLogEntry = {
+    id: typeof body.id === 'string' ? body.id : crypto.randomUUID(),
+    playerId: body.playerId,
+    fieldId: body.fieldId,
+    previous: body.previous,
+    value: body.value,
+    ...(body.note ? { note: body.note } : {}),
+    changedAt: typeof body.changedAt === 'string' ? body.changedAt : new Date().toISOString()
+  };
+  
+  await db
+    .prepare(
+      `INSERT INTO session_tracker_log (id, session_id, player_name, field_id, previous_value, new_value, note, changed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(entry.id, sessionId, entry.playerId, entry.fieldId, entry.previous, entry.value, entry.note || null, entry.changedAt)
+    .run();
+  
+  return jsonResponse(entry, 201);
+};
+
+// GET /api/sessions/:id/export?format=pdf
+export const handleExportSession = async (
+  db: Database,
+  sessionId: string,
+  request: Request,
+  userId: string | null
+): Promise<Response> => {
+  const refused = await checkSessionMember(db, sessionId, userId);
+  if (refused) return refused;
+  
+  const format = new URL(request.url).searchParams.get('format') || 'pdf';
+  if (format !== 'pdf') {
+    return errorResponse(`Unsupported export format "${format}"`);
+  }
+  
+  const session = await loadSession(db, sessionId);
+  if (!session) {
+    return errorResponse('Session not found', 404);
+  }
+  
+  const template = await loadTemplate(db, session.scoresheetId, session.scoresheetVersion);
+  if (!template) {
+    return errorResponse('Scoresheet not found', 404);
+  }
+  
+  const game = await db.prepare('SELECT name FROM games WHERE id = ?').bind(session.gameId).first<{ name: string }>();
+  
+  const pdf = renderSessionPdf({
+    gameName: game?.name || template.name,
+    session,
+    subcategories: template.subcategories,
+    winCondition: template.winCondition
+  });
+  
+  return new Response(pdf, {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="scoresheet-${sessionId}.pdf"`
+    }
+  });
+};
+
+// POST /api/sessions/:id/upgrade moves a session onto the latest version of
+// its template. Values are kept by field ID; the response lists the fields
+// whose values could not be carried over.
+export const handleUpgradeSession = async (db: Database, sessionId: string, userId: string | null): Promise<Response> => {
+  const refused = await checkSessionMember(db, sessionId, userId);
+  if (refused) return refused;
+  
+  const session = await loadSession(db, sessionId);
+  if (!session) {
+    return errorResponse('Session not found', 404);
+  }
+  
+  const pinned = await loadTemplate(db, session.scoresheetId, session.scoresheetVersion);
+  const latest = await loadTemplate(db, session.scoresheetId);
+  if (!pinned || !latest) {
+    return errorResponse('Scoresheet not found', 404);
+  }
+  
+  if (latest.version <= pinned.version) {
+    return errorResponse(`The session already uses the latest version of the template (version ${pinned.version})`);
+  }
+  
+  const { values, droppedFields } = upgradeSessionValues(session.values, pinned.subcategories, latest.subcategories);
+  
+  // Every player gets a fresh score list, including players left without
+  // values. The upgrade counts as a save of the values, so devices still
+  // holding the values of the old version cannot save them over it.
+  await db.batch([
+    db.prepare('UPDATE session_players SET scores = ? WHERE session_id = ?').bind('{}', sessionId),
+    ...getSaveValuesStatements(db, sessionId, values),
+    db.prepare(
+      'UPDATE game_sessions SET scoresheet_version = ?, values_revision = COALESCE(values_revision, 0) + 1 WHERE id = ?'
+    ).bind(latest.version, sessionId)
+  ]);
+  await updatePlacements(db, sessionId);
+  
+  return jsonResponse({
+    id: sessionId,
+    scoresheetVersion: latest.version,
+    droppedFields
+  });
+};
+
+// POST /api/sessions/:id/complete ends a session and stores the placement of
+// every player. Completing a session again recalculates the placements.
+export const handleCompleteSession = async (db: Database, sessionId: string, userId: string | null): Promise<Response> => {
+  const refused = await checkSessionMember(db, sessionId, userId);
+  if (refused) return refused;
+  
+  const session = await loadSession(db, sessionId);
+  if (!session) {
+    return errorResponse('Session not found', 404);
+  }
+  
+  const template = await loadTemplate(db, session.scoresheetId, session.scoresheetVersion);
+  if (!template) {
+    return errorResponse('Scoresheet not found', 404);
+  }
+  
+  const standings = await storePlacements(db, session, template);
+  if (!standings) {
+    return errorResponse('The template has no total to decide the winner by');
+  }
+  
+  await db
+    .prepare(
+      `UPDATE game_sessions SET status = 'completed', ended_at = COALESCE(ended_at, CURRENT_TIMESTAMP) WHERE id = ?`
+    )
+    .bind(sessionId)
+    .run();
+  
+  return jsonResponse({
+    id: sessionId,
+    status: 'completed',
+    standings: standings.map(standing => ({
+      playerId: standing.player.id,
+      placement: standing.rank,
+      total: standing.total,
+      tiebreaks: standing.tiebreaks
+    }))
+  });
+};
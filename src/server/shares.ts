@@ -0,0 +1,213 @@
+import { buildPlayerValues, getSessionPlayers } from '../lib/scoresheet/players';
+import { SessionShare, SharedSession } from '../lib/scoresheet/types';
+import { getWinCondition, rankPlayers } from '../lib/scoresheet/winner';
+import { Database } from './db';
+import { errorResponse, jsonResponse } from './responses';
+import { loadTemplate } from './scoresheets';
+import { checkSessionMember, loadSession } from './sessions';
+
+// Read-only share links of sessions. A link's token is the ID of its
+// session_shares row signed with HMAC-SHA256 using the secret of the
+// deployment (the SHARE_TOKEN_SECRET binding), so tokens cannot be guessed
+// from share IDs. The row decides whether a valid token still opens the
+// session: links can expire and be revoked. Only the creator and the
+// players of a session manage its links, and a token is only listed to the
+// user who created the link.
+
+interface ShareRow {
+  id: string;
+  session_id: string;
+  created_by: string | null;
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+const MAX_EXPIRY_DAYS = 365;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: ArrayBuffer): string => {
+  return btoa(String.fromCharCode(...Array.from(new Uint8Array(bytes))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array | null => {
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+const importKey = (secret: string) => {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+};
+
+// Sign a share ID into the token handed out in links
+export const createShareToken = async (secret: string, shareId: string): Promise<string> => {
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), encoder.encode(shareId));
+  return `${shareId}.${toBase64Url(signature)}`;
+};
+
+// The share ID of a token, or null when its signature does not match
+export const verifyShareToken = async (secret: string, token: string): Promise<string | null> => {
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) return null;
+  
+  const shareId = token.slice(0, separator);
+  const signature = fromBase64Url(token.slice(separator + 1));
+  if (!signature) return null;
+  
+  const valid = await crypto.subtle.verify('HMAC', await importKey(secret), signature, encoder.encode(shareId));
+  return valid ? shareId : null;
+};
+
+const toShare = async (row: ShareRow, secret: string, withToken = true): Promise<SessionShare> => ({
+  id: row.id,
+  ...(withToken ? { token: await createShareToken(secret, row.id) } : {}),
+  createdAt: row.created_at,
+  ...(row.expires_at ? { expiresAt: row.expires_at } : {}),
+  ...(row.revoked_at ? { revokedAt: row.revoked_at } : {})
+});
+
+// POST /api/sessions/:id/shares creates a share link, optionally expiring
+// after { expiresInDays }
+export const handleCreateShare = async (
+  db: Database,
+  sessionId: string,
+  request: Request,
+  userId: string | null,
+  secret: string
+): Promise<Response> => {
+  const body = await request.json().catch(() => ({}));
+  const days = body?.expiresInDays;
+  
+  if (days !== undefined && days !== null && !(typeof days === 'number' && days > 0 && days <= MAX_EXPIRY_DAYS)) {
+    return errorResponse(`Links can expire after at most ${MAX_EXPIRY_DAYS} days`);
+  }
+  
+  const refused = await checkSessionMember(db, sessionId, userId);
+  if (refused) return refused;
+  
+  const row: ShareRow = {
+    id: crypto.randomUUID(),
+    session_id: sessionId,
+    created_by: userId,
+    created_at: new Date().toISOString(),
+    expires_at: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null,
+    revoked_at: null
+  };
+  
+  await db
+    .prepare('INSERT INTO session_shares (id, session_id, created_by, created_at, expires_at) VALUES (?, ?, ?, ?, ?)')
+    .bind(row.id, sessionId, userId, row.created_at, row.expires_at)
+    .run();
+  
+  return jsonResponse(await toShare(row, secret), 201);
+};
+
+// GET /api/sessions/:id/shares lists the links of a session, newest first.
+// Links created by other players come without their token.
+export const handleListShares = async (
+  db: Database,
+  sessionId: string,
+  userId: string | null,
+  secret: string
+): Promise<Response> => {
+  const refused = await checkSessionMember(db, sessionId, userId);
+  if (refused) return refused;
+  
+  const { results } = await db
+    .prepare('SELECT * FROM session_shares WHERE session_id = ? ORDER BY created_at DESC')
+    .bind(sessionId)
+    .all<ShareRow>();
+  
+  return jsonResponse(await Promise.all(results.map(row => toShare(row, secret, row.created_by === userId))));
+};
+
+// DELETE /api/sessions/:id/shares/:shareId revokes a link. The row is kept
+// so the link keeps explaining why it no longer works.
+export const handleRevokeShare = async (
+  db: Database,
+  sessionId: string,
+  shareId: string,
+  userId: string | null
+): Promise<Response> => {
+  const refused = await checkSessionMember(db, sessionId, userId);
+  if (refused) return refused;
+  
+  const share = await db
+    .prepare('SELECT id FROM session_shares WHERE id = ? AND session_id = ?')
+    .bind(shareId, sessionId)
+    .first();
+  if (!share) {
+    return errorResponse('Share link not found', 404);
+  }
+  
+  await db
+    .prepare('UPDATE session_shares SET revoked_at = COALESCE(revoked_at, ?) WHERE id = ?')
+    .bind(new Date().toISOString(), shareId)
+    .run();
+  
+  return jsonResponse({ id: shareId });
+};
+
+// GET /api/shared/:token opens a shared session without logging in. The
+// summary lets link previews show the game, players and totals.
+export const handleGetSharedSession = async (db: Database, token: string, secret: string): Promise<Response> => {
+  const shareId = await verifyShareToken(secret, token);
+  if (!shareId) {
+    return errorResponse('Invalid share link', 404);
+  }
+  
+  const share = await db.prepare('SELECT * FROM session_shares WHERE id = ?').bind(shareId).first<ShareRow>();
+  if (!share) {
+    return errorResponse('Invalid share link', 404);
+  }
+  
+  if (share.revoked_at) {
+    return errorResponse('This share link has been revoked', 410);
+  }
+  
+  if (share.expires_at && new Date(share.expires_at).getTime() <= Date.now()) {
+    return errorResponse('This share link has expired', 410);
+  }
+  
+  const session = await loadSession(db, share.session_id);
+  const scoresheet = session && await loadTemplate(db, session.scoresheetId, session.scoresheetVersion);
+  if (!session || !scoresheet) {
+    return errorResponse('Session not found', 404);
+  }
+  
+  const game = await db.prepare('SELECT name FROM games WHERE id = ?').bind(session.gameId).first<{ name: string }>();
+  const gameName = game?.name || scoresheet.name;
+  
+  const players = getSessionPlayers(session);
+  const winCondition = getWinCondition(scoresheet.subcategories, scoresheet.winCondition);
+  const summaryPlayers = winCondition
+    ? rankPlayers(players, buildPlayerValues(scoresheet.subcategories, players, session.values), winCondition)
+      .map(standing => ({ player: standing.player, total: standing.total }))
+    : players.map(player => ({ player, total: null }));
+  
+  // Who edited what stays private to the players of the session
+  const shared: SharedSession = {
+    session: { ...session, history: [] },
+    scoresheet,
+    game: { name: gameName },
+    summary: {
+      gameName,
+      players: summaryPlayers.map(({ player, total }) => ({
+        name: player.name,
+        total,
+        ...(player.placement !== undefined ? { placement: player.placement } : {})
+      }))
+    },
+    ...(share.expires_at ? { expiresAt: share.expires_at } : {})
+  };
+  
+  return jsonResponse(shared);
+};
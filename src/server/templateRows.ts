@@ -0,0 +1,106 @@
+import { ScoresheetField, ScoresheetSubcategory } from '../lib/scoresheet/types';
+
+// Normalized storage of the latest version of every template: one
+// scoresheet_subcategories row per subcategory, naming its parent when it
+// is nested, and one scoresheet_fields row per field, in display order. The
+// rows are extracted from the version's JSON by SQLite itself, so saving a
+// template, seeding the official library and the backfill migration share
+// the same statements. Properties without a column of their own (rounds,
+// dice notation, rules, ...) are kept in the settings JSON of their row.
+// The win condition of the latest version is copied to
+// scoresheets.win_condition.
+
+export interface SubcategoryRow {
+  scoresheet_id: string;
+  id: string;
+  parent_id: string | null;
+  name: string;
+  display_order: number;
+  settings: string | null;
+}
+
+export interface FieldRow {
+  scoresheet_id: string;
+  id: string;
+  subcategory_id: string;
+  name: string;
+  type: string;
+  default_value: string | null;
+  options: string | null;
+  formula: string | null;
+  min_value: number | null;
+  max_value: number | null;
+  display_order: number;
+  settings: string | null;
+}
+
+// Subcategory list of the latest version of the templates matching the
+// condition on scoresheets s. Early versions stored the list on its own.
+const latestSubcategories = (condition: string) => `(SELECT s.id AS scoresheet_id,
+  CASE WHEN json_type(v.structure) = 'array' THEN v.structure ELSE json_extract(v.structure, '$.subcategories') END AS subcategories
+  FROM scoresheets s JOIN scoresheet_versions v ON v.scoresheet_id = s.id AND v.version = s.current_version
+  WHERE ${condition})`;
+
+// Statements replacing the rows of the templates matching a condition on
+// scoresheets s, such as "s.id = ?", with the rows of their latest version.
+// Every statement uses the condition once, so it takes the same bindings.
+export const getTemplateRowStatements = (condition: string): string[] => [
+  `DELETE FROM scoresheet_fields WHERE scoresheet_id IN (SELECT s.id FROM scoresheets s WHERE ${condition});`,
+  
+  `DELETE FROM scoresheet_subcategories WHERE scoresheet_id IN (SELECT s.id FROM scoresheets s WHERE ${condition});`,
+  
+  `INSERT INTO scoresheet_subcategories (scoresheet_id, id, parent_id, name, display_order, settings)
+SELECT l.scoresheet_id, json_extract(sub.value, '$.id'), json_extract(sub.value, '$.parentId'), json_extract(sub.value, '$.name'), sub.key,
+  NULLIF(json_remove(sub.value, '$.id', '$.parentId', '$.name', '$.fields'), '{}')
+FROM ${latestSubcategories(condition)} l, json_each(l.subcategories) sub;`,
+  
+  `INSERT INTO scoresheet_fields (scoresheet_id, id, subcategory_id, name, type, default_value, options, formula, min_value, max_value, display_order, settings)
+SELECT l.scoresheet_id, json_extract(f.value, '$.id'), json_extract(sub.value, '$.id'), json_extract(f.value, '$.name'),
+  json_extract(f.value, '$.type'), f.value -> '$.defaultValue', f.value -> '$.options', json_extract(f.value, '$.formula'),
+  json_extract(f.value, '$.min'), json_extract(f.value, '$.max'), f.key,
+  NULLIF(json_remove(f.value, '$.id', '$.name', '$.type', '$.defaultValue', '$.options', '$.formula', '$.min', '$.max'), '{}')
+FROM ${latestSubcategories(condition)} l, json_each(l.subcategories) sub, json_each(sub.value, '$.fields') f;`,
+  
+  `UPDATE scoresheets AS s SET win_condition = (SELECT v.structure -> '$.winCondition' FROM scoresheet_versions v
+  WHERE v.scoresheet_id = s.id AND v.version = s.current_version AND json_type(v.structure) = 'object')
+WHERE ${condition};`
+];
+
+export const toTemplateField = (row: FieldRow): ScoresheetField => ({
+  id: row.id,
+  name: row.name,
+  type: row.type as ScoresheetField['type'],
+  ...(row.default_value !== null ? { defaultValue: JSON.parse(row.default_value) } : {}),
+  ...(row.options !== null ? { options: JSON.parse(row.options) } : {}),
+  ...(row.formula !== null ? { formula: row.formula } : {}),
+  ...(row.min_value !== null ? { min: row.min_value } : {}),
+  ...(row.max_value !== null ? { max: row.max_value } : {}),
+  ...(row.settings ? JSON.parse(row.settings) : {})
+});
+
+// Build the nested structure clients work with from the rows of one or
+// more templates, keyed by scoresheet ID. Rows come in display order.
+export const toTemplateStructures = (
+  subcategoryRows: SubcategoryRow[],
+  fieldRows: FieldRow[]
+): Record<string, ScoresheetSubcategory[]> => {
+  const structures: Record<string, ScoresheetSubcategory[]> = {};
+  const fields: Record<string, ScoresheetField[]> = {};
+  
+  fieldRows.forEach(row => {
+    const key = `${row.scoresheet_id}:${row.subcategory_id}`;
+    (fields[key] = fields[key] || []).push(toTemplateField(row));
+  });
+  
+  subcategoryRows.forEach(row => {
+    (structures[row.scoresheet_id] = structures[row.scoresheet_id] || []).push({
+      id: row.id,
+      name: row.name,
+      ...(row.parent_id !== null ? { parentId: row.parent_id } : {}),
+      ...(row.settings ? JSON.parse(row.settings) : {}),
+      fields: fields[`${row.scoresheet_id}:${row.id}`] || []
+    });
+  });
+  
+  return structures;
+};
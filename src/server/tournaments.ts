@@ -0,0 +1,625 @@
+import {
+  BracketError,
+  createSingleElimination,
+  getChampionId,
+  getSeedingProblems,
+  recordMatchResult,
+  seedPlayers
+} from '../lib/tournament/bracket';
+import { createDoubleElimination } from '../lib/tournament/doubleElimination';
+import {
+  DEFAULT_POD_SIZE,
+  getDefaultAdvancement,
+  getPodSettingsProblems,
+  getPodStandings,
+  isPodTournamentFinished,
+  recordPodResult,
+  seatPodRound
+} from '../lib/tournament/pods';
+import { createRoundRobin } from '../lib/tournament/roundRobin';
+import { DEFAULT_STANDINGS, getStandings, getStandingsProblems, SWISS_STANDINGS } from '../lib/tournament/standings';
+import { createTopCut, getPairedRounds, getSwissRoundCount, pairSwissRound } from '../lib/tournament/swiss';
+import {
+  PodParticipant,
+  SEEDING_METHODS,
+  SeedingMethod,
+  TournamentMatch,
+  TournamentPlayer,
+  TournamentSettings,
+  TournamentType
+} from '../lib/tournament/types';
+import { Database } from './db';
+import { errorResponse, jsonResponse } from './responses';
+
+// Tournament routes. The format column of a tournament holds the ID of its
+// type. Participants are keyed by (tournament_id, participant_name) and
+// appear in matches by their id. The whole bracket is stored in
+// tournament_matches when the tournament is created, with match_number
+// holding the position of a match within its round; recording a result
+// moves the winner on to the next match, and in double elimination the
+// loser down to the losers bracket. Round robins schedule every round up
+// front and rank players in standings. Swiss tournaments only store their
+// first round on creation; every later round, and the playoff of the top
+// cut, is paired once the previous round has been played, and so are the
+// tables of pod tournaments. Tables store their players, scores and
+// placements as JSON in the participants column. The settings column holds
+// the TournamentSettings chosen on creation as JSON. Only the user who
+// created a tournament records results and starts rounds.
+
+export const TOURNAMENT_TYPES: TournamentType[] = [
+  {
+    id: 'single_elimination',
+    name: 'Single Elimination',
+    description: 'Players are out after their first loss. Top seeds get byes when the bracket is not full.',
+    minPlayers: 2,
+    maxPlayers: 128
+  },
+  {
+    id: 'double_elimination',
+    name: 'Double Elimination',
+    description: 'Players drop to the losers bracket after their first loss and are out after their second. ' +
+      'The champions of both brackets meet in the grand final.',
+    minPlayers: 2,
+    maxPlayers: 128
+  },
+  {
+    id: 'round_robin',
+    name: 'Round Robin',
+    description: 'Everyone plays everyone, once or twice. Players are ranked by points, then by tiebreakers.',
+    minPlayers: 2,
+    maxPlayers: 32
+  },
+  {
+    id: 'swiss',
+    name: 'Swiss',
+    description: 'Players with the same record meet each round, without rematches. ' +
+      'The best players after the last round can play a single-elimination playoff.',
+    minPlayers: 2,
+    maxPlayers: 256
+  },
+  {
+    id: 'pods',
+    name: 'Multi-player Pods',
+    description: 'Players are seated at tables of 3 or more, with table sizes kept even. ' +
+      'The top players of each table advance to a final table, or everyone scores points by placement.',
+    minPlayers: 3,
+    maxPlayers: 256
+  }
+];
+
+interface TournamentRow {
+  id: string;
+  name: string;
+  description: string | null;
+  game_id: string;
+  game_name: string | null;
+  format: string;
+  seeding: string | null;
+  settings: string | null;
+  status: string;
+  start_date: string | null;
+  end_date: string | null;
+  created_at: string;
+}
+
+interface ParticipantRow {
+  id: string;
+  participant_name: string;
+  seed: number | null;
+  rating: number | null;
+}
+
+interface MatchRow {
+  id: string;
+  round: number;
+  match_number: number;
+  player1_id: string | null;
+  player2_id: string | null;
+  winner_id: string | null;
+  score1: number | null;
+  score2: number | null;
+  status: string;
+  next_match_id: string | null;
+  next_slot: number | null;
+  loser_match_id: string | null;
+  loser_slot: number | null;
+  bracket: string | null;
+  is_bye: number | boolean | null;
+  participants: string | null;
+}
+
+const MATCH_STATUSES: TournamentMatch['status'][] = ['pending', 'in_progress', 'completed'];
+
+const BRACKETS: TournamentMatch['bracket'][] = ['winners', 'losers', 'grand_final', 'swiss', 'playoff', 'pods'];
+
+// Swiss tournaments cut to a top 8 playoff unless told otherwise
+const DEFAULT_TOP_CUT = 8;
+
+const toSlot = (slot: number | null): 1 | 2 | null => slot === 1 || slot === 2 ? slot : null;
+
+const parseParticipants = (participants: string | null): PodParticipant[] | null => {
+  try {
+    const parsed = participants ? JSON.parse(participants) : null;
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const toMatch = (row: MatchRow): TournamentMatch => ({
+  id: row.id,
+  round: row.round,
+  position: row.match_number,
+  player1Id: row.player1_id,
+  player2Id: row.player2_id,
+  winnerId: row.winner_id,
+  score1: row.score1,
+  score2: row.score2,
+  status: MATCH_STATUSES.includes(row.status as TournamentMatch['status']) ? row.status as TournamentMatch['status'] : 'pending',
+  nextMatchId: row.next_match_id,
+  nextSlot: toSlot(row.next_slot),
+  ...(row.loser_match_id ? { loserMatchId: row.loser_match_id, loserSlot: toSlot(row.loser_slot) } : {}),
+  ...(BRACKETS.includes(row.bracket as TournamentMatch['bracket']) ? { bracket: row.bracket as TournamentMatch['bracket'] } : {}),
+  ...(row.is_bye ? { bye: true } : {}),
+  ...(parseParticipants(row.participants) ? { participants: parseParticipants(row.participants) } : {})
+});
+
+const parseSettings = (settings: string | null): TournamentSettings => {
+  try {
+    return settings ? JSON.parse(settings) : {};
+  } catch {
+    return {};
+  }
+};
+
+const toPlayer = (row: ParticipantRow): TournamentPlayer => ({
+  id: row.id,
+  name: row.participant_name,
+  ...(row.seed !== null ? { seed: row.seed } : {}),
+  ...(row.rating !== null ? { rating: row.rating } : {})
+});
+
+const loadPlayers = async (db: Database, tournamentId: string): Promise<TournamentPlayer[]> => {
+  const { results } = await db
+    .prepare('SELECT id, participant_name, seed, rating FROM tournament_participants WHERE tournament_id = ? ORDER BY seed')
+    .bind(tournamentId)
+    .all<ParticipantRow>();
+  
+  return results.map(toPlayer);
+};
+
+export const loadMatches = async (db: Database, tournamentId: string): Promise<TournamentMatch[]> => {
+  const { results } = await db
+    .prepare('SELECT * FROM tournament_matches WHERE tournament_id = ? ORDER BY round, match_number')
+    .bind(tournamentId)
+    .all<MatchRow>();
+  
+  return results.map(toMatch);
+};
+
+// Insert new matches and update existing ones
+export const saveMatches = async (db: Database, tournamentId: string, matches: TournamentMatch[]) => {
+  if (matches.length === 0) return;
+  
+  await db.batch(matches.map(match => db
+    .prepare(
+      `INSERT INTO tournament_matches (id, tournament_id, round, match_number, player1_id, player2_id, winner_id,
+        score1, score2, status, next_match_id, next_slot, loser_match_id, loser_slot, bracket, is_bye, participants)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET player1_id = excluded.player1_id, player2_id = excluded.player2_id,
+        winner_id = excluded.winner_id, score1 = excluded.score1, score2 = excluded.score2, status = excluded.status,
+        is_bye = excluded.is_bye, participants = excluded.participants`
+    )
+    .bind(
+      match.id,
+      tournamentId,
+      match.round,
+      match.position,
+      match.player1Id,
+      match.player2Id,
+      match.winnerId,
+      match.score1,
+      match.score2,
+      match.status,
+      match.nextMatchId,
+      match.nextSlot,
+      match.loserMatchId ?? null,
+      match.loserSlot ?? null,
+      match.bracket ?? null,
+      match.bye ? 1 : 0,
+      match.participants ? JSON.stringify(match.participants) : null
+    )
+  ));
+};
+
+const isPlayerList = (players: any): boolean => {
+  return Array.isArray(players) && players.every(player =>
+    player && typeof player.name === 'string' && player.name.trim() !== '' &&
+    (player.seed === undefined || typeof player.seed === 'number') &&
+    (player.rating === undefined || player.rating === null || typeof player.rating === 'number')
+  );
+};
+
+// Scores or placements of the players at a table, by player ID
+const isNumberMap = (value: any): boolean => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(number => typeof number === 'number');
+};
+
+// The settings of a new tournament of a type, from the request body
+const getSettings = (type: TournamentType, body: any): { settings: TournamentSettings; problems: string[] } => {
+  switch (type.id) {
+    case 'double_elimination':
+      return { settings: { bracketReset: body.bracketReset !== false }, problems: [] };
+    
+    case 'round_robin': {
+      const standings = body.standings ?? DEFAULT_STANDINGS;
+      return {
+        settings: { doubleRoundRobin: body.doubleRoundRobin === true, standings },
+        problems: getStandingsProblems(standings)
+      };
+    }
+    
+    case 'swiss': {
+      const playerCount = body.players.length;
+      const swissRounds = body.swissRounds ?? getSwissRoundCount(playerCount);
+      const topCut = body.topCut ?? DEFAULT_TOP_CUT;
+      const standings = body.standings ?? SWISS_STANDINGS;
+      
+      const problems = getStandingsProblems(standings);
+      if (!Number.isInteger(swissRounds) || swissRounds < 1 || swissRounds > Math.max(1, playerCount - 1)) {
+        problems.push(`Swiss tournaments of ${playerCount} players play 1 to ${Math.max(1, playerCount - 1)} rounds`);
+      }
+      if (!Number.isInteger(topCut) || topCut < 0 || topCut === 1) {
+        problems.push('The top cut must take at least 2 players, or 0 for no playoff');
+      }
+      
+      return { settings: { swissRounds, topCut, standings }, problems };
+    }
+    
+    case 'pods': {
+      const podSize = body.podSize ?? DEFAULT_POD_SIZE;
+      const podAdvancement = body.podAdvancement ?? getDefaultAdvancement(podSize);
+      return { settings: { podSize, podAdvancement }, problems: getPodSettingsProblems(podSize, podAdvancement, body.players.length) };
+    }
+    
+    default:
+      return { settings: {}, problems: [] };
+  }
+};
+
+const createMatches = (typeId: string, seeded: TournamentPlayer[], settings: TournamentSettings): TournamentMatch[] => {
+  switch (typeId) {
+    case 'double_elimination':
+      return createDoubleElimination(seeded, { bracketReset: settings.bracketReset });
+    case 'round_robin':
+      return createRoundRobin(seeded, { double: settings.doubleRoundRobin });
+    case 'swiss':
+      return pairSwissRound(seeded, [], settings.standings);
+    case 'pods':
+      return seatPodRound(seeded, [], settings.podSize, settings.podAdvancement);
+    default:
+      return createSingleElimination(seeded);
+  }
+};
+
+// Round robins end when every match has been played, brackets when their
+// final has. Swiss tournaments end with their playoff, or with their last
+// round when there is no top cut. Pod tournaments end with their final
+// table, or with their last round when scoring by placement.
+const isFinished = (typeId: string, matches: TournamentMatch[], settings: TournamentSettings): boolean => {
+  if (typeId === 'round_robin') return matches.every(match => match.status === 'completed');
+  
+  if (typeId === 'swiss') {
+    const playoff = matches.filter(match => match.bracket === 'playoff');
+    if (playoff.length > 0) return getChampionId(playoff) !== null;
+    return !settings.topCut && getPairedRounds(matches) >= settings.swissRounds &&
+      matches.every(match => match.status === 'completed');
+  }
+  
+  if (typeId === 'pods') return isPodTournamentFinished(matches, settings.podAdvancement);
+  
+  return getChampionId(matches) !== null;
+};
+
+// A response refusing a user who did not create a tournament, or null when
+// the user may run it
+const checkOrganizer = (tournament: { created_by: string } | null, userId: string | null): Response | null => {
+  if (!userId) {
+    return errorResponse('Sign in to run tournaments', 401);
+  }
+  
+  if (!tournament) {
+    return errorResponse('Tournament not found', 404);
+  }
+  
+  return tournament.created_by === userId ? null : errorResponse('Only the organizer of a tournament can run it', 403);
+};
+
+// GET /api/tournaments/types
+export const handleListTournamentTypes = (): Response => {
+  return jsonResponse(TOURNAMENT_TYPES);
+};
+
+// POST /api/tournaments creates a tournament with its players and bracket.
+// Players are seeded by { seeding }: random (the default), manual using the
+// seed of every player, or rating. Double elimination plays a bracket reset
+// unless { bracketReset: false }. Round robins are played twice with
+// { doubleRoundRobin: true } and take the { standings } points and
+// tiebreakers, 3/1/0 points by default. Swiss tournaments play
+// { swissRounds }, by default enough for a single unbeaten player, and cut to
+// a playoff of the { topCut } best players, 8 by default and 0 for none.
+// Pod tournaments seat { podSize } players at a table, 4 by default, and
+// move them on by { podAdvancement }: the top 2 of each table by default.
+export const handleCreateTournament = async (db: Database, request: Request, userId: string): Promise<Response> => {
+  const body = await request.json().catch(() => null);
+  
+  if (!body || typeof body.gameId !== 'string' || typeof body.name !== 'string' || !body.name.trim()) {
+    return errorResponse('Expected a gameId and a name');
+  }
+  
+  const type = TOURNAMENT_TYPES.find(type => type.id === body.typeId);
+  if (!type) {
+    return errorResponse('Unknown tournament type');
+  }
+  
+  if (!isPlayerList(body.players)) {
+    return errorResponse('Expected a list of players with a name and optionally a seed and rating');
+  }
+  
+  const seeding: SeedingMethod = body.seeding ?? 'random';
+  if (!SEEDING_METHODS.includes(seeding)) {
+    return errorResponse(`Seeding must be one of ${SEEDING_METHODS.join(', ')}`);
+  }
+  
+  if (body.players.length < type.minPlayers || body.players.length > type.maxPlayers) {
+    return errorResponse(`${type.name} tournaments take ${type.minPlayers} to ${type.maxPlayers} players`);
+  }
+  
+  const players: TournamentPlayer[] = body.players.map((player: any) => ({
+    id: crypto.randomUUID(),
+    name: player.name.trim(),
+    ...(player.seed !== undefined ? { seed: player.seed } : {}),
+    ...(typeof player.rating === 'number' ? { rating: player.rating } : {})
+  }));
+  
+  const { settings, problems: settingsProblems } = getSettings(type, body);
+  const problems = [...getSeedingProblems(players, seeding), ...settingsProblems];
+  if (problems.length > 0) {
+    return errorResponse(problems.join('. '));
+  }
+  
+  const game = await db.prepare('SELECT id FROM games WHERE id = ?').bind(body.gameId).first();
+  if (!game) {
+    return errorResponse('Game not found', 404);
+  }
+  
+  const tournamentId = crypto.randomUUID();
+  const seeded = seedPlayers(players, seeding);
+  const matches = createMatches(type.id, seeded, settings);
+  
+  await db.batch([
+    db
+      .prepare(
+        `INSERT INTO tournaments (id, name, description, game_id, format, seeding, settings, status, created_by, start_date, end_date)
+        VALUES (?, ?, ?, ?, ?, ?, ?, 'upcoming', ?, ?, ?)`
+      )
+      .bind(
+        tournamentId,
+        body.name.trim(),
+        typeof body.description === 'string' ? body.description : null,
+        body.gameId,
+        type.id,
+        seeding,
+        JSON.stringify(settings),
+        userId,
+        body.startDate || null,
+        body.endDate || null
+      ),
+    ...seeded.map(player => db
+      .prepare('INSERT INTO tournament_participants (tournament_id, id, participant_name, seed, rating) VALUES (?, ?, ?, ?, ?)')
+      .bind(tournamentId, player.id, player.name, player.seed, player.rating ?? null)
+    )
+  ]);
+  await saveMatches(db, tournamentId, matches);
+  
+  return jsonResponse({ id: tournamentId }, 201);
+};
+
+// GET /api/tournaments/:id returns a tournament with its players in seed order
+export const handleGetTournament = async (db: Database, tournamentId: string): Promise<Response> => {
+  const row = await db
+    .prepare('SELECT t.*, g.name AS game_name FROM tournaments t LEFT JOIN games g ON g.id = t.game_id WHERE t.id = ?')
+    .bind(tournamentId)
+    .first<TournamentRow>();
+  if (!row) {
+    return errorResponse('Tournament not found', 404);
+  }
+  
+  const players = await loadPlayers(db, tournamentId);
+  const type = TOURNAMENT_TYPES.find(type => type.id === row.format);
+  
+  return jsonResponse({
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    gameId: row.game_id,
+    gameName: row.game_name,
+    typeId: row.format,
+    typeName: type?.name || row.format,
+    seeding: row.seeding,
+    settings: parseSettings(row.settings),
+    startDate: row.start_date,
+    endDate: row.end_date,
+    status: row.status,
+    createdAt: row.created_at,
+    players
+  });
+};
+
+// GET /api/tournaments/:id/matches
+export const handleListMatches = async (db: Database, tournamentId: string): Promise<Response> => {
+  return jsonResponse(await loadMatches(db, tournamentId));
+};
+
+// PUT /api/tournaments/:id/matches/:matchId records the { score1, score2 }
+// of a match. Returns every match of the tournament, as the winner moving on
+// changes the next match too. Only round robins and Swiss rounds allow draws.
+// Tables of pod tournaments take the { scores } of their players by player
+// ID instead, and optionally their { placements } when not decided by score.
+export const handlePutMatchResult = async (
+  db: Database,
+  tournamentId: string,
+  matchId: string,
+  request: Request,
+  userId: string | null
+): Promise<Response> => {
+  const tournament = await db
+    .prepare('SELECT format, settings, created_by FROM tournaments WHERE id = ?')
+    .bind(tournamentId)
+    .first<{ format: string; settings: string | null; created_by: string }>();
+  const refused = checkOrganizer(tournament, userId);
+  if (refused) return refused;
+  
+  const body = await request.json().catch(() => null);
+  
+  if (!body) {
+    return errorResponse('Expected the result of the match');
+  }
+  
+  const isPods = tournament.format === 'pods';
+  if (isPods && (!isNumberMap(body.scores) || (body.placements != null && !isNumberMap(body.placements)))) {
+    return errorResponse('Expected the scores of the players at the table, and optionally their placements, by player ID');
+  }
+  
+  if (!isPods && (typeof body.score1 !== 'number' || typeof body.score2 !== 'number')) {
+    return errorResponse('Expected a score1 and a score2');
+  }
+  
+  const settings = parseSettings(tournament.settings);
+  const matches = await loadMatches(db, tournamentId);
+  const allowDraws = tournament.format === 'round_robin' ||
+    matches.find(match => match.id === matchId)?.bracket === 'swiss';
+  
+  let updated: TournamentMatch[];
+  try {
+    updated = isPods
+      ? recordPodResult(matches, matchId, body.scores, body.placements ?? null, settings.podAdvancement)
+      : recordMatchResult(matches, matchId, body.score1, body.score2, { allowDraws });
+  } catch (err) {
+    if (err instanceof BracketError) {
+      return errorResponse(err.message, err.message === 'Match not found' ? 404 : 400);
+    }
+    throw err;
+  }
+  
+  const changed = updated.filter((match, index) => JSON.stringify(match) !== JSON.stringify(matches[index]));
+  await saveMatches(db, tournamentId, changed);
+  
+  await db
+    .prepare('UPDATE tournaments SET status = ? WHERE id = ?')
+    .bind(isFinished(tournament.format, updated, settings) ? 'completed' : 'active', tournamentId)
+    .run();
+  
+  return jsonResponse(updated);
+};
+
+// POST /api/tournaments/:id/rounds pairs the next round of a Swiss
+// tournament once every match of the current round has been played, and
+// after the last round starts the playoff of the top cut. Pod tournaments
+// seat the tables of their next round the same way. Returns every match of
+// the tournament.
+export const handleStartNextRound = async (db: Database, tournamentId: string, userId: string | null): Promise<Response> => {
+  const row = await db
+    .prepare('SELECT format, settings, created_by FROM tournaments WHERE id = ?')
+    .bind(tournamentId)
+    .first<{ format: string; settings: string | null; created_by: string }>();
+  const refused = checkOrganizer(row, userId);
+  if (refused) return refused;
+  
+  if (row.format !== 'swiss' && row.format !== 'pods') {
+    return errorResponse('Only Swiss and pod tournaments are paired round by round');
+  }
+  
+  const settings = parseSettings(row.settings);
+  const players = await loadPlayers(db, tournamentId);
+  const matches = await loadMatches(db, tournamentId);
+  
+  if (row.format === 'pods') {
+    let tables: TournamentMatch[];
+    try {
+      tables = seatPodRound(players, matches, settings.podSize, settings.podAdvancement);
+    } catch (err) {
+      if (err instanceof BracketError) {
+        return errorResponse(err.message);
+      }
+      throw err;
+    }
+    
+    await saveMatches(db, tournamentId, tables);
+    await db.prepare('UPDATE tournaments SET status = ? WHERE id = ?').bind('active', tournamentId).run();
+    
+    return jsonResponse([...matches, ...tables], 201);
+  }
+  
+  const standings = settings.standings ?? SWISS_STANDINGS;
+  const swissRounds = settings.swissRounds ?? getSwissRoundCount(players.length);
+  
+  if (matches.some(match => match.bracket === 'playoff')) {
+    return errorResponse('The playoff has already started');
+  }
+  
+  let created: TournamentMatch[];
+  try {
+    if (getPairedRounds(matches) < swissRounds) {
+      created = pairSwissRound(players, matches, standings);
+    } else if (settings.topCut) {
+      created = createTopCut(players, matches, settings.topCut, standings);
+    } else {
+      return errorResponse('Every round has been played');
+    }
+  } catch (err) {
+    if (err instanceof BracketError) {
+      return errorResponse(err.message);
+    }
+    throw err;
+  }
+  
+  await saveMatches(db, tournamentId, created);
+  await db.prepare('UPDATE tournaments SET status = ? WHERE id = ?').bind('active', tournamentId).run();
+  
+  return jsonResponse([...matches, ...created], 201);
+};
+
+// GET /api/tournaments/:id/standings ranks the players of a round robin or
+// of the Swiss rounds by the points and tiebreakers of the tournament, and
+// those of a pod tournament by their placement points
+export const handleGetStandings = async (db: Database, tournamentId: string): Promise<Response> => {
+  const row = await db
+    .prepare('SELECT format, settings FROM tournaments WHERE id = ?')
+    .bind(tournamentId)
+    .first<{ format: string; settings: string | null }>();
+  if (!row) {
+    return errorResponse('Tournament not found', 404);
+  }
+  
+  const settings = parseSettings(row.settings);
+  const scoredByPlacement = row.format === 'pods' && settings.podAdvancement?.type === 'placement_points';
+  if (row.format !== 'round_robin' && row.format !== 'swiss' && !scoredByPlacement) {
+    return errorResponse('Only round robin, Swiss and pod tournaments scored by placement have standings');
+  }
+  
+  const players = await loadPlayers(db, tournamentId);
+  const matches = await loadMatches(db, tournamentId);
+  
+  if (settings.podAdvancement?.type === 'placement_points') {
+    return jsonResponse(getPodStandings(players, matches, settings.podAdvancement.points));
+  }
+  
+  if (row.format === 'swiss') {
+    const swissMatches = matches.filter(match => match.bracket === 'swiss');
+    return jsonResponse(getStandings(players, swissMatches, settings.standings ?? SWISS_STANDINGS));
+  }
+  
+  return jsonResponse(getStandings(players, matches, settings.standings ?? DEFAULT_STANDINGS));
+};